@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { useAuth, AuthProvider } from './contexts/AuthContext';
+import { PresenceProvider } from './contexts/PresenceContext';
 import Header from './components/common/Header';
 import Footer from './components/common/Footer';
 import ProtectedRoute from './components/common/ProtectedRoute';
@@ -82,7 +83,9 @@ function AppContent() {
 function App() {
   return (
     <AuthProvider>
-      <AppContent />
+      <PresenceProvider>
+        <AppContent />
+      </PresenceProvider>
     </AuthProvider>
   );
 }
@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, EyeOff, Loader2, MessageCircle, RotateCcw, ShieldAlert, Star, X } from 'lucide-react';
+import { fetchReportQueue, REPORT_REASONS, resolveReports } from '../../lib/moderation';
+import { ReportQueueItem } from '../../types';
+
+interface ModerationQueueProps {
+  onClose: () => void;
+}
+
+const reasonLabels = Object.fromEntries(REPORT_REASONS.map(({ key, label }) => [key, label]));
+
+export default function ModerationQueue({ onClose }: ModerationQueueProps) {
+  const [items, setItems] = useState<ReportQueueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchReportQueue()
+      .then(queue => {
+        if (!cancelled) setItems(queue);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load reports');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleResolve = async (item: ReportQueueItem, uphold: boolean) => {
+    setResolvingId(item.targetId);
+    setError('');
+    try {
+      await resolveReports(item.targetType, item.targetId, uphold);
+      setItems(prev => prev.filter(queued => queued.targetId !== item.targetId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resolve reports');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const formatDateTime = (date: Date) =>
+    date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-slate-800 rounded-lg p-6 max-w-2xl w-full max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-2">
+            <ShieldAlert className="h-5 w-5 text-[#3db2ff]" />
+            <h3 className="text-lg font-semibold text-white">Moderation Queue</h3>
+            {!loading && (
+              <span className="bg-slate-700 text-[#cbd5e1] text-xs px-2 py-1 rounded-full">{items.length}</span>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="flex items-center space-x-2 p-3 mb-4 bg-red-900/20 border border-red-600 rounded-md text-red-400">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto space-y-3">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 text-[#3db2ff] animate-spin" />
+            </div>
+          ) : items.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-8">No open reports</p>
+          ) : (
+            items.map(item => (
+              <div key={`${item.targetType}:${item.targetId}`} className="p-4 bg-slate-700 rounded-lg border border-slate-600">
+                <div className="flex items-start justify-between mb-2">
+                  <div className="flex items-center space-x-2 text-sm">
+                    {item.targetType === 'rating' ? (
+                      <Star className="h-4 w-4 text-yellow-400" />
+                    ) : (
+                      <MessageCircle className="h-4 w-4 text-[#3db2ff]" />
+                    )}
+                    <span className="text-white font-medium">
+                      {item.targetType === 'rating' ? 'Review' : 'Message'} by {item.authorName || 'Unknown user'}
+                    </span>
+                    {item.contextName && (
+                      <span className="text-gray-400">
+                        {item.targetType === 'rating' ? 'of' : 'to'} {item.contextName}
+                      </span>
+                    )}
+                  </div>
+                  {item.hidden && (
+                    <span className="flex items-center space-x-1 bg-red-900/30 text-red-400 text-xs px-2 py-1 rounded-full">
+                      <EyeOff className="h-3 w-3" />
+                      <span>Hidden</span>
+                    </span>
+                  )}
+                </div>
+
+                {item.rating !== undefined && (
+                  <div className="flex space-x-1 mb-2">
+                    {Array.from({ length: 5 }, (_, index) => (
+                      <Star
+                        key={index}
+                        className={`h-3 w-3 ${index < item.rating! ? 'text-yellow-400 fill-current' : 'text-gray-400'}`}
+                      />
+                    ))}
+                  </div>
+                )}
+
+                <p className="text-sm text-[#cbd5e1] break-words p-3 bg-slate-800 rounded-md mb-3">
+                  {item.content || <span className="italic text-gray-400">No text</span>}
+                </p>
+
+                <div className="flex flex-wrap gap-2 mb-2">
+                  {item.reasons.map(reason => (
+                    <span key={reason} className="bg-red-900/20 text-red-400 text-xs px-2 py-1 rounded-full">
+                      {reasonLabels[reason] || reason}
+                    </span>
+                  ))}
+                </div>
+
+                {item.details.length > 0 && (
+                  <ul className="text-xs text-gray-400 space-y-1 mb-2 list-disc list-inside">
+                    {item.details.map((detail, index) => (
+                      <li key={index} className="break-words">{detail}</li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="flex items-center justify-between">
+                  <p className="text-xs text-gray-400">
+                    {item.reportCount} report{item.reportCount === 1 ? '' : 's'} · last {formatDateTime(item.lastReportedAt)}
+                  </p>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => handleResolve(item, false)}
+                      disabled={resolvingId !== null}
+                      className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-slate-600 text-white rounded-md hover:bg-slate-500 transition-colors disabled:opacity-50"
+                      title={item.hidden ? 'Close the reports and show the item again' : 'Close the reports'}
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                      <span>Dismiss</span>
+                    </button>
+                    <button
+                      onClick={() => handleResolve(item, true)}
+                      disabled={resolvingId !== null}
+                      className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors disabled:opacity-50"
+                      title="Close the reports and hide the item"
+                    >
+                      {resolvingId === item.targetId ? (
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                      ) : (
+                        <EyeOff className="h-3 w-3" />
+                      )}
+                      <span>Uphold</span>
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
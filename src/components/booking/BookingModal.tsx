@@ -0,0 +1,321 @@
+import React, { useState, useEffect } from 'react';
+import { AvailabilityException, Booking, TimeRange, WeeklyAvailability } from '../../types';
+import { useAuth } from '../../contexts/AuthContext';
+import { supabase } from '../../lib/supabase';
+import { findException, formatRanges, getAvailableSlots, getRangesForDate, hasAvailability, isSlotWithinAvailability, toDateKey } from '../../lib/availability';
+import { X, Calendar, Clock, Send, Loader2, AlertCircle, CheckCircle } from 'lucide-react';
+
+interface BookingModalProps {
+  providerId: string;
+  providerName: string;
+  booking?: Booking; // When set, the modal reschedules this booking
+  onClose: () => void;
+  onBooked?: () => void;
+}
+
+const durationOptions = [
+  { value: 30, label: '30 minutes' },
+  { value: 60, label: '1 hour' },
+  { value: 90, label: '1.5 hours' },
+  { value: 120, label: '2 hours' },
+  { value: 180, label: '3 hours' },
+];
+
+export default function BookingModal({ providerId, providerName, booking, onClose, onBooked }: BookingModalProps) {
+  const { createBooking, rescheduleBooking } = useAuth();
+  const [availability, setAvailability] = useState<WeeklyAvailability | undefined>();
+  const [exceptions, setExceptions] = useState<AvailabilityException[]>([]);
+  const [availabilityLoading, setAvailabilityLoading] = useState(true);
+  const [bookingDate, setBookingDate] = useState(booking?.bookingDate || toDateKey(new Date()));
+  const [duration, setDuration] = useState(60);
+  const [bookedSlots, setBookedSlots] = useState<TimeRange[]>([]);
+  const [selectedSlot, setSelectedSlot] = useState<TimeRange | null>(null);
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const isReschedule = !!booking;
+
+  // Load the provider's latest schedule
+  useEffect(() => {
+    const loadAvailability = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('service_providers')
+          .select('availability, availability_exceptions')
+          .eq('id', providerId)
+          .maybeSingle();
+
+        if (!error && data && hasAvailability(data.availability)) {
+          setAvailability(data.availability);
+          setExceptions(data.availability_exceptions || []);
+        }
+      } catch (error) {
+        console.error('Error loading provider availability:', error);
+      } finally {
+        setAvailabilityLoading(false);
+      }
+    };
+
+    loadAvailability();
+  }, [providerId]);
+
+  // Load slots that are already taken on the selected day
+  useEffect(() => {
+    const loadBookedSlots = async () => {
+      setSelectedSlot(null);
+      try {
+        const { data, error } = await supabase.rpc('get_provider_booked_slots', {
+          target_provider_id: providerId,
+          target_date: bookingDate,
+        });
+
+        if (error) {
+          console.error('Error loading booked slots:', error);
+          setBookedSlots([]);
+          return;
+        }
+
+        setBookedSlots(
+          (data as { start_time: string; end_time: string }[])
+            // The booking being rescheduled should not block its own slot
+            .filter(slot => !(booking && booking.bookingDate === bookingDate && slot.start_time === booking.startTime))
+            .map(slot => ({ start: slot.start_time, end: slot.end_time }))
+        );
+      } catch (error) {
+        console.error('Error loading booked slots:', error);
+        setBookedSlots([]);
+      }
+    };
+
+    loadBookedSlots();
+  }, [providerId, bookingDate, booking]);
+
+  const availableSlots = getAvailableSlots(availability, exceptions, bookingDate, duration, bookedSlots);
+  const dayRanges = getRangesForDate(availability, exceptions, bookingDate);
+  const dayException = findException(exceptions, bookingDate);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedSlot) {
+      setError('Please select a time slot');
+      return;
+    }
+
+    if (!isSlotWithinAvailability(availability, exceptions, bookingDate, selectedSlot)) {
+      setError('The selected time is outside the provider\'s working hours');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      if (isReschedule) {
+        await rescheduleBooking(booking.id, bookingDate, selectedSlot.start, selectedSlot.end);
+        setSuccess('Booking rescheduled! The new time needs to be confirmed.');
+      } else {
+        await createBooking(providerId, bookingDate, selectedSlot.start, selectedSlot.end, notes);
+        setSuccess('Booking requested! The provider will confirm shortly.');
+      }
+
+      setTimeout(() => {
+        onBooked?.();
+        onClose();
+      }, 1500);
+    } catch (error) {
+      console.error('Booking failed:', error);
+      setError(error instanceof Error ? error.message : 'Failed to submit booking. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-slate-800 rounded-lg max-w-lg w-full shadow-2xl max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-700">
+          <div>
+            <h2 className="text-xl font-bold text-white">
+              {isReschedule ? 'Reschedule Booking' : 'Request a Booking'}
+            </h2>
+            <p className="text-sm text-[#cbd5e1]">{providerName}</p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={loading}
+            className="text-gray-400 hover:text-white transition-colors disabled:cursor-not-allowed"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {availabilityLoading ? (
+          <div className="text-center py-12">
+            <Loader2 className="h-8 w-8 text-[#3db2ff] mx-auto mb-4 animate-spin" />
+            <p className="text-[#cbd5e1]">Loading availability...</p>
+          </div>
+        ) : !availability ? (
+          <div className="text-center py-12 px-6">
+            <Clock className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-[#cbd5e1]">This provider hasn't set their working hours yet. Start a chat to arrange a time.</p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-6 space-y-6">
+            {/* Date and Duration */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="bookingDate" className="block text-sm font-medium text-[#cbd5e1] mb-2">
+                  Date
+                </label>
+                <div className="relative">
+                  <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <input
+                    id="bookingDate"
+                    type="date"
+                    value={bookingDate}
+                    min={toDateKey(new Date())}
+                    onChange={(e) => setBookingDate(e.target.value)}
+                    disabled={loading}
+                    className="w-full pl-10 pr-4 py-2 bg-slate-700 border border-slate-600 rounded-md text-white focus:border-[#3db2ff] focus:outline-none disabled:opacity-50"
+                  />
+                </div>
+              </div>
+              <div>
+                <label htmlFor="duration" className="block text-sm font-medium text-[#cbd5e1] mb-2">
+                  Duration
+                </label>
+                <select
+                  id="duration"
+                  value={duration}
+                  onChange={(e) => {
+                    setDuration(Number(e.target.value));
+                    setSelectedSlot(null);
+                  }}
+                  disabled={loading}
+                  className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-md text-white focus:border-[#3db2ff] focus:outline-none disabled:opacity-50"
+                >
+                  {durationOptions.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {/* Time Slots */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-[#cbd5e1]">Available times</label>
+                {dayRanges.length > 0 && (
+                  <span className="text-xs text-gray-400">
+                    Open {formatRanges(dayRanges)}
+                  </span>
+                )}
+              </div>
+              {dayException?.note && (
+                <p className="text-xs text-[#3db2ff] mb-2">{dayException.note}</p>
+              )}
+              {dayRanges.length === 0 ? (
+                <p className="text-sm text-red-400 bg-slate-700 rounded-md p-3">
+                  Closed on this day. Please pick another date.
+                </p>
+              ) : availableSlots.length === 0 ? (
+                <p className="text-sm text-yellow-400 bg-slate-700 rounded-md p-3">
+                  No free slots for this duration. Try a shorter duration or another date.
+                </p>
+              ) : (
+                <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                  {availableSlots.map(slot => (
+                    <button
+                      key={slot.start}
+                      type="button"
+                      onClick={() => {
+                        setSelectedSlot(slot);
+                        setError('');
+                      }}
+                      disabled={loading}
+                      className={`px-2 py-2 rounded-md text-sm transition-colors disabled:cursor-not-allowed ${
+                        selectedSlot?.start === slot.start
+                          ? 'bg-[#3db2ff] text-white'
+                          : 'bg-slate-700 text-[#cbd5e1] hover:bg-slate-600 hover:text-white'
+                      }`}
+                    >
+                      {slot.start}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Notes */}
+            {!isReschedule && (
+              <div>
+                <label htmlFor="bookingNotes" className="block text-sm font-medium text-[#cbd5e1] mb-2">
+                  Notes for the provider (optional)
+                </label>
+                <textarea
+                  id="bookingNotes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  disabled={loading}
+                  rows={3}
+                  maxLength={500}
+                  className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:border-[#3db2ff] focus:ring-1 focus:ring-[#3db2ff] focus:outline-none resize-none disabled:opacity-50 disabled:cursor-not-allowed"
+                  placeholder="Describe the job, access instructions, etc."
+                />
+              </div>
+            )}
+
+            {/* Success Message */}
+            {success && (
+              <div className="flex items-center space-x-2 text-green-400 text-sm bg-green-900/20 border border-green-600 rounded-md p-3">
+                <CheckCircle className="h-4 w-4 flex-shrink-0" />
+                <span>{success}</span>
+              </div>
+            )}
+
+            {/* Error Message */}
+            {error && (
+              <div className="flex items-center space-x-2 text-red-400 text-sm bg-red-900/20 border border-red-600 rounded-md p-3">
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            {/* Action Buttons */}
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={loading}
+                className="flex-1 px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-md transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!selectedSlot || loading || !!success}
+                className="flex-1 bg-gradient-to-r from-[#3db2ff] to-[#00c9a7] hover:from-[#2563eb] hover:to-[#059669] disabled:from-gray-600 disabled:to-gray-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-md transition-all flex items-center justify-center"
+              >
+                {loading ? (
+                  <>
+                    <Loader2 className="animate-spin h-4 w-4 mr-2" />
+                    Submitting...
+                  </>
+                ) : (
+                  <>
+                    <Send className="h-4 w-4 mr-2" />
+                    {isReschedule ? 'Reschedule' : 'Request Booking'}
+                  </>
+                )}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Booking, BookingStatus } from '../../types';
+import { useAuth } from '../../contexts/AuthContext';
+import { parseDateKey, toDateKey } from '../../lib/availability';
+import BookingModal from './BookingModal';
+import { Calendar, Clock, User, CheckCircle, XCircle, RefreshCw, Loader2, CalendarClock, Ban } from 'lucide-react';
+
+type BookingFilter = 'upcoming' | 'requested' | 'past';
+
+const statusStyles: Record<BookingStatus, string> = {
+  requested: 'bg-yellow-500 text-white',
+  confirmed: 'bg-green-500 text-white',
+  declined: 'bg-red-500 text-white',
+  cancelled: 'bg-gray-500 text-white',
+  completed: 'bg-[#3db2ff] text-white',
+};
+
+export default function BookingsList() {
+  const { user, getBookings, updateBookingStatus } = useAuth();
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<BookingFilter>('upcoming');
+  const [updatingBookingId, setUpdatingBookingId] = useState<string | null>(null);
+  const [reschedulingBooking, setReschedulingBooking] = useState<Booking | null>(null);
+
+  const isProvider = user?.role === 'provider';
+
+  const loadBookings = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await getBookings();
+      setBookings(data);
+    } catch (error) {
+      console.error('Error loading bookings:', error);
+      setBookings([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [getBookings]);
+
+  useEffect(() => {
+    loadBookings();
+  }, [loadBookings]);
+
+  const handleStatusChange = async (bookingId: string, status: BookingStatus) => {
+    setUpdatingBookingId(bookingId);
+    try {
+      const success = await updateBookingStatus(bookingId, status);
+      if (success) {
+        await loadBookings();
+      } else {
+        alert('Failed to update booking. Please try again.');
+      }
+    } finally {
+      setUpdatingBookingId(null);
+    }
+  };
+
+  const today = toDateKey(new Date());
+  const isActive = (booking: Booking) => booking.status === 'requested' || booking.status === 'confirmed';
+
+  const filteredBookings = bookings.filter(booking => {
+    if (filter === 'requested') return booking.status === 'requested';
+    if (filter === 'past') return booking.bookingDate < today || !isActive(booking);
+    return booking.bookingDate >= today && isActive(booking);
+  });
+
+  const requestedCount = bookings.filter(booking => booking.status === 'requested').length;
+
+  const formatDate = (dateKey: string) => {
+    return parseDateKey(dateKey).toLocaleDateString([], {
+      weekday: 'short',
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  const filters: { key: BookingFilter; label: string }[] = [
+    { key: 'upcoming', label: 'Upcoming' },
+    { key: 'requested', label: `Awaiting Confirmation${requestedCount > 0 ? ` (${requestedCount})` : ''}` },
+    { key: 'past', label: 'Past & Closed' },
+  ];
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Bookings</h2>
+          <p className="text-[#cbd5e1] text-sm">
+            {isProvider ? 'Accept, reschedule or cancel appointment requests' : 'Track and manage your appointments'}
+          </p>
+        </div>
+        <button
+          onClick={loadBookings}
+          disabled={loading}
+          className="flex items-center justify-center space-x-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white px-4 py-2 rounded-md transition-colors text-sm"
+        >
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          <span>Refresh</span>
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap gap-2 mb-6">
+        {filters.map(({ key, label }) => (
+          <button
+            key={key}
+            onClick={() => setFilter(key)}
+            className={`px-3 py-1 rounded-full text-sm transition-colors ${
+              filter === key
+                ? 'bg-[#3db2ff] text-white'
+                : 'bg-slate-700 text-[#cbd5e1] hover:bg-slate-600 hover:text-white'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="text-center py-8">
+          <Loader2 className="h-8 w-8 text-[#3db2ff] mx-auto mb-4 animate-spin" />
+          <p className="text-[#cbd5e1]">Loading bookings...</p>
+        </div>
+      ) : filteredBookings.length === 0 ? (
+        <div className="text-center py-8">
+          <div className="bg-slate-700 rounded-full w-16 h-16 flex items-center justify-center mx-auto mb-4">
+            <Calendar className="h-8 w-8 text-gray-400" />
+          </div>
+          <h3 className="text-lg font-semibold text-white mb-2">No Bookings</h3>
+          <p className="text-[#cbd5e1]">
+            {isProvider
+              ? 'Booking requests from customers will appear here.'
+              : 'Open a provider\'s profile and choose "Book" to request an appointment.'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {filteredBookings.map(booking => {
+            const isUpdating = updatingBookingId === booking.id;
+            const canChange = isActive(booking) && booking.bookingDate >= today;
+
+            return (
+              <div key={booking.id} className="bg-slate-700 rounded-lg p-4">
+                <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                  <div className="space-y-2">
+                    <div className="flex items-center space-x-2">
+                      <User className="h-4 w-4 text-gray-400" />
+                      <span className="text-white font-medium">
+                        {isProvider ? booking.userName : booking.providerName}
+                      </span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${statusStyles[booking.status]}`}>
+                        {booking.status}
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-[#cbd5e1]">
+                      <span className="flex items-center space-x-1">
+                        <Calendar className="h-4 w-4" />
+                        <span>{formatDate(booking.bookingDate)}</span>
+                      </span>
+                      <span className="flex items-center space-x-1">
+                        <Clock className="h-4 w-4" />
+                        <span>{booking.startTime} - {booking.endTime}</span>
+                      </span>
+                    </div>
+                    {booking.notes && (
+                      <p className="text-sm text-[#cbd5e1] bg-slate-800 rounded-md p-2">{booking.notes}</p>
+                    )}
+                  </div>
+
+                  {canChange && (
+                    <div className="flex flex-wrap gap-2">
+                      {isUpdating ? (
+                        <Loader2 className="h-5 w-5 text-[#3db2ff] animate-spin" />
+                      ) : (
+                        <>
+                          {isProvider && booking.status === 'requested' && (
+                            <>
+                              <button
+                                onClick={() => handleStatusChange(booking.id, 'confirmed')}
+                                className="flex items-center space-x-1 bg-[#00c9a7] hover:bg-teal-500 text-white px-3 py-1 rounded-md text-sm transition-colors"
+                              >
+                                <CheckCircle className="h-4 w-4" />
+                                <span>Accept</span>
+                              </button>
+                              <button
+                                onClick={() => handleStatusChange(booking.id, 'declined')}
+                                className="flex items-center space-x-1 bg-red-600 hover:bg-red-500 text-white px-3 py-1 rounded-md text-sm transition-colors"
+                              >
+                                <XCircle className="h-4 w-4" />
+                                <span>Decline</span>
+                              </button>
+                            </>
+                          )}
+                          {isProvider && booking.status === 'confirmed' && (
+                            <button
+                              onClick={() => handleStatusChange(booking.id, 'completed')}
+                              className="flex items-center space-x-1 bg-[#3db2ff] hover:bg-blue-500 text-white px-3 py-1 rounded-md text-sm transition-colors"
+                            >
+                              <CheckCircle className="h-4 w-4" />
+                              <span>Mark Completed</span>
+                            </button>
+                          )}
+                          <button
+                            onClick={() => setReschedulingBooking(booking)}
+                            className="flex items-center space-x-1 bg-slate-600 hover:bg-slate-500 text-white px-3 py-1 rounded-md text-sm transition-colors"
+                          >
+                            <CalendarClock className="h-4 w-4" />
+                            <span>Reschedule</span>
+                          </button>
+                          {(!isProvider || booking.status === 'confirmed') && (
+                            <button
+                              onClick={() => {
+                                if (confirm('Cancel this booking?')) {
+                                  handleStatusChange(booking.id, 'cancelled');
+                                }
+                              }}
+                              className="flex items-center space-x-1 bg-slate-600 hover:bg-red-600 text-white px-3 py-1 rounded-md text-sm transition-colors"
+                            >
+                              <Ban className="h-4 w-4" />
+                              <span>Cancel</span>
+                            </button>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Reschedule Modal */}
+      {reschedulingBooking && (
+        <BookingModal
+          providerId={reschedulingBooking.providerId}
+          providerName={reschedulingBooking.providerName}
+          booking={reschedulingBooking}
+          onClose={() => setReschedulingBooking(null)}
+          onBooked={loadBookings}
+        />
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { useAuth } from '../../contexts/AuthContext';
 import { ServiceProvider, ChatMessage } from '../../types';
 import { X, Send, User, Loader2 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { ChatMessageRow, isMessageVisibleTo, mapChatMessage, MessageSubscriptionHandlers, subscribeToMessages } from '../../lib/messaging';
 
 interface ChatModalProps {
   provider: ServiceProvider;
@@ -16,7 +17,7 @@ export default function ChatModal({ provider, onClose }: ChatModalProps) {
   const [loading, setLoading] = useState(false);
   const [sendingMessage, setSendingMessage] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const realtimeHandlersRef = useRef<MessageSubscriptionHandlers>({});
 
   const refreshConversation = async () => {
     if (user && !loading) {
@@ -33,14 +34,7 @@ export default function ChatModal({ provider, onClose }: ChatModalProps) {
           return;
         }
 
-        const chatMessages: ChatMessage[] = messages.map(msg => ({
-          id: msg.id,
-          senderId: msg.sender_id,
-          receiverId: msg.receiver_id,
-          content: msg.content,
-          timestamp: new Date(msg.created_at),
-          read: msg.read,
-        }));
+        const chatMessages: ChatMessage[] = messages.map(mapChatMessage);
 
         setConversation(chatMessages);
         
@@ -58,16 +52,40 @@ export default function ChatModal({ provider, onClose }: ChatModalProps) {
     refreshConversation();
   }, [user, provider.id]);
 
-  // Set up polling for new messages (every 5 seconds)
-  useEffect(() => {
-    intervalRef.current = setInterval(refreshConversation, 5000);
-    
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
+  const isThisConversation = (row: ChatMessageRow) => 
+    row.sender_id === provider.id || row.receiver_id === provider.id;
+
+  // Push new messages, read flags and deletions in this conversation
+  realtimeHandlersRef.current = {
+    onInsert: (row) => {
+      if (!user || !isThisConversation(row) || !isMessageVisibleTo(row, user.id)) return;
+
+      setConversation(prev => 
+        prev.some(msg => msg.id === row.id) ? prev : [...prev, mapChatMessage(row)]
+      );
+
+      if (row.receiver_id === user.id) {
+        markMessagesAsRead(provider.id, user.id);
       }
-    };
-  }, [user, provider.id]);
+    },
+    onUpdate: (row) => {
+      if (!user || !isThisConversation(row)) return;
+
+      if (!isMessageVisibleTo(row, user.id)) {
+        setConversation(prev => prev.filter(msg => msg.id !== row.id));
+        return;
+      }
+
+      const message = mapChatMessage(row);
+      setConversation(prev => prev.map(msg => msg.id === message.id ? message : msg));
+    },
+    onResync: refreshConversation,
+  };
+
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToMessages(user.id, realtimeHandlersRef);
+  }, [user]);
 
   useEffect(() => {
     scrollToBottom();
@@ -85,9 +103,6 @@ export default function ChatModal({ provider, onClose }: ChatModalProps) {
     try {
       await sendMessage(provider.id, message.trim());
       setMessage('');
-      
-      // Immediately refresh conversation to show the new message
-      setTimeout(refreshConversation, 200);
     } catch (error) {
       console.error('Failed to send message:', error);
     } finally {
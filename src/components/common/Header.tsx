@@ -1,7 +1,10 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
-import { LogOut, User, Settings, MessageCircle, Bell, Menu, X, Loader2 } from 'lucide-react';
+import { LogOut, User, Settings, MessageCircle, Bell, Menu, X, Loader2, ShieldAlert } from 'lucide-react';
 import UserSettings from '../profile/UserSettings';
+import ModerationQueue from '../admin/ModerationQueue';
+import { checkIsAdmin } from '../../lib/moderation';
+import NotificationBell from './NotificationBell';
 
 interface HeaderProps {
   onAuthClick: () => void;
@@ -13,6 +16,26 @@ export default function Header({ onAuthClick, onLogoClick }: HeaderProps) {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [loggingOut, setLoggingOut] = useState(false);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [showModeration, setShowModeration] = useState(false);
+  const userId = user?.id;
+
+  // Admins get the moderation queue
+  useEffect(() => {
+    if (!userId) {
+      setIsAdmin(false);
+      return;
+    }
+
+    let cancelled = false;
+    checkIsAdmin().then(admin => {
+      if (!cancelled) setIsAdmin(admin);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
 
   // Get unread message count for notification badge
   const getUnreadMessageCount = () => {
@@ -56,93 +79,109 @@ export default function Header({ onAuthClick, onLogoClick }: HeaderProps) {
               </button>
             </div>
 
-            {/* Desktop Navigation */}
-            <div className="hidden md:flex items-center space-x-4">
-              {user ? (
-                <>
-                  {/* Notification Bell for All Users */}
-                  {unreadCount > 0 && (
-                    <div className="relative">
-                      <div className="relative p-2 rounded-full bg-slate-800 hover:bg-slate-700 transition-colors cursor-pointer">
-                        <Bell className="h-5 w-5 text-[#3db2ff]" />
-                        <div className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full min-w-[20px] h-5 flex items-center justify-center px-1 animate-pulse border-2 border-[#0d182c]">
-                          {unreadCount > 99 ? '99+' : unreadCount}
+            <div className="flex items-center space-x-2 md:space-x-4">
+              {/* Review notifications, shared by the desktop and mobile layouts */}
+              <NotificationBell />
+
+              {/* Desktop Navigation */}
+              <div className="hidden md:flex items-center space-x-4">
+                {user ? (
+                  <>
+                    {/* Notification Bell for All Users */}
+                    {unreadCount > 0 && (
+                      <div className="relative">
+                        <div className="relative p-2 rounded-full bg-slate-800 hover:bg-slate-700 transition-colors cursor-pointer">
+                          <Bell className="h-5 w-5 text-[#3db2ff]" />
+                          <div className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full min-w-[20px] h-5 flex items-center justify-center px-1 animate-pulse border-2 border-[#0d182c]">
+                            {unreadCount > 99 ? '99+' : unreadCount}
+                          </div>
                         </div>
                       </div>
-                    </div>
-                  )}
-
-                  {/* User Profile */}
-                  <div className="flex items-center space-x-3">
-                    {(user as any)?.profileImage ? (
-                      <img
-                        src={(user as any).profileImage}
-                        alt={user.name}
-                        className="w-8 h-8 rounded-full object-cover border-2 border-[#3db2ff]"
-                      />
-                    ) : (
-                      <div className="w-8 h-8 rounded-full bg-slate-700 flex items-center justify-center border-2 border-slate-600">
-                        <User className="h-4 w-4 text-gray-400" />
-                      </div>
                     )}
-                    <div className="flex items-center space-x-2 text-[#cbd5e1]">
-                      <span className="text-sm font-medium">{user.name}</span>
-                      <span className={`text-xs px-2 py-1 rounded-full ${
-                        user.role === 'provider' 
-                          ? 'bg-[#00c9a7] text-white' 
-                          : 'bg-[#3db2ff] text-white'
-                      }`}>
-                        {user.role === 'provider' ? 'Provider' : 'User'}
-                      </span>
+
+                    {/* User Profile */}
+                    <div className="flex items-center space-x-3">
+                      {(user as any)?.profileImage ? (
+                        <img
+                          src={(user as any).profileImage}
+                          alt={user.name}
+                          className="w-8 h-8 rounded-full object-cover border-2 border-[#3db2ff]"
+                        />
+                      ) : (
+                        <div className="w-8 h-8 rounded-full bg-slate-700 flex items-center justify-center border-2 border-slate-600">
+                          <User className="h-4 w-4 text-gray-400" />
+                        </div>
+                      )}
+                      <div className="flex items-center space-x-2 text-[#cbd5e1]">
+                        <span className="text-sm font-medium">{user.name}</span>
+                        <span className={`text-xs px-2 py-1 rounded-full ${
+                          user.role === 'provider' 
+                            ? 'bg-[#00c9a7] text-white' 
+                            : 'bg-[#3db2ff] text-white'
+                        }`}>
+                          {user.role === 'provider' ? 'Provider' : 'User'}
+                        </span>
+                      </div>
                     </div>
-                  </div>
 
-                  {/* Settings Button */}
-                  <button
-                    onClick={() => setShowSettings(true)}
-                    className="flex items-center space-x-1 text-[#cbd5e1] hover:text-white transition-colors"
-                  >
-                    <Settings className="h-4 w-4" />
-                    <span>Settings</span>
-                  </button>
+                    {/* Moderation Button */}
+                    {isAdmin && (
+                      <button
+                        onClick={() => setShowModeration(true)}
+                        className="flex items-center space-x-1 text-[#cbd5e1] hover:text-white transition-colors"
+                      >
+                        <ShieldAlert className="h-4 w-4" />
+                        <span>Moderation</span>
+                      </button>
+                    )}
 
+                    {/* Settings Button */}
+                    <button
+                      onClick={() => setShowSettings(true)}
+                      className="flex items-center space-x-1 text-[#cbd5e1] hover:text-white transition-colors"
+                    >
+                      <Settings className="h-4 w-4" />
+                      <span>Settings</span>
+                    </button>
+
+                    <button
+                      onClick={handleLogout}
+                      disabled={loggingOut}
+                      className="flex items-center space-x-1 text-[#cbd5e1] hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {loggingOut ? (
+                        <>
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                          <span>Logging out...</span>
+                        </>
+                      ) : (
+                        <>
+                          <LogOut className="h-4 w-4" />
+                          <span>Logout</span>
+                        </>
+                      )}
+                    </button>
+                  </>
+                ) : (
                   <button
-                    onClick={handleLogout}
-                    disabled={loggingOut}
-                    className="flex items-center space-x-1 text-[#cbd5e1] hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    onClick={onAuthClick}
+                    className="bg-[#3db2ff] hover:bg-blue-500 text-white px-4 py-2 rounded-md transition-colors"
                   >
-                    {loggingOut ? (
-                      <>
-                        <Loader2 className="h-4 w-4 animate-spin" />
-                        <span>Logging out...</span>
-                      </>
-                    ) : (
-                      <>
-                        <LogOut className="h-4 w-4" />
-                        <span>Logout</span>
-                      </>
-                    )}
+                    Connect Now
                   </button>
-                </>
-              ) : (
+                )}
+              </div>
+
+              {/* Mobile Menu Button */}
+              <div className="md:hidden">
                 <button
-                  onClick={onAuthClick}
-                  className="bg-[#3db2ff] hover:bg-blue-500 text-white px-4 py-2 rounded-md transition-colors"
+                  onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
+                  className="text-[#cbd5e1] hover:text-white transition-colors p-2"
+                  disabled={loggingOut}
                 >
-                  Connect Now
+                  {mobileMenuOpen ? <X className="h-6 w-6" /> : <Menu className="h-6 w-6" />}
                 </button>
-              )}
-            </div>
-
-            {/* Mobile Menu Button */}
-            <div className="md:hidden">
-              <button
-                onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
-                className="text-[#cbd5e1] hover:text-white transition-colors p-2"
-                disabled={loggingOut}
-              >
-                {mobileMenuOpen ? <X className="h-6 w-6" /> : <Menu className="h-6 w-6" />}
-              </button>
+              </div>
             </div>
           </div>
 
@@ -198,6 +237,20 @@ export default function Header({ onAuthClick, onLogoClick }: HeaderProps) {
                       </div>
                     )}
 
+                    {/* Moderation */}
+                    {isAdmin && (
+                      <button
+                        onClick={() => {
+                          setShowModeration(true);
+                          setMobileMenuOpen(false);
+                        }}
+                        className="flex items-center space-x-3 px-3 py-2 text-[#cbd5e1] hover:text-white hover:bg-slate-800 rounded-md transition-colors w-full text-left"
+                      >
+                        <ShieldAlert className="h-5 w-5" />
+                        <span>Moderation</span>
+                      </button>
+                    )}
+
                     {/* Settings */}
                     <button
                       onClick={() => {
@@ -250,6 +303,11 @@ export default function Header({ onAuthClick, onLogoClick }: HeaderProps) {
       {showSettings && (
         <UserSettings onClose={() => setShowSettings(false)} />
       )}
+
+      {/* Moderation Queue Modal */}
+      {showModeration && (
+        <ModerationQueue onClose={() => setShowModeration(false)} />
+      )}
     </>
   );
 }
\ No newline at end of file
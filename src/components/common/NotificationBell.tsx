@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import { Bell, MessageSquareReply } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { UserNotification } from '../../types';
+import { fetchNotifications, markNotificationsRead, subscribeToNotifications } from '../../lib/notifications';
+
+export default function NotificationBell() {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [open, setOpen] = useState(false);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) {
+      setNotifications([]);
+      return;
+    }
+
+    fetchNotifications(userId).then(setNotifications);
+    return subscribeToNotifications(userId, notification => {
+      setNotifications(prev => [notification, ...prev.filter(item => item.id !== notification.id)]);
+    });
+  }, [userId]);
+
+  if (!user) return null;
+
+  const unreadCount = notifications.filter(notification => !notification.readAt).length;
+
+  // Opening the list counts as seeing everything in it
+  const handleToggle = () => {
+    const unreadIds = notifications.filter(notification => !notification.readAt).map(notification => notification.id);
+    if (!open && unreadIds.length > 0) {
+      markNotificationsRead(unreadIds);
+      const now = new Date();
+      setNotifications(prev => prev.map(notification => notification.readAt ? notification : { ...notification, readAt: now }));
+    }
+    setOpen(!open);
+  };
+
+  const formatDate = (date: Date) =>
+    date.toLocaleDateString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="relative">
+      <button
+        onClick={handleToggle}
+        className="relative p-2 rounded-full bg-slate-800 hover:bg-slate-700 transition-colors"
+        title="Notifications"
+      >
+        <Bell className={`h-5 w-5 ${unreadCount > 0 ? 'text-[#3db2ff]' : 'text-[#cbd5e1]'}`} />
+        {unreadCount > 0 && (
+          <div className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full min-w-[20px] h-5 flex items-center justify-center px-1 border-2 border-[#0d182c]">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </div>
+        )}
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 top-full mt-2 w-80 max-h-96 overflow-y-auto bg-slate-800 border border-slate-700 rounded-lg shadow-xl z-50">
+            <div className="px-4 py-3 border-b border-slate-700">
+              <h3 className="text-sm font-semibold text-white">Notifications</h3>
+            </div>
+
+            {notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-gray-400 text-center">You're all caught up</p>
+            ) : (
+              notifications.map(notification => (
+                <div key={notification.id} className="flex items-start space-x-3 px-4 py-3 border-b border-slate-700 last:border-b-0">
+                  <MessageSquareReply className="h-4 w-4 text-[#3db2ff] flex-shrink-0 mt-0.5" />
+                  <div className="min-w-0">
+                    <p className="text-sm text-white">{notification.title}</p>
+                    {notification.body && (
+                      <p className="text-xs text-[#cbd5e1] mt-1 line-clamp-2">{notification.body}</p>
+                    )}
+                    <p className="text-xs text-gray-400 mt-1">{formatDate(notification.createdAt)}</p>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { AlertCircle, CheckCircle, Flag, Loader2, X } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { MAX_REPORT_DETAILS_LENGTH, REPORT_REASONS, submitReport } from '../../lib/moderation';
+import { ReportReason, ReportTargetType } from '../../types';
+
+interface ReportModalProps {
+  targetType: ReportTargetType;
+  targetId: string;
+  onClose: () => void;
+}
+
+export default function ReportModal({ targetType, targetId, onClose }: ReportModalProps) {
+  const { user } = useAuth();
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [error, setError] = useState('');
+
+  const targetLabel = targetType === 'rating' ? 'review' : 'message';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !reason) return;
+
+    setSubmitting(true);
+    setError('');
+    try {
+      await submitReport(user.id, targetType, targetId, reason, details);
+      setSubmitted(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit report. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-slate-800 rounded-lg p-6 max-w-md w-full max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-2">
+            <Flag className="h-5 w-5 text-red-400" />
+            <h3 className="text-lg font-semibold text-white">Report {targetLabel}</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {submitted ? (
+          <div className="space-y-4">
+            <div className="flex items-start space-x-2 p-3 bg-green-900/20 border border-green-600 rounded-md text-green-400">
+              <CheckCircle className="h-5 w-5 flex-shrink-0" />
+              <span className="text-sm">
+                Thanks for letting us know. Our team will review this {targetLabel}
+                {targetType === 'rating'
+                  ? ', and it is hidden automatically if several people report it.'
+                  : '. It is hidden until they do.'}
+              </span>
+            </div>
+            <button
+              onClick={onClose}
+              className="w-full bg-slate-700 text-white py-2 px-4 rounded-md hover:bg-slate-600 transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto space-y-4">
+            <div className="space-y-2">
+              <p className="text-sm text-[#cbd5e1]">Why are you reporting this {targetLabel}?</p>
+              {REPORT_REASONS.map(({ key, label, description }) => (
+                <label
+                  key={key}
+                  className={`flex items-start space-x-3 p-3 rounded-md border cursor-pointer transition-colors ${
+                    reason === key ? 'border-[#3db2ff] bg-[#3db2ff]/10' : 'border-slate-600 hover:border-slate-500'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="report-reason"
+                    value={key}
+                    checked={reason === key}
+                    onChange={() => setReason(key)}
+                    className="mt-1"
+                  />
+                  <div>
+                    <p className="text-sm text-white font-medium">{label}</p>
+                    <p className="text-xs text-gray-400">{description}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+
+            <div>
+              <label htmlFor="report-details" className="block text-sm text-[#cbd5e1] mb-2">
+                Details (optional)
+              </label>
+              <textarea
+                id="report-details"
+                value={details}
+                onChange={(e) => setDetails(e.target.value)}
+                rows={3}
+                maxLength={MAX_REPORT_DETAILS_LENGTH}
+                className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-[#3db2ff] focus:border-transparent resize-none"
+                placeholder="Anything that helps us understand the problem"
+              />
+              <p className="text-xs text-gray-400 text-right mt-1">
+                {details.length}/{MAX_REPORT_DETAILS_LENGTH}
+              </p>
+            </div>
+
+            {error && (
+              <div className="flex items-center space-x-2 p-3 bg-red-900/20 border border-red-600 rounded-md text-red-400">
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                <span className="text-sm">{error}</span>
+              </div>
+            )}
+
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={submitting}
+                className="flex-1 bg-slate-700 text-white py-2 px-4 rounded-md hover:bg-slate-600 transition-colors disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!reason || submitting}
+                className="flex-1 flex items-center justify-center space-x-2 bg-red-600 text-white py-2 px-4 rounded-md hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Flag className="h-4 w-4" />}
+                <span>Report</span>
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,14 +3,17 @@ import { useAuth } from '../../contexts/AuthContext';
 import ProviderForm from '../profile/ProviderForm';
 import EnhancedMessaging from '../messaging/EnhancedMessaging';
 import AICoach from '../coaching/AICoach';
+import BookingsList from '../booking/BookingsList';
 import { ServiceProvider } from '../../types';
-import { User, MapPin, Phone, Mail, Eye, EyeOff, Edit, CheckCircle, XCircle, Camera, MessageCircle, Settings, BarChart3, Bell, X, Loader2, Globe, Users, Award, ChevronDown } from 'lucide-react';
+import { User, MapPin, Phone, Mail, Eye, EyeOff, Edit, CheckCircle, XCircle, Camera, MessageCircle, Settings, BarChart3, Bell, X, Loader2, Globe, Users, Award, ChevronDown, Calendar, Clock } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { countUnreadMessages, markMessagesDelivered, subscribeToMessages } from '../../lib/messaging';
+import { getEffectiveStatus } from '../../lib/availability';
 
 export default function ProviderDashboard() {
   const { user, updateProfile } = useAuth();
   const [showEditForm, setShowEditForm] = useState(false);
-  const [activeTab, setActiveTab] = useState<'overview' | 'messages' | 'profile' | 'coach'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'messages' | 'bookings' | 'profile' | 'coach'>('overview');
   const [updating, setUpdating] = useState(false);
   const [showNotificationBanner, setShowNotificationBanner] = useState(false);
   const [updateSuccess, setUpdateSuccess] = useState(false);
@@ -52,6 +55,7 @@ export default function ProviderDashboard() {
             businessName: data.business_name || undefined,
             businessType: data.business_type,
             serviceType: data.service_type,
+            serviceTypes: data.service_types || [],
             description: data.description,
             phone: data.phone || undefined,
             website: data.website || undefined,
@@ -71,6 +75,10 @@ export default function ProviderDashboard() {
             reviewCount: data.review_count || 0,
             totalRatingPoints: data.total_rating_points || 0,
             availability: data.availability || undefined,
+            availabilityExceptions: data.availability_exceptions || [],
+            timezone: data.timezone || undefined,
+            busyUntil: data.busy_until || undefined,
+            lastActiveAt: data.last_active_at || undefined,
             currentStatus: data.current_status || 'available',
           };
           
@@ -105,14 +113,9 @@ export default function ProviderDashboard() {
       if (!user) return;
 
       try {
-        const { count, error } = await supabase
-          .from('chat_messages')
-          .select('*', { count: 'exact', head: true })
-          .eq('receiver_id', user.id)
-          .eq('read', false);
-
-        if (!error) {
-          setUnreadCount(count || 0);
+        const count = await countUnreadMessages(user.id);
+        if (count !== null) {
+          setUnreadCount(count);
         }
       } catch (error) {
         console.error('Error loading unread count:', error);
@@ -121,10 +124,25 @@ export default function ProviderDashboard() {
 
     loadUnreadCount();
     
-    // Set up interval to refresh unread count every 10 seconds
-    const interval = setInterval(loadUnreadCount, 10000);
-    
-    return () => clearInterval(interval);
+    // Recount whenever a message is sent, read or deleted. Messages reaching
+    // the open app count as delivered
+    if (!user) return;
+    markMessagesDelivered();
+    return subscribeToMessages(user.id, {
+      current: {
+        onInsert: (row) => {
+          loadUnreadCount();
+          if (row.receiver_id === user.id) {
+            markMessagesDelivered();
+          }
+        },
+        onUpdate: loadUnreadCount,
+        onResync: () => {
+          loadUnreadCount();
+          markMessagesDelivered();
+        },
+      },
+    });
   }, [user]);
 
   // Show notification banner when there are unread messages
@@ -173,6 +191,7 @@ export default function ProviderDashboard() {
                 businessName: refreshedData.business_name || undefined,
                 businessType: refreshedData.business_type,
                 serviceType: refreshedData.service_type,
+                serviceTypes: refreshedData.service_types || [],
                 description: refreshedData.description,
                 phone: refreshedData.phone || undefined,
                 website: refreshedData.website || undefined,
@@ -192,6 +211,10 @@ export default function ProviderDashboard() {
                 reviewCount: refreshedData.review_count || 0,
                 totalRatingPoints: refreshedData.total_rating_points || 0,
                 availability: refreshedData.availability || undefined,
+                availabilityExceptions: refreshedData.availability_exceptions || [],
+                timezone: refreshedData.timezone || undefined,
+                busyUntil: refreshedData.busy_until || undefined,
+                lastActiveAt: refreshedData.last_active_at || undefined,
                 currentStatus: refreshedData.current_status || 'available',
               };
               
@@ -236,6 +259,22 @@ export default function ProviderDashboard() {
     await handleProfileUpdate({ isPublished: !provider.isPublished });
   };
 
+  const liveStatus = provider ? getEffectiveStatus(provider) : null;
+  const isBusyTimerActive = !!provider?.busyUntil && new Date(provider.busyUntil) > new Date();
+
+  const setBusyFor = async (minutes: number | null) => {
+    const busyUntil = minutes === null ? null : new Date(Date.now() + minutes * 60 * 1000).toISOString();
+    console.log('⏱️ Setting busy until:', busyUntil);
+    await handleProfileUpdate({ busyUntil });
+  };
+
+  const busyOptions = [
+    { minutes: 30, label: '30 min' },
+    { minutes: 60, label: '1 hour' },
+    { minutes: 120, label: '2 hours' },
+    { minutes: 240, label: '4 hours' },
+  ];
+
   if (showEditForm) {
     return (
       <div className="min-h-screen bg-[#0d182c] py-8">
@@ -391,6 +430,20 @@ export default function ProviderDashboard() {
                 </div>
               </button>
               
+              <button
+                onClick={() => setActiveTab('bookings')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm transition-colors ${
+                  activeTab === 'bookings'
+                    ? 'border-[#3db2ff] text-[#3db2ff]'
+                    : 'border-transparent text-[#cbd5e1] hover:text-white hover:border-slate-500'
+                }`}
+              >
+                <div className="flex items-center space-x-2">
+                  <Calendar className="h-4 w-4" />
+                  <span>Bookings</span>
+                </div>
+              </button>
+              
               <button
                 onClick={() => setActiveTab('coach')}
                 className={`py-2 px-1 border-b-2 font-medium text-sm transition-colors ${
@@ -453,6 +506,12 @@ export default function ProviderDashboard() {
                       )}
                     </>
                   )}
+                  {activeTab === 'bookings' && (
+                    <>
+                      <Calendar className="h-4 w-4" />
+                      <span>Bookings</span>
+                    </>
+                  )}
                   {activeTab === 'coach' && (
                     <>
                       <Award className="h-4 w-4" />
@@ -492,6 +551,13 @@ export default function ProviderDashboard() {
                       </span>
                     )}
                   </button>
+                  <button
+                    onClick={() => { setActiveTab('bookings'); setShowMobileNav(false); }}
+                    className={`w-full flex items-center space-x-3 px-4 py-3 text-left hover:bg-slate-700 transition-colors ${activeTab === 'bookings' ? 'bg-slate-700 text-[#3db2ff]' : 'text-[#cbd5e1]'}`}
+                  >
+                    <Calendar className="h-4 w-4" />
+                    <span>Bookings</span>
+                  </button>
                   <button
                     onClick={() => { setActiveTab('coach'); setShowMobileNav(false); }}
                     className={`w-full flex items-center space-x-3 px-4 py-3 text-left hover:bg-slate-700 transition-colors ${activeTab === 'coach' ? 'bg-slate-700 text-[#3db2ff]' : 'text-[#cbd5e1]'}`}
@@ -552,6 +618,53 @@ export default function ProviderDashboard() {
               </div>
             </div>
 
+            {/* Live Status */}
+            {liveStatus && (
+              <div className="bg-slate-800 rounded-lg p-6 mb-8">
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                  <div>
+                    <div className="flex items-center space-x-3 mb-2">
+                      <Clock className="h-6 w-6 text-[#3db2ff]" />
+                      <h3 className="text-lg font-semibold text-white">Live Status</h3>
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                        liveStatus.status === 'available'
+                          ? 'bg-green-500 text-white'
+                          : liveStatus.status === 'busy'
+                          ? 'bg-yellow-500 text-white'
+                          : 'bg-gray-500 text-white'
+                      }`}>
+                        {liveStatus.reason}
+                      </span>
+                    </div>
+                    <p className="text-sm text-[#cbd5e1]">
+                      Customers see this status. It follows your working hours unless you mark yourself busy.
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {busyOptions.map(({ minutes, label }) => (
+                      <button
+                        key={minutes}
+                        onClick={() => setBusyFor(minutes)}
+                        disabled={updating}
+                        className="bg-slate-700 hover:bg-yellow-600 disabled:opacity-50 disabled:cursor-not-allowed text-white px-3 py-1 rounded-md text-sm transition-colors"
+                      >
+                        Busy {label}
+                      </button>
+                    ))}
+                    {isBusyTimerActive && (
+                      <button
+                        onClick={() => setBusyFor(null)}
+                        disabled={updating}
+                        className="bg-[#00c9a7] hover:bg-teal-500 disabled:opacity-50 disabled:cursor-not-allowed text-white px-3 py-1 rounded-md text-sm transition-colors"
+                      >
+                        I'm free now
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Quick Stats */}
             <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
               <div className="bg-slate-800 rounded-lg p-6 text-center">
@@ -819,6 +932,10 @@ export default function ProviderDashboard() {
           </div>
         )}
 
+        {activeTab === 'bookings' && (
+          <BookingsList />
+        )}
+
         {activeTab === 'coach' && (
           <div className="max-w-4xl mx-auto">
             <AICoach provider={provider} />
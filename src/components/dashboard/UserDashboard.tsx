@@ -1,31 +1,129 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import LocationSearchBar from '../search/LocationSearchBar';
 import SearchResults from '../search/SearchResults';
 import TopRatedProviders from '../search/TopRatedProviders';
 import EnhancedMessaging from '../messaging/EnhancedMessaging';
 import ProviderModal from '../search/ProviderModal';
-import { SearchFilters, ServiceProvider } from '../../types';
-import { LocationCoordinates, filterProvidersByLocation } from '../../lib/mapbox';
-import { Search, MapPin, Filter, Users, MessageCircle, Bell, Crown } from 'lucide-react';
+import BookingsList from '../booking/BookingsList';
+import { SearchFacets, ServiceProvider } from '../../types';
+import { LocationCoordinates, reverseGeocode } from '../../lib/mapbox';
+import { Search, MapPin, Filter, Users, MessageCircle, Bell, Crown, Calendar } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { countUnreadMessages, markMessagesDelivered, subscribeToMessages } from '../../lib/messaging';
+import { POPULAR_SERVICES } from '../../lib/serviceCategories';
+import { mapRatingAspects } from '../../lib/ratings';
+import { SearchState, searchStateFromQuery, searchStateToQuery } from '../../lib/searchParams';
+import type { Database } from '../../types/database';
+
+type SearchProviderRow = Database['public']['Functions']['search_providers']['Returns'][number];
+type SearchCursor = NonNullable<Database['public']['Functions']['search_providers']['Args']['after_cursor']>;
+type SearchFilterArgs = Database['public']['Functions']['search_provider_facets']['Args'];
+
+const SEARCH_PAGE_SIZE = 20;
+
+const mapSearchRow = (item: SearchProviderRow): ServiceProvider => ({
+  id: item.id,
+  email: item.email,
+  name: item.name,
+  role: 'provider' as const,
+  createdAt: new Date(item.created_at),
+  profileImage: item.profile_image || '',
+  businessName: item.business_name || undefined,
+  businessType: item.business_type || 'individual',
+  serviceType: item.service_type,
+  serviceTypes: item.service_types || [],
+  description: item.description,
+  phone: item.phone || undefined,
+  website: item.website || undefined,
+  socialMedia: item.social_media || {},
+  specialties: item.specialties || [],
+  yearsExperience: item.years_experience || 0,
+  certifications: item.certifications || [],
+  location: {
+    address: item.address,
+    lat: Number(item.latitude) || 0,
+    lng: Number(item.longitude) || 0,
+  },
+  workRadius: Number(item.work_radius) || 10,
+  workPortfolio: item.work_portfolio || [],
+  isPublished: Boolean(item.is_published),
+  rating: Number(item.rating) || 0,
+  reviewCount: Number(item.review_count) || 0,
+  totalRatingPoints: Number(item.total_rating_points) || 0,
+  aspectRatings: mapRatingAspects(item),
+  availability: item.availability || undefined,
+  availabilityExceptions: item.availability_exceptions || [],
+  currentStatus: item.current_status || 'available',
+  timezone: item.timezone || undefined,
+  busyUntil: item.busy_until || undefined,
+  lastActiveAt: item.last_active_at || undefined,
+  distance: item.distance_km !== null ? Math.round(item.distance_km * 10) / 10 : undefined,
+  withinServiceArea: item.within_service_area ?? undefined,
+  searchSnippet: item.search_snippet || undefined,
+});
+
+// Filter arguments shared by search_providers and search_provider_facets
+const toSearchArgs = (filters: SearchState): SearchFilterArgs => ({
+  search_lat: filters.userLocation?.lat ?? null,
+  search_lng: filters.userLocation?.lng ?? null,
+  search_radius_km: filters.userLocation ? filters.radius : null,
+  search_keyword: filters.keyword?.trim() || null,
+  search_service_type: filters.serviceType?.trim() || null,
+  available_now: !!filters.availableNow,
+  include_outside_area: !!filters.includeOutsideArea,
+  min_rating: filters.minRating ?? null,
+  min_reviews: filters.minReviews ?? null,
+  min_experience: filters.minExperience ?? null,
+  filter_business_type: filters.businessType ?? null,
+  has_portfolio: !!filters.hasPortfolio,
+  has_certifications: !!filters.hasCertifications,
+  open_on_day: filters.openOn ?? null,
+  rated_aspect: filters.ratedAspect ?? null,
+  min_aspect_rating: filters.ratedAspect ? filters.minAspectRating ?? null : null,
+});
+
+// Built from the raw row so created_at keeps its full precision
+const toSearchCursor = (item: SearchProviderRow): SearchCursor => ({
+  within_service_area: item.within_service_area,
+  search_rank: item.search_rank,
+  distance_km: item.distance_km,
+  rating: item.rating,
+  review_count: item.review_count,
+  quality_rating: item.quality_rating,
+  punctuality_rating: item.punctuality_rating,
+  value_rating: item.value_rating,
+  communication_rating: item.communication_rating,
+  created_at: item.created_at,
+  id: item.id,
+});
 
 export default function UserDashboard() {
   const { user } = useAuth();
-  const [activeTab, setActiveTab] = useState<'search' | 'messages'>('search');
-  const [searchFilters, setSearchFilters] = useState<SearchFilters>({
+  const [activeTab, setActiveTab] = useState<'search' | 'messages' | 'bookings'>('search');
+  // A search encoded in the URL is restored on load
+  const [initialSearch] = useState(() => searchStateFromQuery(window.location.search));
+  // Carries the location of the last search, so later pages and refreshes match it
+  const [searchFilters, setSearchFilters] = useState<SearchState>(initialSearch || {
     keyword: '',
     location: '',
     radius: 25,
   });
   const [userLocation, setUserLocation] = useState<LocationCoordinates | null>(null);
+  const [searchFacets, setSearchFacets] = useState<SearchFacets | null>(null);
   const [searchResults, setSearchResults] = useState<ServiceProvider[]>([]);
   const [hasSearched, setHasSearched] = useState(false);
   const [selectedProvider, setSelectedProvider] = useState<ServiceProvider | null>(null);
   const [publishedProvidersCount, setPublishedProvidersCount] = useState(0);
   const [searchLoading, setSearchLoading] = useState(false);
+  const [totalResults, setTotalResults] = useState(0);
+  const [searchCursor, setSearchCursor] = useState<SearchCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [chatWithProviderId, setChatWithProviderId] = useState<string | null>(null);
   const [unreadCount, setUnreadCount] = useState(0);
+  // Responses from searches that have since been replaced are dropped
+  const searchRequestRef = useRef(0);
+  const facetsRequestRef = useRef(0);
 
   // Load published providers count
   useEffect(() => {
@@ -68,14 +166,9 @@ export default function UserDashboard() {
       if (!user) return;
 
       try {
-        const { count, error } = await supabase
-          .from('chat_messages')
-          .select('*', { count: 'exact', head: true })
-          .eq('receiver_id', user.id)
-          .eq('read', false);
-
-        if (!error) {
-          setUnreadCount(count || 0);
+        const count = await countUnreadMessages(user.id);
+        if (count !== null) {
+          setUnreadCount(count);
         }
       } catch (error) {
         console.error('Error loading unread count:', error);
@@ -84,201 +177,152 @@ export default function UserDashboard() {
 
     loadUnreadCount();
     
-    // Set up interval to refresh unread count every 10 seconds
-    const interval = setInterval(loadUnreadCount, 10000);
-    
-    return () => clearInterval(interval);
+    // Recount whenever a message is sent, read or deleted. Messages reaching
+    // the open app count as delivered
+    if (!user) return;
+    markMessagesDelivered();
+    return subscribeToMessages(user.id, {
+      current: {
+        onInsert: (row) => {
+          loadUnreadCount();
+          if (row.receiver_id === user.id) {
+            markMessagesDelivered();
+          }
+        },
+        onUpdate: loadUnreadCount,
+        onResync: () => {
+          loadUnreadCount();
+          markMessagesDelivered();
+        },
+      },
+    });
   }, [user]);
 
-  const performSearch = async (filters: SearchFilters & { userLocation?: LocationCoordinates }) => {
-    setSearchLoading(true);
+  const loadFacets = useCallback(async (filters: SearchState) => {
+    const requestId = ++facetsRequestRef.current;
+    try {
+      const { data, error } = await supabase.rpc('search_provider_facets', toSearchArgs(filters));
+      if (requestId !== facetsRequestRef.current) return;
+
+      if (error) {
+        console.error('Error loading search facets:', error);
+        setSearchFacets(null);
+        return;
+      }
+
+      setSearchFacets(data as SearchFacets);
+    } catch (error) {
+      console.error('Error loading search facets:', error);
+      if (requestId === facetsRequestRef.current) {
+        setSearchFacets(null);
+      }
+    }
+  }, []);
+
+  const performSearch = useCallback(async (
+    filters: SearchState,
+    cursor: SearchCursor | null = null
+  ) => {
+    const isFirstPage = cursor === null;
+    // A new search replaces the previous one; more pages belong to the current search
+    const requestId = isFirstPage ? ++searchRequestRef.current : searchRequestRef.current;
+    const isStale = () => requestId !== searchRequestRef.current;
+    if (isFirstPage) {
+      setSearchLoading(true);
+    } else {
+      setLoadingMore(true);
+    }
     
     try {
-      console.log('🔍 Performing search with filters:', filters);
+      console.log('🔍 Performing search with filters:', filters, 'cursor:', cursor);
       
       // Store user location for filtering
       if (filters.userLocation) {
         setUserLocation(filters.userLocation);
       }
       
-      // Build query - Make sure we get ALL required fields and proper joins
-      let query = supabase
-        .from('service_providers')
-        .select(`
-          *,
-          profiles!service_providers_id_fkey(email, name, profile_image)
-        `)
-        .eq('is_published', true);
-      
-      // Apply filters for complete profiles only
-      query = query
-        .neq('service_type', '')
-        .neq('description', '')
-        .neq('address', '');
-      
-      // Apply keyword filter if provided
-      if (filters.keyword && filters.keyword.trim()) {
-        const keyword = filters.keyword.trim();
-        query = query.or(`service_type.ilike.%${keyword}%,business_name.ilike.%${keyword}%,description.ilike.%${keyword}%`);
-      }
-      
-      // Apply service type filter if provided
-      if (filters.serviceType && filters.serviceType.trim()) {
-        query = query.eq('service_type', filters.serviceType.trim());
-      }
-      
-      // Order by rating (highest first), then by review count (highest first), then by creation date (newest first)
-      query = query
-        .order('rating', { ascending: false })
-        .order('review_count', { ascending: false })
-        .order('created_at', { ascending: false });
-      
-      console.log('🔍 Executing search query...');
-      const { data, error } = await query;
+      // Filtering, distance and ordering all happen in the search_providers function
+      const { data, error } = await supabase.rpc('search_providers', {
+        ...toSearchArgs(filters),
+        sort_by: filters.sortBy || 'relevance',
+        page_size: SEARCH_PAGE_SIZE,
+        after_cursor: cursor,
+      });
+      if (isStale()) return;
       
       if (error) {
         console.error('❌ Search error:', error);
-        setSearchResults([]);
-        return;
-      }
-
-      console.log('🔍 Raw search results:', data?.length || 0, 'providers found');
-      
-      if (!data || data.length === 0) {
-        console.log('🔍 No providers found matching criteria');
-        setSearchResults([]);
+        if (isFirstPage) {
+          setSearchResults([]);
+          setTotalResults(0);
+          setSearchCursor(null);
+        }
         return;
       }
 
-      // Convert to ServiceProvider objects with proper error handling
-      const providers: ServiceProvider[] = [];
-      
-      for (const item of data) {
-        try {
-          // Ensure we have profile data
-          const profileData = item.profiles as any;
-          if (!profileData) {
-            console.warn('⚠️ Skipping provider with missing profile data:', item.id);
-            continue;
-          }
-
-          // Ensure required fields are present
-          if (!item.service_type || !item.description || !item.address) {
-            console.warn('⚠️ Skipping provider with incomplete data:', item.id, {
-              hasServiceType: !!item.service_type,
-              hasDescription: !!item.description,
-              hasAddress: !!item.address
-            });
-            continue;
-          }
+      const rows = (data || []) as SearchProviderRow[];
+      console.log('🔍 Search returned', rows.length, 'providers');
 
-          const provider: ServiceProvider = {
-            id: item.id,
-            email: profileData.email,
-            name: profileData.name,
-            role: 'provider' as const,
-            createdAt: new Date(item.created_at),
-            profileImage: profileData.profile_image || '',
-            businessName: item.business_name || undefined,
-            businessType: item.business_type || 'individual',
-            serviceType: item.service_type,
-            description: item.description,
-            phone: item.phone || undefined,
-            location: {
-              address: item.address,
-              lat: Number(item.latitude) || 0,
-              lng: Number(item.longitude) || 0,
-            },
-            workRadius: Number(item.work_radius) || 10,
-            workPortfolio: item.work_portfolio || [],
-            isPublished: Boolean(item.is_published),
-            rating: Number(item.rating) || 0,
-            reviewCount: Number(item.review_count) || 0,
-            totalRatingPoints: Number(item.total_rating_points) || 0,
-          };
-          
-          console.log('✅ Processed provider:', {
-            name: provider.name,
-            serviceType: provider.serviceType,
-            isPublished: provider.isPublished,
-            rating: provider.rating,
-            reviewCount: provider.reviewCount
-          });
-          
-          providers.push(provider);
-        } catch (error) {
-          console.error('❌ Error processing provider:', item.id, error);
-          continue;
-        }
-      }
-      
-      // Apply location filtering if user location is available
-      let filteredProviders = providers;
-      if (filters.userLocation && filters.radius) {
-        console.log('📍 Applying location filter:', {
-          userLocation: filters.userLocation,
-          radius: filters.radius
-        });
-        
-        filteredProviders = filterProvidersByLocation(
-          providers,
-          filters.userLocation,
-          filters.radius
-        );
-        
-        console.log('📍 Location filtered results:', filteredProviders.length, 'providers within', filters.radius, 'km');
+      const providers = rows.map(mapSearchRow);
+      if (isFirstPage) {
+        setTotalResults(rows.length > 0 ? Number(rows[0].total_count) : 0);
       }
-      
-      // Additional client-side sorting to ensure proper order
-      const sortedProviders = filteredProviders.sort((a, b) => {
-        // Primary sort: by rating (highest first)
-        if (b.rating !== a.rating) {
-          return b.rating - a.rating;
-        }
-        
-        // Secondary sort: by review count (highest first)
-        if (b.reviewCount !== a.reviewCount) {
-          return b.reviewCount - a.reviewCount;
-        }
-        
-        // Tertiary sort: by distance if available, otherwise by creation date
-        if ((a as any).distance !== undefined && (b as any).distance !== undefined) {
-          return (a as any).distance - (b as any).distance;
-        }
-        
-        return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-      });
-      
-      console.log('🔍 Search completed and sorted:', sortedProviders.length, 'valid providers processed');
-      console.log('🔍 Top 3 providers by rating:', sortedProviders.slice(0, 3).map(p => ({
-        name: p.name,
-        rating: p.rating,
-        reviewCount: p.reviewCount,
-        distance: (p as any).distance,
-        createdAt: p.createdAt
-      })));
-      
-      setSearchResults(sortedProviders);
+      // A short page means there is nothing left to load
+      setSearchCursor(rows.length === SEARCH_PAGE_SIZE ? toSearchCursor(rows[rows.length - 1]) : null);
+      setSearchResults(prev => (isFirstPage ? providers : [...prev, ...providers]));
       
     } catch (error) {
       console.error('❌ Search error:', error);
-      setSearchResults([]);
+      if (isFirstPage && !isStale()) {
+        setSearchResults([]);
+        setTotalResults(0);
+        setSearchCursor(null);
+      }
     } finally {
-      setSearchLoading(false);
+      if (!isStale()) {
+        setSearchLoading(false);
+        setLoadingMore(false);
+      }
     }
-  };
+  }, []);
 
-  const handleSearch = async (filters: SearchFilters & { userLocation?: LocationCoordinates }) => {
+  const handleSearch = useCallback(async (filters: SearchState) => {
     console.log('🔍 Starting search with filters:', filters);
     setSearchFilters(filters);
     setHasSearched(true);
+    window.history.replaceState(null, '', searchStateToQuery(filters));
+    loadFacets(filters);
     await performSearch(filters);
+  }, [loadFacets, performSearch]);
+
+  // Run the initial search from the URL
+  useEffect(() => {
+    if (initialSearch) {
+      handleSearch(initialSearch);
+    }
+  }, [initialSearch, handleSearch]);
+
+  // "Search this area" on the results map keeps the filters and moves the search
+  const handleSearchArea = async (center: LocationCoordinates, radiusKm: number) => {
+    const address = await reverseGeocode(center.lat, center.lng);
+    await handleSearch({
+      ...searchFilters,
+      location: address,
+      radius: radiusKm,
+      userLocation: { ...center, address },
+    });
   };
 
+  // Memoized so the results list's scroll observer isn't recreated on every render
+  const handleLoadMore = useCallback(async () => {
+    if (loadingMore || !searchCursor) return;
+    await performSearch(searchFilters, searchCursor);
+  }, [loadingMore, searchCursor, searchFilters, performSearch]);
+
   const handleRefreshResults = async () => {
     if (hasSearched) {
       console.log('🔄 Refreshing search results...');
-      await performSearch({ ...searchFilters, userLocation: userLocation || undefined });
+      await performSearch(searchFilters);
     }
   };
 
@@ -288,8 +332,6 @@ export default function UserDashboard() {
     setActiveTab('messages');
   };
 
-  const serviceTypes = ['Plumbing', 'Electrical', 'Barbering', 'Cleaning', 'Carpentry', 'Gardening'];
-
   return (
     <>
       <div className="min-h-screen bg-[#0d182c]">
@@ -355,6 +397,20 @@ export default function UserDashboard() {
                     <span>Messages</span>
                   </div>
                 </button>
+
+                <button
+                  onClick={() => setActiveTab('bookings')}
+                  className={`py-2 px-1 border-b-2 font-medium text-sm transition-colors ${
+                    activeTab === 'bookings'
+                      ? 'border-[#3db2ff] text-[#3db2ff]'
+                      : 'border-transparent text-[#cbd5e1] hover:text-white hover:border-slate-500'
+                  }`}
+                >
+                  <div className="flex items-center space-x-2">
+                    <Calendar className="h-4 w-4" />
+                    <span>Bookings</span>
+                  </div>
+                </button>
               </nav>
             </div>
           </div>
@@ -366,7 +422,7 @@ export default function UserDashboard() {
               <div className="mb-8">
                 <h2 className="text-xl font-semibold text-white mb-4">Popular Services</h2>
                 <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
-                  {serviceTypes.map((service) => (
+                  {POPULAR_SERVICES.slice(0, 6).map((service) => (
                     <button
                       key={service}
                       onClick={() => handleSearch({ ...searchFilters, keyword: service, serviceType: service, userLocation: userLocation || undefined })}
@@ -382,7 +438,12 @@ export default function UserDashboard() {
 
               {/* Search Section */}
               <div className="mb-8">
-                <LocationSearchBar onSearch={handleSearch} loading={searchLoading} />
+                <LocationSearchBar
+                  onSearch={handleSearch}
+                  loading={searchLoading}
+                  initialFilters={initialSearch || undefined}
+                  facets={hasSearched ? searchFacets : null}
+                />
               </div>
 
               {/* Search Results or Top Rated Providers */}
@@ -395,6 +456,12 @@ export default function UserDashboard() {
                     loading={searchLoading}
                     onRefresh={handleRefreshResults}
                     onChatStart={handleChatStart}
+                    totalCount={totalResults}
+                    hasMore={searchCursor !== null}
+                    loadingMore={loadingMore}
+                    onLoadMore={handleLoadMore}
+                    searchLocation={userLocation || undefined}
+                    onSearchArea={handleSearchArea}
                   />
                 ) : (
                   <>
@@ -439,6 +506,8 @@ export default function UserDashboard() {
                 )}
               </div>
             </>
+          ) : activeTab === 'bookings' ? (
+            <BookingsList />
           ) : (
             <div className="h-[600px]">
               <EnhancedMessaging chatWithUserId={chatWithProviderId} />
@@ -1,6 +1,7 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
-import { ChatMessage, ServiceProvider, User } from '../../types';
+import { useConversationPresence, usePresence } from '../../contexts/usePresence';
+import { ChatMessage, ConversationState, ConversationSummary, MessageReplyPreview, MessageSearchResult, ServiceProvider, User } from '../../types';
 import { 
   MessageCircle, 
   Send, 
@@ -9,32 +10,73 @@ import {
   Video, 
   MoreVertical, 
   Archive, 
+  ArchiveRestore,
+  Bell,
+  BellOff,
+  Pin,
+  PinOff,
   Trash2, 
   Star,
   Image,
   Paperclip,
   Smile,
-  CheckCircle2,
-  Circle,
+  Check,
+  CheckCheck,
   Clock,
   Loader2,
   X,
   ArrowLeft,
   Info,
   Download,
-  AlertTriangle
+  AlertTriangle,
+  Flag
 } from 'lucide-react';
-import { supabase } from '../../lib/supabase';
+import { validateAttachment } from '../../lib/attachments';
+import MessageAttachment from './MessageAttachment';
+import MessageEditHistory from './MessageEditHistory';
+import MessageSearchResults from './MessageSearchResults';
+import ReportModal from '../common/ReportModal';
+import { canEditMessage, CONVERSATIONS_PAGE_SIZE, fetchConversationSummaries, getMessageEditWindow, isMessageVisibleTo, mapChatMessage, markMessagesRead, MESSAGES_PAGE_SIZE, MessageSubscriptionHandlers, subscribeToMessages } from '../../lib/messaging';
+import { formatLastSeen } from '../../lib/presence';
 
-interface Conversation {
-  participant: User | ServiceProvider;
-  lastMessage: ChatMessage;
-  unreadCount: number;
+// The list only holds summaries; messages are loaded for the open conversation
+interface Conversation extends ConversationSummary {
   messages: ChatMessage[];
-  isStarred: boolean;
-  isArchived: boolean;
 }
 
+// A conversation that isn't in the loaded list yet, e.g. a new chat
+const createEmptyConversation = (participant: User | ServiceProvider, userId: string): Conversation => ({
+  participant,
+  lastMessage: {
+    id: 'temp',
+    senderId: userId,
+    receiverId: participant.id,
+    content: '',
+    timestamp: new Date(),
+    read: false,
+  },
+  unreadCount: 0,
+  messages: [],
+  isStarred: false,
+  isArchived: false,
+  isMuted: false,
+  isPinned: false,
+});
+
+// Start loading older messages this close to the top of the thread
+const LOAD_OLDER_THRESHOLD = 100;
+
+// How long a received message has to be visible before it counts as read
+const READ_RECEIPT_DELAY = 1000;
+
+// Pinned conversations first, then by latest message
+const sortConversations = (conversations: ConversationSummary[]) => {
+  return [...conversations].sort((a, b) => 
+    Number(b.isPinned) - Number(a.isPinned) ||
+    new Date(b.lastMessage.timestamp).getTime() - new Date(a.lastMessage.timestamp).getTime()
+  );
+};
+
 interface EnhancedMessagingProps {
   chatWithUserId?: string | null;
   onClose?: () => void;
@@ -46,8 +88,13 @@ interface MessageAction {
 }
 
 export default function EnhancedMessaging({ chatWithUserId, onClose }: EnhancedMessagingProps) {
-  const { user, getUserById, sendMessage, markMessagesAsRead, deleteConversation, deleteMessage } = useAuth();
-  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const { user, getUserById, getConversation, sendMessage, sendAttachment, deleteConversation, updateConversationState, deleteMessage, editMessage } = useAuth();
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [hasMoreConversations, setHasMoreConversations] = useState(false);
+  const [loadingMoreConversations, setLoadingMoreConversations] = useState(false);
+  const [loadingMessages, setLoadingMessages] = useState(false);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [loadingOlderMessages, setLoadingOlderMessages] = useState(false);
   const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null);
   const [newMessage, setNewMessage] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
@@ -60,140 +107,297 @@ export default function EnhancedMessaging({ chatWithUserId, onClose }: EnhancedM
   const [deletingMessage, setDeletingMessage] = useState<string | null>(null);
   const [showDeleteConversationConfirm, setShowDeleteConversationConfirm] = useState(false);
   const [deletingConversation, setDeletingConversation] = useState(false);
+  const [showConversationMenu, setShowConversationMenu] = useState(false);
+  const [editingMessage, setEditingMessage] = useState<ChatMessage | null>(null);
+  const [replyingTo, setReplyingTo] = useState<ChatMessage | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [pendingJumpMessageId, setPendingJumpMessageId] = useState<string | null>(null);
+  const [showConversationSearch, setShowConversationSearch] = useState(false);
+  const [conversationSearchTerm, setConversationSearchTerm] = useState('');
+  const [historyMessage, setHistoryMessage] = useState<ChatMessage | null>(null);
+  const [reportingMessageId, setReportingMessageId] = useState<string | null>(null);
+  const [editWindow, setEditWindow] = useState<number | undefined>(undefined);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const realtimeHandlersRef = useRef<MessageSubscriptionHandlers>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Distance from the bottom of the thread to restore after older messages are prepended
+  const scrollAnchorRef = useRef<number | null>(null);
   const [shouldScrollToBottom, setShouldScrollToBottom] = useState(true);
+  const { getLastSeen, isOnline: isActive, loadLastSeen } = usePresence();
+  const { otherUserOnline, otherUserTyping, setTyping } = useConversationPresence(selectedConversation?.participant.id);
+  // Recently active in the app, or in the open conversation right now
+  const isOnline = (participantId: string) =>
+    isActive(participantId) || (otherUserOnline && participantId === selectedConversation?.participant.id);
 
-  const refreshConversations = async () => {
-    if (!user || loading) return;
+  // A refresh asked for while one is running runs once it finishes, with the latest filter
+  const refreshingRef = useRef(false);
+  const queuedRefreshLimitRef = useRef<number | null>(null);
 
+  // Starred, archived and unread are filtered on the server. Refreshes reload
+  // as many conversations as are already shown so the list doesn't shrink
+  const refreshConversations = async (limit = Math.max(conversations.length, CONVERSATIONS_PAGE_SIZE)) => {
+    if (!user) return;
+    if (refreshingRef.current) {
+      queuedRefreshLimitRef.current = limit;
+      return;
+    }
+
+    refreshingRef.current = true;
     setLoading(true);
     try {
-      // Use the new database function for proper message filtering
-      const { data: messages, error } = await supabase.rpc('get_user_messages', {
-        user_id: user.id
-      });
+      const summaries = await fetchConversationSummaries(messageFilter, limit);
+      if (!summaries) return;
 
-      if (error) {
-        console.error('Error fetching messages:', error);
-        return;
-      }
+      setConversations(sortConversations(summaries));
+      setHasMoreConversations(summaries.length >= limit);
 
-      const conversationMap = new Map<string, ChatMessage[]>();
-      
-      messages.forEach((msg: any) => {
-        const chatMessage: ChatMessage = {
-          id: msg.id,
-          senderId: msg.sender_id,
-          receiverId: msg.receiver_id,
-          content: msg.content,
-          timestamp: new Date(msg.created_at),
-          read: msg.read,
-          messageType: msg.message_type || 'text',
-          fileUrl: msg.file_url,
-          fileName: msg.file_name,
-          fileSize: msg.file_size,
-        };
-
-        const otherUserId = msg.sender_id === user.id ? msg.receiver_id : msg.sender_id;
-        if (!conversationMap.has(otherUserId)) {
-          conversationMap.set(otherUserId, []);
-        }
-        conversationMap.get(otherUserId)!.push(chatMessage);
+      // Keep the open conversation's messages, take the fresh counts and flags
+      setSelectedConversation(prev => {
+        if (!prev) return prev;
+        const updated = summaries.find(conv => conv.participant.id === prev.participant.id);
+        return updated ? { ...updated, messages: prev.messages } : prev;
       });
 
-      const conversationList: Conversation[] = [];
-      for (const [userId, messages] of conversationMap) {
-        const participant = await getUserById(userId);
-        if (participant) {
-          const sortedMessages = messages.sort((a, b) => 
-            new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-          );
-          const lastMessage = sortedMessages[sortedMessages.length - 1];
-          const unreadCount = messages.filter(msg => 
-            msg.senderId === userId && msg.receiverId === user.id && !msg.read
-          ).length;
-
-          conversationList.push({
-            participant,
-            lastMessage,
-            unreadCount,
-            messages: sortedMessages,
-            isStarred: false, // TODO: Implement starring
-            isArchived: false, // TODO: Implement archiving
-          });
-        }
-      }
-
-      conversationList.sort((a, b) => 
-        new Date(b.lastMessage.timestamp).getTime() - new Date(a.lastMessage.timestamp).getTime()
-      );
-
-      setConversations(conversationList);
-
-      if (selectedConversation) {
-        const updatedSelected = conversationList.find(conv => 
-          conv.participant.id === selectedConversation.participant.id
-        );
-        if (updatedSelected) {
-          setSelectedConversation(updatedSelected);
-        } else {
-          setSelectedConversation(null);
-        }
-      }
-
       // Auto-select conversation if chatWithUserId is provided
       if (chatWithUserId && !selectedConversation) {
-        const targetConversation = conversationList.find(conv => 
+        const targetConversation = summaries.find(conv => 
           conv.participant.id === chatWithUserId
         );
         if (targetConversation) {
-          setSelectedConversation(targetConversation);
+          setSelectedConversation({ ...targetConversation, messages: [] });
         } else {
           // Create new conversation
           const participant = await getUserById(chatWithUserId);
           if (participant) {
-            const newConversation: Conversation = {
-              participant,
-              lastMessage: {
-                id: 'temp',
-                senderId: user.id,
-                receiverId: chatWithUserId,
-                content: '',
-                timestamp: new Date(),
-                read: false,
-              },
-              unreadCount: 0,
-              messages: [],
-              isStarred: false,
-              isArchived: false,
-            };
-            setSelectedConversation(newConversation);
+            setSelectedConversation(createEmptyConversation(participant, user.id));
           }
         }
       }
     } catch (error) {
       console.error('Error refreshing conversations:', error);
     } finally {
+      refreshingRef.current = false;
       setLoading(false);
+
+      const queuedLimit = queuedRefreshLimitRef.current;
+      if (queuedLimit !== null) {
+        queuedRefreshLimitRef.current = null;
+        loadersRef.current.refreshConversations(queuedLimit);
+      }
     }
   };
 
+  const loadMoreConversations = async () => {
+    if (!user || loadingMoreConversations) return;
+
+    setLoadingMoreConversations(true);
+    try {
+      const summaries = await fetchConversationSummaries(messageFilter, CONVERSATIONS_PAGE_SIZE, conversations.length);
+      if (!summaries) return;
+
+      setConversations(prev => sortConversations([
+        ...prev,
+        ...summaries.filter(conv => !prev.some(existing => existing.participant.id === conv.participant.id)),
+      ]));
+      setHasMoreConversations(summaries.length >= CONVERSATIONS_PAGE_SIZE);
+    } finally {
+      setLoadingMoreConversations(false);
+    }
+  };
+
+  // Loads the latest page. On a resync the older pages already loaded are kept
+  const loadConversationMessages = async (participantId: string, keepOlder = false) => {
+    if (!user) return;
+
+    setLoadingMessages(true);
+    try {
+      const messages = await getConversation(user.id, participantId);
+      if (!keepOlder) {
+        setHasOlderMessages(messages.length >= MESSAGES_PAGE_SIZE);
+      }
+
+      setSelectedConversation(prev => {
+        if (!prev || prev.participant.id !== participantId) return prev;
+        if (!keepOlder || messages.length === 0) return { ...prev, messages };
+
+        const oldestLoaded = messages[0].timestamp.getTime();
+        const older = prev.messages.filter(msg => msg.timestamp.getTime() < oldestLoaded);
+        return { ...prev, messages: [...older, ...messages] };
+      });
+    } finally {
+      setLoadingMessages(false);
+    }
+  };
+
+  const loadOlderMessages = async () => {
+    if (!user || !selectedConversation || !hasOlderMessages || loadingOlderMessages) return;
+
+    const oldest = selectedConversation.messages[0];
+    if (!oldest) return;
+
+    const participantId = selectedConversation.participant.id;
+    setLoadingOlderMessages(true);
+    try {
+      const older = await getConversation(user.id, participantId, oldest);
+      setHasOlderMessages(older.length >= MESSAGES_PAGE_SIZE);
+      if (older.length === 0) return;
+
+      const container = messagesContainerRef.current;
+      scrollAnchorRef.current = container ? container.scrollHeight - container.scrollTop : null;
+
+      setSelectedConversation(prev => {
+        if (!prev || prev.participant.id !== participantId) return prev;
+        const loadedIds = new Set(prev.messages.map(msg => msg.id));
+        return { ...prev, messages: [...older.filter(msg => !loadedIds.has(msg.id)), ...prev.messages] };
+      });
+    } finally {
+      setLoadingOlderMessages(false);
+    }
+  };
+
+  // Keep the same messages on screen once an older page is rendered above them
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    if (scrollAnchorRef.current === null || !container) return;
+
+    container.style.scrollBehavior = 'auto';
+    container.scrollTop = container.scrollHeight - scrollAnchorRef.current;
+    container.style.scrollBehavior = 'smooth';
+    scrollAnchorRef.current = null;
+  }, [selectedConversation?.messages]);
+
   useEffect(() => {
-    refreshConversations();
-  }, [user, chatWithUserId]);
+    refreshConversations(CONVERSATIONS_PAGE_SIZE);
+  }, [user, chatWithUserId, messageFilter]);
+
+  // The loaders change on every render; effects call them through a ref
+  const loadersRef = useRef({ refreshConversations, loadConversationMessages, loadOlderMessages });
+  loadersRef.current = { refreshConversations, loadConversationMessages, loadOlderMessages };
 
+  const selectedParticipantId = selectedConversation?.participant.id;
   useEffect(() => {
-    intervalRef.current = setInterval(refreshConversations, 5000);
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
+    if (selectedParticipantId) {
+      loadersRef.current.loadConversationMessages(selectedParticipantId);
+    }
+  }, [selectedParticipantId]);
+
+  // Apply a change to a conversation's summary and, when it is open, to its messages
+  const updateConversation = (
+    participantId: string,
+    update: (conversation: ConversationSummary) => ConversationSummary,
+    updateMessages: (messages: ChatMessage[]) => ChatMessage[] = messages => messages
+  ) => {
+    setConversations(prev => sortConversations(prev.map(conv => 
+      conv.participant.id === participantId ? update(conv) : conv
+    )));
+    setSelectedConversation(prev => 
+      prev && prev.participant.id === participantId
+        ? { ...update(prev), messages: updateMessages(prev.messages) }
+        : prev
+    );
+  };
+
+  // The previous version of a message, if it is loaded
+  const findMessage = (participantId: string, messageId: string) => {
+    if (selectedConversation?.participant.id === participantId) {
+      const message = selectedConversation.messages.find(msg => msg.id === messageId);
+      if (message) return message;
+    }
+    const lastMessage = conversations.find(conv => conv.participant.id === participantId)?.lastMessage;
+    return lastMessage?.id === messageId ? lastMessage : undefined;
+  };
+
+  // Replies quoting a message deleted for everyone switch to the deleted placeholder.
+  // The summaries are reloaded since the removed message may have been the latest or unread
+  const removeMessage = (messageId: string, deletedForEveryone = true) => {
+    setSelectedConversation(prev => prev && {
+      ...prev,
+      messages: prev.messages
+        .filter(msg => msg.id !== messageId)
+        .map(msg => deletedForEveryone && msg.replyToId === messageId ? { ...msg, replyTo: { deleted: true } } : msg),
+    });
+    refreshConversations();
+  };
+
+  // Realtime changes to the user's messages; read through a ref so the
+  // handlers always see the latest state
+  realtimeHandlersRef.current = {
+    onInsert: (row) => {
+      if (!user || !isMessageVisibleTo(row, user.id)) return;
+
+      const message = mapChatMessage(row);
+      const participantId = row.sender_id === user.id ? row.receiver_id : row.sender_id;
+
+      const isNewUnread = message.senderId === participantId && !message.read;
+
+      // A new conversation needs the participant's profile
+      if (!conversations.some(conv => conv.participant.id === participantId)) {
+        refreshConversations();
+        if (selectedConversation?.participant.id === participantId) {
+          loadConversationMessages(participantId);
+        }
+        return;
       }
-    };
+
+      updateConversation(
+        participantId,
+        conv => conv.lastMessage.id === message.id ? conv : {
+          ...conv,
+          lastMessage: message,
+          unreadCount: conv.unreadCount + (isNewUnread ? 1 : 0),
+        },
+        messages => messages.some(msg => msg.id === message.id) ? messages : [...messages, message]
+      );
+    },
+    onUpdate: (row) => {
+      if (!user) return;
+
+      if (!isMessageVisibleTo(row, user.id)) {
+        removeMessage(row.id, row.deleted_for_all);
+        return;
+      }
+
+      const message = mapChatMessage(row);
+      const participantId = row.sender_id === user.id ? row.receiver_id : row.sender_id;
+      const previous = findMessage(participantId, message.id);
+      const wasRead = previous && message.senderId === participantId && !previous.read && message.read;
+
+      updateConversation(
+        participantId,
+        conv => ({
+          ...conv,
+          lastMessage: conv.lastMessage.id === message.id ? message : conv.lastMessage,
+          unreadCount: wasRead ? Math.max(conv.unreadCount - 1, 0) : conv.unreadCount,
+        }),
+        messages => messages.map(msg => msg.id === message.id ? message : msg)
+      );
+    },
+    onResync: () => {
+      refreshConversations();
+      if (selectedConversation) {
+        loadConversationMessages(selectedConversation.participant.id, true);
+      }
+    },
+  };
+
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToMessages(user.id, realtimeHandlersRef);
   }, [user]);
 
+  useEffect(() => {
+    getMessageEditWindow().then(setEditWindow);
+  }, []);
+
+  // Last seen for everyone in the list; joined into a string so it only reloads when participants change
+  const participantIds = conversations.map(conv => conv.participant.id).join(',');
+  useEffect(() => {
+    if (participantIds) {
+      loadLastSeen(participantIds.split(','));
+    }
+  }, [participantIds, loadLastSeen]);
+
   // Improved scroll to bottom with better control
   useEffect(() => {
     if (shouldScrollToBottom && messagesEndRef.current) {
@@ -209,7 +413,56 @@ export default function EnhancedMessaging({ chatWithUserId, onClose }: EnhancedM
         requestAnimationFrame(scrollToBottom);
       });
     }
-  }, [selectedConversation?.messages, shouldScrollToBottom]);
+  }, [selectedConversation?.messages, otherUserTyping, shouldScrollToBottom]);
+
+  // Received messages are only marked as read once they have been on screen
+  // for a moment, and only while the tab is visible
+  const unreadMessageIds = (selectedConversation?.messages || [])
+    .filter(msg => msg.senderId !== user?.id && !msg.read)
+    .map(msg => msg.id)
+    .join(',');
+
+  useEffect(() => {
+    const container = messagesContainerRef.current;
+    if (!container || !unreadMessageIds) return;
+
+    const visibleIds = new Set<string>();
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = () => {
+      flushTimer = null;
+      if (document.visibilityState !== 'visible' || visibleIds.size === 0) return;
+      markMessagesRead(Array.from(visibleIds));
+      visibleIds.clear();
+    };
+
+    const observer = new IntersectionObserver(entries => {
+      for (const entry of entries) {
+        const messageId = (entry.target as HTMLElement).dataset.messageId;
+        if (!messageId) continue;
+        if (entry.isIntersecting) {
+          visibleIds.add(messageId);
+        } else {
+          visibleIds.delete(messageId);
+        }
+      }
+      if (!flushTimer) {
+        flushTimer = setTimeout(flush, READ_RECEIPT_DELAY);
+      }
+    }, { root: container, threshold: 0.5 });
+
+    for (const messageId of unreadMessageIds.split(',')) {
+      const element = container.querySelector(`[data-message-id="${messageId}"]`);
+      if (element) observer.observe(element);
+    }
+    document.addEventListener('visibilitychange', flush);
+
+    return () => {
+      observer.disconnect();
+      if (flushTimer) clearTimeout(flushTimer);
+      document.removeEventListener('visibilitychange', flush);
+    };
+  }, [unreadMessageIds]);
 
   // Handle scroll events to determine if user is at bottom
   const handleScroll = () => {
@@ -217,33 +470,153 @@ export default function EnhancedMessaging({ chatWithUserId, onClose }: EnhancedM
       const { scrollTop, scrollHeight, clientHeight } = messagesContainerRef.current;
       const isAtBottom = scrollTop + clientHeight >= scrollHeight - 50; // 50px threshold
       setShouldScrollToBottom(isAtBottom);
+
+      if (scrollTop < LOAD_OLDER_THRESHOLD) {
+        loadOlderMessages();
+      }
     }
   };
 
-  const handleSelectConversation = async (conversation: Conversation) => {
-    setSelectedConversation(conversation);
+  const handleSelectConversation = (conversation: ConversationSummary) => {
+    if (conversation.participant.id !== selectedConversation?.participant.id) {
+      setSelectedConversation({ ...conversation, messages: [] });
+    }
     setShowParticipantInfo(false);
     setShouldScrollToBottom(true); // Always scroll to bottom when selecting new conversation
     setSelectedMessages(new Set());
     setShowMessageActions(null);
-    
-    if (conversation.unreadCount > 0) {
-      await markMessagesAsRead(conversation.participant.id, user!.id);
-      setTimeout(refreshConversations, 500);
+    setShowConversationMenu(false);
+    setEditingMessage(null);
+    setReplyingTo(null);
+    setPendingJumpMessageId(null);
+    setShowConversationSearch(false);
+    setConversationSearchTerm('');
+  };
+
+  const handleStartEdit = (message: ChatMessage) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setNewMessage(message.content);
+    setShowMessageActions(null);
+  };
+
+  const handleStartReply = (message: ChatMessage) => {
+    if (editingMessage) handleCancelEdit();
+    setReplyingTo(message);
+    setShowMessageActions(null);
+  };
+
+  // Scroll to a message and flash it; messages that aren't loaded yet are
+  // picked up by the effect below once their page is in
+  const jumpToMessage = (messageId: string) => {
+    const element = messagesContainerRef.current?.querySelector(`[data-message-id="${messageId}"]`);
+    if (!element) {
+      setPendingJumpMessageId(messageId);
+      return;
     }
+
+    setShouldScrollToBottom(false);
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedMessageId(messageId);
+    setTimeout(() => setHighlightedMessageId(current => current === messageId ? null : current), 1500);
+  };
+
+  // Keep loading older pages until the message to jump to is loaded
+  const loadedMessages = selectedConversation?.messages;
+  useEffect(() => {
+    if (!pendingJumpMessageId || !loadedMessages || loadingMessages || loadingOlderMessages) return;
+    if (loadedMessages.length === 0) return;
+
+    if (loadedMessages.some(msg => msg.id === pendingJumpMessageId)) {
+      setPendingJumpMessageId(null);
+      jumpToMessage(pendingJumpMessageId);
+    } else if (hasOlderMessages) {
+      loadersRef.current.loadOlderMessages();
+    } else {
+      setPendingJumpMessageId(null);
+    }
+  }, [pendingJumpMessageId, loadedMessages, loadingMessages, loadingOlderMessages, hasOlderMessages]);
+
+  const openSearchResult = async (result: MessageSearchResult) => {
+    if (!user) return;
+
+    setShowConversationSearch(false);
+    if (selectedConversation?.participant.id !== result.participantId) {
+      // The conversation may not be in the loaded list, e.g. archived or further down
+      const summary = conversations.find(conv => conv.participant.id === result.participantId);
+      if (summary) {
+        handleSelectConversation(summary);
+      } else {
+        const participant = await getUserById(result.participantId);
+        if (!participant) return;
+        handleSelectConversation(createEmptyConversation(participant, user.id));
+      }
+    }
+
+    setShouldScrollToBottom(false);
+    jumpToMessage(result.messageId);
+  };
+
+  // Prefer the loaded original so edits show up; fall back to the preview from the server
+  const getReplyPreview = (message: ChatMessage): MessageReplyPreview | null => {
+    if (!message.replyToId) return null;
+
+    const original = selectedConversation?.messages.find(msg => msg.id === message.replyToId);
+    if (original) {
+      return {
+        senderId: original.senderId,
+        content: original.content,
+        messageType: original.messageType,
+        fileName: original.fileName,
+        deleted: false,
+      };
+    }
+    return message.replyTo || { deleted: true };
+  };
+
+  const describeQuotedMessage = (preview: MessageReplyPreview | ChatMessage) => {
+    if (preview.messageType === 'image') return '📷 Image';
+    if (preview.messageType === 'file') return `📎 ${preview.fileName || 'File'}`;
+    return preview.content || 'Hidden message';
+  };
+
+  const handleCancelEdit = () => {
+    setEditingMessage(null);
+    setNewMessage('');
   };
 
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newMessage.trim() || !selectedConversation || !user) return;
 
+    if (editingMessage) {
+      if (newMessage.trim() === editingMessage.content) {
+        handleCancelEdit();
+        return;
+      }
+
+      setSendingMessage(true);
+      try {
+        // The updated message arrives through Realtime
+        await editMessage(editingMessage.id, newMessage);
+        handleCancelEdit();
+      } catch (error) {
+        console.error('Failed to edit message:', error);
+        alert(error instanceof Error ? error.message : 'Failed to edit message. Please try again.');
+      } finally {
+        setSendingMessage(false);
+      }
+      return;
+    }
+
     setSendingMessage(true);
     setShouldScrollToBottom(true); // Scroll to bottom when sending message
+    setTyping(false);
     
     try {
-      await sendMessage(selectedConversation.participant.id, newMessage.trim());
+      await sendMessage(selectedConversation.participant.id, newMessage.trim(), replyingTo?.id);
       setNewMessage('');
-      setTimeout(refreshConversations, 200);
+      setReplyingTo(null);
     } catch (error) {
       console.error('Failed to send message:', error);
     } finally {
@@ -259,7 +632,6 @@ export default function EnhancedMessaging({ chatWithUserId, onClose }: EnhancedM
       const success = await deleteMessage(messageId, deleteType);
       if (success) {
         setShowMessageActions(null);
-        setTimeout(refreshConversations, 200);
       } else {
         alert('Failed to delete message. You can only delete your own messages for everyone.');
       }
@@ -276,11 +648,12 @@ export default function EnhancedMessaging({ chatWithUserId, onClose }: EnhancedM
     
     setDeletingConversation(true);
     try {
-      const success = await deleteConversation(selectedConversation.participant.id);
+      const participantId = selectedConversation.participant.id;
+      const success = await deleteConversation(participantId);
       if (success) {
+        setConversations(prev => prev.filter(conv => conv.participant.id !== participantId));
         setSelectedConversation(null);
         setShowDeleteConversationConfirm(false);
-        setTimeout(refreshConversations, 200);
       } else {
         alert('Failed to delete conversation. Please try again.');
       }
@@ -292,72 +665,51 @@ export default function EnhancedMessaging({ chatWithUserId, onClose }: EnhancedM
     }
   };
 
+  const handleUpdateConversationState = async (state: Partial<ConversationState>) => {
+    if (!selectedConversation) return;
+
+    const participantId = selectedConversation.participant.id;
+    setShowConversationMenu(false);
+
+    const success = await updateConversationState(participantId, state);
+    if (!success) {
+      alert('Failed to update conversation. Please try again.');
+      return;
+    }
+
+    // The list filters hide conversations that no longer match, e.g. once archived
+    updateConversation(participantId, conv => ({
+      ...conv,
+      isStarred: state.starred ?? conv.isStarred,
+      isArchived: state.archived ?? conv.isArchived,
+      isMuted: state.muted ?? conv.isMuted,
+      isPinned: state.pinned ?? conv.isPinned,
+    }));
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      // Validate file size (max 10MB)
-      const maxSize = 10 * 1024 * 1024; // 10MB
-      if (file.size > maxSize) {
-        alert('File size must be less than 10MB');
-        return;
-      }
+    if (!file || !selectedConversation || !user) return;
 
-      // Validate file type
-      const allowedTypes = [
-        'image/jpeg', 'image/png', 'image/gif', 'image/webp',
-        'application/pdf', 'text/plain',
-        'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
-      ];
-      
-      if (!allowedTypes.includes(file.type)) {
-        alert('File type not supported. Please upload images, PDFs, or documents.');
-        return;
-      }
+    const validationError = validateAttachment(file);
+    if (validationError) {
+      alert(validationError);
+      return;
+    }
 
-      try {
-        // For now, we'll convert to base64 and store in message content
-        // In production, you'd upload to Supabase Storage
-        const reader = new FileReader();
-        reader.onload = async (event) => {
-          const base64Data = event.target?.result as string;
-          
-          if (selectedConversation && user) {
-            setSendingMessage(true);
-            try {
-              // Create file message
-              const fileMessage = {
-                type: file.type.startsWith('image/') ? 'image' : 'file',
-                name: file.name,
-                size: file.size,
-                data: base64Data
-              };
-              
-              await sendMessage(selectedConversation.participant.id, JSON.stringify(fileMessage));
-              
-              // Clear file input
-              if (fileInputRef.current) {
-                fileInputRef.current.value = '';
-              }
-              
-              // Refresh conversation
-              setTimeout(refreshConversations, 200);
-            } catch (error) {
-              console.error('Failed to send file:', error);
-              alert('Failed to send file. Please try again.');
-            } finally {
-              setSendingMessage(false);
-            }
-          }
-        };
-        
-        reader.onerror = () => {
-          alert('Failed to read file. Please try again.');
-        };
-        
-        reader.readAsDataURL(file);
-      } catch (error) {
-        console.error('Error processing file:', error);
-        alert('Failed to process file. Please try again.');
+    setSendingMessage(true);
+    setShouldScrollToBottom(true);
+    try {
+      await sendAttachment(selectedConversation.participant.id, file);
+    } catch (error) {
+      console.error('Failed to send file:', error);
+      alert(error instanceof Error ? error.message : 'Failed to send file. Please try again.');
+    } finally {
+      setSendingMessage(false);
+
+      // Clear file input
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
       }
     }
   };
@@ -408,13 +760,35 @@ export default function EnhancedMessaging({ chatWithUserId, onClose }: EnhancedM
     }
   };
 
+  // "Online", "Last seen ...", or null when the participant hides both
+  const getPresenceLabel = (participantId: string) => {
+    if (isOnline(participantId)) return 'Online';
+    const lastSeen = getLastSeen(participantId);
+    return lastSeen ? formatLastSeen(lastSeen) : null;
+  };
+
+  // One tick when sent, two when delivered, two coloured ticks once read
   const getMessageStatus = (message: ChatMessage) => {
     if (message.senderId !== user?.id) return null;
-    
-    return message.read ? (
-      <CheckCircle2 className="h-3 w-3 text-[#00c9a7]" title="Read" />
-    ) : (
-      <Circle className="h-3 w-3 text-gray-400" title="Sent" />
+
+    if (message.read) {
+      return (
+        <span title={message.readAt ? `Read ${formatMessageDate(message.readAt)}` : 'Read'}>
+          <CheckCheck className="h-3 w-3 text-[#00c9a7]" />
+        </span>
+      );
+    }
+    if (message.deliveredAt) {
+      return (
+        <span title={`Delivered ${formatMessageDate(message.deliveredAt)}`}>
+          <CheckCheck className="h-3 w-3 text-gray-400" />
+        </span>
+      );
+    }
+    return (
+      <span title="Sent">
+        <Check className="h-3 w-3 text-gray-400" />
+      </span>
     );
   };
 
@@ -434,7 +808,9 @@ export default function EnhancedMessaging({ chatWithUserId, onClose }: EnhancedM
     }
   });
 
-  const totalUnreadCount = conversations.reduce((sum, conv) => sum + conv.unreadCount, 0);
+  const totalUnreadCount = conversations
+    .filter(conv => !conv.isMuted)
+    .reduce((sum, conv) => sum + conv.unreadCount, 0);
 
   return (
     <>
@@ -467,7 +843,7 @@ export default function EnhancedMessaging({ chatWithUserId, onClose }: EnhancedM
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
               <input
                 type="text"
-                placeholder="Search conversations..."
+                placeholder="Search conversations and messages..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="w-full pl-10 pr-4 py-2 bg-slate-700 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:border-[#3db2ff] focus:ring-1 focus:ring-[#3db2ff] focus:outline-none text-sm"
@@ -540,10 +916,13 @@ export default function EnhancedMessaging({ chatWithUserId, onClose }: EnhancedM
                           </div>
                         )}
                         {conversation.unreadCount > 0 && (
-                          <div className="absolute -top-1 -right-1 bg-[#3db2ff] text-white text-xs rounded-full min-w-[18px] h-[18px] flex items-center justify-center px-1">
+                          <div className={`absolute -top-1 -right-1 ${conversation.isMuted ? 'bg-slate-500' : 'bg-[#3db2ff]'} text-white text-xs rounded-full min-w-[18px] h-[18px] flex items-center justify-center px-1`}>
                             {conversation.unreadCount > 9 ? '9+' : conversation.unreadCount}
                           </div>
                         )}
+                        {isOnline(conversation.participant.id) && (
+                          <div className="absolute bottom-0 right-0 w-3 h-3 bg-[#00c9a7] border-2 border-slate-800 rounded-full" title="Online" />
+                        )}
                       </div>
                       
                       <div className="flex-1 min-w-0">
@@ -554,6 +933,12 @@ export default function EnhancedMessaging({ chatWithUserId, onClose }: EnhancedM
                             {conversation.participant.name}
                           </p>
                           <div className="flex items-center space-x-1">
+                            {conversation.isPinned && (
+                              <Pin className="h-3 w-3 text-gray-400" />
+                            )}
+                            {conversation.isMuted && (
+                              <BellOff className="h-3 w-3 text-gray-400" />
+                            )}
                             {conversation.isStarred && (
                               <Star className="h-3 w-3 text-yellow-400 fill-current" />
                             )}
@@ -570,7 +955,15 @@ export default function EnhancedMessaging({ chatWithUserId, onClose }: EnhancedM
                             {conversation.lastMessage.senderId === user?.id ? 'You: ' : ''}
                             {(() => {
                               const content = conversation.lastMessage.content;
+                              if (conversation.lastMessage.hidden) return 'Message hidden after reports';
                               if (!content) return 'Start a conversation';
+
+                              if (conversation.lastMessage.messageType === 'image') {
+                                return '📷 Image';
+                              }
+                              if (conversation.lastMessage.messageType === 'file') {
+                                return `📎 ${conversation.lastMessage.fileName || 'File'}`;
+                              }
                               
                               try {
                                 const fileData = JSON.parse(content);
@@ -599,12 +992,34 @@ export default function EnhancedMessaging({ chatWithUserId, onClose }: EnhancedM
                             {(conversation.participant as ServiceProvider).serviceType}
                           </p>
                         )}
+
+                        {!isOnline(conversation.participant.id) && getLastSeen(conversation.participant.id) && (
+                          <p className="text-xs text-gray-400 mt-1">
+                            {formatLastSeen(getLastSeen(conversation.participant.id)!)}
+                          </p>
+                        )}
                       </div>
                     </div>
                   </button>
                 ))}
+
+                {hasMoreConversations && (
+                  <button
+                    onClick={loadMoreConversations}
+                    disabled={loadingMoreConversations}
+                    className="w-full py-2 text-sm text-[#3db2ff] hover:text-white transition-colors disabled:opacity-50 flex items-center justify-center"
+                  >
+                    {loadingMoreConversations ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      'Load more conversations'
+                    )}
+                  </button>
+                )}
               </div>
             )}
+
+            <MessageSearchResults query={searchTerm} onSelect={openSearchResult} />
           </div>
         </div>
 
@@ -623,24 +1038,36 @@ export default function EnhancedMessaging({ chatWithUserId, onClose }: EnhancedM
                       <ArrowLeft className="h-5 w-5" />
                     </button>
                     
-                    {(selectedConversation.participant as any).profileImage ? (
-                      <img
-                        src={(selectedConversation.participant as any).profileImage}
-                        alt={selectedConversation.participant.name}
-                        className="w-10 h-10 rounded-full object-cover"
-                      />
-                    ) : (
-                      <div className="w-10 h-10 rounded-full bg-slate-600 flex items-center justify-center">
-                        <span className="text-white font-medium">
-                          {selectedConversation.participant.name.charAt(0).toUpperCase()}
-                        </span>
-                      </div>
-                    )}
+                    <div className="relative flex-shrink-0">
+                      {(selectedConversation.participant as any).profileImage ? (
+                        <img
+                          src={(selectedConversation.participant as any).profileImage}
+                          alt={selectedConversation.participant.name}
+                          className="w-10 h-10 rounded-full object-cover"
+                        />
+                      ) : (
+                        <div className="w-10 h-10 rounded-full bg-slate-600 flex items-center justify-center">
+                          <span className="text-white font-medium">
+                            {selectedConversation.participant.name.charAt(0).toUpperCase()}
+                          </span>
+                        </div>
+                      )}
+                      {isOnline(selectedConversation.participant.id) && (
+                        <div className="absolute bottom-0 right-0 w-3 h-3 bg-[#00c9a7] border-2 border-slate-900 rounded-full" />
+                      )}
+                    </div>
                     
                     <div>
                       <h3 className="text-white font-semibold">
                         {selectedConversation.participant.name}
                       </h3>
+                      {otherUserTyping ? (
+                        <p className="text-xs text-[#00c9a7]">typing…</p>
+                      ) : getPresenceLabel(selectedConversation.participant.id) && (
+                        <p className={`text-xs ${isOnline(selectedConversation.participant.id) ? 'text-[#00c9a7]' : 'text-gray-400'}`}>
+                          {getPresenceLabel(selectedConversation.participant.id)}
+                        </p>
+                      )}
                       {selectedConversation.participant.role === 'provider' && (
                         <p className="text-sm text-[#3db2ff]">
                           {(selectedConversation.participant as ServiceProvider).serviceType}
@@ -660,6 +1087,19 @@ export default function EnhancedMessaging({ chatWithUserId, onClose }: EnhancedM
                       </button>
                     )}
                     
+                    <button
+                      onClick={() => {
+                        setShowConversationSearch(!showConversationSearch);
+                        setConversationSearchTerm('');
+                      }}
+                      className={`p-2 transition-colors rounded-full hover:bg-slate-700 ${
+                        showConversationSearch ? 'text-[#3db2ff]' : 'text-gray-400 hover:text-white'
+                      }`}
+                      title="Search in conversation"
+                    >
+                      <Search className="h-5 w-5" />
+                    </button>
+
                     <button
                       onClick={() => setShowDeleteConversationConfirm(true)}
                       className="p-2 text-gray-400 hover:text-red-400 transition-colors rounded-full hover:bg-slate-700"
@@ -675,8 +1115,77 @@ export default function EnhancedMessaging({ chatWithUserId, onClose }: EnhancedM
                     >
                       <Info className="h-5 w-5" />
                     </button>
+
+                    <div className="relative">
+                      <button
+                        onClick={() => setShowConversationMenu(!showConversationMenu)}
+                        className="p-2 text-gray-400 hover:text-white transition-colors rounded-full hover:bg-slate-700"
+                        title="More"
+                      >
+                        <MoreVertical className="h-5 w-5" />
+                      </button>
+
+                      {showConversationMenu && (
+                        <div className="absolute right-0 top-full mt-1 bg-slate-700 border border-slate-600 rounded-lg shadow-xl py-1 z-20 min-w-[180px]">
+                          <button
+                            onClick={() => handleUpdateConversationState({ pinned: !selectedConversation.isPinned })}
+                            className="w-full px-3 py-2 text-left text-sm text-white hover:bg-slate-600 flex items-center space-x-2"
+                          >
+                            {selectedConversation.isPinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                            <span>{selectedConversation.isPinned ? 'Unpin' : 'Pin to top'}</span>
+                          </button>
+                          <button
+                            onClick={() => handleUpdateConversationState({ starred: !selectedConversation.isStarred })}
+                            className="w-full px-3 py-2 text-left text-sm text-white hover:bg-slate-600 flex items-center space-x-2"
+                          >
+                            <Star className={`h-4 w-4 ${selectedConversation.isStarred ? 'text-yellow-400 fill-current' : ''}`} />
+                            <span>{selectedConversation.isStarred ? 'Unstar' : 'Star'}</span>
+                          </button>
+                          <button
+                            onClick={() => handleUpdateConversationState({ muted: !selectedConversation.isMuted })}
+                            className="w-full px-3 py-2 text-left text-sm text-white hover:bg-slate-600 flex items-center space-x-2"
+                          >
+                            {selectedConversation.isMuted ? <Bell className="h-4 w-4" /> : <BellOff className="h-4 w-4" />}
+                            <span>{selectedConversation.isMuted ? 'Unmute' : 'Mute'}</span>
+                          </button>
+                          <button
+                            onClick={() => handleUpdateConversationState({ archived: !selectedConversation.isArchived })}
+                            className="w-full px-3 py-2 text-left text-sm text-white hover:bg-slate-600 flex items-center space-x-2"
+                          >
+                            {selectedConversation.isArchived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                            <span>{selectedConversation.isArchived ? 'Unarchive' : 'Archive'}</span>
+                          </button>
+                        </div>
+                      )}
+                    </div>
                   </div>
                 </div>
+
+                {showConversationSearch && (
+                  <div className="mt-3">
+                    <div className="relative">
+                      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                      <input
+                        type="text"
+                        autoFocus
+                        placeholder={`Search messages with ${selectedConversation.participant.name}...`}
+                        value={conversationSearchTerm}
+                        onChange={(e) => setConversationSearchTerm(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Escape') setShowConversationSearch(false);
+                        }}
+                        className="w-full pl-10 pr-4 py-2 bg-slate-700 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:border-[#3db2ff] focus:ring-1 focus:ring-[#3db2ff] focus:outline-none text-sm"
+                      />
+                    </div>
+                    <div className="max-h-64 overflow-y-auto">
+                      <MessageSearchResults
+                        query={conversationSearchTerm}
+                        participantId={selectedConversation.participant.id}
+                        onSelect={openSearchResult}
+                      />
+                    </div>
+                  </div>
+                )}
               </div>
 
               {/* Messages */}
@@ -686,7 +1195,26 @@ export default function EnhancedMessaging({ chatWithUserId, onClose }: EnhancedM
                 className="flex-1 overflow-y-auto p-4 space-y-4"
                 style={{ scrollBehavior: 'smooth' }}
               >
-                {selectedConversation.messages.length === 0 ? (
+                {hasOlderMessages && selectedConversation.messages.length > 0 && (
+                  <div className="flex justify-center">
+                    {loadingOlderMessages ? (
+                      <Loader2 className="h-5 w-5 text-[#3db2ff] animate-spin" />
+                    ) : (
+                      <button
+                        onClick={loadOlderMessages}
+                        className="text-xs text-[#3db2ff] hover:text-white transition-colors"
+                      >
+                        Load earlier messages
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {loadingMessages && selectedConversation.messages.length === 0 ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-8 w-8 text-[#3db2ff] animate-spin" />
+                  </div>
+                ) : selectedConversation.messages.length === 0 ? (
                   <div className="text-center py-8">
                     <MessageCircle className="h-12 w-12 text-gray-400 mx-auto mb-4" />
                     <h3 className="text-lg font-semibold text-white mb-2">Start the conversation</h3>
@@ -698,18 +1226,58 @@ export default function EnhancedMessaging({ chatWithUserId, onClose }: EnhancedM
                   selectedConversation.messages.map((message) => (
                     <div
                       key={message.id}
+                      data-message-id={message.id}
                       className={`flex ${message.senderId === user?.id ? 'justify-end' : 'justify-start'}`}
                     >
                       <div className="flex flex-col max-w-xs lg:max-w-md">
                         <div
-                          className={`relative group px-4 py-2 rounded-2xl shadow-lg ${
+                          className={`relative group px-4 py-2 rounded-2xl shadow-lg transition-shadow ${
                             message.senderId === user?.id
                               ? 'bg-gradient-to-r from-[#3db2ff] to-[#2563eb] text-white rounded-br-md'
                               : 'bg-white text-slate-800 rounded-bl-md'
-                          }`}
+                          } ${highlightedMessageId === message.id ? 'ring-2 ring-yellow-400' : ''}`}
                         >
+                          {/* Quoted message */}
+                          {(() => {
+                            const preview = getReplyPreview(message);
+                            if (!preview) return null;
+
+                            return (
+                              <button
+                                type="button"
+                                onClick={() => jumpToMessage(message.replyToId!)}
+                                disabled={preview.deleted}
+                                className={`block w-full text-left mb-2 px-3 py-1.5 rounded-lg border-l-4 disabled:cursor-default ${
+                                  message.senderId === user?.id
+                                    ? 'bg-white/15 border-white/60'
+                                    : 'bg-slate-100 border-[#3db2ff]'
+                                }`}
+                              >
+                                {preview.deleted ? (
+                                  <p className="text-xs italic opacity-75">Original message was deleted</p>
+                                ) : (
+                                  <>
+                                    <p className="text-xs font-semibold">
+                                      {preview.senderId === user?.id ? 'You' : selectedConversation.participant.name}
+                                    </p>
+                                    <p className="text-xs opacity-80 truncate">{describeQuotedMessage(preview)}</p>
+                                  </>
+                                )}
+                              </button>
+                            );
+                          })()}
+
                           {/* Render message content based on type */}
                           {(() => {
+                            if (message.hidden) {
+                              return <p className="text-sm italic opacity-75">This message was hidden after reports</p>;
+                            }
+
+                            if (message.messageType !== 'text' && message.fileUrl) {
+                              return <MessageAttachment message={message} />;
+                            }
+
+                            // Older attachments were sent inline as base64 JSON
                             try {
                               const fileData = JSON.parse(message.content);
                               if (fileData.type && fileData.name && fileData.data) {
@@ -758,7 +1326,7 @@ export default function EnhancedMessaging({ chatWithUserId, onClose }: EnhancedM
                           })()}
                           
                           {/* Message Actions */}
-                          {message.senderId === user?.id && (
+                          {user && (
                             <div className="absolute top-1 right-1 opacity-0 group-hover:opacity-100 transition-opacity">
                               <button
                                 onClick={() => setShowMessageActions(showMessageActions === message.id ? null : message.id)}
@@ -769,6 +1337,22 @@ export default function EnhancedMessaging({ chatWithUserId, onClose }: EnhancedM
                               
                               {showMessageActions === message.id && (
                                 <div className="absolute top-6 right-0 bg-slate-700 border border-slate-600 rounded-md shadow-lg z-10 min-w-[150px]">
+                                  {!message.hidden && (
+                                    <button
+                                      onClick={() => handleStartReply(message)}
+                                      className="w-full text-left px-3 py-2 text-sm text-[#cbd5e1] hover:bg-slate-600 transition-colors"
+                                    >
+                                      Reply
+                                    </button>
+                                  )}
+                                  {!message.hidden && canEditMessage(message, user.id, editWindow) && (
+                                    <button
+                                      onClick={() => handleStartEdit(message)}
+                                      className="w-full text-left px-3 py-2 text-sm text-[#cbd5e1] hover:bg-slate-600 transition-colors"
+                                    >
+                                      Edit
+                                    </button>
+                                  )}
                                   <button
                                     onClick={() => handleDeleteMessage(message.id, 'delete-for-me')}
                                     disabled={deletingMessage === message.id}
@@ -783,13 +1367,27 @@ export default function EnhancedMessaging({ chatWithUserId, onClose }: EnhancedM
                                       'Delete for me'
                                     )}
                                   </button>
-                                  <button
-                                    onClick={() => handleDeleteMessage(message.id, 'delete-for-all')}
-                                    disabled={deletingMessage === message.id}
-                                    className="w-full text-left px-3 py-2 text-sm text-red-400 hover:bg-slate-600 transition-colors disabled:opacity-50"
-                                  >
-                                    Delete for everyone
-                                  </button>
+                                  {message.senderId === user.id && (
+                                    <button
+                                      onClick={() => handleDeleteMessage(message.id, 'delete-for-all')}
+                                      disabled={deletingMessage === message.id}
+                                      className="w-full text-left px-3 py-2 text-sm text-red-400 hover:bg-slate-600 transition-colors disabled:opacity-50"
+                                    >
+                                      Delete for everyone
+                                    </button>
+                                  )}
+                                  {message.senderId !== user.id && !message.hidden && (
+                                    <button
+                                      onClick={() => {
+                                        setReportingMessageId(message.id);
+                                        setShowMessageActions(null);
+                                      }}
+                                      className="w-full flex items-center space-x-2 text-left px-3 py-2 text-sm text-red-400 hover:bg-slate-600 transition-colors"
+                                    >
+                                      <Flag className="h-3 w-3" />
+                                      <span>Report</span>
+                                    </button>
+                                  )}
                                 </div>
                               )}
                             </div>
@@ -802,6 +1400,15 @@ export default function EnhancedMessaging({ chatWithUserId, onClose }: EnhancedM
                           <span className="text-xs text-gray-400">
                             {formatMessageDate(message.timestamp)}
                           </span>
+                          {message.editedAt && (
+                            <button
+                              onClick={() => setHistoryMessage(message)}
+                              className="text-xs text-gray-400 hover:text-white italic transition-colors"
+                              title="View edit history"
+                            >
+                              · edited
+                            </button>
+                          )}
                           {message.senderId === user?.id && (
                             <div className="ml-1">
                               {getMessageStatus(message)}
@@ -812,18 +1419,71 @@ export default function EnhancedMessaging({ chatWithUserId, onClose }: EnhancedM
                     </div>
                   ))
                 )}
+                {otherUserTyping && (
+                  <div className="flex justify-start">
+                    <div className="bg-slate-700 text-gray-300 px-4 py-2 rounded-2xl rounded-bl-md text-sm italic">
+                      {selectedConversation.participant.name} is typing…
+                    </div>
+                  </div>
+                )}
                 <div ref={messagesEndRef} />
               </div>
 
               {/* Message Input */}
               <form onSubmit={handleSendMessage} className="p-4 border-t border-slate-700 bg-slate-900 flex-shrink-0">
+                {editingMessage && (
+                  <div className="flex items-center justify-between mb-2 px-3 py-2 bg-slate-800 border-l-2 border-[#3db2ff] rounded">
+                    <div className="min-w-0">
+                      <p className="text-xs text-[#3db2ff]">Editing message</p>
+                      <p className="text-sm text-gray-400 truncate">{editingMessage.content}</p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={handleCancelEdit}
+                      className="p-1 text-gray-400 hover:text-white transition-colors"
+                      title="Cancel editing"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                )}
+                {replyingTo && (
+                  <div className="flex items-center justify-between mb-2 px-3 py-2 bg-slate-800 border-l-2 border-[#00c9a7] rounded">
+                    <div className="min-w-0">
+                      <p className="text-xs text-[#00c9a7]">
+                        Replying to {replyingTo.senderId === user?.id ? 'yourself' : selectedConversation.participant.name}
+                      </p>
+                      <p className="text-sm text-gray-400 truncate">{describeQuotedMessage(replyingTo)}</p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setReplyingTo(null)}
+                      className="p-1 text-gray-400 hover:text-white transition-colors"
+                      title="Cancel reply"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                )}
                 <div className="flex items-end space-x-3">
                   <div className="flex-1">
                     <div className="relative">
                       <input
                         type="text"
                         value={newMessage}
-                        onChange={(e) => setNewMessage(e.target.value)}
+                        onChange={(e) => {
+                          setNewMessage(e.target.value);
+                          if (!editingMessage) {
+                            setTyping(e.target.value.trim().length > 0);
+                          }
+                        }}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Escape' && editingMessage) {
+                            handleCancelEdit();
+                          } else if (e.key === 'Escape' && replyingTo) {
+                            setReplyingTo(null);
+                          }
+                        }}
                         disabled={sendingMessage}
                         placeholder="Type your message..."
                         className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-full text-white placeholder-gray-400 focus:border-[#3db2ff] focus:ring-2 focus:ring-[#3db2ff]/20 focus:outline-none transition-all disabled:opacity-50 pr-20"
@@ -858,6 +1518,8 @@ export default function EnhancedMessaging({ chatWithUserId, onClose }: EnhancedM
                   >
                     {sendingMessage ? (
                       <Loader2 className="h-5 w-5 animate-spin" />
+                    ) : editingMessage ? (
+                      <Check className="h-5 w-5" />
                     ) : (
                       <Send className="h-5 w-5" />
                     )}
@@ -955,6 +1617,21 @@ export default function EnhancedMessaging({ chatWithUserId, onClose }: EnhancedM
       </div>
 
       {/* Delete Conversation Confirmation Modal */}
+      {historyMessage && (
+        <MessageEditHistory
+          message={selectedConversation?.messages.find(msg => msg.id === historyMessage.id) || historyMessage}
+          onClose={() => setHistoryMessage(null)}
+        />
+      )}
+
+      {reportingMessageId && (
+        <ReportModal
+          targetType="message"
+          targetId={reportingMessageId}
+          onClose={() => setReportingMessageId(null)}
+        />
+      )}
+
       {showDeleteConversationConfirm && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
           <div className="bg-slate-800 rounded-lg p-6 max-w-md w-full">
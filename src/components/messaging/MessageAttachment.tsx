@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { Download, FileText, ImageOff, Loader2 } from 'lucide-react';
+import { ChatMessage } from '../../types';
+import { formatFileSize, getAttachmentUrl } from '../../lib/attachments';
+
+interface MessageAttachmentProps {
+  message: ChatMessage;
+}
+
+export default function MessageAttachment({ message }: MessageAttachmentProps) {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [loadingImage, setLoadingImage] = useState(message.messageType === 'image');
+  const [downloading, setDownloading] = useState(false);
+  const fileName = message.fileName || message.content;
+
+  // Images are shown inline, so their signed URL is fetched straight away
+  useEffect(() => {
+    if (message.messageType !== 'image' || !message.fileUrl) return;
+
+    let cancelled = false;
+    setLoadingImage(true);
+    getAttachmentUrl(message.fileUrl).then(url => {
+      if (!cancelled) {
+        setImageUrl(url);
+        setLoadingImage(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [message.fileUrl, message.messageType]);
+
+  const handleDownload = async () => {
+    if (!message.fileUrl) return;
+
+    setDownloading(true);
+    try {
+      const url = await getAttachmentUrl(message.fileUrl, fileName);
+      if (url) {
+        // The signed URL is created with the download option, so following it saves the file
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        link.click();
+      } else {
+        alert('Failed to download file. Please try again.');
+      }
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  if (message.messageType === 'image') {
+    return (
+      <div className="space-y-2">
+        {loadingImage ? (
+          <div className="w-48 h-36 rounded-lg bg-black/10 flex items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin opacity-75" />
+          </div>
+        ) : imageUrl ? (
+          <img
+            src={imageUrl}
+            alt={fileName}
+            className="max-w-xs max-h-64 rounded-lg object-cover cursor-pointer hover:opacity-90 transition-opacity"
+            onClick={() => window.open(imageUrl, '_blank')}
+          />
+        ) : (
+          <div className="w-48 h-36 rounded-lg bg-black/10 flex flex-col items-center justify-center space-y-1">
+            <ImageOff className="h-6 w-6 opacity-75" />
+            <span className="text-xs opacity-75">Image unavailable</span>
+          </div>
+        )}
+        <p className="text-xs opacity-75">{fileName}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center space-x-2 p-2 bg-black/10 rounded-lg">
+      <FileText className="h-4 w-4 flex-shrink-0" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">{fileName}</p>
+        {message.fileSize !== undefined && (
+          <p className="text-xs opacity-75">{formatFileSize(message.fileSize)}</p>
+        )}
+      </div>
+      <button
+        onClick={handleDownload}
+        disabled={downloading}
+        className="p-1 hover:bg-black/10 rounded transition-colors disabled:opacity-50"
+        title="Download"
+      >
+        {downloading ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          <Download className="h-4 w-4" />
+        )}
+      </button>
+    </div>
+  );
+}
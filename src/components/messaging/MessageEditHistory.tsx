@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { History, Loader2, X } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { ChatMessage, MessageEdit } from '../../types';
+
+interface MessageEditHistoryProps {
+  message: ChatMessage;
+  onClose: () => void;
+}
+
+export default function MessageEditHistory({ message, onClose }: MessageEditHistoryProps) {
+  const { getMessageEditHistory } = useAuth();
+  const [edits, setEdits] = useState<MessageEdit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const editedAt = message.editedAt?.getTime();
+
+  // Reload when the message is edited again while the history is open
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getMessageEditHistory(message.id).then(history => {
+      if (!cancelled) {
+        setEdits(history);
+        setLoading(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [message.id, editedAt, getMessageEditHistory]);
+
+  const formatDateTime = (date: Date) =>
+    date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-slate-800 rounded-lg p-6 max-w-md w-full max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-2">
+            <History className="h-5 w-5 text-[#3db2ff]" />
+            <h3 className="text-lg font-semibold text-white">Edit History</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-3">
+          <div className="p-3 bg-slate-700 rounded-md border-l-2 border-[#3db2ff]">
+            <p className="text-xs text-[#3db2ff] mb-1">
+              Current{message.editedAt ? ` · edited ${formatDateTime(message.editedAt)}` : ''}
+            </p>
+            <p className="text-sm text-white break-words">{message.content}</p>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-6 w-6 text-[#3db2ff] animate-spin" />
+            </div>
+          ) : edits.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-4">No earlier versions</p>
+          ) : (
+            edits.map((edit, index) => (
+              <div key={edit.id} className="p-3 bg-slate-900 rounded-md">
+                <p className="text-xs text-gray-400 mb-1">
+                  {index === edits.length - 1
+                    ? `Original · sent ${formatDateTime(message.timestamp)}`
+                    : `Replaced ${formatDateTime(edit.editedAt)}`}
+                </p>
+                <p className="text-sm text-[#cbd5e1] break-words">{edit.previousContent}</p>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { MessageSearchResult } from '../../types';
+import { searchMessages, SEARCH_MATCH_END, SEARCH_MATCH_START } from '../../lib/messaging';
+
+// Wait for typing to pause before searching
+const SEARCH_DELAY = 300;
+const MIN_QUERY_LENGTH = 2;
+
+interface MessageSearchResultsProps {
+  query: string;
+  participantId?: string; // Only search this conversation
+  onSelect: (result: MessageSearchResult) => void;
+}
+
+export default function MessageSearchResults({ query, participantId, onSelect }: MessageSearchResultsProps) {
+  const { user } = useAuth();
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const trimmedQuery = query.trim();
+
+  useEffect(() => {
+    if (trimmedQuery.length < MIN_QUERY_LENGTH) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+    const timer = setTimeout(() => {
+      searchMessages(trimmedQuery, participantId).then(found => {
+        if (!cancelled) {
+          setResults(found);
+          setSearching(false);
+        }
+      });
+    }, SEARCH_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [trimmedQuery, participantId]);
+
+  if (trimmedQuery.length < MIN_QUERY_LENGTH) return null;
+
+  const formatDate = (date: Date) =>
+    date.toLocaleDateString([], {
+      month: 'short',
+      day: 'numeric',
+      year: date.getFullYear() === new Date().getFullYear() ? undefined : 'numeric',
+    });
+
+  // Matches come back wrapped in the marker characters
+  const renderSnippet = (snippet: string) =>
+    snippet.split(SEARCH_MATCH_START).map((part, index) => {
+      if (index === 0) return <span key={index}>{part}</span>;
+
+      const [match, rest = ''] = part.split(SEARCH_MATCH_END);
+      return (
+        <span key={index}>
+          <mark className="bg-[#3db2ff]/30 text-white rounded px-0.5">{match}</mark>
+          {rest}
+        </span>
+      );
+    });
+
+  return (
+    <div className="p-2">
+      <p className="px-2 py-1 text-xs font-semibold text-gray-400 uppercase tracking-wide">Messages</p>
+
+      {searching ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 text-[#3db2ff] animate-spin" />
+        </div>
+      ) : results.length === 0 ? (
+        <p className="px-2 py-3 text-sm text-gray-400">No messages match "{trimmedQuery}"</p>
+      ) : (
+        <div className="space-y-1">
+          {results.map(result => (
+            <button
+              key={result.messageId}
+              onClick={() => onSelect(result)}
+              className="w-full p-2 text-left hover:bg-slate-700 transition-colors rounded-md"
+            >
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-sm font-medium text-white truncate">
+                  {participantId ? (result.senderId === user?.id ? 'You' : result.participantName) : result.participantName}
+                </span>
+                <span className="text-xs text-gray-400 flex-shrink-0 ml-2">{formatDate(result.timestamp)}</span>
+              </div>
+              <p className="text-sm text-[#cbd5e1] line-clamp-2 break-words">
+                {!participantId && result.senderId === user?.id ? 'You: ' : ''}
+                {renderSnippet(result.snippet)}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { useAuth } from '../../contexts/AuthContext';
 import { ChatMessage, User } from '../../types';
 import { MessageCircle, User as UserIcon, Clock, Send, Search, Loader2, Bell, CheckCircle2, Circle } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { MessageSubscriptionHandlers, subscribeToMessages } from '../../lib/messaging';
 
 interface Conversation {
   user: User;
@@ -20,7 +21,7 @@ export default function ProviderMessages() {
   const [loading, setLoading] = useState(false);
   const [sendingMessage, setSendingMessage] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const realtimeHandlersRef = useRef<MessageSubscriptionHandlers>({});
 
   const refreshConversations = async () => {
     if (!user || loading) return;
@@ -111,15 +112,16 @@ export default function ProviderMessages() {
     refreshConversations();
   }, [user]);
 
-  // Set up polling for new messages (every 10 seconds)
+  // Reload conversations whenever one of the user's messages changes
+  realtimeHandlersRef.current = {
+    onInsert: refreshConversations,
+    onUpdate: refreshConversations,
+    onResync: refreshConversations,
+  };
+
   useEffect(() => {
-    intervalRef.current = setInterval(refreshConversations, 10000);
-    
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-    };
+    if (!user) return;
+    return subscribeToMessages(user.id, realtimeHandlersRef);
   }, [user]);
 
   useEffect(() => {
@@ -144,8 +146,6 @@ export default function ProviderMessages() {
     // Mark messages as read
     if (conversation.unreadCount > 0) {
       await markMessagesAsRead(conversation.user.id, user!.id);
-      // Refresh conversations after a short delay to update unread count
-      setTimeout(refreshConversations, 500);
     }
   };
 
@@ -157,9 +157,6 @@ export default function ProviderMessages() {
     try {
       await sendMessage(selectedConversation.user.id, newMessage.trim());
       setNewMessage('');
-
-      // Immediately refresh conversations to show the new message
-      setTimeout(refreshConversations, 200);
     } catch (error) {
       console.error('Failed to send message:', error);
     } finally {
@@ -1,8 +1,11 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
+import { useConversationPresence, usePresence } from '../../contexts/usePresence';
 import { ChatMessage, ServiceProvider } from '../../types';
 import { MessageCircle, User as UserIcon, Clock, Send, Search, Bell, CheckCircle2, Circle, Loader2 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { MessageSubscriptionHandlers, subscribeToMessages } from '../../lib/messaging';
+import { formatLastSeen } from '../../lib/presence';
 import ProviderModal from '../search/ProviderModal';
 
 interface UserMessagesProps {
@@ -27,7 +30,12 @@ export default function UserMessages({ chatWithProviderId }: UserMessagesProps)
   const [showProviderModal, setShowProviderModal] = useState(false);
   const [selectedProvider, setSelectedProvider] = useState<ServiceProvider | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const realtimeHandlersRef = useRef<MessageSubscriptionHandlers>({});
+  const { getLastSeen, isOnline: isActive, loadLastSeen } = usePresence();
+  const { otherUserOnline, otherUserTyping, setTyping } = useConversationPresence(selectedConversation?.provider.id);
+  // Recently active in the app, or in the open conversation right now
+  const isOnline = (participantId: string) =>
+    isActive(participantId) || (otherUserOnline && participantId === selectedConversation?.provider.id);
 
   const refreshConversations = async () => {
     if (!user || loading) return;
@@ -170,20 +178,28 @@ export default function UserMessages({ chatWithProviderId }: UserMessagesProps)
     refreshConversations();
   }, [user]);
 
-  // Set up polling for new messages (every 10 seconds)
+  // Reload conversations whenever one of the user's messages changes
+  realtimeHandlersRef.current = {
+    onInsert: refreshConversations,
+    onUpdate: refreshConversations,
+    onResync: refreshConversations,
+  };
+
   useEffect(() => {
-    intervalRef.current = setInterval(refreshConversations, 10000);
-    
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-    };
+    if (!user) return;
+    return subscribeToMessages(user.id, realtimeHandlersRef);
   }, [user]);
 
+  const providerIds = conversations.map(conv => conv.provider.id).join(',');
+  useEffect(() => {
+    if (providerIds) {
+      loadLastSeen(providerIds.split(','));
+    }
+  }, [providerIds, loadLastSeen]);
+
   useEffect(() => {
     scrollToBottom();
-  }, [selectedConversation?.messages]);
+  }, [selectedConversation?.messages, otherUserTyping]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -203,8 +219,6 @@ export default function UserMessages({ chatWithProviderId }: UserMessagesProps)
     // Mark messages as read
     if (conversation.unreadCount > 0) {
       await markMessagesAsRead(conversation.provider.id, user!.id);
-      // Refresh conversations after a short delay to update unread count
-      setTimeout(refreshConversations, 500);
     }
   };
 
@@ -213,12 +227,10 @@ export default function UserMessages({ chatWithProviderId }: UserMessagesProps)
     if (!newMessage.trim() || !selectedConversation || !user) return;
 
     setSendingMessage(true);
+    setTyping(false);
     try {
       await sendMessage(selectedConversation.provider.id, newMessage.trim());
       setNewMessage('');
-
-      // Immediately refresh conversations to show the new message
-      setTimeout(refreshConversations, 200);
     } catch (error) {
       console.error('Failed to send message:', error);
     } finally {
@@ -357,6 +369,9 @@ export default function UserMessages({ chatWithProviderId }: UserMessagesProps)
                             <div className="w-2 h-2 bg-white rounded-full animate-pulse"></div>
                           </div>
                         )}
+                        {isOnline(conversation.provider.id) && (
+                          <div className="absolute bottom-0 right-0 w-3 h-3 bg-[#00c9a7] border-2 border-slate-800 rounded-full" title="Online" />
+                        )}
                       </div>
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center justify-between mb-1">
@@ -425,6 +440,11 @@ export default function UserMessages({ chatWithProviderId }: UserMessagesProps)
                         <p className="text-xs text-[#3db2ff] mt-1">
                           {conversation.provider.serviceType}
                         </p>
+                        {!isOnline(conversation.provider.id) && getLastSeen(conversation.provider.id) && (
+                          <p className="text-xs text-gray-400 mt-1">
+                            {formatLastSeen(getLastSeen(conversation.provider.id)!)}
+                          </p>
+                        )}
                       </div>
                     </div>
                   </button>
@@ -464,6 +484,13 @@ export default function UserMessages({ chatWithProviderId }: UserMessagesProps)
                       {selectedConversation.provider.businessName || selectedConversation.provider.name}
                     </h4>
                     <p className="text-sm text-[#3db2ff]">{selectedConversation.provider.serviceType}</p>
+                    {otherUserTyping ? (
+                      <p className="text-xs text-[#00c9a7]">typing…</p>
+                    ) : isOnline(selectedConversation.provider.id) ? (
+                      <p className="text-xs text-[#00c9a7]">Online</p>
+                    ) : getLastSeen(selectedConversation.provider.id) && (
+                      <p className="text-xs text-gray-400">{formatLastSeen(getLastSeen(selectedConversation.provider.id)!)}</p>
+                    )}
                   </div>
                 </div>
               </div>
@@ -512,6 +539,13 @@ export default function UserMessages({ chatWithProviderId }: UserMessagesProps)
                     </div>
                   ))
                 )}
+                {otherUserTyping && (
+                  <div className="flex justify-start">
+                    <div className="px-4 py-2 rounded-lg bg-slate-700 text-gray-300 text-sm italic">
+                      {selectedConversation.provider.businessName || selectedConversation.provider.name} is typing…
+                    </div>
+                  </div>
+                )}
                 <div ref={messagesEndRef} />
               </div>
 
@@ -521,7 +555,10 @@ export default function UserMessages({ chatWithProviderId }: UserMessagesProps)
                   <input
                     type="text"
                     value={newMessage}
-                    onChange={(e) => setNewMessage(e.target.value)}
+                    onChange={(e) => {
+                      setNewMessage(e.target.value);
+                      setTyping(e.target.value.trim().length > 0);
+                    }}
                     disabled={sendingMessage}
                     placeholder="Type your message..."
                     className="flex-1 px-4 py-2 bg-slate-700 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:border-[#3db2ff] focus:ring-1 focus:ring-[#3db2ff] focus:outline-none disabled:opacity-50"
@@ -1,23 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { Clock, Calendar, CheckCircle, XCircle, Save, Loader2, AlertCircle } from 'lucide-react';
-
-interface AvailabilitySchedule {
-  monday: { start: string; end: string; available: boolean };
-  tuesday: { start: string; end: string; available: boolean };
-  wednesday: { start: string; end: string; available: boolean };
-  thursday: { start: string; end: string; available: boolean };
-  friday: { start: string; end: string; available: boolean };
-  saturday: { start: string; end: string; available: boolean };
-  sunday: { start: string; end: string; available: boolean };
-}
+import { AvailabilityException, TimeRange, WeekDay, WeeklyAvailability } from '../../types';
+import { WEEK_DAYS, formatRanges, getDayRanges, minutesToTime, timeToMinutes, toDateKey, validateRanges, withDayRanges } from '../../lib/availability';
+import { Clock, Calendar, CheckCircle, XCircle, Save, Loader2, AlertCircle, Plus, Trash2 } from 'lucide-react';
 
 interface ProviderAvailabilityProps {
-  initialAvailability?: AvailabilitySchedule;
-  onSave: (availability: AvailabilitySchedule) => Promise<void>;
+  initialAvailability?: WeeklyAvailability;
+  initialExceptions?: AvailabilityException[];
+  timezone?: string;
+  onSave: (availability: WeeklyAvailability, exceptions: AvailabilityException[]) => Promise<void>;
   loading?: boolean;
 }
 
-const defaultSchedule: AvailabilitySchedule = {
+const defaultSchedule: WeeklyAvailability = {
   monday: { start: '09:00', end: '17:00', available: true },
   tuesday: { start: '09:00', end: '17:00', available: true },
   wednesday: { start: '09:00', end: '17:00', available: true },
@@ -27,14 +21,87 @@ const defaultSchedule: AvailabilitySchedule = {
   sunday: { start: '09:00', end: '15:00', available: false },
 };
 
+// Suggest a range that starts where the previous one ends
+const nextRange = (ranges: TimeRange[]): TimeRange => {
+  const lastEnd = ranges.length > 0 ? timeToMinutes(ranges[ranges.length - 1].end) : 9 * 60;
+  const start = Math.min(lastEnd + 60, 22 * 60);
+  return { start: minutesToTime(start), end: minutesToTime(Math.min(start + 120, 23 * 60 + 59)) };
+};
+
+interface RangeInputsProps {
+  ranges: TimeRange[];
+  onChange: (ranges: TimeRange[]) => void;
+  disabled?: boolean;
+}
+
+function RangeInputs({ ranges, onChange, disabled }: RangeInputsProps) {
+  const updateRange = (index: number, field: keyof TimeRange, value: string) => {
+    onChange(ranges.map((range, i) => (i === index ? { ...range, [field]: value } : range)));
+  };
+
+  return (
+    <div className="flex flex-col space-y-2 flex-1">
+      {ranges.map((range, index) => (
+        <div key={index} className="flex items-center space-x-3">
+          <div className="flex items-center space-x-2">
+            <Clock className="h-4 w-4 text-gray-400" />
+            <input
+              type="time"
+              value={range.start}
+              onChange={(e) => updateRange(index, 'start', e.target.value)}
+              disabled={disabled}
+              className="bg-slate-600 border border-slate-500 rounded px-3 py-1 text-white text-sm focus:border-[#3db2ff] focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
+            />
+          </div>
+
+          <span className="text-gray-400">to</span>
+
+          <input
+            type="time"
+            value={range.end}
+            onChange={(e) => updateRange(index, 'end', e.target.value)}
+            disabled={disabled}
+            className="bg-slate-600 border border-slate-500 rounded px-3 py-1 text-white text-sm focus:border-[#3db2ff] focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
+          />
+
+          {ranges.length > 1 && (
+            <button
+              type="button"
+              onClick={() => onChange(ranges.filter((_, i) => i !== index))}
+              disabled={disabled}
+              className="text-gray-400 hover:text-red-400 transition-colors disabled:cursor-not-allowed"
+              title="Remove time range"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...ranges, nextRange(ranges)])}
+        disabled={disabled}
+        className="self-start flex items-center space-x-1 text-xs text-[#3db2ff] hover:text-blue-400 transition-colors disabled:cursor-not-allowed"
+      >
+        <Plus className="h-3 w-3" />
+        <span>Add time range</span>
+      </button>
+    </div>
+  );
+}
+
 export default function ProviderAvailability({ 
   initialAvailability, 
+  initialExceptions,
+  timezone,
   onSave, 
   loading 
 }: ProviderAvailabilityProps) {
-  const [availability, setAvailability] = useState<AvailabilitySchedule>(
+  const [availability, setAvailability] = useState<WeeklyAvailability>(
     initialAvailability || defaultSchedule
   );
+  const [exceptions, setExceptions] = useState<AvailabilityException[]>(initialExceptions || []);
+  const [newExceptionDate, setNewExceptionDate] = useState('');
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
@@ -50,17 +117,18 @@ export default function ProviderAvailability({
     }
   }, [initialAvailability]);
 
-  const days = [
-    { key: 'monday', label: 'Monday' },
-    { key: 'tuesday', label: 'Tuesday' },
-    { key: 'wednesday', label: 'Wednesday' },
-    { key: 'thursday', label: 'Thursday' },
-    { key: 'friday', label: 'Friday' },
-    { key: 'saturday', label: 'Saturday' },
-    { key: 'sunday', label: 'Sunday' },
-  ] as const;
-
-  const handleDayToggle = (day: keyof AvailabilitySchedule) => {
+  useEffect(() => {
+    setExceptions(initialExceptions || []);
+  }, [initialExceptions]);
+
+  const days = WEEK_DAYS;
+
+  const resetMessages = () => {
+    setError(null);
+    setSuccess(false);
+  };
+
+  const handleDayToggle = (day: WeekDay) => {
     setAvailability(prev => ({
       ...prev,
       [day]: {
@@ -68,43 +136,72 @@ export default function ProviderAvailability({
         available: !prev[day].available
       }
     }));
-    setError(null);
-    setSuccess(false);
+    resetMessages();
   };
 
-  const handleTimeChange = (
-    day: keyof AvailabilitySchedule, 
-    timeType: 'start' | 'end', 
-    value: string
-  ) => {
+  const handleRangesChange = (day: WeekDay, ranges: TimeRange[]) => {
     setAvailability(prev => ({
       ...prev,
-      [day]: {
-        ...prev[day],
-        [timeType]: value
-      }
+      [day]: withDayRanges(prev[day], ranges)
     }));
-    setError(null);
-    setSuccess(false);
+    resetMessages();
+  };
+
+  const handleAddException = () => {
+    if (!newExceptionDate) return;
+
+    if (exceptions.some(exception => exception.date === newExceptionDate)) {
+      setError('There is already an exception for this date.');
+      return;
+    }
+
+    setExceptions(prev =>
+      [...prev, { date: newExceptionDate, available: false, ranges: [] }]
+        .sort((a, b) => a.date.localeCompare(b.date))
+    );
+    setNewExceptionDate('');
+    resetMessages();
   };
 
-  const validateSchedule = (schedule: AvailabilitySchedule): string | null => {
-    for (const [dayKey, dayData] of Object.entries(schedule)) {
+  const handleExceptionChange = (date: string, changes: Partial<AvailabilityException>) => {
+    setExceptions(prev => prev.map(exception =>
+      exception.date === date ? { ...exception, ...changes } : exception
+    ));
+    resetMessages();
+  };
+
+  const handleExceptionToggle = (exception: AvailabilityException) => {
+    const available = !exception.available;
+    handleExceptionChange(exception.date, {
+      available,
+      ranges: available ? [{ start: '09:00', end: '17:00' }] : []
+    });
+  };
+
+  const handleRemoveException = (date: string) => {
+    setExceptions(prev => prev.filter(exception => exception.date !== date));
+    resetMessages();
+  };
+
+  const validateSchedule = (schedule: WeeklyAvailability, dateExceptions: AvailabilityException[]): string | null => {
+    for (const { key, label } of days) {
+      const dayData = schedule[key];
       if (dayData.available) {
-        // Validate time format
-        const timeRegex = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
-        if (!timeRegex.test(dayData.start) || !timeRegex.test(dayData.end)) {
-          return `Invalid time format for ${dayKey}. Please use HH:MM format.`;
+        const rangeError = validateRanges(getDayRanges(dayData));
+        if (rangeError) {
+          return `${rangeError} for ${label}.`;
         }
+      }
+    }
 
-        // Validate that end time is after start time
-        const [startHour, startMin] = dayData.start.split(':').map(Number);
-        const [endHour, endMin] = dayData.end.split(':').map(Number);
-        const startMinutes = startHour * 60 + startMin;
-        const endMinutes = endHour * 60 + endMin;
-
-        if (endMinutes <= startMinutes) {
-          return `End time must be after start time for ${dayKey}.`;
+    for (const exception of dateExceptions) {
+      if (exception.available) {
+        if (exception.ranges.length === 0) {
+          return `Add working hours for ${exception.date} or mark it as closed.`;
+        }
+        const rangeError = validateRanges(exception.ranges);
+        if (rangeError) {
+          return `${rangeError} for ${exception.date}.`;
         }
       }
     }
@@ -118,16 +215,21 @@ export default function ProviderAvailability({
 
     try {
       // Validate the schedule
-      const validationError = validateSchedule(availability);
+      const validationError = validateSchedule(availability, exceptions);
       if (validationError) {
         setError(validationError);
         setSaving(false);
         return;
       }
 
-      console.log('💾 Saving availability schedule:', availability);
+      // Drop empty notes so they are not stored
+      const cleanedExceptions = exceptions.map(({ note, ...exception }) =>
+        note && note.trim() !== '' ? { ...exception, note: note.trim() } : exception
+      );
+
+      console.log('💾 Saving availability schedule:', availability, cleanedExceptions);
       
-      await onSave(availability);
+      await onSave(availability, cleanedExceptions);
       
       console.log('✅ Availability saved successfully');
       setSuccess(true);
@@ -153,11 +255,12 @@ export default function ProviderAvailability({
       };
     });
     setAvailability(newAvailability);
-    setError(null);
-    setSuccess(false);
+    resetMessages();
   };
 
-  const hasChanges = JSON.stringify(availability) !== JSON.stringify(initialAvailability || defaultSchedule);
+  const hasChanges =
+    JSON.stringify(availability) !== JSON.stringify(initialAvailability || defaultSchedule) ||
+    JSON.stringify(exceptions) !== JSON.stringify(initialExceptions || []);
 
   return (
     <div className="bg-slate-800 rounded-lg p-6">
@@ -168,7 +271,10 @@ export default function ProviderAvailability({
           </div>
           <div>
             <h3 className="text-lg font-semibold text-white">Availability Schedule</h3>
-            <p className="text-sm text-[#cbd5e1]">Set your working hours for each day</p>
+            <p className="text-sm text-[#cbd5e1]">Set your working hours for each day, including split shifts</p>
+            {timezone && (
+              <p className="text-xs text-gray-400">Times are in {timezone}</p>
+            )}
           </div>
         </div>
         
@@ -208,7 +314,7 @@ export default function ProviderAvailability({
 
       <div className="space-y-4">
         {days.map(({ key, label }) => (
-          <div key={key} className="flex items-center space-x-4 p-4 bg-slate-700 rounded-lg">
+          <div key={key} className="flex items-start space-x-4 p-4 bg-slate-700 rounded-lg">
             <div className="flex items-center space-x-3 w-32">
               <button
                 onClick={() => handleDayToggle(key)}
@@ -233,30 +339,11 @@ export default function ProviderAvailability({
             </div>
 
             {availability[key].available ? (
-              <div className="flex items-center space-x-3 flex-1">
-                <div className="flex items-center space-x-2">
-                  <Clock className="h-4 w-4 text-gray-400" />
-                  <input
-                    type="time"
-                    value={availability[key].start}
-                    onChange={(e) => handleTimeChange(key, 'start', e.target.value)}
-                    disabled={saving || loading}
-                    className="bg-slate-600 border border-slate-500 rounded px-3 py-1 text-white text-sm focus:border-[#3db2ff] focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
-                  />
-                </div>
-                
-                <span className="text-gray-400">to</span>
-                
-                <div className="flex items-center space-x-2">
-                  <input
-                    type="time"
-                    value={availability[key].end}
-                    onChange={(e) => handleTimeChange(key, 'end', e.target.value)}
-                    disabled={saving || loading}
-                    className="bg-slate-600 border border-slate-500 rounded px-3 py-1 text-white text-sm focus:border-[#3db2ff] focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
-                  />
-                </div>
-              </div>
+              <RangeInputs
+                ranges={getDayRanges(availability[key])}
+                onChange={(ranges) => handleRangesChange(key, ranges)}
+                disabled={saving || loading}
+              />
             ) : (
               <div className="flex-1">
                 <span className="text-gray-400 text-sm">Not available</span>
@@ -266,6 +353,95 @@ export default function ProviderAvailability({
         ))}
       </div>
 
+      {/* Date-specific Exceptions */}
+      <div className="mt-6">
+        <div className="mb-4">
+          <h4 className="text-md font-semibold text-white">Holidays & Special Hours</h4>
+          <p className="text-sm text-[#cbd5e1]">Override your weekly schedule on specific dates</p>
+        </div>
+
+        <div className="flex items-center space-x-3 mb-4">
+          <input
+            type="date"
+            value={newExceptionDate}
+            min={toDateKey(new Date())}
+            onChange={(e) => setNewExceptionDate(e.target.value)}
+            disabled={saving || loading}
+            className="bg-slate-700 border border-slate-600 rounded px-3 py-2 text-white text-sm focus:border-[#3db2ff] focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
+          />
+          <button
+            type="button"
+            onClick={handleAddException}
+            disabled={!newExceptionDate || saving || loading}
+            className="flex items-center space-x-1 bg-slate-600 hover:bg-slate-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-3 py-2 rounded text-sm transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Date</span>
+          </button>
+        </div>
+
+        {exceptions.length === 0 ? (
+          <p className="text-sm text-gray-400">No date-specific changes. Your weekly schedule applies every week.</p>
+        ) : (
+          <div className="space-y-3">
+            {exceptions.map(exception => (
+              <div key={exception.date} className="p-4 bg-slate-700 rounded-lg space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-3">
+                    <button
+                      type="button"
+                      onClick={() => handleExceptionToggle(exception)}
+                      disabled={saving || loading}
+                      className={`p-1 rounded transition-colors disabled:cursor-not-allowed ${
+                        exception.available ? 'text-[#00c9a7]' : 'text-gray-400'
+                      }`}
+                      title={exception.available ? 'Mark as closed' : 'Set special hours'}
+                    >
+                      {exception.available ? (
+                        <CheckCircle className="h-5 w-5" />
+                      ) : (
+                        <XCircle className="h-5 w-5" />
+                      )}
+                    </button>
+                    <span className="font-medium text-white">{exception.date}</span>
+                    <span className="text-xs text-gray-400">
+                      {exception.available ? 'Special hours' : 'Closed'}
+                    </span>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveException(exception.date)}
+                    disabled={saving || loading}
+                    className="text-gray-400 hover:text-red-400 transition-colors disabled:cursor-not-allowed"
+                    title="Remove date"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+
+                {exception.available && (
+                  <RangeInputs
+                    ranges={exception.ranges}
+                    onChange={(ranges) => handleExceptionChange(exception.date, { ranges })}
+                    disabled={saving || loading}
+                  />
+                )}
+
+                <input
+                  type="text"
+                  value={exception.note || ''}
+                  onChange={(e) => handleExceptionChange(exception.date, { note: e.target.value })}
+                  disabled={saving || loading}
+                  maxLength={100}
+                  placeholder="Note for customers (e.g. Public holiday)"
+                  className="w-full bg-slate-600 border border-slate-500 rounded px-3 py-1 text-white text-sm placeholder-gray-400 focus:border-[#3db2ff] focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       <div className="mt-6 flex justify-end">
         <button
           onClick={handleSave}
@@ -295,7 +471,7 @@ export default function ProviderAvailability({
               <span className="text-[#cbd5e1]">{label}:</span>
               <span className={availability[key].available ? 'text-[#00c9a7]' : 'text-gray-400'}>
                 {availability[key].available 
-                  ? `${availability[key].start} - ${availability[key].end}`
+                  ? formatRanges(getDayRanges(availability[key]))
                   : 'Closed'
                 }
               </span>
@@ -1,8 +1,10 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ServiceProvider } from '../../types';
+import { AvailabilityException, ServiceProvider, WeeklyAvailability } from '../../types';
 import { Loader2, MapPin, Phone, Mail, User, Building, Camera, Upload, X, Navigation, Target, Globe, Users, Award, Plus, Trash2, Check, Search } from 'lucide-react';
 import { getCurrentLocation, geocodeAddress, LocationCoordinates } from '../../lib/mapbox';
 import ProviderAvailability from './ProviderAvailability';
+import { getBrowserTimeZone } from '../../lib/availability';
+import { MAX_SERVICES_PER_PROVIDER, SERVICE_CATEGORIES } from '../../lib/serviceCategories';
 import mapboxgl from 'mapbox-gl';
 
 interface ProviderFormProps {
@@ -17,6 +19,7 @@ export default function ProviderForm({ initialData, onSubmit, loading }: Provide
     businessName: initialData?.businessName || '',
     businessType: initialData?.businessType || 'individual',
     serviceType: initialData?.serviceType || '',
+    serviceTypes: initialData?.serviceTypes || [],
     description: initialData?.description || '',
     phone: initialData?.phone || '',
     website: initialData?.website || '',
@@ -41,6 +44,7 @@ export default function ProviderForm({ initialData, onSubmit, loading }: Provide
     profileImage: initialData?.profileImage || '',
     workPortfolio: initialData?.workPortfolio || [],
     availability: initialData?.availability || undefined,
+    availabilityExceptions: initialData?.availabilityExceptions || [],
     currentStatus: initialData?.currentStatus || 'available',
   });
 
@@ -66,35 +70,6 @@ export default function ProviderForm({ initialData, onSubmit, loading }: Provide
   const mapSearchInputRef = useRef<HTMLInputElement>(null);
   const mapSearchResultsRef = useRef<HTMLDivElement>(null);
 
-  const serviceTypes = [
-  'Academic Coaching', 'Air Conditioning / HVAC', 'Appliance Repair',
-  'Au Pair Services', 'Auto Repair', 'Babysitting', 'Barbering',
-  'Bartending', 'Blinds & Curtains Installation', 'Bookkeeping',
-  'Borehole Drilling', 'Braiding', 'Business Consulting', 'Car Wash',
-  'Carpentry', 'Career Coaching', 'Catering', 'Cleaning', 'Coding Lessons',
-  'Courier / Delivery', 'Custom Woodwork', 'DJ Services', 'Decor & Rentals',
-  'Digital Marketing', 'Dog Walking', 'Driving Lessons', 'Electrical',
-  'Elderly Care', 'Event Planning', 'Fitness Training', 'Flooring Installation',
-  'Furniture Upholstery', 'Gardening', 'Glass Repair', 'Graphic Design',
-  'Hairdressing', 'Handyman Services', 'Homework Assistants', 'HR / Recruitment',
-  'IT Support', 'Junk Collection', 'Language Tutoring', 'Landscaping',
-  'Laundry & Dry Cleaning', 'Leather Work', 'Legal Services', 'Life Coaching',
-  'Locksmiths', 'Makeup Artists', 'Massage Therapists', 'MC / Host Services',
-  'Mobile Bar', 'Mobile Spa', 'Moving Services', 'Mural Painting',
-  'Music Lessons', 'Nail Technicians', 'Nannies', 'Notary Services',
-  'Paralegals', 'Painting', 'Pest Control', 'Pet Grooming', 'Pet Services',
-  'Pet Sitting', 'Pet Training', 'Photography', 'Plumbing', 'Pool Maintenance',
-  'Property Photography', 'Property Valuers', 'Real Estate Agents',
-  'Recycling Pickup', 'Rental Property Cleaning', 'Ride-hailing Partner Drivers',
-  'Roofing', 'Security Systems / CCTV', 'Shoe Repair', 'Shuttle Services',
-  'Solar Panel Installation', 'Sound & Lighting', 'Special Needs Care',
-  'Tailoring / Seamstress', 'Tattoo Artists', 'Tiling', 'Translation & Transcription',
-  'Trash Removal', 'Tree Cutting', 'Tutoring', 'Vehicle Towing',
-  'Videography', 'Virtual Assistants', 'Welding', 'Web Development',
-  'Waterproofing'
-];
-
-
   const radiusOptions = [5, 10, 15, 20, 25, 30, 50];
 
   const socialPlatforms = [
@@ -373,6 +348,26 @@ export default function ProviderForm({ initialData, onSubmit, loading }: Provide
     }));
   };
 
+  const handleAddService = (service: string) => {
+    if (service && !formData.serviceTypes.includes(service)) {
+      setFormData(prev => ({
+        ...prev,
+        serviceTypes: [...prev.serviceTypes, service]
+      }));
+    }
+  };
+
+  const handleRemoveService = (service: string) => {
+    setFormData(prev => ({
+      ...prev,
+      serviceTypes: prev.serviceTypes.filter(s => s !== service)
+    }));
+  };
+
+  // Primary service first, as stored in service_types
+  const otherServices = formData.serviceTypes.filter(service => service !== formData.serviceType);
+  const serviceTypes = formData.serviceType ? [formData.serviceType, ...otherServices] : otherServices;
+
   const handleAddSpecialty = () => {
     if (newSpecialty.trim() && !formData.specialties.includes(newSpecialty.trim())) {
       setFormData(prev => ({
@@ -442,11 +437,12 @@ export default function ProviderForm({ initialData, onSubmit, loading }: Provide
     }));
   };
 
-  const handleAvailabilitySave = async (availability: any) => {
-    console.log('📅 Availability data received in form:', availability);
+  const handleAvailabilitySave = async (availability: WeeklyAvailability, availabilityExceptions: AvailabilityException[]) => {
+    console.log('📅 Availability data received in form:', availability, availabilityExceptions);
     setFormData(prev => ({
       ...prev,
-      availability
+      availability,
+      availabilityExceptions
     }));
     
     // Auto-save availability when it's updated
@@ -454,7 +450,9 @@ export default function ProviderForm({ initialData, onSubmit, loading }: Provide
       setSubmitError(null);
       const submissionData = {
         ...formData,
+        serviceTypes,
         availability,
+        availabilityExceptions,
         socialMedia: Object.fromEntries(
           Object.entries(formData.socialMedia).filter(([_, value]) => value && value.trim() !== '')
         ),
@@ -487,6 +485,7 @@ export default function ProviderForm({ initialData, onSubmit, loading }: Provide
       
       const submissionData = {
         ...formData,
+        serviceTypes,
         socialMedia: cleanedSocialMedia,
         specialties: formData.specialties.filter(s => s.trim() !== ''),
         certifications: formData.certifications.filter(c => c.trim() !== ''),
@@ -604,9 +603,12 @@ export default function ProviderForm({ initialData, onSubmit, loading }: Provide
 
             {/* Current Status */}
             <div>
-              <label className="block text-sm font-medium text-[#cbd5e1] mb-3">
+              <label className="block text-sm font-medium text-[#cbd5e1] mb-1">
                 Current Status
               </label>
+              <p className="text-xs text-gray-400 mb-3">
+                Available follows your working hours. Busy and Offline override them until you change back.
+              </p>
               <div className="grid grid-cols-3 gap-3">
                 {[
                   { value: 'available', label: 'Available', color: 'bg-[#00c9a7]' },
@@ -717,12 +719,61 @@ export default function ProviderForm({ initialData, onSubmit, loading }: Provide
                 required
               >
                 <option value="">Select a service type</option>
-                {serviceTypes.map(type => (
-                  <option key={type} value={type}>{type}</option>
+                {SERVICE_CATEGORIES.map(category => (
+                  <optgroup key={category.slug} label={category.name}>
+                    {category.services.map(service => (
+                      <option key={service.slug} value={service.name}>{service.name}</option>
+                    ))}
+                  </optgroup>
                 ))}
               </select>
             </div>
 
+            {/* Other Services */}
+            <div>
+              <label htmlFor="additionalService" className="block text-sm font-medium text-[#cbd5e1] mb-2">
+                Other Services
+              </label>
+              <select
+                id="additionalService"
+                value=""
+                onChange={(e) => handleAddService(e.target.value)}
+                disabled={!formData.serviceType || serviceTypes.length >= MAX_SERVICES_PER_PROVIDER}
+                className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-md text-white focus:border-[#3db2ff] focus:ring-1 focus:ring-[#3db2ff] focus:outline-none disabled:opacity-50"
+              >
+                <option value="">
+                  {serviceTypes.length >= MAX_SERVICES_PER_PROVIDER
+                    ? `You can list up to ${MAX_SERVICES_PER_PROVIDER} services`
+                    : 'Add another service you offer'}
+                </option>
+                {SERVICE_CATEGORIES.map(category => (
+                  <optgroup key={category.slug} label={category.name}>
+                    {category.services
+                      .filter(service => !serviceTypes.includes(service.name))
+                      .map(service => (
+                        <option key={service.slug} value={service.name}>{service.name}</option>
+                      ))}
+                  </optgroup>
+                ))}
+              </select>
+              {otherServices.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {otherServices.map(service => (
+                    <div key={service} className="bg-[#3db2ff] text-white px-3 py-1 rounded-full text-sm flex items-center space-x-2">
+                      <span>{service}</span>
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveService(service)}
+                        className="hover:text-red-200 transition-colors"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
             {/* Description */}
             <div>
               <label htmlFor="description" className="block text-sm font-medium text-[#cbd5e1] mb-2">
@@ -1233,6 +1284,8 @@ export default function ProviderForm({ initialData, onSubmit, loading }: Provide
           <div className="space-y-6">
             <ProviderAvailability
               initialAvailability={formData.availability}
+              initialExceptions={formData.availabilityExceptions}
+              timezone={initialData?.timezone || getBrowserTimeZone()}
               onSave={handleAvailabilitySave}
               loading={submitting || loading}
             />
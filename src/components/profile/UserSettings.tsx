@@ -1,14 +1,15 @@
 import React, { useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
-import { User, Lock, Camera, Mail, Loader2, AlertCircle, CheckCircle, X } from 'lucide-react';
+import { PrivacySettings } from '../../types';
+import { User, Lock, Camera, Mail, Loader2, AlertCircle, CheckCircle, X, Eye } from 'lucide-react';
 
 interface UserSettingsProps {
   onClose: () => void;
 }
 
 export default function UserSettings({ onClose }: UserSettingsProps) {
-  const { user, updateUserProfile, changePassword } = useAuth();
-  const [activeTab, setActiveTab] = useState<'profile' | 'password'>('profile');
+  const { user, updateUserProfile, updatePrivacySettings, changePassword } = useAuth();
+  const [activeTab, setActiveTab] = useState<'profile' | 'password' | 'privacy'>('profile');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
@@ -27,6 +28,12 @@ export default function UserSettings({ onClose }: UserSettingsProps) {
     confirmPassword: '',
   });
 
+  // Privacy form state
+  const [privacyData, setPrivacyData] = useState<PrivacySettings>({
+    showOnlineStatus: user?.showOnlineStatus ?? true,
+    showLastSeen: user?.showLastSeen ?? true,
+  });
+
   const handleProfileImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -100,6 +107,27 @@ export default function UserSettings({ onClose }: UserSettingsProps) {
     }
   };
 
+  const handlePrivacySubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const result = await updatePrivacySettings(privacyData);
+      if (result) {
+        setSuccess('Privacy settings updated successfully!');
+        setTimeout(() => setSuccess(''), 3000);
+      } else {
+        setError('Failed to update privacy settings. Please try again.');
+      }
+    } catch {
+      setError('Failed to update privacy settings. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-slate-800 rounded-lg w-full max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -143,6 +171,19 @@ export default function UserSettings({ onClose }: UserSettingsProps) {
                 <span>Password</span>
               </div>
             </button>
+            <button
+              onClick={() => setActiveTab('privacy')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors flex-1 text-center ${
+                activeTab === 'privacy'
+                  ? 'border-[#3db2ff] text-[#3db2ff]'
+                  : 'border-transparent text-[#cbd5e1] hover:text-white hover:border-slate-500'
+              }`}
+            >
+              <div className="flex items-center justify-center space-x-2">
+                <Eye className="h-4 w-4" />
+                <span>Privacy</span>
+              </div>
+            </button>
           </nav>
         </div>
 
@@ -333,6 +374,64 @@ export default function UserSettings({ onClose }: UserSettingsProps) {
               </button>
             </form>
           )}
+
+          {/* Privacy Tab */}
+          {activeTab === 'privacy' && (
+            <form onSubmit={handlePrivacySubmit} className="space-y-6">
+              <div className="space-y-3">
+                <label className="flex items-start space-x-3 p-4 bg-slate-700 border border-slate-600 rounded-md cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={privacyData.showOnlineStatus}
+                    onChange={(e) => setPrivacyData(prev => ({ ...prev, showOnlineStatus: e.target.checked }))}
+                    disabled={loading}
+                    className="mt-1 h-4 w-4 rounded border-slate-500 bg-slate-600 text-[#3db2ff] focus:ring-[#3db2ff]"
+                  />
+                  <div>
+                    <span className="block text-sm font-medium text-white">Show when I'm online</span>
+                    <span className="block text-xs text-gray-400 mt-1">
+                      People you message see a green dot while you have Zonke Hub open
+                    </span>
+                  </div>
+                </label>
+
+                <label className="flex items-start space-x-3 p-4 bg-slate-700 border border-slate-600 rounded-md cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={privacyData.showLastSeen}
+                    onChange={(e) => setPrivacyData(prev => ({ ...prev, showLastSeen: e.target.checked }))}
+                    disabled={loading}
+                    className="mt-1 h-4 w-4 rounded border-slate-500 bg-slate-600 text-[#3db2ff] focus:ring-[#3db2ff]"
+                  />
+                  <div>
+                    <span className="block text-sm font-medium text-white">Show last seen</span>
+                    <span className="block text-xs text-gray-400 mt-1">
+                      People you message see when you were last active
+                    </span>
+                  </div>
+                </label>
+              </div>
+
+              <p className="text-xs text-gray-400">
+                Typing indicators are only shown to the person you are chatting with.
+              </p>
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-[#3db2ff] hover:bg-blue-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white py-2 px-4 rounded-md transition-colors flex items-center justify-center"
+              >
+                {loading ? (
+                  <>
+                    <Loader2 className="animate-spin h-4 w-4 mr-2" />
+                    Saving...
+                  </>
+                ) : (
+                  'Save Privacy Settings'
+                )}
+              </button>
+            </form>
+          )}
         </div>
       </div>
     </div>
@@ -1,5 +1,7 @@
 import React from 'react';
 import { Star } from 'lucide-react';
+import { RatingAspects } from '../../types';
+import { RATING_ASPECTS } from '../../lib/ratings';
 
 interface RatingDisplayProps {
   rating: number;
@@ -7,6 +9,7 @@ interface RatingDisplayProps {
   size?: 'sm' | 'md' | 'lg';
   showCount?: boolean;
   className?: string;
+  breakdown?: RatingAspects; // Aspect averages, shown as bars under the stars
 }
 
 export default function RatingDisplay({ 
@@ -14,7 +17,8 @@ export default function RatingDisplay({
   reviewCount, 
   size = 'md', 
   showCount = true,
-  className = '' 
+  className = '',
+  breakdown
 }: RatingDisplayProps) {
   const sizeClasses = {
     sm: 'h-3 w-3',
@@ -71,8 +75,8 @@ export default function RatingDisplay({
     );
   }
 
-  return (
-    <div className={`flex items-center space-x-2 ${className}`}>
+  const summary = (
+    <div className={`flex items-center space-x-2 ${breakdown ? '' : className}`}>
       <div className="flex items-center space-x-1">
         <div className="flex space-x-1">
           {renderStars()}
@@ -88,4 +92,34 @@ export default function RatingDisplay({
       )}
     </div>
   );
+
+  if (!breakdown) return summary;
+
+  // Only the aspects at least one review scored
+  const scoredAspects = RATING_ASPECTS.filter(({ key }) => breakdown[key] !== undefined);
+
+  return (
+    <div className={className}>
+      {summary}
+      {scoredAspects.length > 0 && (
+        <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+          {scoredAspects.map(({ key, label, description }) => {
+            const value = breakdown[key] || 0;
+            return (
+              <div key={key} className="flex items-center space-x-2" title={description}>
+                <span className="text-xs text-[#cbd5e1] w-24">{label}</span>
+                <div className="w-24 h-2 bg-slate-600 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-yellow-400 transition-all duration-300"
+                    style={{ width: `${(value / 5) * 100}%` }}
+                  />
+                </div>
+                <span className="text-xs font-semibold text-white w-6 text-right">{value.toFixed(1)}</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
 }
\ No newline at end of file
@@ -1,7 +1,10 @@
-import React, { useState } from 'react';
-import { ServiceProvider, Rating } from '../../types';
+import React, { useState, useRef } from 'react';
+import { ServiceProvider, Rating, RatingAspect, RatingAspects } from '../../types';
 import { useAuth } from '../../contexts/AuthContext';
-import { X, Star, Send, Loader2, User, AlertCircle, CheckCircle } from 'lucide-react';
+import { X, Star, Send, Loader2, User, AlertCircle, CheckCircle, ShieldCheck, ImagePlus } from 'lucide-react';
+import { checkReviewText } from '../../lib/moderation';
+import { RATING_ASPECTS } from '../../lib/ratings';
+import { ALLOWED_REVIEW_PHOTO_TYPES, MAX_REVIEW_PHOTOS, getReviewPhotoUrls, validateReviewPhoto } from '../../lib/reviewPhotos';
 
 interface RatingModalProps {
   provider: ServiceProvider;
@@ -10,14 +13,20 @@ interface RatingModalProps {
 }
 
 export default function RatingModal({ provider, onClose, onRatingSubmitted }: RatingModalProps) {
-  const { user, rateProvider, getUserRating } = useAuth();
+  const { user, rateProvider, getUserRating, canRateProvider } = useAuth();
   const [rating, setRating] = useState(0);
   const [hoverRating, setHoverRating] = useState(0);
   const [review, setReview] = useState('');
+  const [aspects, setAspects] = useState<RatingAspects>({});
+  // Storage paths of photos already on the review, and new files to upload
+  const [photos, setPhotos] = useState<(string | File)[]>([]);
+  const [photoPreviews, setPhotoPreviews] = useState<string[]>([]);
+  const photoInputRef = useRef<HTMLInputElement>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const [existingRating, setExistingRating] = useState<Rating | undefined>();
+  const [canRate, setCanRate] = useState<boolean | null>(null);
 
   // Load existing rating
   React.useEffect(() => {
@@ -29,6 +38,8 @@ export default function RatingModal({ provider, onClose, onRatingSubmitted }: Ra
           if (existing) {
             setRating(existing.rating);
             setReview(existing.review || '');
+            setAspects(existing.aspects || {});
+            setPhotos(existing.photos || []);
           }
         } catch (error) {
           console.error('Error loading existing rating:', error);
@@ -38,6 +49,34 @@ export default function RatingModal({ provider, onClose, onRatingSubmitted }: Ra
     loadExistingRating();
   }, [user, provider.id, getUserRating]);
 
+  // New files are previewed from object URLs until they're uploaded; photos
+  // already on the review need signed URLs
+  React.useEffect(() => {
+    let cancelled = false;
+    const objectUrls = new Map<File, string>();
+    photos.forEach(photo => {
+      if (typeof photo !== 'string') objectUrls.set(photo, URL.createObjectURL(photo));
+    });
+
+    const storedPaths = photos.filter((photo): photo is string => typeof photo === 'string');
+    getReviewPhotoUrls(storedPaths).then(signedUrls => {
+      if (cancelled) return;
+      setPhotoPreviews(photos.map(photo =>
+        typeof photo === 'string' ? signedUrls[photo] || '' : objectUrls.get(photo)!
+      ));
+    });
+
+    return () => {
+      cancelled = true;
+      objectUrls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [photos]);
+
+  // Reviews are limited to verified customers
+  React.useEffect(() => {
+    canRateProvider(provider.id).then(setCanRate);
+  }, [provider.id, canRateProvider]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user || rating === 0) {
@@ -45,13 +84,19 @@ export default function RatingModal({ provider, onClose, onRatingSubmitted }: Ra
       return;
     }
 
+    const textError = checkReviewText(review);
+    if (textError) {
+      setError(textError);
+      return;
+    }
+
     setLoading(true);
     setError('');
     setSuccess('');
     
     try {
-      console.log('🌟 Submitting rating:', { providerId: provider.id, rating, review });
-      const success = await rateProvider(provider.id, rating, review);
+      console.log('🌟 Submitting rating:', { providerId: provider.id, rating, review, aspects, photos: photos.length });
+      const success = await rateProvider(provider.id, rating, review, aspects, photos);
       if (success) {
         console.log('✅ Rating submitted successfully');
         setSuccess('Rating submitted successfully!');
@@ -84,7 +129,7 @@ export default function RatingModal({ provider, onClose, onRatingSubmitted }: Ra
           onClick={() => setRating(starValue)}
           onMouseEnter={() => setHoverRating(starValue)}
           onMouseLeave={() => setHoverRating(0)}
-          disabled={loading}
+          disabled={loading || canRate === false}
           className={`transition-all duration-200 transform hover:scale-110 disabled:cursor-not-allowed ${
             isActive ? 'text-yellow-400' : 'text-gray-400'
           }`}
@@ -97,6 +142,64 @@ export default function RatingModal({ provider, onClose, onRatingSubmitted }: Ra
     });
   };
 
+  const handlePhotoSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const invalid = files.map(validateReviewPhoto).find(Boolean);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+
+    const room = MAX_REVIEW_PHOTOS - photos.length;
+    if (files.length > room) {
+      setError(`You can add up to ${MAX_REVIEW_PHOTOS} photos`);
+    } else {
+      setError('');
+    }
+    setPhotos(prev => [...prev, ...files.slice(0, Math.max(room, 0))]);
+  };
+
+  const removePhoto = (index: number) => {
+    setPhotos(prev => prev.filter((_, i) => i !== index));
+  };
+
+  // Clicking the selected star again clears the aspect, since they're optional
+  const setAspect = (aspect: RatingAspect, value: number) => {
+    setAspects(prev => {
+      const next = { ...prev };
+      if (next[aspect] === value) {
+        delete next[aspect];
+      } else {
+        next[aspect] = value;
+      }
+      return next;
+    });
+  };
+
+  const renderAspectStars = (aspect: RatingAspect) => {
+    return Array.from({ length: 5 }, (_, index) => {
+      const starValue = index + 1;
+      const isActive = starValue <= (aspects[aspect] || 0);
+
+      return (
+        <button
+          key={index}
+          type="button"
+          onClick={() => setAspect(aspect, starValue)}
+          disabled={loading || canRate === false}
+          className={`transition-colors disabled:cursor-not-allowed ${
+            isActive ? 'text-yellow-400' : 'text-gray-500 hover:text-yellow-300'
+          }`}
+        >
+          <Star className={`h-4 w-4 ${isActive ? 'fill-current' : ''}`} />
+        </button>
+      );
+    });
+  };
+
   const getRatingText = (stars: number) => {
     const texts = {
       1: 'Poor',
@@ -147,6 +250,15 @@ export default function RatingModal({ provider, onClose, onRatingSubmitted }: Ra
             </div>
           </div>
 
+          {canRate === false && (
+            <div className="flex items-start space-x-2 text-yellow-400 text-sm bg-yellow-900/20 border border-yellow-600 rounded-md p-3">
+              <ShieldCheck className="h-4 w-4 flex-shrink-0 mt-0.5" />
+              <span>
+                Only verified customers can review this provider. Message them and get a reply, or complete a booking, to leave a review.
+              </span>
+            </div>
+          )}
+
           {/* Star Rating */}
           <div className="text-center">
             <label className="block text-sm font-medium text-[#cbd5e1] mb-4">
@@ -162,6 +274,23 @@ export default function RatingModal({ provider, onClose, onRatingSubmitted }: Ra
             )}
           </div>
 
+          {/* Aspect Ratings */}
+          <div>
+            <label className="block text-sm font-medium text-[#cbd5e1] mb-2">
+              Rate specific aspects (optional)
+            </label>
+            <div className="space-y-2 bg-slate-700 rounded-md p-3">
+              {RATING_ASPECTS.map(({ key, label, description }) => (
+                <div key={key} className="flex items-center justify-between" title={description}>
+                  <span className="text-sm text-white">{label}</span>
+                  <div className="flex space-x-1">
+                    {renderAspectStars(key)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
           {/* Review Text */}
           <div>
             <label htmlFor="review" className="block text-sm font-medium text-[#cbd5e1] mb-2">
@@ -171,7 +300,7 @@ export default function RatingModal({ provider, onClose, onRatingSubmitted }: Ra
               id="review"
               value={review}
               onChange={(e) => setReview(e.target.value)}
-              disabled={loading}
+              disabled={loading || canRate === false}
               rows={4}
               className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:border-[#3db2ff] focus:ring-1 focus:ring-[#3db2ff] focus:outline-none resize-none disabled:opacity-50 disabled:cursor-not-allowed"
               placeholder="Share your experience with this service provider..."
@@ -182,6 +311,55 @@ export default function RatingModal({ provider, onClose, onRatingSubmitted }: Ra
             </p>
           </div>
 
+          {/* Photos */}
+          <div>
+            <label className="block text-sm font-medium text-[#cbd5e1] mb-2">
+              Add photos (optional)
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {photoPreviews.map((url, index) => (
+                <div key={url} className="relative w-16 h-16">
+                  <img
+                    src={url}
+                    alt={`Review photo ${index + 1}`}
+                    className="w-16 h-16 rounded-md object-cover border border-slate-600"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => removePhoto(index)}
+                    disabled={loading}
+                    className="absolute -top-2 -right-2 bg-slate-900 border border-slate-600 text-gray-300 hover:text-red-400 rounded-full p-0.5 disabled:cursor-not-allowed"
+                    title="Remove photo"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+              {photos.length < MAX_REVIEW_PHOTOS && (
+                <button
+                  type="button"
+                  onClick={() => photoInputRef.current?.click()}
+                  disabled={loading || canRate === false}
+                  className="w-16 h-16 rounded-md border-2 border-dashed border-slate-600 hover:border-[#3db2ff] text-gray-400 hover:text-[#3db2ff] flex items-center justify-center transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Add photos"
+                >
+                  <ImagePlus className="h-6 w-6" />
+                </button>
+              )}
+            </div>
+            <input
+              ref={photoInputRef}
+              type="file"
+              accept={ALLOWED_REVIEW_PHOTO_TYPES.join(',')}
+              multiple
+              onChange={handlePhotoSelect}
+              className="hidden"
+            />
+            <p className="text-xs text-gray-400 mt-1">
+              Up to {MAX_REVIEW_PHOTOS} photos, 5MB each
+            </p>
+          </div>
+
           {/* Success Message */}
           {success && (
             <div className="flex items-center space-x-2 text-green-400 text-sm bg-green-900/20 border border-green-600 rounded-md p-3">
@@ -210,7 +388,7 @@ export default function RatingModal({ provider, onClose, onRatingSubmitted }: Ra
             </button>
             <button
               type="submit"
-              disabled={rating === 0 || loading}
+              disabled={rating === 0 || loading || !canRate}
               className="flex-1 bg-gradient-to-r from-[#3db2ff] to-[#00c9a7] hover:from-[#2563eb] hover:to-[#059669] disabled:from-gray-600 disabled:to-gray-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-md transition-all flex items-center justify-center"
             >
               {loading ? (
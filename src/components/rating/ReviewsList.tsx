@@ -1,21 +1,53 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import ImagePreviewModal from '../common/ImagePreviewModal';
+import ReportModal from '../common/ReportModal';
 import { Rating } from '../../types';
 import { useAuth } from '../../contexts/AuthContext';
-import { Star, User, Calendar, Trash2, AlertCircle, Loader2 } from 'lucide-react';
+import { RATING_ASPECTS } from '../../lib/ratings';
+import { getReviewPhotoUrls } from '../../lib/reviewPhotos';
+import { Star, User, Calendar, Trash2, AlertCircle, Loader2, BadgeCheck, MessageSquareReply, Edit3, Flag, EyeOff } from 'lucide-react';
 
 interface ReviewsListProps {
   ratings: Rating[];
   maxReviews?: number;
   onRatingDeleted?: () => void;
+  providerName?: string;
+  onRepliesChanged?: () => void;
 }
 
-export default function ReviewsList({ ratings, maxReviews = 10, onRatingDeleted }: ReviewsListProps) {
-  const { user, deleteRating } = useAuth();
+const MAX_REPLY_LENGTH = 1000;
+
+export default function ReviewsList({ ratings, maxReviews = 10, onRatingDeleted, providerName, onRepliesChanged }: ReviewsListProps) {
+  const { user, deleteRating, replyToRating, deleteRatingReply } = useAuth();
   const [deletingRatingId, setDeletingRatingId] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
+  const [replyingToId, setReplyingToId] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [savingReplyId, setSavingReplyId] = useState<string | null>(null);
+  const [photoPreview, setPhotoPreview] = useState<{ rating: Rating; index: number } | null>(null);
+  const [reportingRatingId, setReportingRatingId] = useState<string | null>(null);
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
   
   const displayedRatings = maxReviews ? ratings.slice(0, maxReviews) : ratings;
 
+  // Review photos are private, so sign the ones on screen
+  const photoPathsKey = displayedRatings.flatMap(rating => rating.photos || []).join('\n');
+  useEffect(() => {
+    if (!photoPathsKey) return;
+
+    let cancelled = false;
+    getReviewPhotoUrls(photoPathsKey.split('\n')).then(urls => {
+      if (!cancelled) setPhotoUrls(prev => ({ ...prev, ...urls }));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [photoPathsKey]);
+
+  const getPhotoUrls = (rating: Rating) =>
+    (rating.photos || []).map(path => photoUrls[path]).filter((url): url is string => !!url);
+
   const formatDate = (date: Date) => {
     return new Date(date).toLocaleDateString([], { 
       year: 'numeric', 
@@ -61,6 +93,53 @@ export default function ReviewsList({ ratings, maxReviews = 10, onRatingDeleted
     }
   };
 
+  const startReply = (rating: Rating) => {
+    setReplyingToId(rating.id);
+    setReplyText(rating.reply?.content || '');
+  };
+
+  const cancelReply = () => {
+    setReplyingToId(null);
+    setReplyText('');
+  };
+
+  const handleSaveReply = async (ratingId: string) => {
+    if (!replyText.trim()) return;
+
+    setSavingReplyId(ratingId);
+    try {
+      const success = await replyToRating(ratingId, replyText);
+      if (success) {
+        cancelReply();
+        if (onRepliesChanged) {
+          onRepliesChanged();
+        }
+      } else {
+        alert('Failed to save your reply. Please try again.');
+      }
+    } finally {
+      setSavingReplyId(null);
+    }
+  };
+
+  const handleDeleteReply = async (ratingId: string) => {
+    if (!confirm('Delete your reply to this review?')) return;
+
+    setSavingReplyId(ratingId);
+    try {
+      const success = await deleteRatingReply(ratingId);
+      if (success) {
+        if (onRepliesChanged) {
+          onRepliesChanged();
+        }
+      } else {
+        alert('Failed to delete your reply. Please try again.');
+      }
+    } finally {
+      setSavingReplyId(null);
+    }
+  };
+
   if (ratings.length === 0) {
     return (
       <div className="text-center py-8">
@@ -75,6 +154,7 @@ export default function ReviewsList({ ratings, maxReviews = 10, onRatingDeleted
             <p>• Rate providers from 1 to 5 stars</p>
             <p>• Write detailed reviews about your experience</p>
             <p>• Help other users find quality service providers</p>
+            <p>• Only customers who booked or talked with the provider can review</p>
             <p>• Reviews are visible to all users immediately</p>
             <p>• You can edit or delete your own reviews</p>
           </div>
@@ -127,6 +207,9 @@ export default function ReviewsList({ ratings, maxReviews = 10, onRatingDeleted
 
       {displayedRatings.map((rating) => {
         const isOwnReview = user && user.id === rating.userId;
+        const isReviewedProvider = user && user.id === rating.providerId;
+        const isEditingReply = replyingToId === rating.id;
+        const ratingPhotoUrls = getPhotoUrls(rating);
         
         return (
           <div key={rating.id} className="bg-slate-700 rounded-lg p-4 border border-slate-600 hover:border-slate-500 transition-colors">
@@ -138,11 +221,29 @@ export default function ReviewsList({ ratings, maxReviews = 10, onRatingDeleted
                 <div>
                   <div className="flex items-center space-x-2">
                     <p className="text-white font-medium">{rating.userName}</p>
+                    {rating.verification && (
+                      <span
+                        className="flex items-center space-x-1 bg-[#00c9a7]/20 text-[#00c9a7] text-xs px-2 py-1 rounded-full"
+                        title={rating.verification === 'booking' ? 'Completed a booking with this provider' : 'Has been in touch with this provider'}
+                      >
+                        <BadgeCheck className="h-3 w-3" />
+                        <span>Verified customer</span>
+                      </span>
+                    )}
                     {isOwnReview && (
                       <span className="bg-[#3db2ff] text-white text-xs px-2 py-1 rounded-full">
                         Your Review
                       </span>
                     )}
+                    {rating.hidden && (
+                      <span
+                        className="flex items-center space-x-1 bg-red-900/30 text-red-400 text-xs px-2 py-1 rounded-full"
+                        title="Only the reviewer can see this review until our team has checked it"
+                      >
+                        <EyeOff className="h-3 w-3" />
+                        <span>Hidden after reports</span>
+                      </span>
+                    )}
                   </div>
                   <div className="flex items-center space-x-2 mt-1">
                     <div className="flex space-x-1">
@@ -196,9 +297,30 @@ export default function ReviewsList({ ratings, maxReviews = 10, onRatingDeleted
                     )}
                   </div>
                 )}
+                {user && !isOwnReview && (
+                  <button
+                    onClick={() => setReportingRatingId(rating.id)}
+                    className="text-gray-400 hover:text-red-400 transition-colors p-1 rounded"
+                    title="Report this review"
+                  >
+                    <Flag className="h-4 w-4" />
+                  </button>
+                )}
               </div>
             </div>
             
+            {rating.aspects && (
+              <div className="mt-2 flex flex-wrap gap-2">
+                {RATING_ASPECTS.filter(({ key }) => rating.aspects?.[key] !== undefined).map(({ key, label }) => (
+                  <span key={key} className="flex items-center space-x-1 bg-slate-600 text-[#cbd5e1] text-xs px-2 py-1 rounded-full">
+                    <span>{label}</span>
+                    <span className="font-semibold text-yellow-400">{rating.aspects?.[key]}</span>
+                    <Star className="h-3 w-3 text-yellow-400 fill-current" />
+                  </span>
+                ))}
+              </div>
+            )}
+
             {rating.review && rating.review.trim() && (
               <div className="mt-3 pl-13">
                 <div className="bg-slate-600 rounded-lg p-3 border-l-4 border-[#3db2ff]">
@@ -206,6 +328,112 @@ export default function ReviewsList({ ratings, maxReviews = 10, onRatingDeleted
                 </div>
               </div>
             )}
+
+            {ratingPhotoUrls.length > 0 && (
+              <div className="mt-3 flex flex-wrap gap-2">
+                {ratingPhotoUrls.map((url, index) => (
+                  <button
+                    key={url}
+                    onClick={() => setPhotoPreview({ rating, index })}
+                    className="w-16 h-16 rounded-md overflow-hidden border border-slate-500 hover:border-[#3db2ff] transition-colors"
+                    title="View photo"
+                  >
+                    <img
+                      src={url}
+                      alt={`Photo ${index + 1} from ${rating.userName}`}
+                      loading="lazy"
+                      className="w-full h-full object-cover"
+                    />
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {rating.reply && !isEditingReply && (
+              <div className="mt-3 ml-6 bg-slate-800 rounded-lg p-3 border-l-4 border-[#00c9a7]">
+                <div className="flex items-center justify-between mb-1">
+                  <div className="flex items-center space-x-1 text-xs font-medium text-[#00c9a7]">
+                    <MessageSquareReply className="h-3 w-3" />
+                    <span>Response from {providerName || 'the provider'}</span>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className="text-xs text-gray-400">
+                      {formatDate(rating.reply.createdAt)}
+                      {rating.reply.updatedAt.getTime() > rating.reply.createdAt.getTime() && ' (edited)'}
+                    </span>
+                    {isReviewedProvider && (
+                      <>
+                        <button
+                          onClick={() => startReply(rating)}
+                          disabled={savingReplyId !== null}
+                          className="text-gray-400 hover:text-[#3db2ff] transition-colors p-1 rounded disabled:opacity-50"
+                          title="Edit your reply"
+                        >
+                          <Edit3 className="h-3 w-3" />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteReply(rating.id)}
+                          disabled={savingReplyId !== null}
+                          className="text-gray-400 hover:text-red-400 transition-colors p-1 rounded disabled:opacity-50"
+                          title="Delete your reply"
+                        >
+                          {savingReplyId === rating.id ? (
+                            <Loader2 className="h-3 w-3 animate-spin" />
+                          ) : (
+                            <Trash2 className="h-3 w-3" />
+                          )}
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+                <p className="text-[#cbd5e1] leading-relaxed text-sm whitespace-pre-wrap">{rating.reply.content}</p>
+              </div>
+            )}
+
+            {isReviewedProvider && !rating.reply && !isEditingReply && (
+              <button
+                onClick={() => startReply(rating)}
+                className="mt-3 flex items-center space-x-1 text-xs text-[#3db2ff] hover:text-blue-400 font-medium"
+              >
+                <MessageSquareReply className="h-3 w-3" />
+                <span>Reply publicly</span>
+              </button>
+            )}
+
+            {isEditingReply && (
+              <div className="mt-3 ml-6">
+                <textarea
+                  value={replyText}
+                  onChange={(e) => setReplyText(e.target.value)}
+                  maxLength={MAX_REPLY_LENGTH}
+                  rows={3}
+                  autoFocus
+                  placeholder="Write a public reply to this review..."
+                  className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:border-[#3db2ff] focus:ring-1 focus:ring-[#3db2ff] focus:outline-none text-sm resize-none"
+                />
+                <div className="flex items-center justify-between mt-2">
+                  <span className="text-xs text-gray-400">{replyText.length}/{MAX_REPLY_LENGTH}</span>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={cancelReply}
+                      disabled={savingReplyId === rating.id}
+                      className="px-3 py-1 text-xs text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={() => handleSaveReply(rating.id)}
+                      disabled={!replyText.trim() || savingReplyId === rating.id}
+                      className="flex items-center space-x-1 px-3 py-1 bg-[#3db2ff] hover:bg-blue-500 text-white text-xs font-medium rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {savingReplyId === rating.id && <Loader2 className="h-3 w-3 animate-spin" />}
+                      <span>{rating.reply ? 'Save reply' : 'Post reply'}</span>
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )}
           </div>
         );
       })}
@@ -220,6 +448,23 @@ export default function ReviewsList({ ratings, maxReviews = 10, onRatingDeleted
           </button>
         </div>
       )}
+
+      {photoPreview && (
+        <ImagePreviewModal
+          images={getPhotoUrls(photoPreview.rating)}
+          initialIndex={photoPreview.index}
+          onClose={() => setPhotoPreview(null)}
+          title={`Photos from ${photoPreview.rating.userName}`}
+        />
+      )}
+
+      {reportingRatingId && (
+        <ReportModal
+          targetType="rating"
+          targetId={reportingRatingId}
+          onClose={() => setReportingRatingId(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
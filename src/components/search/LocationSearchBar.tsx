@@ -1,21 +1,55 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Search, MapPin, Filter, Loader2, Navigation, X, Target, Check, Globe } from 'lucide-react';
-import { SearchFilters } from '../../types';
+import { RatingAspect, SearchFacets, SearchFilters, SearchSort, WeekDay } from '../../types';
 import { getCurrentLocation, geocodeAddress, LocationCoordinates } from '../../lib/mapbox';
+import { WEEK_DAYS } from '../../lib/availability';
+import { countActiveFilters, SearchState } from '../../lib/searchParams';
+import { RATING_ASPECTS } from '../../lib/ratings';
 import mapboxgl from 'mapbox-gl';
 
 interface LocationSearchBarProps {
-  onSearch: (filters: SearchFilters & { userLocation?: LocationCoordinates }) => void;
+  onSearch: (filters: SearchState) => void;
   loading?: boolean;
+  initialFilters?: SearchState;
+  facets?: SearchFacets | null;
 }
 
-export default function LocationSearchBar({ onSearch, loading }: LocationSearchBarProps) {
-  const [keyword, setKeyword] = useState('');
-  const [location, setLocation] = useState('');
-  const [radius, setRadius] = useState(25);
+const ratingOptions = [4.5, 4, 3];
+const reviewOptions = [1, 5, 10];
+const experienceOptions = [1, 3, 5, 10];
+
+const sortOptions: { value: SearchSort; label: string }[] = [
+  { value: 'relevance', label: 'Best match' },
+  { value: 'distance', label: 'Distance' },
+  { value: 'rating', label: 'Rating' },
+  { value: 'newest', label: 'Newest' },
+  ...RATING_ASPECTS.map(({ key, label }) => ({ value: key, label: `${label} rating` })),
+];
+
+// Appends the facet count to an option label when counts are loaded
+const withCount = (label: string, count: number | undefined) => {
+  return count === undefined ? label : `${label} (${count})`;
+};
+
+export default function LocationSearchBar({ onSearch, loading, initialFilters, facets }: LocationSearchBarProps) {
+  const [keyword, setKeyword] = useState(initialFilters?.keyword || '');
+  const [location, setLocation] = useState(initialFilters?.location || '');
+  const [radius, setRadius] = useState(initialFilters?.radius || 25);
+  const [availableNow, setAvailableNow] = useState(!!initialFilters?.availableNow);
+  const [includeOutsideArea, setIncludeOutsideArea] = useState(!!initialFilters?.includeOutsideArea);
+  const [minRating, setMinRating] = useState<number | undefined>(initialFilters?.minRating);
+  const [minReviews, setMinReviews] = useState<number | undefined>(initialFilters?.minReviews);
+  const [minExperience, setMinExperience] = useState<number | undefined>(initialFilters?.minExperience);
+  const [businessType, setBusinessType] = useState<SearchFilters['businessType']>(initialFilters?.businessType);
+  const [hasPortfolio, setHasPortfolio] = useState(!!initialFilters?.hasPortfolio);
+  const [hasCertifications, setHasCertifications] = useState(!!initialFilters?.hasCertifications);
+  const [openOn, setOpenOn] = useState<WeekDay | undefined>(initialFilters?.openOn);
+  const [ratedAspect, setRatedAspect] = useState<RatingAspect | undefined>(initialFilters?.ratedAspect);
+  const [minAspectRating, setMinAspectRating] = useState<number | undefined>(initialFilters?.minAspectRating);
+  const [sortBy, setSortBy] = useState<SearchSort>(initialFilters?.sortBy || 'relevance');
   const [showFilters, setShowFilters] = useState(false);
   const [showMap, setShowMap] = useState(false);
-  const [userLocation, setUserLocation] = useState<LocationCoordinates | null>(null);
+  const [userLocation, setUserLocation] = useState<LocationCoordinates | null>(initialFilters?.userLocation || null);
   const [locationSuggestions, setLocationSuggestions] = useState<LocationCoordinates[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [gettingLocation, setGettingLocation] = useState(false);
@@ -110,9 +144,10 @@ const currentLng = userLocation?.lng || 28.0473;
     const getInitialLocation = async () => {
       try {
         const currentLocation = await getCurrentLocation();
-        setUserLocation(currentLocation);
+        // Keep a location restored from the URL
+        setUserLocation(prev => prev || currentLocation);
         if (currentLocation.address) {
-          setLocation(currentLocation.address);
+          setLocation(prev => prev || currentLocation.address || '');
         }
       } catch (error) {
         console.log('Could not get initial location:', error);
@@ -299,10 +334,63 @@ const currentLng = userLocation?.lng || 28.0473;
       keyword, 
       location, 
       radius,
+      availableNow,
+      includeOutsideArea,
+      minRating,
+      minReviews,
+      minExperience,
+      businessType,
+      hasPortfolio,
+      hasCertifications,
+      openOn,
+      ratedAspect,
+      minAspectRating,
+      sortBy,
       userLocation: userLocation || undefined
     });
   };
 
+  const clearFilters = () => {
+    setAvailableNow(false);
+    setIncludeOutsideArea(false);
+    setMinRating(undefined);
+    setMinReviews(undefined);
+    setMinExperience(undefined);
+    setBusinessType(undefined);
+    setHasPortfolio(false);
+    setHasCertifications(false);
+    setOpenOn(undefined);
+    setRatedAspect(undefined);
+    setMinAspectRating(undefined);
+  };
+
+  // The aspect filter is one select with "aspect:minimum" values
+  const handleAspectRatingChange = (value: string) => {
+    const [aspect, minimum] = value.split(':');
+    setRatedAspect((aspect || undefined) as RatingAspect | undefined);
+    setMinAspectRating(minimum ? parseFloat(minimum) : undefined);
+  };
+
+  const activeFilterCount = countActiveFilters({
+    keyword,
+    location,
+    radius,
+    availableNow,
+    includeOutsideArea,
+    minRating,
+    minReviews,
+    minExperience,
+    businessType,
+    hasPortfolio,
+    hasCertifications,
+    openOn,
+    ratedAspect,
+    minAspectRating,
+  });
+
+  const selectClassName = "w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-md text-white focus:border-[#3db2ff] focus:ring-1 focus:ring-[#3db2ff] focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed";
+  const checkboxClassName = "rounded border-slate-500 text-[#3db2ff] focus:ring-[#3db2ff] disabled:opacity-50";
+
   const clearLocation = () => {
     setLocation('');
     setUserLocation(null);
@@ -575,7 +663,12 @@ const currentLng = userLocation?.lng || 28.0473;
             className="flex items-center space-x-2 text-[#cbd5e1] hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <Filter className="h-4 w-4" />
-            <span>Search Radius</span>
+            <span>Filters</span>
+            {activeFilterCount > 0 && (
+              <span className="bg-[#3db2ff] text-white text-xs rounded-full px-2 py-0.5">
+                {activeFilterCount}
+              </span>
+            )}
           </button>
           
           <button
@@ -599,8 +692,14 @@ const currentLng = userLocation?.lng || 28.0473;
 
         {/* Advanced Filters */}
         {showFilters && (
-          <div className="border-t border-slate-600 pt-4">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="border-t border-slate-600 pt-4 space-y-4">
+            {facets && (
+              <p className="text-xs text-gray-400">
+                {facets.total} provider{facets.total !== 1 ? 's' : ''} match your current search
+              </p>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
               <div>
                 <label htmlFor="radius" className="block text-sm font-medium text-[#cbd5e1] mb-2">
                   Search Radius
@@ -610,7 +709,7 @@ const currentLng = userLocation?.lng || 28.0473;
                   value={radius}
                   onChange={(e) => setRadius(parseInt(e.target.value))}
                   disabled={loading}
-                  className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-md text-white focus:border-[#3db2ff] focus:ring-1 focus:ring-[#3db2ff] focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
+                  className={selectClassName}
                 >
                   {radiusOptions.map(r => (
                     <option key={r} value={r}>
@@ -619,7 +718,203 @@ const currentLng = userLocation?.lng || 28.0473;
                   ))}
                 </select>
               </div>
+
+              <div>
+                <label htmlFor="sortBy" className="block text-sm font-medium text-[#cbd5e1] mb-2">
+                  Sort By
+                </label>
+                <select
+                  id="sortBy"
+                  value={sortBy}
+                  onChange={(e) => setSortBy(e.target.value as SearchSort)}
+                  disabled={loading}
+                  className={selectClassName}
+                >
+                  {sortOptions.map(option => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="minRating" className="block text-sm font-medium text-[#cbd5e1] mb-2">
+                  Minimum Rating
+                </label>
+                <select
+                  id="minRating"
+                  value={minRating ?? ''}
+                  onChange={(e) => setMinRating(e.target.value ? parseFloat(e.target.value) : undefined)}
+                  disabled={loading}
+                  className={selectClassName}
+                >
+                  <option value="">Any rating</option>
+                  {ratingOptions.map(r => (
+                    <option key={r} value={r}>
+                      {withCount(`${r}+ stars`, facets?.rating[String(r)])}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="aspectRating" className="block text-sm font-medium text-[#cbd5e1] mb-2">
+                  Rated For
+                </label>
+                <select
+                  id="aspectRating"
+                  value={ratedAspect && minAspectRating !== undefined ? `${ratedAspect}:${minAspectRating}` : ''}
+                  onChange={(e) => handleAspectRatingChange(e.target.value)}
+                  disabled={loading}
+                  className={selectClassName}
+                >
+                  <option value="">Any aspect</option>
+                  {RATING_ASPECTS.map(({ key, label }) => (
+                    <optgroup key={key} label={label}>
+                      {ratingOptions.map(r => (
+                        <option key={r} value={`${key}:${r}`}>
+                          {withCount(`${label} ${r}+ stars`, facets?.aspects?.[key][String(r)])}
+                        </option>
+                      ))}
+                    </optgroup>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="minReviews" className="block text-sm font-medium text-[#cbd5e1] mb-2">
+                  Minimum Reviews
+                </label>
+                <select
+                  id="minReviews"
+                  value={minReviews ?? ''}
+                  onChange={(e) => setMinReviews(e.target.value ? parseInt(e.target.value) : undefined)}
+                  disabled={loading}
+                  className={selectClassName}
+                >
+                  <option value="">Any number</option>
+                  {reviewOptions.map(r => (
+                    <option key={r} value={r}>
+                      {withCount(`${r}+ review${r !== 1 ? 's' : ''}`, facets?.reviews[String(r)])}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="minExperience" className="block text-sm font-medium text-[#cbd5e1] mb-2">
+                  Experience
+                </label>
+                <select
+                  id="minExperience"
+                  value={minExperience ?? ''}
+                  onChange={(e) => setMinExperience(e.target.value ? parseInt(e.target.value) : undefined)}
+                  disabled={loading}
+                  className={selectClassName}
+                >
+                  <option value="">Any experience</option>
+                  {experienceOptions.map(years => (
+                    <option key={years} value={years}>
+                      {withCount(`${years}+ year${years !== 1 ? 's' : ''}`, facets?.experience[String(years)])}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="businessType" className="block text-sm font-medium text-[#cbd5e1] mb-2">
+                  Provider Type
+                </label>
+                <select
+                  id="businessType"
+                  value={businessType || ''}
+                  onChange={(e) => setBusinessType((e.target.value || undefined) as SearchFilters['businessType'])}
+                  disabled={loading}
+                  className={selectClassName}
+                >
+                  <option value="">Any type</option>
+                  <option value="individual">{withCount('Individual', facets?.business_type.individual)}</option>
+                  <option value="business">{withCount('Business', facets?.business_type.business)}</option>
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="openOn" className="block text-sm font-medium text-[#cbd5e1] mb-2">
+                  Open On
+                </label>
+                <select
+                  id="openOn"
+                  value={openOn || ''}
+                  onChange={(e) => setOpenOn((e.target.value || undefined) as WeekDay | undefined)}
+                  disabled={loading}
+                  className={selectClassName}
+                >
+                  <option value="">Any day</option>
+                  {WEEK_DAYS.map(({ key, label }) => (
+                    <option key={key} value={key}>
+                      {withCount(label, facets?.open_on[key])}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              <label className="flex items-center space-x-2 px-4 py-2 bg-slate-700 border border-slate-600 rounded-md text-white cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={availableNow}
+                  onChange={(e) => setAvailableNow(e.target.checked)}
+                  disabled={loading}
+                  className={checkboxClassName}
+                />
+                <span className="text-sm">{withCount('Available now', facets?.available_now)}</span>
+              </label>
+              <label className="flex items-center space-x-2 px-4 py-2 bg-slate-700 border border-slate-600 rounded-md text-white cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={hasPortfolio}
+                  onChange={(e) => setHasPortfolio(e.target.checked)}
+                  disabled={loading}
+                  className={checkboxClassName}
+                />
+                <span className="text-sm">{withCount('Has portfolio photos', facets?.has_portfolio)}</span>
+              </label>
+              <label className="flex items-center space-x-2 px-4 py-2 bg-slate-700 border border-slate-600 rounded-md text-white cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={hasCertifications}
+                  onChange={(e) => setHasCertifications(e.target.checked)}
+                  disabled={loading}
+                  className={checkboxClassName}
+                />
+                <span className="text-sm">{withCount('Has certifications', facets?.has_certifications)}</span>
+              </label>
+              <label className="flex items-center space-x-2 px-4 py-2 bg-slate-700 border border-slate-600 rounded-md text-white cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={includeOutsideArea}
+                  onChange={(e) => setIncludeOutsideArea(e.target.checked)}
+                  disabled={loading}
+                  className={checkboxClassName}
+                />
+                <span className="text-sm">Include providers outside their service area</span>
+              </label>
             </div>
+
+            {activeFilterCount > 0 && (
+              <div className="flex justify-end">
+                <button
+                  type="button"
+                  onClick={clearFilters}
+                  disabled={loading}
+                  className="text-sm text-[#cbd5e1] hover:text-white transition-colors disabled:opacity-50"
+                >
+                  Clear filters
+                </button>
+              </div>
+            )}
           </div>
         )}
       </form>
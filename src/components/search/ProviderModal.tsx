@@ -6,7 +6,10 @@ import RatingModal from '../rating/RatingModal';
 import RatingDisplay from '../rating/RatingDisplay';
 import ReviewsList from '../rating/ReviewsList';
 import ImagePreviewModal from '../common/ImagePreviewModal';
+import BookingModal from '../booking/BookingModal';
 import { supabase } from '../../lib/supabase';
+import { formatRanges, getDayRanges, getEffectiveStatus, getUpcomingExceptions, parseDateKey } from '../../lib/availability';
+import { mapRatingAspects } from '../../lib/ratings';
 
 interface ProviderModalProps {
   provider: ServiceProvider;
@@ -25,6 +28,7 @@ export default function ProviderModal({ provider: initialProvider, onClose, onSt
   const [ratingsLoading, setRatingsLoading] = useState(false);
   const [showImagePreview, setShowImagePreview] = useState(false);
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
+  const [showBookingModal, setShowBookingModal] = useState(false);
   
   const canRate = user && user.role === 'user';
 
@@ -56,6 +60,7 @@ export default function ProviderModal({ provider: initialProvider, onClose, onSt
             businessName: data.business_name || undefined,
             businessType: data.business_type || 'individual',
             serviceType: data.service_type || '',
+            serviceTypes: data.service_types || [],
             description: data.description || '',
             phone: data.phone || undefined,
             website: data.website || undefined,
@@ -74,7 +79,12 @@ export default function ProviderModal({ provider: initialProvider, onClose, onSt
             rating: Number(data.rating) || 0,
             reviewCount: Number(data.review_count) || 0,
             totalRatingPoints: Number(data.total_rating_points) || 0,
+            aspectRatings: mapRatingAspects(data),
             availability: data.availability || undefined,
+            availabilityExceptions: data.availability_exceptions || [],
+            timezone: data.timezone || undefined,
+            busyUntil: data.busy_until || undefined,
+            lastActiveAt: data.last_active_at || undefined,
             currentStatus: data.current_status || 'available',
           };
           
@@ -105,84 +115,19 @@ export default function ProviderModal({ provider: initialProvider, onClose, onSt
     try {
       console.log('📊 Loading ratings for provider:', provider.id);
       
-      // Direct query to get ratings with user names
-      const { data: ratingsData, error: ratingsError } = await supabase
-        .from('ratings')
-        .select(`
-          id,
-          user_id,
-          provider_id,
-          rating,
-          review,
-          created_at,
-          updated_at,
-          profiles!ratings_user_id_fkey(name)
-        `)
-        .eq('provider_id', provider.id)
-        .order('created_at', { ascending: false });
-
-      if (ratingsError) {
-        console.error('❌ Error fetching ratings:', ratingsError);
-        setRatings([]);
-        return;
-      }
-
-      console.log('📊 Raw ratings data:', ratingsData);
-
-      if (!ratingsData || ratingsData.length === 0) {
-        console.log('📊 No ratings found for provider');
-        setRatings([]);
-      } else {
-        // Convert to Rating objects
-        const formattedRatings: Rating[] = ratingsData.map(rating => ({
-          id: rating.id,
-          userId: rating.user_id,
-          providerId: rating.provider_id,
-          rating: rating.rating,
-          review: rating.review || '',
-          timestamp: new Date(rating.created_at),
-          userName: (rating.profiles as any)?.name || 'Anonymous User',
-        }));
-
-        console.log('📊 Formatted ratings:', formattedRatings.length, 'reviews');
-        setRatings(formattedRatings);
-      }
+      const providerRatings = await getProviderRatings(provider.id);
+      console.log('📊 Formatted ratings:', providerRatings.length, 'reviews');
+      setRatings(providerRatings);
       
       // Load user's existing rating if logged in
       if (user && canRate) {
-        const { data: userRatingData, error: userRatingError } = await supabase
-          .from('ratings')
-          .select(`
-            id,
-            user_id,
-            provider_id,
-            rating,
-            review,
-            created_at,
-            updated_at,
-            profiles!ratings_user_id_fkey(name)
-          `)
-          .eq('user_id', user.id)
-          .eq('provider_id', provider.id)
-          .single();
-
-        if (!userRatingError && userRatingData) {
-          const existingRating: Rating = {
-            id: userRatingData.id,
-            userId: userRatingData.user_id,
-            providerId: userRatingData.provider_id,
-            rating: userRatingData.rating,
-            review: userRatingData.review || '',
-            timestamp: new Date(userRatingData.created_at),
-            userName: (userRatingData.profiles as any)?.name || user.name,
-          };
-          
+        const existingRating = await getUserRating(user.id, provider.id);
+        if (existingRating) {
           console.log('📊 User existing rating:', existingRating);
-          setUserRating(existingRating);
         } else {
           console.log('📊 No existing rating from user');
-          setUserRating(undefined);
         }
+        setUserRating(existingRating);
       }
     } catch (error) {
       console.error('❌ Error loading ratings:', error);
@@ -231,6 +176,7 @@ export default function ProviderModal({ provider: initialProvider, onClose, onSt
           businessName: data.business_name || undefined,
           businessType: data.business_type || 'individual',
           serviceType: data.service_type || '',
+          serviceTypes: data.service_types || [],
           description: data.description || '',
           phone: data.phone || undefined,
           website: data.website || undefined,
@@ -249,7 +195,12 @@ export default function ProviderModal({ provider: initialProvider, onClose, onSt
           rating: Number(data.rating) || 0,
           reviewCount: Number(data.review_count) || 0,
           totalRatingPoints: Number(data.total_rating_points) || 0,
+          aspectRatings: mapRatingAspects(data),
           availability: data.availability || undefined,
+          availabilityExceptions: data.availability_exceptions || [],
+          timezone: data.timezone || undefined,
+          busyUntil: data.busy_until || undefined,
+          lastActiveAt: data.last_active_at || undefined,
           currentStatus: data.current_status || 'available',
         };
         
@@ -294,6 +245,7 @@ export default function ProviderModal({ provider: initialProvider, onClose, onSt
           businessName: data.business_name || undefined,
           businessType: data.business_type || 'individual',
           serviceType: data.service_type || '',
+          serviceTypes: data.service_types || [],
           description: data.description || '',
           phone: data.phone || undefined,
           website: data.website || undefined,
@@ -312,7 +264,12 @@ export default function ProviderModal({ provider: initialProvider, onClose, onSt
           rating: Number(data.rating) || 0,
           reviewCount: Number(data.review_count) || 0,
           totalRatingPoints: Number(data.total_rating_points) || 0,
+          aspectRatings: mapRatingAspects(data),
           availability: data.availability || undefined,
+          availabilityExceptions: data.availability_exceptions || [],
+          timezone: data.timezone || undefined,
+          busyUntil: data.busy_until || undefined,
+          lastActiveAt: data.last_active_at || undefined,
           currentStatus: data.current_status || 'available',
         };
         
@@ -362,13 +319,16 @@ export default function ProviderModal({ provider: initialProvider, onClose, onSt
         day: label,
         available: daySchedule?.available || false,
         hours: daySchedule?.available 
-          ? `${daySchedule.start} - ${daySchedule.end}`
+          ? formatRanges(getDayRanges(daySchedule))
           : 'Closed'
       };
     });
   };
 
   const availabilitySchedule = formatAvailability();
+  const upcomingExceptions = getUpcomingExceptions(provider.availabilityExceptions);
+  const liveStatus = getEffectiveStatus(provider);
+  const canBook = user?.role === 'user' && !!availabilitySchedule;
 
   return (
     <>
@@ -413,17 +373,15 @@ export default function ProviderModal({ provider: initialProvider, onClose, onSt
                       reviewCount={provider.reviewCount} 
                       size="md"
                     />
-                    {provider.currentStatus && (
-                      <div className={`px-2 py-1 rounded-full text-xs font-medium ${
-                        provider.currentStatus === 'available' 
-                          ? 'bg-green-500 text-white' 
-                          : provider.currentStatus === 'busy'
-                          ? 'bg-yellow-500 text-white'
-                          : 'bg-gray-500 text-white'
-                      }`}>
-                        {provider.currentStatus}
-                      </div>
-                    )}
+                    <div className={`px-2 py-1 rounded-full text-xs font-medium ${
+                      liveStatus.status === 'available' 
+                        ? 'bg-green-500 text-white' 
+                        : liveStatus.status === 'busy'
+                        ? 'bg-yellow-500 text-white'
+                        : 'bg-gray-500 text-white'
+                    }`}>
+                      {liveStatus.reason}
+                    </div>
                   </div>
                 </div>
               </div>
@@ -483,6 +441,11 @@ export default function ProviderModal({ provider: initialProvider, onClose, onSt
                     <span className="inline-block bg-[#3db2ff] text-white px-3 sm:px-4 py-1 sm:py-2 rounded-full text-sm font-medium">
                       {provider.serviceType}
                     </span>
+                    {provider.serviceTypes?.filter(service => service !== provider.serviceType).map(service => (
+                      <span key={service} className="inline-block border border-[#3db2ff] text-[#3db2ff] px-3 py-1 rounded-full text-sm">
+                        {service}
+                      </span>
+                    ))}
                     {provider.specialties && provider.specialties.length > 0 && (
                       provider.specialties.map((specialty, index) => (
                         <span key={index} className="inline-block bg-slate-600 text-white px-2 py-1 rounded-full text-xs">
@@ -626,6 +589,7 @@ export default function ProviderModal({ provider: initialProvider, onClose, onSt
                           rating={provider.rating} 
                           reviewCount={provider.reviewCount} 
                           size="lg"
+                          breakdown={provider.aspectRatings}
                         />
                       </div>
                     ) : (
@@ -652,6 +616,8 @@ export default function ProviderModal({ provider: initialProvider, onClose, onSt
                   <ReviewsList 
                     ratings={ratings} 
                     onRatingDeleted={handleRatingDeleted}
+                    providerName={provider.businessName || provider.name}
+                    onRepliesChanged={loadRatings}
                   />
                 )}
               </div>
@@ -668,6 +634,41 @@ export default function ProviderModal({ provider: initialProvider, onClose, onSt
                         </span>
                       </div>
                     ))}
+                    {upcomingExceptions.length > 0 && (
+                      <div className="pt-2">
+                        <h4 className="text-sm font-medium text-white mb-2">Holidays & Special Hours</h4>
+                        <div className="space-y-2">
+                          {upcomingExceptions.map(exception => (
+                            <div key={exception.date} className="flex items-center justify-between p-3 bg-slate-700 rounded-lg">
+                              <div>
+                                <span className="text-white text-sm font-medium">
+                                  {parseDateKey(exception.date).toLocaleDateString([], {
+                                    weekday: 'short',
+                                    month: 'short',
+                                    day: 'numeric'
+                                  })}
+                                </span>
+                                {exception.note && (
+                                  <p className="text-xs text-[#cbd5e1]">{exception.note}</p>
+                                )}
+                              </div>
+                              <span className={`text-sm ${exception.available ? 'text-green-400' : 'text-red-400'}`}>
+                                {exception.available ? formatRanges(exception.ranges) : 'Closed'}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    {canBook && (
+                      <button
+                        onClick={() => setShowBookingModal(true)}
+                        className="w-full flex items-center justify-center space-x-2 bg-[#3db2ff] hover:bg-blue-500 text-white px-4 py-2 rounded-md transition-colors text-sm"
+                      >
+                        <Calendar className="h-4 w-4" />
+                        <span>Request a Booking</span>
+                      </button>
+                    )}
                   </div>
                 ) : (
                   <div className="text-center py-8">
@@ -681,7 +682,17 @@ export default function ProviderModal({ provider: initialProvider, onClose, onSt
 
           {/* Action Buttons */}
           <div className="sticky bottom-0 bg-slate-800 border-t border-slate-700 p-4 sm:p-6">
-            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4">
+            <div className={`grid grid-cols-1 gap-3 sm:gap-4 ${canBook ? 'sm:grid-cols-2 lg:grid-cols-4' : 'sm:grid-cols-3'}`}>
+              {canBook && (
+                <button
+                  onClick={() => setShowBookingModal(true)}
+                  className="flex items-center justify-center space-x-2 bg-gradient-to-r from-[#3db2ff] to-[#00c9a7] hover:from-[#2563eb] hover:to-[#059669] text-white px-4 sm:px-6 py-3 rounded-md transition-all text-sm sm:text-base"
+                >
+                  <Calendar className="h-4 w-4 sm:h-5 sm:w-5" />
+                  <span>Book</span>
+                </button>
+              )}
+
               <button
                 onClick={handleStartChat}
                 className="flex items-center justify-center space-x-2 bg-[#3db2ff] hover:bg-blue-500 text-white px-4 sm:px-6 py-3 rounded-md transition-colors text-sm sm:text-base"
@@ -721,6 +732,15 @@ export default function ProviderModal({ provider: initialProvider, onClose, onSt
         />
       )}
 
+      {/* Booking Modal */}
+      {showBookingModal && (
+        <BookingModal
+          providerId={provider.id}
+          providerName={provider.businessName || provider.name}
+          onClose={() => setShowBookingModal(false)}
+        />
+      )}
+
       {/* Image Preview Modal */}
       {showImagePreview && provider.workPortfolio && (
         <ImagePreviewModal
@@ -0,0 +1,329 @@
+import { useEffect, useRef, useState } from 'react';
+import mapboxgl from 'mapbox-gl';
+import { Search } from 'lucide-react';
+import { ServiceProvider } from '../../types';
+import { calculateDistance, createRadiusCircle, LocationCoordinates } from '../../lib/mapbox';
+
+interface ResultsMapProps {
+  providers: ServiceProvider[];
+  center?: LocationCoordinates;
+  selectedProviderId?: string | null;
+  hoveredProviderId?: string | null;
+  onSelectProvider: (providerId: string) => void;
+  onHoverProvider: (providerId: string | null) => void;
+  onSearchArea?: (center: LocationCoordinates, radiusKm: number) => void;
+}
+
+const EMPTY_COLLECTION: GeoJSON.FeatureCollection = { type: 'FeatureCollection', features: [] };
+
+// Providers who haven't set an address yet are stored at 0,0
+const hasLocation = (provider: ServiceProvider) => {
+  return !!provider.location && !(provider.location.lat === 0 && provider.location.lng === 0);
+};
+
+const toFeatureCollection = (providers: ServiceProvider[]): GeoJSON.FeatureCollection<GeoJSON.Point> => ({
+  type: 'FeatureCollection',
+  features: providers.filter(hasLocation).map(provider => ({
+    type: 'Feature',
+    properties: {
+      id: provider.id,
+      name: provider.businessName || provider.name,
+      withinServiceArea: provider.withinServiceArea !== false,
+    },
+    geometry: {
+      type: 'Point',
+      coordinates: [provider.location.lng, provider.location.lat],
+    },
+  })),
+});
+
+export default function ResultsMap({
+  providers,
+  center,
+  selectedProviderId,
+  hoveredProviderId,
+  onSelectProvider,
+  onHoverProvider,
+  onSearchArea
+}: ResultsMapProps) {
+  const mapContainer = useRef<HTMLDivElement>(null);
+  const map = useRef<mapboxgl.Map | null>(null);
+  const searchMarker = useRef<mapboxgl.Marker | null>(null);
+  const fittedSearchRef = useRef<string | null>(null);
+  const [mapLoaded, setMapLoaded] = useState(false);
+  const [mapMoved, setMapMoved] = useState(false);
+
+  // Handlers change on every render; the map listeners read them through a ref
+  const handlersRef = useRef({ onSelectProvider, onHoverProvider });
+  handlersRef.current = { onSelectProvider, onHoverProvider };
+
+  // The map opens on the first center; later centers are handled by fitting the results
+  const initialCenterRef = useRef(center);
+
+  // Create the map with a clustered provider source
+  useEffect(() => {
+    if (!mapContainer.current || map.current) return;
+
+    const instance = new mapboxgl.Map({
+      container: mapContainer.current,
+      style: 'mapbox://styles/mapbox/dark-v11',
+      center: [initialCenterRef.current?.lng ?? 28.0473, initialCenterRef.current?.lat ?? -26.2041],
+      zoom: 11
+    });
+    map.current = instance;
+
+    instance.addControl(new mapboxgl.NavigationControl());
+    instance.dragRotate.disable();
+    instance.touchZoomRotate.disableRotation();
+
+    instance.on('load', () => {
+      instance.addSource('providers', {
+        type: 'geojson',
+        data: EMPTY_COLLECTION,
+        cluster: true,
+        clusterMaxZoom: 14,
+        clusterRadius: 50
+      });
+
+      instance.addSource('work-radius', {
+        type: 'geojson',
+        data: EMPTY_COLLECTION
+      });
+
+      instance.addLayer({
+        id: 'work-radius-fill',
+        type: 'fill',
+        source: 'work-radius',
+        paint: { 'fill-color': '#3db2ff', 'fill-opacity': 0.12 }
+      });
+
+      instance.addLayer({
+        id: 'work-radius-outline',
+        type: 'line',
+        source: 'work-radius',
+        paint: { 'line-color': '#3db2ff', 'line-width': 2, 'line-dasharray': [2, 2] }
+      });
+
+      instance.addLayer({
+        id: 'clusters',
+        type: 'circle',
+        source: 'providers',
+        filter: ['has', 'point_count'],
+        paint: {
+          'circle-color': ['step', ['get', 'point_count'], '#3db2ff', 10, '#00c9a7', 25, '#a855f7'],
+          'circle-radius': ['step', ['get', 'point_count'], 18, 10, 24, 25, 30],
+          'circle-stroke-width': 2,
+          'circle-stroke-color': '#1e293b'
+        }
+      });
+
+      instance.addLayer({
+        id: 'cluster-count',
+        type: 'symbol',
+        source: 'providers',
+        filter: ['has', 'point_count'],
+        layout: {
+          'text-field': ['get', 'point_count_abbreviated'],
+          'text-size': 13
+        },
+        paint: { 'text-color': '#ffffff' }
+      });
+
+      instance.addLayer({
+        id: 'provider-points',
+        type: 'circle',
+        source: 'providers',
+        filter: ['!', ['has', 'point_count']],
+        paint: {
+          'circle-color': ['case', ['get', 'withinServiceArea'], '#3db2ff', '#facc15'],
+          'circle-radius': 8,
+          'circle-stroke-width': 2,
+          'circle-stroke-color': '#ffffff'
+        }
+      });
+
+      instance.addLayer({
+        id: 'selected-provider',
+        type: 'circle',
+        source: 'providers',
+        filter: ['==', ['get', 'id'], ''],
+        paint: {
+          'circle-color': '#00c9a7',
+          'circle-radius': 11,
+          'circle-stroke-width': 3,
+          'circle-stroke-color': '#ffffff'
+        }
+      });
+
+      // Zoom into a cluster when it is clicked
+      instance.on('click', 'clusters', (e) => {
+        const feature = e.features?.[0];
+        const clusterId = feature?.properties?.cluster_id;
+        if (!feature || clusterId === undefined) return;
+
+        const source = instance.getSource('providers') as mapboxgl.GeoJSONSource;
+        source.getClusterExpansionZoom(clusterId, (error, zoom) => {
+          if (error || zoom === undefined || zoom === null) return;
+          instance.easeTo({
+            center: (feature.geometry as GeoJSON.Point).coordinates as [number, number],
+            zoom
+          });
+        });
+      });
+
+      instance.on('click', 'provider-points', (e) => {
+        const providerId = e.features?.[0]?.properties?.id;
+        if (providerId) {
+          handlersRef.current.onSelectProvider(providerId);
+        }
+      });
+
+      instance.on('mousemove', 'provider-points', (e) => {
+        instance.getCanvas().style.cursor = 'pointer';
+        const providerId = e.features?.[0]?.properties?.id;
+        if (providerId) {
+          handlersRef.current.onHoverProvider(providerId);
+        }
+      });
+
+      instance.on('mouseleave', 'provider-points', () => {
+        instance.getCanvas().style.cursor = '';
+        handlersRef.current.onHoverProvider(null);
+      });
+
+      instance.on('mouseenter', 'clusters', () => {
+        instance.getCanvas().style.cursor = 'pointer';
+      });
+
+      instance.on('mouseleave', 'clusters', () => {
+        instance.getCanvas().style.cursor = '';
+      });
+
+      setMapLoaded(true);
+    });
+
+    // Only moves made by the user offer "Search this area"
+    instance.on('moveend', (e) => {
+      if ('originalEvent' in e && e.originalEvent) {
+        setMapMoved(true);
+      }
+    });
+
+    return () => {
+      instance.remove();
+      map.current = null;
+      searchMarker.current = null;
+    };
+  }, []);
+
+  // Keep the provider source in sync with the results
+  useEffect(() => {
+    if (!mapLoaded || !map.current) return;
+
+    const source = map.current.getSource('providers') as mapboxgl.GeoJSONSource | undefined;
+    source?.setData(toFeatureCollection(providers));
+
+    // Fit once per search; later pages keep the current view
+    const searchKey = providers[0]?.id ?? null;
+    if (searchKey === fittedSearchRef.current) return;
+    fittedSearchRef.current = searchKey;
+
+    const located = providers.filter(hasLocation);
+    if (located.length === 0) return;
+
+    const bounds = new mapboxgl.LngLatBounds();
+    located.forEach(provider => bounds.extend([provider.location.lng, provider.location.lat]));
+    if (center) {
+      bounds.extend([center.lng, center.lat]);
+    }
+    map.current.fitBounds(bounds, { padding: 60, maxZoom: 14, duration: 0 });
+    setMapMoved(false);
+  }, [providers, mapLoaded, center]);
+
+  // Mark the search location
+  useEffect(() => {
+    if (!map.current) return;
+
+    searchMarker.current?.remove();
+    searchMarker.current = null;
+
+    if (center) {
+      searchMarker.current = new mapboxgl.Marker({ color: '#00c9a7', scale: 0.8 })
+        .setLngLat([center.lng, center.lat])
+        .addTo(map.current);
+    }
+  }, [center]);
+
+  // Highlight the selected provider and bring it into view
+  useEffect(() => {
+    if (!mapLoaded || !map.current) return;
+
+    map.current.setFilter('selected-provider', ['==', ['get', 'id'], selectedProviderId || '']);
+
+    const selected = providers.find(p => p.id === selectedProviderId);
+    if (selected && hasLocation(selected) && !map.current.getBounds()?.contains([selected.location.lng, selected.location.lat])) {
+      map.current.easeTo({ center: [selected.location.lng, selected.location.lat] });
+    }
+  }, [selectedProviderId, providers, mapLoaded]);
+
+  // Draw the work radius of the hovered provider
+  useEffect(() => {
+    if (!mapLoaded || !map.current) return;
+
+    const source = map.current.getSource('work-radius') as mapboxgl.GeoJSONSource | undefined;
+    const hovered = providers.find(p => p.id === hoveredProviderId);
+
+    source?.setData(
+      hovered && hasLocation(hovered) && hovered.workRadius > 0
+        ? createRadiusCircle(hovered.location.lat, hovered.location.lng, hovered.workRadius)
+        : EMPTY_COLLECTION
+    );
+  }, [hoveredProviderId, providers, mapLoaded]);
+
+  const handleSearchArea = () => {
+    if (!map.current || !onSearchArea) return;
+
+    const mapCenter = map.current.getCenter();
+    const bounds = map.current.getBounds();
+    if (!bounds) return;
+
+    // Largest circle that fits inside the visible map
+    const toEdge = Math.min(
+      calculateDistance(mapCenter.lat, mapCenter.lng, bounds.getNorth(), mapCenter.lng),
+      calculateDistance(mapCenter.lat, mapCenter.lng, mapCenter.lat, bounds.getEast())
+    );
+    const radiusKm = Math.min(Math.max(Math.ceil(toEdge), 1), 100);
+
+    setMapMoved(false);
+    onSearchArea({ lat: mapCenter.lat, lng: mapCenter.lng }, radiusKm);
+  };
+
+  return (
+    <div className="relative h-full w-full">
+      <div ref={mapContainer} className="h-full w-full" />
+
+      {mapMoved && onSearchArea && (
+        <button
+          type="button"
+          onClick={handleSearchArea}
+          className="absolute top-3 left-1/2 transform -translate-x-1/2 bg-[#3db2ff] hover:bg-blue-500 text-white px-4 py-2 rounded-full shadow-lg transition-colors flex items-center space-x-2 text-sm"
+        >
+          <Search className="h-4 w-4" />
+          <span>Search this area</span>
+        </button>
+      )}
+
+      {/* Legend */}
+      <div className="absolute bottom-3 left-3 bg-slate-800/90 rounded-md px-3 py-2 text-xs text-[#cbd5e1] space-y-1">
+        <div className="flex items-center space-x-2">
+          <span className="w-3 h-3 rounded-full bg-[#3db2ff] border border-white"></span>
+          <span>Covers your location</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <span className="w-3 h-3 rounded-full bg-yellow-400 border border-white"></span>
+          <span>Outside service area</span>
+        </div>
+      </div>
+    </div>
+  );
+}
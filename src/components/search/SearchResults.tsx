@@ -1,7 +1,10 @@
-import React, { useEffect } from 'react';
-import { ServiceProvider, SearchFilters } from '../../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { ServiceProvider, SearchFilters, SearchSort } from '../../types';
 import ServiceCard from './ServiceCard';
-import { Search, Loader2, RefreshCw, Users, Clock, Globe, Award } from 'lucide-react';
+import ProviderModal from './ProviderModal';
+import ResultsMap from './ResultsMap';
+import { LocationCoordinates } from '../../lib/mapbox';
+import { Search, Loader2, RefreshCw, Users, Clock, Globe, Award, MapPinOff, List, Map as MapIcon } from 'lucide-react';
 
 interface SearchResultsProps {
   results: ServiceProvider[];
@@ -10,16 +13,51 @@ interface SearchResultsProps {
   loading?: boolean;
   onRefresh?: () => void;
   onChatStart?: (providerId: string) => void; // Add chat start callback
+  totalCount?: number; // Matches across all pages
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void; // Called when the end of the list scrolls into view
+  searchLocation?: LocationCoordinates;
+  onSearchArea?: (center: LocationCoordinates, radiusKm: number) => void; // "Search this area" on the map
 }
 
+const sortDescriptions: Record<SearchSort, string> = {
+  relevance: 'Results sorted by relevance for keyword searches, then by distance when a location is set, then by rating',
+  distance: 'Results sorted by distance, closest first',
+  rating: 'Results sorted by rating, then by number of reviews',
+  newest: 'Results sorted by newest providers first',
+  quality: 'Results sorted by quality rating, then by overall rating',
+  punctuality: 'Results sorted by punctuality rating, then by overall rating',
+  value: 'Results sorted by value for money rating, then by overall rating',
+  communication: 'Results sorted by communication rating, then by overall rating',
+};
+
 export default function SearchResults({ 
   results, 
   hasSearched, 
   searchFilters, 
   loading, 
   onRefresh, 
-  onChatStart 
+  onChatStart,
+  totalCount,
+  hasMore,
+  loadingMore,
+  onLoadMore,
+  searchLocation,
+  onSearchArea
 }: SearchResultsProps) {
+  const total = Math.max(totalCount ?? results.length, results.length);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const cardRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
+  const [selectedProviderId, setSelectedProviderId] = useState<string | null>(null);
+  const [hoveredProviderId, setHoveredProviderId] = useState<string | null>(null);
+  const [profileProvider, setProfileProvider] = useState<ServiceProvider | null>(null);
+
+  // Providers whose work radius doesn't reach the customer are listed separately
+  const serviceableResults = results.filter(p => p.withinServiceArea !== false);
+  const outsideAreaResults = results.filter(p => p.withinServiceArea === false);
+
   // Debug log to see what data we're getting with all fields
   useEffect(() => {
     if (results.length > 0) {
@@ -39,10 +77,62 @@ export default function SearchResults({
     }
   }, [results]);
 
+  // Load the next page when the sentinel below the list becomes visible
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore || loadingMore || !onLoadMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: '400px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadingMore, onLoadMore, results.length, viewMode]);
+
   if (!hasSearched) {
     return null;
   }
 
+  // Selecting on the map highlights the matching card and scrolls to it
+  const handleMapSelect = (providerId: string) => {
+    setSelectedProviderId(providerId);
+    cardRefs.current[providerId]?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  };
+
+  const handleViewProfile = (provider: ServiceProvider) => {
+    setSelectedProviderId(provider.id);
+    setProfileProvider(provider);
+  };
+
+  const renderCard = (provider: ServiceProvider) => (
+    <div key={provider.id} ref={(el) => { cardRefs.current[provider.id] = el; }}>
+      <ServiceCard 
+        provider={provider}
+        onChatStart={onChatStart}
+        onViewProfile={handleViewProfile}
+        onHover={setHoveredProviderId}
+        highlighted={provider.id === selectedProviderId}
+      />
+    </div>
+  );
+
+  const loadMoreSentinel = hasMore && (
+    <div ref={loadMoreRef} className="mt-6 h-10 flex items-center justify-center space-x-2 text-[#cbd5e1]">
+      {loadingMore && (
+        <>
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span>Loading more providers...</span>
+        </>
+      )}
+    </div>
+  );
+
   // Count providers with and without ratings
   const providersWithRatings = results.filter(p => p.rating > 0 && p.reviewCount > 0);
   const newProviders = results.filter(p => (!p.rating || p.rating === 0) && (!p.reviewCount || p.reviewCount === 0));
@@ -67,7 +157,7 @@ export default function SearchResults({
             <div className="flex flex-wrap items-center gap-4 mt-2">
               <div className="flex items-center space-x-2 text-sm text-[#cbd5e1]">
                 <Users className="h-4 w-4" />
-                <span>{results.length} {results.length === 1 ? 'provider' : 'providers'} found</span>
+                <span>{total} {total === 1 ? 'provider' : 'providers'} found</span>
               </div>
               {providersWithRatings.length > 0 && (
                 <span className="text-sm text-yellow-400">
@@ -101,14 +191,39 @@ export default function SearchResults({
           )}
         </div>
         <div className="flex items-center space-x-4">
+          {/* View Toggle */}
+          <div className="flex bg-slate-800 rounded-md p-1">
+            <button
+              onClick={() => setViewMode('list')}
+              className={`flex items-center space-x-1 px-3 py-1 rounded text-sm transition-colors ${
+                viewMode === 'list' ? 'bg-[#3db2ff] text-white' : 'text-[#cbd5e1] hover:text-white'
+              }`}
+              title="Show results as a list"
+            >
+              <List className="h-4 w-4" />
+              <span>List</span>
+            </button>
+            <button
+              onClick={() => setViewMode('map')}
+              className={`flex items-center space-x-1 px-3 py-1 rounded text-sm transition-colors ${
+                viewMode === 'map' ? 'bg-[#3db2ff] text-white' : 'text-[#cbd5e1] hover:text-white'
+              }`}
+              title="Show results on a map"
+            >
+              <MapIcon className="h-4 w-4" />
+              <span>Map</span>
+            </button>
+          </div>
           <p className="text-[#cbd5e1]">
             {loading ? (
               <span className="flex items-center space-x-2">
                 <Loader2 className="h-4 w-4 animate-spin" />
                 <span>Searching...</span>
               </span>
+            ) : results.length < total ? (
+              `Showing ${results.length} of ${total} providers`
             ) : (
-              `${results.length} ${results.length === 1 ? 'provider' : 'providers'} found`
+              `${total} ${total === 1 ? 'provider' : 'providers'} found`
             )}
           </p>
           {onRefresh && !loading && (
@@ -190,22 +305,71 @@ export default function SearchResults({
               </div>
               <div className="mt-3 pt-3 border-t border-slate-600">
                 <p className="text-xs text-gray-400">
-                  Results sorted by rating, then by newest • All providers shown have complete profiles with verified information
+                  {sortDescriptions[searchFilters.sortBy || 'relevance']} • All providers shown have complete profiles with verified information
                 </p>
               </div>
             </div>
           )}
 
-          {/* Provider Cards Grid */}
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {results.map((provider) => (
-              <ServiceCard 
-                key={`${provider.id}-${Date.now()}`} 
-                provider={provider}
-                onChatStart={onChatStart}
-              />
-            ))}
-          </div>
+          {viewMode === 'map' ? (
+            /* Map View */
+            <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+              <div className="lg:col-span-3 h-[28rem] lg:h-[40rem] rounded-lg overflow-hidden border border-slate-700">
+                <ResultsMap
+                  providers={results}
+                  center={searchLocation}
+                  selectedProviderId={selectedProviderId}
+                  hoveredProviderId={hoveredProviderId}
+                  onSelectProvider={handleMapSelect}
+                  onHoverProvider={setHoveredProviderId}
+                  onSearchArea={onSearchArea}
+                />
+              </div>
+              <div className="lg:col-span-2 lg:h-[40rem] lg:overflow-y-auto space-y-4 lg:pr-2">
+                {serviceableResults.map(renderCard)}
+                {outsideAreaResults.length > 0 && (
+                  <div className="flex items-center space-x-2 pt-2">
+                    <MapPinOff className="h-4 w-4 text-yellow-400" />
+                    <h3 className="text-sm font-semibold text-white">Outside service area</h3>
+                  </div>
+                )}
+                {outsideAreaResults.map(renderCard)}
+                {loadMoreSentinel}
+              </div>
+            </div>
+          ) : (
+            <>
+              {/* Provider Cards Grid */}
+              {serviceableResults.length > 0 ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {serviceableResults.map(renderCard)}
+                </div>
+              ) : (
+                <p className="text-[#cbd5e1] bg-slate-800 rounded-lg p-4">
+                  No providers in this search cover your location yet.
+                </p>
+              )}
+
+              {/* Outside Service Area */}
+              {outsideAreaResults.length > 0 && (
+                <div className="mt-10">
+                  <div className="flex items-center space-x-2 mb-2">
+                    <MapPinOff className="h-5 w-5 text-yellow-400" />
+                    <h3 className="text-xl font-semibold text-white">Outside service area</h3>
+                  </div>
+                  <p className="text-sm text-[#cbd5e1] mb-6">
+                    These providers are within your search radius, but you are outside the area they usually cover. Message them to check before booking.
+                  </p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {outsideAreaResults.map(renderCard)}
+                  </div>
+                </div>
+              )}
+
+              {/* Infinite Scroll */}
+              {loadMoreSentinel}
+            </>
+          )}
 
           {/* Additional Info Footer */}
           {results.length > 0 && (
@@ -230,6 +394,18 @@ export default function SearchResults({
           )}
         </>
       )}
+
+      {/* Provider Profile Modal */}
+      {profileProvider && (
+        <ProviderModal
+          provider={profileProvider}
+          onClose={() => setProfileProvider(null)}
+          onStartChat={(providerId) => {
+            setProfileProvider(null);
+            onChatStart?.(providerId);
+          }}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
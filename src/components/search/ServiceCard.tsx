@@ -5,13 +5,18 @@ import ChatModal from '../chat/ChatModal';
 import ProviderModal from './ProviderModal';
 import RatingDisplay from '../rating/RatingDisplay';
 import ImagePreviewModal from '../common/ImagePreviewModal';
+import { getEffectiveStatus, getTodayAvailabilityStatus } from '../../lib/availability';
+import { parseSnippet } from '../../lib/search';
 
 interface ServiceCardProps {
   provider: ServiceProvider;
   onChatStart?: (providerId: string) => void; // Add callback for chat start
+  onViewProfile?: (provider: ServiceProvider) => void; // Parent shows the profile instead of the card
+  onHover?: (providerId: string | null) => void;
+  highlighted?: boolean; // Selected on the results map
 }
 
-export default function ServiceCard({ provider, onChatStart }: ServiceCardProps) {
+export default function ServiceCard({ provider, onChatStart, onViewProfile, onHover, highlighted }: ServiceCardProps) {
   const [showChat, setShowChat] = useState(false);
   const [showProfile, setShowProfile] = useState(false);
   const [showImagePreview, setShowImagePreview] = useState(false);
@@ -60,6 +65,14 @@ export default function ServiceCard({ provider, onChatStart }: ServiceCardProps)
     }
   };
 
+  const handleViewProfile = () => {
+    if (onViewProfile) {
+      onViewProfile(provider);
+    } else {
+      setShowProfile(true);
+    }
+  };
+
   const handleImageClick = (index: number) => {
     setSelectedImageIndex(index);
     setShowImagePreview(true);
@@ -67,28 +80,33 @@ export default function ServiceCard({ provider, onChatStart }: ServiceCardProps)
 
   // Helper function to get availability status
   const getAvailabilityStatus = () => {
-    if (!provider.availability || Object.keys(provider.availability).length === 0) {
+    const today = getTodayAvailabilityStatus(provider.availability, provider.availabilityExceptions, provider.timezone);
+    if (!today) {
       return { status: 'Not set', color: 'text-gray-400' };
     }
 
-    const today = new Date().toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
-    const todaySchedule = provider.availability[today as keyof typeof provider.availability];
-    
-    if (todaySchedule?.available) {
+    if (today.isOpenToday) {
       return { 
-        status: `Open today ${todaySchedule.start} - ${todaySchedule.end}`, 
+        status: `Open today ${today.hours}`, 
         color: 'text-green-400' 
       };
     } else {
-      return { status: 'Closed today', color: 'text-red-400' };
+      return { status: today.note ? `Closed today (${today.note})` : 'Closed today', color: 'text-red-400' };
     }
   };
 
   const availabilityStatus = getAvailabilityStatus();
+  const liveStatus = getEffectiveStatus(provider);
 
   return (
     <>
-      <div className="bg-slate-800 rounded-lg p-6 hover:bg-slate-700 transition-colors border border-slate-700">
+      <div
+        onMouseEnter={() => onHover?.(provider.id)}
+        onMouseLeave={() => onHover?.(null)}
+        className={`bg-slate-800 rounded-lg p-6 hover:bg-slate-700 transition-colors border ${
+          highlighted ? 'border-[#00c9a7] ring-2 ring-[#00c9a7]' : 'border-slate-700'
+        }`}
+      >
         {/* Header with Profile Image */}
         <div className="flex items-start justify-between mb-4">
           <div className="flex items-center space-x-3 flex-1">
@@ -127,15 +145,20 @@ export default function ServiceCard({ provider, onChatStart }: ServiceCardProps)
           {/* Status Badges */}
           <div className="flex flex-col items-end space-y-1">
             {/* Current Status */}
-            {provider.currentStatus && (
-              <div className={`px-2 py-1 rounded-full text-xs font-medium ${
-                provider.currentStatus === 'available' 
-                  ? 'bg-green-500 text-white' 
-                  : provider.currentStatus === 'busy'
-                  ? 'bg-yellow-500 text-white'
-                  : 'bg-gray-500 text-white'
-              }`}>
-                {provider.currentStatus}
+            <div className={`px-2 py-1 rounded-full text-xs font-medium ${
+              liveStatus.status === 'available' 
+                ? 'bg-green-500 text-white' 
+                : liveStatus.status === 'busy'
+                ? 'bg-yellow-500 text-white'
+                : 'bg-gray-500 text-white'
+            }`}>
+              {liveStatus.reason}
+            </div>
+            
+            {/* Service Area Badge */}
+            {provider.withinServiceArea === false && (
+              <div className="bg-yellow-600 text-white px-2 py-1 rounded-full text-xs font-medium">
+                Outside service area
               </div>
             )}
             
@@ -154,6 +177,11 @@ export default function ServiceCard({ provider, onChatStart }: ServiceCardProps)
             <span className="inline-block bg-[#3db2ff] text-white px-3 py-1 rounded-full text-sm font-medium">
               {provider.serviceType}
             </span>
+            {provider.serviceTypes?.filter(service => service !== provider.serviceType).map(service => (
+              <span key={service} className="inline-block border border-[#3db2ff] text-[#3db2ff] px-2 py-1 rounded-full text-xs">
+                {service}
+              </span>
+            ))}
             {provider.specialties && provider.specialties.length > 0 && (
               provider.specialties.slice(0, 2).map((specialty, index) => (
                 <span key={index} className="inline-block bg-slate-600 text-white px-2 py-1 rounded-full text-xs">
@@ -180,7 +208,15 @@ export default function ServiceCard({ provider, onChatStart }: ServiceCardProps)
 
         {/* Description */}
         <p className="text-[#cbd5e1] text-sm mb-4 line-clamp-3">
-          {provider.description}
+          {provider.searchSnippet
+            ? parseSnippet(provider.searchSnippet).map((part, index) =>
+                part.highlighted ? (
+                  <mark key={index} className="bg-[#3db2ff]/30 text-white rounded px-0.5">{part.text}</mark>
+                ) : (
+                  <React.Fragment key={index}>{part.text}</React.Fragment>
+                )
+              )
+            : provider.description}
         </p>
 
         {/* Availability Status */}
@@ -261,12 +297,15 @@ export default function ServiceCard({ provider, onChatStart }: ServiceCardProps)
           <MapPin className="h-4 w-4" />
           <span className="truncate">{provider.location.address}</span>
           <span>• {provider.workRadius}km radius</span>
+          {provider.distance !== undefined && (
+            <span className="text-[#3db2ff] whitespace-nowrap">• {provider.distance}km away</span>
+          )}
         </div>
 
         {/* Action Buttons */}
         <div className="grid grid-cols-3 gap-2">
           <button
-            onClick={() => setShowProfile(true)}
+            onClick={handleViewProfile}
             className="flex items-center justify-center space-x-1 bg-slate-700 hover:bg-slate-600 text-[#cbd5e1] hover:text-white px-3 py-2 rounded-md transition-colors text-sm"
           >
             <Eye className="h-4 w-4" />
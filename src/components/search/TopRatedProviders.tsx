@@ -4,6 +4,7 @@ import { Star, MapPin, User, Building, Crown, Award, Loader2, Globe, Clock } fro
 import RatingDisplay from '../rating/RatingDisplay';
 import ImagePreviewModal from '../common/ImagePreviewModal';
 import { supabase } from '../../lib/supabase';
+import { getEffectiveStatus, getTodayAvailabilityStatus } from '../../lib/availability';
 
 interface TopRatedProvidersProps {
   onProviderClick: (provider: ServiceProvider) => void;
@@ -78,6 +79,7 @@ export default function TopRatedProviders({ onProviderClick }: TopRatedProviders
               businessName: item.business_name || undefined,
               businessType: item.business_type || 'individual',
               serviceType: item.service_type,
+              serviceTypes: item.service_types || [],
               description: item.description,
               phone: item.phone || undefined,
               website: item.website || undefined,
@@ -97,6 +99,10 @@ export default function TopRatedProviders({ onProviderClick }: TopRatedProviders
               reviewCount: Number(item.review_count) || 0,
               totalRatingPoints: Number(item.total_rating_points) || 0,
               availability: item.availability || undefined,
+              availabilityExceptions: item.availability_exceptions || [],
+              timezone: item.timezone || undefined,
+              busyUntil: item.busy_until || undefined,
+              lastActiveAt: item.last_active_at || undefined,
               currentStatus: item.current_status || 'available',
             };
             
@@ -203,16 +209,14 @@ export default function TopRatedProviders({ onProviderClick }: TopRatedProviders
 
   // Helper function to get availability status
   const getAvailabilityStatus = (provider: ServiceProvider) => {
-    if (!provider.availability || Object.keys(provider.availability).length === 0) {
+    const today = getTodayAvailabilityStatus(provider.availability, provider.availabilityExceptions, provider.timezone);
+    if (!today) {
       return null;
     }
 
-    const today = new Date().toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
-    const todaySchedule = provider.availability[today as keyof typeof provider.availability];
-    
-    if (todaySchedule?.available) {
+    if (today.isOpenToday) {
       return { 
-        status: `Open ${todaySchedule.start}-${todaySchedule.end}`, 
+        status: `Open ${today.hours}`, 
         color: 'text-green-400' 
       };
     } else {
@@ -279,6 +283,7 @@ export default function TopRatedProviders({ onProviderClick }: TopRatedProviders
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {topProviders.map((provider, index) => {
           const availabilityStatus = getAvailabilityStatus(provider);
+          const liveStatus = getEffectiveStatus(provider);
           
           return (
             <div
@@ -397,18 +402,16 @@ export default function TopRatedProviders({ onProviderClick }: TopRatedProviders
                 )}
 
                 {/* Current Status */}
-                {provider.currentStatus && (
-                  <div className="flex items-center space-x-2">
-                    <div className={`w-2 h-2 rounded-full ${
-                      provider.currentStatus === 'available' 
-                        ? 'bg-green-400' 
-                        : provider.currentStatus === 'busy'
-                        ? 'bg-yellow-400'
-                        : 'bg-gray-400'
-                    }`}></div>
-                    <span className="text-sm text-[#cbd5e1] capitalize">{provider.currentStatus}</span>
-                  </div>
-                )}
+                <div className="flex items-center space-x-2">
+                  <div className={`w-2 h-2 rounded-full ${
+                    liveStatus.status === 'available' 
+                      ? 'bg-green-400' 
+                      : liveStatus.status === 'busy'
+                      ? 'bg-yellow-400'
+                      : 'bg-gray-400'
+                  }`}></div>
+                  <span className="text-sm text-[#cbd5e1]">{liveStatus.reason}</span>
+                </div>
               </div>
 
               {/* Location */}
@@ -1,7 +1,71 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { User, ServiceProvider, AuthContextType, RegisterData, ChatMessage, Rating } from '../types';
+import React, { createContext, useCallback, useContext, useState, useEffect, ReactNode } from 'react';
+import { User, ServiceProvider, AuthContextType, RegisterData, ChatMessage, Rating, RatingAspects, Booking, BookingStatus, PrivacySettings, ConversationState, MessageEdit } from '../types';
 import { supabase, isSupabaseConfigured, testSupabaseConnection, clearAuthData } from '../lib/supabase';
+import { getBrowserTimeZone } from '../lib/availability';
+import { removeAttachment, uploadAttachment } from '../lib/attachments';
+import { mapChatMessage, MESSAGES_PAGE_SIZE } from '../lib/messaging';
+import { mapRatingAspects, toRatingAspectColumns } from '../lib/ratings';
+import { MAX_REVIEW_PHOTOS, removeReviewPhotos, uploadReviewPhoto } from '../lib/reviewPhotos';
 import type { User as SupabaseUser } from '@supabase/supabase-js';
+import type { Database } from '../types/database';
+
+type MessageEditRow = Database['public']['Tables']['chat_message_edits']['Row'];
+
+type RatingRow = Database['public']['Tables']['ratings']['Row'] & {
+  profiles: { name: string } | null;
+  rating_replies: Pick<Database['public']['Tables']['rating_replies']['Row'], 'content' | 'created_at' | 'updated_at'> | null;
+};
+
+const mapRating = (row: RatingRow): Rating => ({
+  id: row.id,
+  userId: row.user_id,
+  providerId: row.provider_id,
+  rating: row.rating,
+  review: row.review || undefined,
+  timestamp: new Date(row.created_at),
+  userName: row.profiles?.name || 'Anonymous',
+  verification: row.verification || undefined,
+  aspects: mapRatingAspects(row),
+  photos: row.photos || [],
+  reply: row.rating_replies
+    ? {
+        content: row.rating_replies.content,
+        createdAt: new Date(row.rating_replies.created_at),
+        updatedAt: new Date(row.rating_replies.updated_at),
+      }
+    : undefined,
+  hidden: !!row.hidden_at,
+});
+
+type BookingRow = Database['public']['Tables']['bookings']['Row'] & {
+  customer: { name: string } | null;
+  provider: { business_name: string | null; profiles: { name: string } | null } | null;
+};
+
+// Keep last_active_at fresh for the inactivity timeout and default the
+// schedule timezone to the provider's browser timezone
+const recordProviderActivity = async (providerId: string, timezone?: string | null) => {
+  try {
+    const updates: { last_active_at: string; timezone?: string } = {
+      last_active_at: new Date().toISOString(),
+    };
+    const browserTimeZone = getBrowserTimeZone();
+    if (!timezone && browserTimeZone) {
+      updates.timezone = browserTimeZone;
+    }
+
+    const { error } = await supabase
+      .from('service_providers')
+      .update(updates)
+      .eq('id', providerId);
+
+    if (error) {
+      console.warn('⚠️ Failed to record provider activity:', error);
+    }
+  } catch (error) {
+    console.warn('⚠️ Failed to record provider activity:', error);
+  }
+};
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
@@ -200,9 +264,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           role: profileData.role,
           createdAt: new Date(profileData.created_at),
           profileImage: profileData.profile_image || '',
+          showOnlineStatus: profileData.show_online_status ?? true,
+          showLastSeen: profileData.show_last_seen ?? true,
           businessName: providerData?.business_name || undefined,
           businessType: providerData?.business_type || 'individual',
           serviceType: providerData?.service_type || '',
+          serviceTypes: providerData?.service_types || [],
           description: providerData?.description || '',
           phone: providerData?.phone || undefined,
           website: providerData?.website || undefined,
@@ -222,6 +289,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           reviewCount: providerData?.review_count || 0,
           totalRatingPoints: providerData?.total_rating_points || 0,
           availability: providerData?.availability || undefined,
+          availabilityExceptions: providerData?.availability_exceptions || [],
+          timezone: providerData?.timezone || undefined,
+          busyUntil: providerData?.busy_until || undefined,
+          lastActiveAt: providerData?.last_active_at || undefined,
           currentStatus: providerData?.current_status || 'available',
         };
 
@@ -232,6 +303,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         }
         
         setUser(serviceProvider);
+
+        if (providerData) {
+          recordProviderActivity(userId, providerData.timezone);
+        }
       } else {
         const regularUser: User = {
           id: profileData.id,
@@ -240,6 +315,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           role: profileData.role,
           createdAt: new Date(profileData.created_at),
           profileImage: profileData.profile_image || '',
+          showOnlineStatus: profileData.show_online_status ?? true,
+          showLastSeen: profileData.show_last_seen ?? true,
         };
 
         console.log('✅ User profile loaded:', regularUser.name);
@@ -516,6 +593,39 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const updatePrivacySettings = async (settings: PrivacySettings): Promise<boolean> => {
+    if (!user) {
+      console.error('❌ Update failed: User not authenticated');
+      return false;
+    }
+
+    try {
+      if (!isSupabaseConfigured() || !supabase) {
+        console.error('❌ Supabase not configured');
+        return false;
+      }
+
+      const { error } = await supabase
+        .from('profiles')
+        .update({
+          show_online_status: settings.showOnlineStatus,
+          show_last_seen: settings.showLastSeen,
+        })
+        .eq('id', user.id);
+
+      if (error) {
+        console.error('❌ Privacy settings update error:', error);
+        return false;
+      }
+
+      setUser(prev => prev ? { ...prev, ...settings } : prev);
+      return true;
+    } catch (error) {
+      console.error('❌ Privacy settings update error:', error);
+      return false;
+    }
+  };
+
   const updateProfile = async (data: Partial<ServiceProvider>): Promise<boolean> => {
     if (!user || user.role !== 'provider') {
       console.error('❌ Update failed: User not authenticated or not a provider');
@@ -542,6 +652,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       if (data.businessName !== undefined) providerUpdates.business_name = data.businessName;
       if (data.businessType !== undefined) providerUpdates.business_type = data.businessType;
       if (data.serviceType !== undefined) providerUpdates.service_type = data.serviceType;
+      if (data.serviceTypes !== undefined) providerUpdates.service_types = data.serviceTypes;
       if (data.description !== undefined) providerUpdates.description = data.description;
       if (data.phone !== undefined) providerUpdates.phone = data.phone;
       if (data.website !== undefined) {
@@ -574,10 +685,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         console.log('💾 Updating availability:', data.availability);
         providerUpdates.availability = data.availability;
       }
+      if (data.availabilityExceptions !== undefined) {
+        console.log('💾 Updating availability exceptions:', data.availabilityExceptions);
+        providerUpdates.availability_exceptions = data.availabilityExceptions;
+      }
       if (data.currentStatus !== undefined) {
         console.log('💾 Updating current status:', data.currentStatus);
         providerUpdates.current_status = data.currentStatus;
       }
+      if (data.timezone !== undefined) providerUpdates.timezone = data.timezone;
+      if (data.busyUntil !== undefined) {
+        console.log('💾 Updating busy until:', data.busyUntil);
+        providerUpdates.busy_until = data.busyUntil;
+      }
       
       // Update profiles table if there are profile updates
       if (Object.keys(profileUpdates).length > 0) {
@@ -629,7 +749,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const getPublishedProviders = (): ServiceProvider[] => [];
   const getTopRatedProviders = (): ServiceProvider[] => [];
 
-  const sendMessage = async (receiverId: string, content: string): Promise<void> => {
+  const sendMessage = async (receiverId: string, content: string, replyToId?: string): Promise<void> => {
     if (!user) throw new Error('User not authenticated');
     if (!isSupabaseConfigured() || !supabase) throw new Error('Database not configured');
 
@@ -639,6 +759,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         sender_id: user.id,
         receiver_id: receiverId,
         content: content.trim(),
+        reply_to_id: replyToId || null,
       });
 
     if (error) {
@@ -647,14 +768,49 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const getConversation = async (userId1: string, userId2: string): Promise<ChatMessage[]> => {
+  // Upload the file to the conversation's storage folder, then send it as a message
+  const sendAttachment = async (receiverId: string, file: File): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+    if (!isSupabaseConfigured() || !supabase) throw new Error('Database not configured');
+
+    const path = await uploadAttachment(user.id, receiverId, file);
+
+    const { error } = await supabase
+      .from('chat_messages')
+      .insert({
+        sender_id: user.id,
+        receiver_id: receiverId,
+        content: file.name,
+        message_type: file.type.startsWith('image/') ? 'image' : 'file',
+        file_url: path,
+        file_name: file.name,
+        file_size: file.size,
+      });
+
+    if (error) {
+      console.error('Error sending attachment:', error);
+      await removeAttachment(path);
+      throw new Error(`Failed to send file: ${error.message}`);
+    }
+  };
+
+  // Newest page first; pass the oldest loaded message as `before` to page back
+  const getConversation = async (
+    userId1: string,
+    userId2: string,
+    before?: ChatMessage,
+    limit: number = MESSAGES_PAGE_SIZE
+  ): Promise<ChatMessage[]> => {
     try {
       if (!isSupabaseConfigured() || !supabase || !user) return [];
 
       // Use the enhanced database function for proper message filtering
       const { data, error } = await supabase.rpc('get_conversation_messages', {
         user1_id: userId1,
-        user2_id: userId2
+        user2_id: userId2,
+        before_created_at: before ? before.timestamp.toISOString() : null,
+        before_id: before ? before.id : null,
+        page_size: limit,
       });
 
       if (error) {
@@ -662,18 +818,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         return [];
       }
 
-      return data.map((msg: any) => ({
-        id: msg.id,
-        senderId: msg.sender_id,
-        receiverId: msg.receiver_id,
-        content: msg.content,
-        timestamp: new Date(msg.created_at),
-        read: msg.read,
-        messageType: msg.message_type || 'text',
-        fileUrl: msg.file_url,
-        fileName: msg.file_name,
-        fileSize: msg.file_size,
-      }));
+      return data.map(mapChatMessage);
     } catch (error) {
       console.error('Error fetching conversation:', error);
       return [];
@@ -744,6 +889,32 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const updateConversationState = async (otherUserId: string, state: Partial<ConversationState>): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      if (!isSupabaseConfigured() || !supabase) return false;
+
+      const { error } = await supabase.rpc('update_conversation_state', {
+        other_user: otherUserId,
+        new_starred: state.starred ?? null,
+        new_archived: state.archived ?? null,
+        new_muted: state.muted ?? null,
+        new_pinned: state.pinned ?? null,
+      });
+
+      if (error) {
+        console.error('Error updating conversation:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error updating conversation:', error);
+      return false;
+    }
+  };
+
   const deleteMessage = async (messageId: string, deleteType: 'delete-for-me' | 'delete-for-all'): Promise<boolean> => {
     if (!user) return false;
     
@@ -755,7 +926,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       // Get the message first to check ownership
       const { data: message, error: fetchError } = await supabase
         .from('chat_messages')
-        .select('sender_id, receiver_id')
+        .select('sender_id, receiver_id, file_url')
         .eq('id', messageId)
         .single();
 
@@ -781,6 +952,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           console.error('Error deleting message for all:', error);
           return false;
         }
+
+        if (message.file_url) {
+          await removeAttachment(message.file_url);
+        }
       } else {
         // Delete for current user only
         const updateField = message.sender_id === user.id ? 'deleted_for_sender' : 'deleted_for_receiver';
@@ -804,6 +979,51 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const editMessage = async (messageId: string, content: string): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+    if (!isSupabaseConfigured() || !supabase) throw new Error('Database not configured');
+
+    // The edit trigger checks the sender and the edit window and records the history
+    const { error } = await supabase
+      .from('chat_messages')
+      .update({ content: content.trim() })
+      .eq('id', messageId)
+      .eq('sender_id', user.id);
+
+    if (error) {
+      console.error('Error editing message:', error);
+      throw new Error(`Failed to edit message: ${error.message}`);
+    }
+  };
+
+  // Stable so the history modal only refetches when the message changes
+  const getMessageEditHistory = useCallback(async (messageId: string): Promise<MessageEdit[]> => {
+    try {
+      if (!isSupabaseConfigured() || !supabase) return [];
+
+      const { data, error } = await supabase
+        .from('chat_message_edits')
+        .select('id, message_id, previous_content, edited_at')
+        .eq('message_id', messageId)
+        .order('edited_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching message edit history:', error);
+        return [];
+      }
+
+      return (data || []).map((edit: Omit<MessageEditRow, 'edited_by'>) => ({
+        id: edit.id,
+        messageId: edit.message_id,
+        previousContent: edit.previous_content,
+        editedAt: new Date(edit.edited_at),
+      }));
+    } catch (error) {
+      console.error('Error fetching message edit history:', error);
+      return [];
+    }
+  }, []);
+
   const getUserById = async (id: string): Promise<User | ServiceProvider | undefined> => {
     try {
       if (!isSupabaseConfigured() || !supabase) return undefined;
@@ -834,6 +1054,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             businessName: providerData.business_name || undefined,
             businessType: providerData.business_type,
             serviceType: providerData.service_type,
+            serviceTypes: providerData.service_types || [],
             description: providerData.description,
             phone: providerData.phone || undefined,
             website: providerData.website || undefined,
@@ -853,6 +1074,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             reviewCount: providerData.review_count,
             totalRatingPoints: providerData.total_rating_points,
             availability: providerData.availability,
+            availabilityExceptions: providerData.availability_exceptions || [],
+            timezone: providerData.timezone || undefined,
+            busyUntil: providerData.busy_until || undefined,
+            lastActiveAt: providerData.last_active_at || undefined,
             currentStatus: providerData.current_status,
           } as ServiceProvider;
         }
@@ -872,7 +1097,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const rateProvider = async (providerId: string, rating: number, review?: string): Promise<boolean> => {
+  // Photos are existing storage paths to keep and new files to upload, in display order;
+  // leave them out to keep the review's photos as they are
+  const rateProvider = async (
+    providerId: string,
+    rating: number,
+    review?: string,
+    aspects?: RatingAspects,
+    photos?: (string | File)[]
+  ): Promise<boolean> => {
     if (!user || user.role !== 'user') {
       console.error('❌ Rating failed: User not logged in or not a user');
       return false;
@@ -882,14 +1115,39 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       return false;
     }
 
+    const uploadedPhotos: string[] = [];
+
     try {
-      console.log('⭐ Submitting rating:', { providerId, rating, review, userId: user.id });
+      console.log('⭐ Submitting rating:', { providerId, rating, review, aspects, userId: user.id });
 
       if (!isSupabaseConfigured() || !supabase) {
         console.error('❌ Supabase not configured');
         return false;
       }
       
+      let photoPaths: string[] | undefined;
+      let previousPhotos: string[] = [];
+      if (photos) {
+        const { data: existing } = await supabase
+          .from('ratings')
+          .select('photos')
+          .eq('user_id', user.id)
+          .eq('provider_id', providerId)
+          .maybeSingle();
+        previousPhotos = existing?.photos || [];
+
+        photoPaths = [];
+        for (const photo of photos.slice(0, MAX_REVIEW_PHOTOS)) {
+          if (typeof photo === 'string') {
+            photoPaths.push(photo);
+          } else {
+            const path = await uploadReviewPhoto(user.id, providerId, photo);
+            uploadedPhotos.push(path);
+            photoPaths.push(path);
+          }
+        }
+      }
+
       // Use upsert to handle both insert and update cases
       const { data, error } = await supabase
         .from('ratings')
@@ -898,6 +1156,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           provider_id: providerId,
           rating,
           review: review?.trim() || null,
+          ...toRatingAspectColumns(aspects),
+          ...(photoPaths ? { photos: photoPaths } : {}),
           updated_at: new Date().toISOString()
         }, {
           onConflict: 'user_id,provider_id'
@@ -906,13 +1166,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
       if (error) {
         console.error('❌ Error rating provider:', error);
+        await removeReviewPhotos(uploadedPhotos);
         return false;
       }
 
+      // Photos taken off the review are no longer referenced anywhere
+      if (photoPaths) {
+        await removeReviewPhotos(previousPhotos.filter(path => !photoPaths!.includes(path)));
+      }
+
       console.log('✅ Rating saved successfully:', data);
       return true;
     } catch (error) {
       console.error('❌ Error rating provider:', error);
+      await removeReviewPhotos(uploadedPhotos);
       return false;
     }
   };
@@ -927,7 +1194,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         .from('ratings')
         .select(`
           *,
-          profiles!ratings_user_id_fkey(name)
+          profiles!ratings_user_id_fkey(name),
+          rating_replies(content, created_at, updated_at)
         `)
         .eq('provider_id', providerId)
         .order('created_at', { ascending: false });
@@ -939,15 +1207,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
       console.log('📊 Found ratings:', data?.length || 0);
 
-      return data.map(rating => ({
-        id: rating.id,
-        userId: rating.user_id,
-        providerId: rating.provider_id,
-        rating: rating.rating,
-        review: rating.review,
-        timestamp: new Date(rating.created_at),
-        userName: (rating.profiles as any)?.name || 'Anonymous',
-      }));
+      return (data as RatingRow[]).map(mapRating);
     } catch (error) {
       console.error('Error fetching ratings:', error);
       return [];
@@ -964,7 +1224,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         .from('ratings')
         .select(`
           *,
-          profiles!ratings_user_id_fkey(name)
+          profiles!ratings_user_id_fkey(name),
+          rating_replies(content, created_at, updated_at)
         `)
         .eq('user_id', userId)
         .eq('provider_id', providerId)
@@ -977,21 +1238,33 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
       console.log('📊 Found existing rating:', data.rating);
 
-      return {
-        id: data.id,
-        userId: data.user_id,
-        providerId: data.provider_id,
-        rating: data.rating,
-        review: data.review,
-        timestamp: new Date(data.created_at),
-        userName: (data.profiles as any)?.name || 'Anonymous',
-      };
+      return mapRating(data as RatingRow);
     } catch (error) {
       console.error('Error fetching user rating:', error);
       return undefined;
     }
   };
 
+  // Only verified customers can review; the ratings policies enforce the same rule.
+  // Stable per user so the rating modal only checks once per provider
+  const canRateProvider = useCallback(async (providerId: string): Promise<boolean> => {
+    if (!user || user.role !== 'user') return false;
+
+    try {
+      if (!isSupabaseConfigured() || !supabase) return false;
+
+      const { data, error } = await supabase.rpc('can_rate_provider', { provider: providerId });
+      if (error) {
+        console.error('Error checking review eligibility:', error);
+        return false;
+      }
+      return data === true;
+    } catch (error) {
+      console.error('Error checking review eligibility:', error);
+      return false;
+    }
+  }, [user]);
+
   const deleteRating = async (ratingId: string): Promise<boolean> => {
     if (!user) {
       console.error('❌ Delete rating failed: User not authenticated');
@@ -1009,7 +1282,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       // First get the rating to check ownership and get provider ID
       const { data: ratingData, error: fetchError } = await supabase
         .from('ratings')
-        .select('user_id, provider_id')
+        .select('user_id, provider_id, photos')
         .eq('id', ratingId)
         .single();
 
@@ -1038,6 +1311,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
       console.log('✅ Rating deleted successfully');
 
+      await removeReviewPhotos(ratingData.photos || []);
+
       // The trigger will automatically update the provider's rating statistics
       return true;
     } catch (error) {
@@ -1046,6 +1321,188 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Post or edit the provider's public reply; the policies only allow the reviewed provider
+  const replyToRating = async (ratingId: string, content: string): Promise<boolean> => {
+    if (!user || user.role !== 'provider') {
+      console.error('❌ Reply failed: Only the reviewed provider can reply');
+      return false;
+    }
+    if (!content.trim()) return false;
+
+    try {
+      if (!isSupabaseConfigured() || !supabase) return false;
+
+      const { error } = await supabase
+        .from('rating_replies')
+        .upsert({
+          rating_id: ratingId,
+          provider_id: user.id,
+          content: content.trim(),
+        }, {
+          onConflict: 'rating_id'
+        });
+
+      if (error) {
+        console.error('❌ Error replying to rating:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('❌ Error replying to rating:', error);
+      return false;
+    }
+  };
+
+  const deleteRatingReply = async (ratingId: string): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      if (!isSupabaseConfigured() || !supabase) return false;
+
+      const { error } = await supabase
+        .from('rating_replies')
+        .delete()
+        .eq('rating_id', ratingId)
+        .eq('provider_id', user.id);
+
+      if (error) {
+        console.error('❌ Error deleting reply:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('❌ Error deleting reply:', error);
+      return false;
+    }
+  };
+
+  const createBooking = async (
+    providerId: string,
+    bookingDate: string,
+    startTime: string,
+    endTime: string,
+    notes?: string
+  ): Promise<void> => {
+    if (!user || user.role !== 'user') throw new Error('Only customers can request bookings');
+    if (!isSupabaseConfigured() || !supabase) throw new Error('Database not configured');
+
+    console.log('📅 Requesting booking:', { providerId, bookingDate, startTime, endTime });
+
+    const { error } = await supabase
+      .from('bookings')
+      .insert({
+        user_id: user.id,
+        provider_id: providerId,
+        booking_date: bookingDate,
+        start_time: startTime,
+        end_time: endTime,
+        notes: notes?.trim() || null,
+      });
+
+    if (error) {
+      console.error('❌ Error requesting booking:', error);
+      throw new Error(`Failed to request booking: ${error.message}`);
+    }
+
+    console.log('✅ Booking requested successfully');
+  };
+
+  // Stable per user so the bookings list only reloads when the user changes
+  const getBookings = useCallback(async (): Promise<Booking[]> => {
+    try {
+      if (!isSupabaseConfigured() || !supabase || !user) return [];
+
+      const { data, error } = await supabase
+        .from('bookings')
+        .select(`
+          *,
+          customer:profiles!bookings_user_id_fkey(name),
+          provider:service_providers!bookings_provider_id_fkey(business_name, profiles!service_providers_id_fkey(name))
+        `)
+        .or(`user_id.eq.${user.id},provider_id.eq.${user.id}`)
+        .order('booking_date', { ascending: true })
+        .order('start_time', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching bookings:', error);
+        return [];
+      }
+
+      return (data as BookingRow[]).map(booking => ({
+        id: booking.id,
+        userId: booking.user_id,
+        providerId: booking.provider_id,
+        bookingDate: booking.booking_date,
+        startTime: booking.start_time,
+        endTime: booking.end_time,
+        status: booking.status,
+        notes: booking.notes || undefined,
+        createdAt: new Date(booking.created_at),
+        updatedAt: new Date(booking.updated_at),
+        userName: booking.customer?.name || 'Customer',
+        providerName: booking.provider?.business_name || booking.provider?.profiles?.name || 'Service Provider',
+      }));
+    } catch (error) {
+      console.error('Error fetching bookings:', error);
+      return [];
+    }
+  }, [user]);
+
+  const updateBookingStatus = async (bookingId: string, status: BookingStatus): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      if (!isSupabaseConfigured() || !supabase) return false;
+
+      console.log('📅 Updating booking status:', bookingId, status);
+
+      const { error } = await supabase
+        .from('bookings')
+        .update({ status })
+        .eq('id', bookingId);
+
+      if (error) {
+        console.error('❌ Error updating booking status:', error);
+        return false;
+      }
+
+      console.log('✅ Booking status updated');
+      return true;
+    } catch (error) {
+      console.error('❌ Error updating booking status:', error);
+      return false;
+    }
+  };
+
+  const rescheduleBooking = async (
+    bookingId: string,
+    bookingDate: string,
+    startTime: string,
+    endTime: string
+  ): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+    if (!isSupabaseConfigured() || !supabase) throw new Error('Database not configured');
+
+    console.log('📅 Rescheduling booking:', { bookingId, bookingDate, startTime, endTime });
+
+    // The trigger moves the booking back to 'requested' so it is confirmed again
+    const { error } = await supabase
+      .from('bookings')
+      .update({
+        booking_date: bookingDate,
+        start_time: startTime,
+        end_time: endTime,
+      })
+      .eq('id', bookingId);
+
+    if (error) {
+      console.error('❌ Error rescheduling booking:', error);
+      throw new Error(`Failed to reschedule booking: ${error.message}`);
+    }
+
+    console.log('✅ Booking rescheduled successfully');
+  };
+
   return (
     <AuthContext.Provider value={{ 
       user, 
@@ -1056,19 +1513,31 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       resetPassword,
       changePassword,
       updateUserProfile,
+      updatePrivacySettings,
       updateProfile,
       getPublishedProviders,
       getTopRatedProviders,
       sendMessage,
+      sendAttachment,
       getConversation,
       markMessagesAsRead,
       deleteConversation,
+      updateConversationState,
       deleteMessage,
+      editMessage,
+      getMessageEditHistory,
       getUserById,
       rateProvider,
       getProviderRatings,
       getUserRating,
+      canRateProvider,
       deleteRating,
+      replyToRating,
+      deleteRatingReply,
+      createBooking,
+      getBookings,
+      updateBookingStatus,
+      rescheduleBooking,
     }}>
       {children}
     </AuthContext.Provider>
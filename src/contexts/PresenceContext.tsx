@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useRef, useState, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { PresenceContext } from './usePresence';
+import { LAST_SEEN_INTERVAL, LastSeen, fetchLastSeen, touchLastSeen } from '../lib/presence';
+
+export function PresenceProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [lastSeen, setLastSeen] = useState<Record<string, LastSeen>>({});
+  // Everyone loaded so far, polled again so online status stays current
+  const trackedIdsRef = useRef(new Set<string>());
+  const userId = user?.id;
+
+  const loadLastSeen = useCallback(async (userIds: string[]) => {
+    const ids = Array.from(new Set(userIds));
+    if (ids.length === 0) return;
+    ids.forEach(id => trackedIdsRef.current.add(id));
+
+    const result = await fetchLastSeen(ids);
+    setLastSeen(prev => {
+      const next = { ...prev };
+      // Users missing from the result hide both (or have no last seen yet)
+      for (const id of ids) {
+        if (result[id]) {
+          next[id] = result[id];
+        } else {
+          delete next[id];
+        }
+      }
+      return next;
+    });
+  }, []);
+
+  // Record activity while the app is open and when the tab is hidden or shown again
+  useEffect(() => {
+    if (!userId) {
+      trackedIdsRef.current.clear();
+      setLastSeen({});
+      return;
+    }
+
+    touchLastSeen();
+    const timer = setInterval(() => {
+      if (document.visibilityState === 'visible') {
+        touchLastSeen();
+        loadLastSeen(Array.from(trackedIdsRef.current));
+      }
+    }, LAST_SEEN_INTERVAL);
+    const handleVisibilityChange = () => touchLastSeen();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [userId, loadLastSeen]);
+
+  const getLastSeen = useCallback((id: string) => lastSeen[id]?.lastSeenAt ?? undefined, [lastSeen]);
+  const isOnline = useCallback((id: string) => !!lastSeen[id]?.online, [lastSeen]);
+
+  return (
+    <PresenceContext.Provider value={{ getLastSeen, isOnline, loadLastSeen }}>
+      {children}
+    </PresenceContext.Provider>
+  );
+}
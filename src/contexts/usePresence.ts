@@ -0,0 +1,61 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { useAuth } from './AuthContext';
+import { ConversationPresence, TypingChannel, subscribeToConversationPresence } from '../lib/presence';
+
+interface PresenceContextType {
+  getLastSeen: (userId: string) => Date | undefined;
+  // Active in the app in the last couple of minutes, for the conversation list
+  isOnline: (userId: string) => boolean;
+  // Fetch last seen times for the given users, e.g. everyone in the conversation list
+  loadLastSeen: (userIds: string[]) => Promise<void>;
+}
+
+export const PresenceContext = createContext<PresenceContextType | undefined>(undefined);
+
+export function usePresence() {
+  const context = useContext(PresenceContext);
+  if (context === undefined) {
+    throw new Error('usePresence must be used within a PresenceProvider');
+  }
+  return context;
+}
+
+const OFFLINE: ConversationPresence = { online: false, typing: false };
+
+// Presence of the other user in one conversation: whether they are online and
+// typing, and a typing setter for the message input
+export function useConversationPresence(otherUserId: string | null | undefined) {
+  const { user } = useAuth();
+  const { loadLastSeen } = usePresence();
+  const [otherUser, setOtherUser] = useState<ConversationPresence>(OFFLINE);
+  const channelRef = useRef<TypingChannel | null>(null);
+  const userId = user?.id;
+  const shareOnlineStatus = user?.showOnlineStatus !== false;
+
+  useEffect(() => {
+    setOtherUser(OFFLINE);
+    if (!userId || !otherUserId) return;
+
+    let wasOnline = false;
+    const channel = subscribeToConversationPresence(userId, otherUserId, shareOnlineStatus, presence => {
+      // Someone who just went offline has a fresh last seen time
+      if (wasOnline && !presence.online) {
+        loadLastSeen([otherUserId]);
+      }
+      wasOnline = presence.online;
+      setOtherUser(presence);
+    });
+    channelRef.current = channel;
+
+    return () => {
+      channel.unsubscribe();
+      channelRef.current = null;
+    };
+  }, [userId, otherUserId, shareOnlineStatus, loadLastSeen]);
+
+  const setTyping = useCallback((typing: boolean) => {
+    channelRef.current?.setTyping(typing);
+  }, []);
+
+  return { otherUserOnline: otherUser.online, otherUserTyping: otherUser.typing, setTyping };
+}
@@ -0,0 +1,91 @@
+import { supabase } from './supabase';
+
+export const ATTACHMENT_BUCKET = 'chat-attachments';
+
+// Same limits as the chat-attachments bucket, checked here for quicker feedback
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10MB
+
+export const ALLOWED_ATTACHMENT_TYPES = [
+  'image/jpeg', 'image/png', 'image/gif', 'image/webp',
+  'application/pdf', 'text/plain',
+  'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+];
+
+// Signed URLs are reused until shortly before they expire
+const SIGNED_URL_TTL = 60 * 60; // seconds
+const signedUrlCache = new Map<string, { url: string; expiresAt: number }>();
+
+// Returns an error message, or null when the file can be sent
+export const validateAttachment = (file: File): string | null => {
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return 'File size must be less than 10MB';
+  }
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+    return 'File type not supported. Please upload images, PDFs, or documents.';
+  }
+  return null;
+};
+
+// Folder of a conversation; matches chat_attachment_folder in the database
+export const getConversationFolder = (userId1: string, userId2: string): string => {
+  const [first, second] = [userId1, userId2].sort();
+  return `${first}/${second}/`;
+};
+
+export const uploadAttachment = async (senderId: string, receiverId: string, file: File): Promise<string> => {
+  const validationError = validateAttachment(file);
+  if (validationError) throw new Error(validationError);
+
+  // Keep the original name for display but store under a unique, URL-safe key
+  const extension = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : '';
+  const key = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}${extension ? `.${extension}` : ''}`;
+  const path = `${getConversationFolder(senderId, receiverId)}${key}`;
+
+  const { error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false });
+
+  if (error) {
+    console.error('Error uploading attachment:', error);
+    throw new Error(`Failed to upload file: ${error.message}`);
+  }
+
+  return path;
+};
+
+export const removeAttachment = async (path: string): Promise<void> => {
+  signedUrlCache.delete(path);
+  signedUrlCache.delete(`${path}|download`);
+
+  const { error } = await supabase.storage.from(ATTACHMENT_BUCKET).remove([path]);
+  if (error) {
+    console.error('Error removing attachment:', error);
+  }
+};
+
+// Signed URL for viewing an attachment, or for downloading it under its original name
+export const getAttachmentUrl = async (path: string, downloadName?: string): Promise<string | null> => {
+  const cacheKey = downloadName ? `${path}|download` : path;
+  const cached = signedUrlCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now() + 60 * 1000) {
+    return cached.url;
+  }
+
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_TTL, downloadName ? { download: downloadName } : undefined);
+
+  if (error || !data) {
+    console.error('Error creating attachment URL:', error);
+    return null;
+  }
+
+  signedUrlCache.set(cacheKey, { url: data.signedUrl, expiresAt: Date.now() + SIGNED_URL_TTL * 1000 });
+  return data.signedUrl;
+};
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+};
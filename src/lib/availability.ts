@@ -0,0 +1,273 @@
+import { AvailabilityException, DayAvailability, ProviderStatus, ServiceProvider, TimeRange, WeekDay, WeeklyAvailability } from '../types';
+
+export const WEEK_DAYS: { key: WeekDay; label: string }[] = [
+  { key: 'monday', label: 'Monday' },
+  { key: 'tuesday', label: 'Tuesday' },
+  { key: 'wednesday', label: 'Wednesday' },
+  { key: 'thursday', label: 'Thursday' },
+  { key: 'friday', label: 'Friday' },
+  { key: 'saturday', label: 'Saturday' },
+  { key: 'sunday', label: 'Sunday' },
+];
+
+// Same HH:MM rule as the validate_availability SQL function
+const TIME_REGEX = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+export const isValidTime = (time: string): boolean => TIME_REGEX.test(time);
+
+// Convert HH:MM to minutes since midnight
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Convert minutes since midnight to HH:MM
+export const minutesToTime = (totalMinutes: number): string => {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+};
+
+// Parse a YYYY-MM-DD string as a local date (Date.parse would treat it as UTC)
+export const parseDateKey = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Format a date as YYYY-MM-DD in local time
+export const toDateKey = (date: Date): string => {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Get the schedule key for a date (JavaScript weeks start on Sunday)
+export const getWeekDay = (date: Date): WeekDay => {
+  return WEEK_DAYS[(date.getDay() + 6) % 7].key;
+};
+
+export const hasAvailability = (availability?: WeeklyAvailability): availability is WeeklyAvailability => {
+  return !!availability && WEEK_DAYS.every(({ key }) => !!availability[key]);
+};
+
+// Older schedules only have a single start/end per day
+export const getDayRanges = (day: DayAvailability): TimeRange[] => {
+  return day.ranges && day.ranges.length > 0 ? day.ranges : [{ start: day.start, end: day.end }];
+};
+
+// Store ranges on a day, keeping start/end as the outer bounds for older readers
+export const withDayRanges = (day: DayAvailability, ranges: TimeRange[]): DayAvailability => {
+  const updated: DayAvailability = { ...day };
+  delete updated.ranges;
+  if (ranges.length === 0) return updated;
+
+  return {
+    ...updated,
+    start: ranges[0].start,
+    end: ranges[ranges.length - 1].end,
+    ...(ranges.length > 1 ? { ranges } : {}),
+  };
+};
+
+export const formatRanges = (ranges: TimeRange[]): string => {
+  return ranges.map(range => `${range.start} - ${range.end}`).join(', ');
+};
+
+// Check a list of ranges for format, order and overlaps
+export const validateRanges = (ranges: TimeRange[]): string | null => {
+  for (let i = 0; i < ranges.length; i++) {
+    const range = ranges[i];
+    if (!isValidTime(range.start) || !isValidTime(range.end)) {
+      return 'Please use HH:MM format';
+    }
+    if (timeToMinutes(range.end) <= timeToMinutes(range.start)) {
+      return 'End time must be after start time';
+    }
+    if (i > 0 && timeToMinutes(range.start) < timeToMinutes(ranges[i - 1].end)) {
+      return 'Time ranges must be in order and must not overlap';
+    }
+  }
+  return null;
+};
+
+export const findException = (
+  exceptions: AvailabilityException[] | undefined,
+  dateKey: string
+): AvailabilityException | undefined => {
+  return exceptions?.find(exception => exception.date === dateKey);
+};
+
+// Working hours for a specific date; dated exceptions win over the weekly template
+export const getRangesForDate = (
+  availability: WeeklyAvailability | undefined,
+  exceptions: AvailabilityException[] | undefined,
+  dateKey: string
+): TimeRange[] => {
+  const exception = findException(exceptions, dateKey);
+  if (exception) {
+    return exception.available ? exception.ranges : [];
+  }
+
+  if (!hasAvailability(availability)) return [];
+
+  const daySchedule = availability[getWeekDay(parseDateKey(dateKey))];
+  return daySchedule.available ? getDayRanges(daySchedule) : [];
+};
+
+export const slotsOverlap = (a: TimeRange, b: TimeRange): boolean => {
+  return timeToMinutes(a.start) < timeToMinutes(b.end) && timeToMinutes(a.end) > timeToMinutes(b.start);
+};
+
+// Check that a slot falls entirely inside one of the working ranges for that date
+export const isSlotWithinAvailability = (
+  availability: WeeklyAvailability | undefined,
+  exceptions: AvailabilityException[] | undefined,
+  dateKey: string,
+  slot: TimeRange
+): boolean => {
+  if (!isValidTime(slot.start) || !isValidTime(slot.end)) return false;
+
+  const start = timeToMinutes(slot.start);
+  const end = timeToMinutes(slot.end);
+  if (end <= start) return false;
+
+  return getRangesForDate(availability, exceptions, dateKey).some(range =>
+    start >= timeToMinutes(range.start) && end <= timeToMinutes(range.end)
+  );
+};
+
+// Generate bookable slots for a date, skipping slots that are already taken
+export const getAvailableSlots = (
+  availability: WeeklyAvailability | undefined,
+  exceptions: AvailabilityException[] | undefined,
+  dateKey: string,
+  durationMinutes: number,
+  bookedSlots: TimeRange[] = [],
+  stepMinutes = 30
+): TimeRange[] => {
+  const slots: TimeRange[] = [];
+
+  getRangesForDate(availability, exceptions, dateKey).forEach(range => {
+    const rangeEnd = timeToMinutes(range.end);
+    for (let start = timeToMinutes(range.start); start + durationMinutes <= rangeEnd; start += stepMinutes) {
+      const slot = { start: minutesToTime(start), end: minutesToTime(start + durationMinutes) };
+      if (!bookedSlots.some(booked => slotsOverlap(slot, booked))) {
+        slots.push(slot);
+      }
+    }
+  });
+
+  // Hide slots that have already started today
+  if (dateKey === toDateKey(new Date())) {
+    const now = new Date();
+    const nowMinutes = now.getHours() * 60 + now.getMinutes();
+    return slots.filter(slot => timeToMinutes(slot.start) > nowMinutes);
+  }
+
+  return slots;
+};
+
+// Schedules without a timezone are read as UTC, same as the effective_status SQL function
+const DEFAULT_SCHEDULE_TIME_ZONE = 'UTC';
+
+// Current date and time of day in a timezone; falls back to UTC
+export const getZonedNow = (timeZone?: string, now: Date = new Date()): { dateKey: string; minutes: number } => {
+  try {
+    const parts = new Intl.DateTimeFormat('en-CA', {
+      timeZone: timeZone || DEFAULT_SCHEDULE_TIME_ZONE,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(now);
+    const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '00';
+
+    return {
+      dateKey: `${part('year')}-${part('month')}-${part('day')}`,
+      minutes: Number(part('hour')) * 60 + Number(part('minute')),
+    };
+  } catch {
+    // Unknown timezone name
+    return { dateKey: now.toISOString().slice(0, 10), minutes: now.getUTCHours() * 60 + now.getUTCMinutes() };
+  }
+};
+
+export const getBrowserTimeZone = (): string | undefined => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  } catch {
+    return undefined;
+  }
+};
+
+// Summary of today's hours used by the provider cards
+export const getTodayAvailabilityStatus = (
+  availability: WeeklyAvailability | undefined,
+  exceptions: AvailabilityException[] | undefined,
+  timeZone?: string
+): { isOpenToday: boolean; hours: string; note?: string } | null => {
+  if (!hasAvailability(availability)) return null;
+
+  const todayKey = getZonedNow(timeZone).dateKey;
+  const ranges = getRangesForDate(availability, exceptions, todayKey);
+
+  return {
+    isOpenToday: ranges.length > 0,
+    hours: formatRanges(ranges),
+    note: findException(exceptions, todayKey)?.note,
+  };
+};
+
+// Providers who have not signed in for this long are shown as offline.
+// Keep in sync with the effective_status SQL function.
+export const INACTIVITY_TIMEOUT_DAYS = 7;
+
+// Live status shown on provider cards, in priority order:
+// manual offline, inactivity, busy timer, manual busy, then the schedule
+export const getEffectiveStatus = (
+  provider: Pick<ServiceProvider, 'availability' | 'availabilityExceptions' | 'currentStatus' | 'timezone' | 'busyUntil' | 'lastActiveAt'>,
+  now: Date = new Date()
+): { status: ProviderStatus; reason: string } => {
+  if (provider.currentStatus === 'offline') {
+    return { status: 'offline', reason: 'Offline' };
+  }
+
+  if (provider.lastActiveAt) {
+    const inactiveMs = now.getTime() - new Date(provider.lastActiveAt).getTime();
+    if (inactiveMs > INACTIVITY_TIMEOUT_DAYS * 24 * 60 * 60 * 1000) {
+      return { status: 'offline', reason: 'Not active recently' };
+    }
+  }
+
+  if (provider.busyUntil && new Date(provider.busyUntil) > now) {
+    const until = new Date(provider.busyUntil).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    return { status: 'busy', reason: `Busy until ${until}` };
+  }
+
+  if (provider.currentStatus === 'busy') {
+    return { status: 'busy', reason: 'Busy' };
+  }
+
+  if (!hasAvailability(provider.availability)) {
+    return { status: 'available', reason: 'Available' };
+  }
+
+  const { dateKey, minutes } = getZonedNow(provider.timezone, now);
+  const isOpen = getRangesForDate(provider.availability, provider.availabilityExceptions, dateKey).some(range =>
+    minutes >= timeToMinutes(range.start) && minutes < timeToMinutes(range.end)
+  );
+
+  return isOpen
+    ? { status: 'available', reason: 'Open now' }
+    : { status: 'offline', reason: 'Outside working hours' };
+};
+
+// Upcoming exceptions, soonest first
+export const getUpcomingExceptions = (exceptions: AvailabilityException[] | undefined): AvailabilityException[] => {
+  const todayKey = toDateKey(new Date());
+  return (exceptions || [])
+    .filter(exception => exception.date >= todayKey)
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
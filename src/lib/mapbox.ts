@@ -143,34 +143,27 @@ const toRadians = (degrees: number): number => {
   return degrees * (Math.PI / 180);
 };
 
-// Filter providers by location and radius
-export const filterProvidersByLocation = (
-  providers: any[],
-  userLocation: LocationCoordinates,
-  radiusKm: number
-): any[] => {
-  return providers.filter(provider => {
-    if (!provider.location?.lat || !provider.location?.lng) {
-      return false;
-    }
-
-    const distance = calculateDistance(
-      userLocation.lat,
-      userLocation.lng,
-      provider.location.lat,
-      provider.location.lng
-    );
+// Polygon approximating a circle on the map, used to draw work radii
+export const createRadiusCircle = (
+  lat: number,
+  lng: number,
+  radiusKm: number,
+  steps = 64
+): GeoJSON.Feature<GeoJSON.Polygon> => {
+  const coordinates: [number, number][] = [];
+  const latDelta = radiusKm / 110.574;
+  const lngDelta = radiusKm / (111.32 * Math.cos(toRadians(lat)));
+
+  for (let i = 0; i <= steps; i++) {
+    const angle = (i / steps) * 2 * Math.PI;
+    coordinates.push([lng + lngDelta * Math.cos(angle), lat + latDelta * Math.sin(angle)]);
+  }
 
-    return distance <= radiusKm;
-  }).map(provider => ({
-    ...provider,
-    distance: calculateDistance(
-      userLocation.lat,
-      userLocation.lng,
-      provider.location.lat,
-      provider.location.lng
-    ),
-  })).sort((a, b) => a.distance - b.distance); // Sort by distance
+  return {
+    type: 'Feature',
+    properties: {},
+    geometry: { type: 'Polygon', coordinates: [coordinates] },
+  };
 };
 
 export { mapboxgl };
\ No newline at end of file
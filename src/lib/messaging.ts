@@ -0,0 +1,319 @@
+import { supabase } from './supabase';
+import { ChatMessage, ConversationSummary, MessageSearchResult, ServiceProvider } from '../types';
+import { Database } from '../types/database';
+
+// Preview of the quoted message; only the message functions return these,
+// Realtime rows just carry reply_to_id
+interface ReplyPreviewColumns {
+  reply_to_sender_id?: string | null;
+  reply_to_content?: string | null;
+  reply_to_message_type?: 'text' | 'image' | 'file' | null;
+  reply_to_file_name?: string | null;
+  reply_to_deleted?: boolean;
+}
+
+export type ChatMessageRow = Database['public']['Tables']['chat_messages']['Row'] & ReplyPreviewColumns;
+
+// Participant and flag columns get_conversation_summaries returns next to the latest message
+type ConversationSummaryRow = ChatMessageRow & {
+  other_user_id: string;
+  other_user_email: string;
+  other_user_name: string;
+  other_user_role: 'user' | 'provider';
+  other_user_created_at: string;
+  other_user_profile_image: string | null;
+  other_user_service_type: string | null;
+  other_user_phone: string | null;
+  other_user_address: string | null;
+  unread_count: number;
+  is_starred: boolean;
+  is_archived: boolean;
+  is_muted: boolean;
+  is_pinned: boolean;
+};
+
+export type ConversationFilter = 'any' | 'all' | 'unread' | 'starred' | 'archived';
+
+export const CONVERSATIONS_PAGE_SIZE = 30;
+export const MESSAGES_PAGE_SIZE = 50;
+
+// search_messages wraps every match in the snippet in these
+export const SEARCH_MATCH_START = '\u0002';
+export const SEARCH_MATCH_END = '\u0003';
+
+interface MessageSearchRow {
+  message_id: string;
+  other_user_id: string;
+  other_user_name: string;
+  sender_id: string;
+  snippet: string;
+  created_at: string;
+}
+
+export interface MessageSubscriptionHandlers {
+  onInsert?: (row: ChatMessageRow) => void;
+  // Deletions arrive here too, as the update that sets the deleted flags
+  onUpdate?: (row: ChatMessageRow) => void;
+  // Refetch everything: called while the channel is down and once it reconnects
+  onResync?: () => void;
+}
+
+// Used until the server's edit window has loaded; the database enforces the real one
+const DEFAULT_EDIT_WINDOW = 15 * 60 * 1000;
+
+let editWindowPromise: Promise<number> | null = null;
+
+// Polling only runs while the realtime channel is disconnected
+const FALLBACK_POLL_INTERVAL = 10000;
+
+let channelCounter = 0;
+
+export const mapChatMessage = (row: ChatMessageRow): ChatMessage => ({
+  id: row.id,
+  senderId: row.sender_id,
+  receiverId: row.receiver_id,
+  // The message functions already blank hidden messages; Realtime rows still carry the content
+  content: row.hidden_at ? '' : row.content,
+  timestamp: new Date(row.created_at),
+  read: row.read,
+  deliveredAt: row.delivered_at ? new Date(row.delivered_at) : undefined,
+  readAt: row.read_at ? new Date(row.read_at) : undefined,
+  editedAt: row.edited_at ? new Date(row.edited_at) : undefined,
+  replyToId: row.reply_to_id || undefined,
+  replyTo: row.reply_to_id && row.reply_to_deleted !== undefined
+    ? {
+        senderId: row.reply_to_sender_id || undefined,
+        content: row.reply_to_content || undefined,
+        messageType: row.reply_to_message_type || undefined,
+        fileName: row.reply_to_file_name || undefined,
+        deleted: row.reply_to_deleted,
+      }
+    : undefined,
+  messageType: row.message_type || 'text',
+  fileUrl: row.file_url || undefined,
+  fileName: row.file_name || undefined,
+  fileSize: row.file_size || undefined,
+  hidden: !!row.hidden_at,
+});
+
+// Same rule as get_user_messages: hidden once deleted for everyone or for this user
+export const isMessageVisibleTo = (row: ChatMessageRow, userId: string): boolean => {
+  if (row.deleted_for_all) return false;
+  if (row.sender_id === userId && row.deleted_for_sender) return false;
+  if (row.receiver_id === userId && row.deleted_for_receiver) return false;
+  return true;
+};
+
+// The participant only carries what the inbox shows; open the profile for the rest
+const mapConversationSummary = (row: ConversationSummaryRow): ConversationSummary => ({
+  participant: {
+    id: row.other_user_id,
+    email: row.other_user_email,
+    name: row.other_user_name,
+    role: row.other_user_role,
+    createdAt: new Date(row.other_user_created_at),
+    profileImage: row.other_user_profile_image || '',
+    ...(row.other_user_role === 'provider' && {
+      serviceType: row.other_user_service_type || undefined,
+      phone: row.other_user_phone || undefined,
+      location: row.other_user_address ? { address: row.other_user_address } : undefined,
+    }),
+  } as ServiceProvider,
+  lastMessage: mapChatMessage(row),
+  unreadCount: row.unread_count,
+  isStarred: row.is_starred,
+  isArchived: row.is_archived,
+  isMuted: row.is_muted,
+  isPinned: row.is_pinned,
+});
+
+// A page of the signed in user's conversations, pinned first and then newest first
+export const fetchConversationSummaries = async (
+  filter: ConversationFilter,
+  limit: number = CONVERSATIONS_PAGE_SIZE,
+  offset = 0
+): Promise<ConversationSummary[] | null> => {
+  if (!supabase) return null;
+
+  const { data, error } = await supabase.rpc('get_conversation_summaries', {
+    conversation_filter: filter,
+    page_size: limit,
+    page_offset: offset,
+  });
+
+  if (error) {
+    console.error('Error loading conversations:', error);
+    return null;
+  }
+  return (data as ConversationSummaryRow[]).map(mapConversationSummary);
+};
+
+// Full-text search over the signed in user's messages, optionally in one conversation
+export const searchMessages = async (query: string, otherUserId?: string): Promise<MessageSearchResult[]> => {
+  if (!supabase || !query.trim()) return [];
+
+  const { data, error } = await supabase.rpc('search_messages', {
+    search_query: query.trim(),
+    other_user: otherUserId || null,
+  });
+
+  if (error) {
+    console.error('Error searching messages:', error);
+    return [];
+  }
+  return (data as MessageSearchRow[]).map(row => ({
+    messageId: row.message_id,
+    participantId: row.other_user_id,
+    participantName: row.other_user_name,
+    senderId: row.sender_id,
+    snippet: row.snippet,
+    timestamp: new Date(row.created_at),
+  }));
+};
+
+// Unread messages for the badge, leaving out conversations the user has muted
+export const countUnreadMessages = async (userId: string): Promise<number | null> => {
+  if (!supabase) return null;
+
+  const { data: muted, error: mutedError } = await supabase
+    .from('conversation_participants')
+    .select('other_user_id')
+    .eq('user_id', userId)
+    .eq('muted', true);
+
+  if (mutedError) {
+    console.error('Error loading muted conversations:', mutedError);
+  }
+
+  let query = supabase
+    .from('chat_messages')
+    .select('*', { count: 'exact', head: true })
+    .eq('receiver_id', userId)
+    .eq('read', false);
+
+  const mutedIds = (muted || []).map((row: { other_user_id: string }) => row.other_user_id);
+  if (mutedIds.length > 0) {
+    query = query.not('sender_id', 'in', `(${mutedIds.join(',')})`);
+  }
+
+  const { count, error } = await query;
+  if (error) {
+    console.error('Error loading unread count:', error);
+    return null;
+  }
+  return count || 0;
+};
+
+// How long after sending a message can be edited, in milliseconds
+export const getMessageEditWindow = (): Promise<number> => {
+  if (!editWindowPromise) {
+    editWindowPromise = (async () => {
+      if (!supabase) return DEFAULT_EDIT_WINDOW;
+
+      const { data, error } = await supabase.rpc('chat_message_edit_window');
+      if (error || typeof data !== 'number') {
+        console.error('Error loading message edit window:', error);
+        editWindowPromise = null;
+        return DEFAULT_EDIT_WINDOW;
+      }
+      return data * 1000;
+    })();
+  }
+  return editWindowPromise;
+};
+
+// Same rules as handle_chat_message_edit; only used to decide whether to offer editing
+export const canEditMessage = (message: ChatMessage, userId: string, editWindow: number = DEFAULT_EDIT_WINDOW): boolean => {
+  return message.senderId === userId &&
+    (message.messageType || 'text') === 'text' &&
+    Date.now() - message.timestamp.getTime() < editWindow;
+};
+
+// Stamp everything the signed in user has received as delivered
+export const markMessagesDelivered = async (): Promise<void> => {
+  if (!supabase) return;
+
+  const { error } = await supabase.rpc('mark_messages_delivered');
+  if (error) {
+    console.error('Error marking messages as delivered:', error);
+  }
+};
+
+// Mark specific received messages as read, e.g. once they have been on screen
+export const markMessagesRead = async (messageIds: string[]): Promise<void> => {
+  if (!supabase || messageIds.length === 0) return;
+
+  const { error } = await supabase.rpc('mark_messages_read', { message_ids: messageIds });
+  if (error) {
+    console.error('Error marking messages as read:', error);
+  }
+};
+
+// Subscribe to chat_messages sent or received by a user. Handlers are read
+// from the ref when an event arrives, so components can refresh them on every
+// render. Returns the cleanup function for useEffect
+export const subscribeToMessages = (
+  userId: string,
+  handlersRef: { current: MessageSubscriptionHandlers }
+): (() => void) => {
+  if (!supabase) return () => {};
+
+  let closed = false;
+  let disconnected = false;
+  let fallbackTimer: ReturnType<typeof setInterval> | null = null;
+
+  const stopFallback = () => {
+    if (fallbackTimer) {
+      clearInterval(fallbackTimer);
+      fallbackTimer = null;
+    }
+  };
+
+  const startFallback = () => {
+    if (fallbackTimer) return;
+    fallbackTimer = setInterval(() => handlersRef.current.onResync?.(), FALLBACK_POLL_INTERVAL);
+  };
+
+  const channel = supabase.channel(`chat-messages:${userId}:${++channelCounter}`);
+
+  // Filters only support one column, so sent and received messages are separate listeners
+  for (const column of ['sender_id', 'receiver_id']) {
+    channel
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'chat_messages', filter: `${column}=eq.${userId}` },
+        (payload: { new: ChatMessageRow }) => handlersRef.current.onInsert?.(payload.new)
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'chat_messages', filter: `${column}=eq.${userId}` },
+        (payload: { new: ChatMessageRow }) => handlersRef.current.onUpdate?.(payload.new)
+      );
+  }
+
+  // No DELETE listener: those events can't be filtered, so every client would get
+  // every deletion. The cleanup trigger only removes rows after the UPDATE that
+  // flagged them as deleted, and that UPDATE is delivered above
+
+  channel.subscribe((status: string) => {
+    if (closed) return;
+
+    if (status === 'SUBSCRIBED') {
+      stopFallback();
+      if (disconnected) {
+        disconnected = false;
+        handlersRef.current.onResync?.();
+      }
+    } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+      console.warn('⚠️ Message channel disconnected:', status);
+      disconnected = true;
+      startFallback();
+    }
+  });
+
+  return () => {
+    closed = true;
+    stopFallback();
+    supabase.removeChannel(channel);
+  };
+};
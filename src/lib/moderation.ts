@@ -0,0 +1,122 @@
+import { supabase } from './supabase';
+import { ReportQueueItem, ReportReason, ReportTargetType } from '../types';
+import { Database } from '../types/database';
+
+type ReportQueueRow = Database['public']['Functions']['get_report_queue']['Returns'][number];
+
+export const REPORT_REASONS: { key: ReportReason; label: string; description: string }[] = [
+  { key: 'spam', label: 'Spam', description: 'Advertising or repeated, unrelated content' },
+  { key: 'harassment', label: 'Harassment', description: 'Insults, threats or bullying' },
+  { key: 'hate_speech', label: 'Hate speech', description: 'Attacks on a group or identity' },
+  { key: 'inappropriate', label: 'Inappropriate', description: 'Offensive or sexual content' },
+  { key: 'personal_info', label: 'Personal information', description: 'Shares someone\'s contact or private details' },
+  { key: 'fake', label: 'Fake', description: 'Not based on a real job or experience' },
+  { key: 'other', label: 'Other', description: 'Something else; tell us in the details' },
+];
+
+export const MAX_REPORT_DETAILS_LENGTH = 500;
+
+// Same patterns as review_text_violation; the database rejects these reviews too
+const PROFANITY_PATTERN = /\b(fuck\w*|shit\w*|bitch\w*|cunt\w*|asshole\w*|bastard\w*|dickhead\w*|wanker\w*|slut\w*|whore\w*)\b/i;
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i;
+const LINK_PATTERN = /(https?:\/\/|www\.)/i;
+const PHONE_PATTERN = /\+?\d[\d\s().-]{6,}\d/g;
+// Dates and amounts with grouped digits look like phone numbers too
+const DATE_PATTERN = /^(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}[.-]\d{1,2}[.-]\d{4})$/;
+const AMOUNT_PATTERN = /^\d{1,3}([\s.]\d{3})+(\.\d{2})?$/;
+
+const isPhoneNumber = (candidate: string): boolean =>
+  candidate.replace(/\D/g, '').length >= 8 && !DATE_PATTERN.test(candidate) && !AMOUNT_PATTERN.test(candidate);
+
+// Returns an error message, or null when the review text can be posted
+export const checkReviewText = (text: string): string | null => {
+  if (PROFANITY_PATTERN.test(text)) {
+    return 'Reviews can\'t contain offensive language.';
+  }
+
+  const hasPhoneNumber = Array.from(text.matchAll(PHONE_PATTERN)).some(([candidate]) => isPhoneNumber(candidate));
+  if (EMAIL_PATTERN.test(text) || LINK_PATTERN.test(text) || hasPhoneNumber) {
+    return 'Reviews can\'t contain email addresses, phone numbers or links.';
+  }
+
+  return null;
+};
+
+// Users can report each review or message once; the reports policies decide what they may report
+export const submitReport = async (
+  reporterId: string,
+  targetType: ReportTargetType,
+  targetId: string,
+  reason: ReportReason,
+  details?: string
+): Promise<void> => {
+  const { error } = await supabase
+    .from('reports')
+    .insert({
+      reporter_id: reporterId,
+      target_type: targetType,
+      target_id: targetId,
+      reason,
+      details: details?.trim() || null,
+    });
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error('You have already reported this.');
+    }
+    console.error('Error submitting report:', error);
+    throw new Error(`Failed to submit report: ${error.message}`);
+  }
+};
+
+export const checkIsAdmin = async (): Promise<boolean> => {
+  if (!supabase) return false;
+
+  const { data, error } = await supabase.rpc('is_admin');
+  if (error) {
+    console.error('Error checking admin access:', error);
+    return false;
+  }
+  return !!data;
+};
+
+const mapReportQueueItem = (row: ReportQueueRow): ReportQueueItem => ({
+  targetType: row.target_type,
+  targetId: row.target_id,
+  reportCount: row.report_count,
+  reasons: row.reasons || [],
+  details: row.details || [],
+  firstReportedAt: new Date(row.first_reported_at),
+  lastReportedAt: new Date(row.last_reported_at),
+  content: row.content || undefined,
+  rating: row.rating ?? undefined,
+  authorId: row.author_id || undefined,
+  authorName: row.author_name || undefined,
+  contextName: row.context_name || undefined,
+  hidden: !!row.hidden_at,
+});
+
+// Reported items with pending reports, most reported first; admins only
+export const fetchReportQueue = async (): Promise<ReportQueueItem[]> => {
+  const { data, error } = await supabase.rpc('get_report_queue');
+
+  if (error) {
+    console.error('Error loading report queue:', error);
+    throw new Error(`Failed to load reports: ${error.message}`);
+  }
+  return ((data || []) as ReportQueueRow[]).map(mapReportQueueItem);
+};
+
+// Upholding hides the item for good, dismissing restores it; closes all its pending reports
+export const resolveReports = async (targetType: ReportTargetType, targetId: string, uphold: boolean): Promise<void> => {
+  const { error } = await supabase.rpc('resolve_reports', {
+    report_target_type: targetType,
+    report_target_id: targetId,
+    uphold,
+  });
+
+  if (error) {
+    console.error('Error resolving reports:', error);
+    throw new Error(`Failed to resolve reports: ${error.message}`);
+  }
+};
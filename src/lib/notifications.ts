@@ -0,0 +1,71 @@
+import { supabase } from './supabase';
+import { UserNotification } from '../types';
+import { Database } from '../types/database';
+
+type NotificationRow = Database['public']['Tables']['notifications']['Row'];
+
+// The bell only shows the most recent ones
+const NOTIFICATIONS_LIMIT = 20;
+
+let channelCounter = 0;
+
+const mapNotification = (row: NotificationRow): UserNotification => ({
+  id: row.id,
+  type: row.type,
+  title: row.title,
+  body: row.body || undefined,
+  data: row.data || {},
+  readAt: row.read_at ? new Date(row.read_at) : undefined,
+  createdAt: new Date(row.created_at),
+});
+
+export const fetchNotifications = async (userId: string): Promise<UserNotification[]> => {
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(NOTIFICATIONS_LIMIT);
+
+  if (error) {
+    console.error('Error loading notifications:', error);
+    return [];
+  }
+  return (data as NotificationRow[]).map(mapNotification);
+};
+
+export const markNotificationsRead = async (notificationIds: string[]): Promise<void> => {
+  if (!supabase || notificationIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .in('id', notificationIds);
+
+  if (error) {
+    console.error('Error marking notifications as read:', error);
+  }
+};
+
+// New notifications for the user as they are created
+export const subscribeToNotifications = (
+  userId: string,
+  onInsert: (notification: UserNotification) => void
+): (() => void) => {
+  if (!supabase) return () => {};
+
+  const channel = supabase
+    .channel(`notifications:${userId}:${++channelCounter}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+      (payload: { new: NotificationRow }) => onInsert(mapNotification(payload.new))
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
@@ -0,0 +1,128 @@
+import { supabase } from './supabase';
+
+// How often the last seen time is refreshed while the app is open
+export const LAST_SEEN_INTERVAL = 60000;
+
+// Typing stops being broadcast when no keystroke follows for this long
+const TYPING_TIMEOUT = 4000;
+
+export interface TypingChannel {
+  // Call on every keystroke with true, and with false once the message is sent
+  setTyping: (typing: boolean) => void;
+  unsubscribe: () => void;
+}
+
+// Same format as generate_conversation_id in the database
+export const getConversationKey = (userId1: string, userId2: string): string =>
+  [userId1, userId2].sort().join(':');
+
+export const touchLastSeen = async (): Promise<void> => {
+  if (!supabase) return;
+
+  const { error } = await supabase.rpc('touch_last_seen');
+  if (error) {
+    console.warn('⚠️ Failed to record last seen:', error);
+  }
+};
+
+export interface LastSeen {
+  lastSeenAt: Date | null; // Null when the user hides their last seen
+  online: boolean; // Active in the last couple of minutes and sharing their online status
+}
+
+// Last seen and online status of conversation partners; users who hide both are left out
+export const fetchLastSeen = async (userIds: string[]): Promise<Record<string, LastSeen>> => {
+  if (!supabase || userIds.length === 0) return {};
+
+  const { data, error } = await supabase.rpc('get_last_seen', { user_ids: userIds });
+  if (error) {
+    console.error('Error loading last seen:', error);
+    return {};
+  }
+
+  const lastSeen: Record<string, LastSeen> = {};
+  for (const row of (data || []) as { user_id: string; last_seen_at: string | null; online: boolean }[]) {
+    lastSeen[row.user_id] = {
+      lastSeenAt: row.last_seen_at ? new Date(row.last_seen_at) : null,
+      online: row.online,
+    };
+  }
+  return lastSeen;
+};
+
+// What the other user shares on the conversation's presence channel
+export interface ConversationPresence {
+  online: boolean; // Has the conversation open and shares their online status
+  typing: boolean;
+}
+
+// Join the presence channel of one conversation to share and receive online and
+// typing state. The channel is private and only the two users can join it, so
+// users who hide their online status still share typing but never appear online
+export const subscribeToConversationPresence = (
+  userId: string,
+  otherUserId: string,
+  shareOnlineStatus: boolean,
+  onChange: (otherUser: ConversationPresence) => void
+): TypingChannel => {
+  if (!supabase) return { setTyping: () => {}, unsubscribe: () => {} };
+
+  let subscribed = false;
+  let typing = false;
+  let idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const channel = supabase.channel(`conversation:${getConversationKey(userId, otherUserId)}`, {
+    config: { private: true, presence: { key: userId } },
+  });
+
+  channel.on('presence', { event: 'sync' }, () => {
+    const entries = (channel.presenceState()[otherUserId] || []) as { online?: boolean; typing?: boolean }[];
+    onChange({
+      online: entries.some(entry => entry.online),
+      typing: entries.some(entry => entry.typing),
+    });
+  });
+
+  const track = () => channel.track({ online: shareOnlineStatus, typing });
+
+  channel.subscribe(async (status: string) => {
+    if (status === 'SUBSCRIBED') {
+      subscribed = true;
+      await track();
+    }
+  });
+
+  const setTyping = (nextTyping: boolean) => {
+    if (idleTimer) {
+      clearTimeout(idleTimer);
+      idleTimer = null;
+    }
+    if (nextTyping) {
+      idleTimer = setTimeout(() => setTyping(false), TYPING_TIMEOUT);
+    }
+
+    // Only changes are sent, not every keystroke
+    if (!subscribed || nextTyping === typing) return;
+    typing = nextTyping;
+    track();
+  };
+
+  return {
+    setTyping,
+    unsubscribe: () => {
+      if (idleTimer) clearTimeout(idleTimer);
+      subscribed = false;
+      supabase.removeChannel(channel);
+    },
+  };
+};
+
+export const formatLastSeen = (date: Date): string => {
+  const minutes = Math.floor((Date.now() - date.getTime()) / 60000);
+
+  if (minutes < 1) return 'Last seen just now';
+  if (minutes < 60) return `Last seen ${minutes}m ago`;
+  if (minutes < 24 * 60) return `Last seen ${Math.floor(minutes / 60)}h ago`;
+  if (minutes < 7 * 24 * 60) return `Last seen ${Math.floor(minutes / (24 * 60))}d ago`;
+  return `Last seen ${date.toLocaleDateString()}`;
+};
@@ -0,0 +1,35 @@
+import { RatingAspect, RatingAspects } from '../types';
+
+export const RATING_ASPECTS: { key: RatingAspect; label: string; description: string }[] = [
+  { key: 'quality', label: 'Quality', description: 'How good the work was' },
+  { key: 'punctuality', label: 'Punctuality', description: 'Turning up and finishing on time' },
+  { key: 'value', label: 'Value', description: 'Value for money' },
+  { key: 'communication', label: 'Communication', description: 'Keeping you informed' },
+];
+
+// Same column names on ratings (scores) and service_providers (averages)
+type AspectColumns = {
+  quality_rating: number | null;
+  punctuality_rating: number | null;
+  value_rating: number | null;
+  communication_rating: number | null;
+};
+
+// Leaves out the aspects without a score; undefined when none have one
+export const mapRatingAspects = (row: Partial<AspectColumns>): RatingAspects | undefined => {
+  const aspects: RatingAspects = {};
+  RATING_ASPECTS.forEach(({ key }) => {
+    const value = row[`${key}_rating` as keyof AspectColumns];
+    if (value !== null && value !== undefined) {
+      aspects[key] = Number(value);
+    }
+  });
+  return Object.keys(aspects).length > 0 ? aspects : undefined;
+};
+
+export const toRatingAspectColumns = (aspects: RatingAspects = {}): AspectColumns => ({
+  quality_rating: aspects.quality ?? null,
+  punctuality_rating: aspects.punctuality ?? null,
+  value_rating: aspects.value ?? null,
+  communication_rating: aspects.communication ?? null,
+});
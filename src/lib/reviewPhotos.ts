@@ -0,0 +1,87 @@
+import { supabase } from './supabase';
+
+export const REVIEW_PHOTO_BUCKET = 'review-photos';
+
+// Same limits as the review-photos bucket and the ratings_photos_limit check
+export const MAX_REVIEW_PHOTOS = 4;
+export const MAX_REVIEW_PHOTO_SIZE = 5 * 1024 * 1024; // 5MB
+
+export const ALLOWED_REVIEW_PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+// Signed URLs are reused until shortly before they expire
+const SIGNED_URL_TTL = 60 * 60; // seconds
+const signedUrlCache = new Map<string, { url: string; expiresAt: number }>();
+
+// Returns an error message, or null when the photo can be attached
+export const validateReviewPhoto = (file: File): string | null => {
+  if (file.size > MAX_REVIEW_PHOTO_SIZE) {
+    return 'Photos must be smaller than 5MB';
+  }
+  if (!ALLOWED_REVIEW_PHOTO_TYPES.includes(file.type)) {
+    return 'Only JPEG, PNG, GIF and WebP photos are supported';
+  }
+  return null;
+};
+
+// Photos are stored under the reviewer's folder for the provider; matches validate_rating_photos
+export const uploadReviewPhoto = async (userId: string, providerId: string, file: File): Promise<string> => {
+  const validationError = validateReviewPhoto(file);
+  if (validationError) throw new Error(validationError);
+
+  const extension = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : '';
+  const key = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}${extension ? `.${extension}` : ''}`;
+  const path = `${userId}/${providerId}/${key}`;
+
+  const { error } = await supabase.storage
+    .from(REVIEW_PHOTO_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false });
+
+  if (error) {
+    console.error('Error uploading review photo:', error);
+    throw new Error(`Failed to upload photo: ${error.message}`);
+  }
+
+  return path;
+};
+
+export const removeReviewPhotos = async (paths: string[]): Promise<void> => {
+  if (paths.length === 0) return;
+  paths.forEach(path => signedUrlCache.delete(path));
+
+  const { error } = await supabase.storage.from(REVIEW_PHOTO_BUCKET).remove(paths);
+  if (error) {
+    console.error('Error removing review photos:', error);
+  }
+};
+
+// Signed URLs by path; photos of hidden reviews can't be signed and are left out
+export const getReviewPhotoUrls = async (paths: string[]): Promise<Record<string, string>> => {
+  const urls: Record<string, string> = {};
+  const missing: string[] = [];
+  for (const path of new Set(paths)) {
+    const cached = signedUrlCache.get(path);
+    if (cached && cached.expiresAt > Date.now() + 60 * 1000) {
+      urls[path] = cached.url;
+    } else {
+      missing.push(path);
+    }
+  }
+  if (missing.length === 0) return urls;
+
+  const { data, error } = await supabase.storage
+    .from(REVIEW_PHOTO_BUCKET)
+    .createSignedUrls(missing, SIGNED_URL_TTL);
+
+  if (error || !data) {
+    console.error('Error creating review photo URLs:', error);
+    return urls;
+  }
+
+  const expiresAt = Date.now() + SIGNED_URL_TTL * 1000;
+  for (const { path, signedUrl, error: photoError } of data) {
+    if (!path || photoError) continue;
+    signedUrlCache.set(path, { url: signedUrl, expiresAt });
+    urls[path] = signedUrl;
+  }
+  return urls;
+};
@@ -0,0 +1,16 @@
+export interface SnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+// Split a search_providers snippet on its <mark> tags so it can be rendered
+// as plain text nodes instead of HTML
+export const parseSnippet = (snippet: string): SnippetPart[] => {
+  return snippet
+    .split(/(<mark>.*?<\/mark>)/g)
+    .filter(part => part !== '')
+    .map(part => {
+      const match = part.match(/^<mark>(.*?)<\/mark>$/);
+      return match ? { text: match[1], highlighted: true } : { text: part, highlighted: false };
+    });
+};
@@ -0,0 +1,96 @@
+import { RatingAspect, SearchFilters, SearchSort, WeekDay } from '../types';
+import { LocationCoordinates } from './mapbox';
+import { WEEK_DAYS } from './availability';
+import { RATING_ASPECTS } from './ratings';
+
+export type SearchState = SearchFilters & { userLocation?: LocationCoordinates };
+
+const SORT_OPTIONS: SearchSort[] = ['relevance', 'distance', 'rating', 'newest', ...RATING_ASPECTS.map(({ key }) => key)];
+
+const toNumber = (value: string | null): number | undefined => {
+  if (value === null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+// Mirror a search in the query string so it can be shared and survives a reload
+export const searchStateToQuery = (state: SearchState): string => {
+  const params = new URLSearchParams();
+
+  if (state.keyword) params.set('q', state.keyword);
+  if (state.serviceType) params.set('service', state.serviceType);
+  if (state.location) params.set('loc', state.location);
+  if (state.userLocation) {
+    params.set('lat', state.userLocation.lat.toFixed(5));
+    params.set('lng', state.userLocation.lng.toFixed(5));
+  }
+  params.set('radius', String(state.radius));
+  if (state.availableNow) params.set('available', '1');
+  if (state.includeOutsideArea) params.set('outside', '1');
+  if (state.minRating !== undefined) params.set('rating', String(state.minRating));
+  if (state.minReviews !== undefined) params.set('reviews', String(state.minReviews));
+  if (state.minExperience !== undefined) params.set('experience', String(state.minExperience));
+  if (state.businessType) params.set('type', state.businessType);
+  if (state.hasPortfolio) params.set('portfolio', '1');
+  if (state.hasCertifications) params.set('certified', '1');
+  if (state.openOn) params.set('day', state.openOn);
+  if (state.ratedAspect && state.minAspectRating !== undefined) {
+    params.set('aspect', state.ratedAspect);
+    params.set('aspect_rating', String(state.minAspectRating));
+  }
+  if (state.sortBy && state.sortBy !== 'relevance') params.set('sort', state.sortBy);
+
+  return `?${params.toString()}`;
+};
+
+// Read a search back from the query string; null when the URL has no search
+export const searchStateFromQuery = (query: string): SearchState | null => {
+  const params = new URLSearchParams(query);
+  if (!params.has('radius')) return null;
+
+  const lat = toNumber(params.get('lat'));
+  const lng = toNumber(params.get('lng'));
+  const businessType = params.get('type');
+  const day = params.get('day');
+  const sort = params.get('sort');
+  const aspect = params.get('aspect');
+  const ratedAspect = RATING_ASPECTS.some(({ key }) => key === aspect) ? (aspect as RatingAspect) : undefined;
+
+  return {
+    keyword: params.get('q') || '',
+    location: params.get('loc') || '',
+    radius: toNumber(params.get('radius')) || 25,
+    serviceType: params.get('service') || undefined,
+    userLocation: lat !== undefined && lng !== undefined
+      ? { lat, lng, address: params.get('loc') || undefined }
+      : undefined,
+    availableNow: params.get('available') === '1',
+    includeOutsideArea: params.get('outside') === '1',
+    minRating: toNumber(params.get('rating')),
+    minReviews: toNumber(params.get('reviews')),
+    minExperience: toNumber(params.get('experience')),
+    businessType: businessType === 'individual' || businessType === 'business' ? businessType : undefined,
+    hasPortfolio: params.get('portfolio') === '1',
+    hasCertifications: params.get('certified') === '1',
+    openOn: WEEK_DAYS.some(({ key }) => key === day) ? (day as WeekDay) : undefined,
+    ratedAspect,
+    minAspectRating: ratedAspect ? toNumber(params.get('aspect_rating')) : undefined,
+    sortBy: SORT_OPTIONS.includes(sort as SearchSort) ? (sort as SearchSort) : undefined,
+  };
+};
+
+// Number of advanced filters in use, shown on the filter toggle
+export const countActiveFilters = (filters: SearchFilters): number => {
+  return [
+    filters.availableNow,
+    filters.includeOutsideArea,
+    filters.minRating !== undefined,
+    filters.minReviews !== undefined,
+    filters.minExperience !== undefined,
+    !!filters.businessType,
+    filters.hasPortfolio,
+    filters.hasCertifications,
+    !!filters.openOn,
+    !!filters.ratedAspect && filters.minAspectRating !== undefined,
+  ].filter(Boolean).length;
+};
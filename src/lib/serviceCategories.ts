@@ -0,0 +1,188 @@
+import { ServiceCategory, ServiceDefinition } from '../types';
+
+// Keep in sync with the service_categories table; the search_providers function
+// uses the table to expand categories and synonyms
+export const SERVICE_CATEGORIES: ServiceCategory[] = [
+  {
+    slug: 'home-repairs',
+    name: 'Home Repairs & Maintenance',
+    services: [
+      { slug: 'air-conditioning-hvac', name: 'Air Conditioning / HVAC', synonyms: ['aircon', 'air con', 'hvac technician'] },
+      { slug: 'appliance-repair', name: 'Appliance Repair', synonyms: ['fridge repair', 'washing machine repair'] },
+      { slug: 'blinds-curtains-installation', name: 'Blinds & Curtains Installation', synonyms: ['blinds', 'curtains'] },
+      { slug: 'borehole-drilling', name: 'Borehole Drilling', synonyms: ['borehole', 'well drilling'] },
+      { slug: 'carpentry', name: 'Carpentry', synonyms: ['carpenter', 'joiner'], popular: true },
+      { slug: 'custom-woodwork', name: 'Custom Woodwork', synonyms: ['woodworker', 'cabinet maker'] },
+      { slug: 'electrical', name: 'Electrical', synonyms: ['electrician', 'sparky', 'wiring'], popular: true },
+      { slug: 'flooring-installation', name: 'Flooring Installation', synonyms: ['floor fitter', 'laminate'] },
+      { slug: 'furniture-upholstery', name: 'Furniture Upholstery', synonyms: ['upholsterer', 'reupholstery'] },
+      { slug: 'glass-repair', name: 'Glass Repair', synonyms: ['glazier', 'window repair'] },
+      { slug: 'handyman-services', name: 'Handyman Services', synonyms: ['handyman', 'odd jobs', 'fundi'] },
+      { slug: 'locksmiths', name: 'Locksmiths', synonyms: ['locksmith', 'locked out'] },
+      { slug: 'painting', name: 'Painting', synonyms: ['painter', 'decorator'], popular: true },
+      { slug: 'pest-control', name: 'Pest Control', synonyms: ['exterminator', 'fumigation'] },
+      { slug: 'plumbing', name: 'Plumbing', synonyms: ['plumber', 'leak', 'geyser', 'blocked drain'], popular: true },
+      { slug: 'pool-maintenance', name: 'Pool Maintenance', synonyms: ['pool cleaner', 'pool service'] },
+      { slug: 'roofing', name: 'Roofing', synonyms: ['roofer', 'roof repair'] },
+      { slug: 'security-systems-cctv', name: 'Security Systems / CCTV', synonyms: ['cctv', 'alarm installer'] },
+      { slug: 'solar-panel-installation', name: 'Solar Panel Installation', synonyms: ['solar', 'inverter'] },
+      { slug: 'tiling', name: 'Tiling', synonyms: ['tiler'] },
+      { slug: 'waterproofing', name: 'Waterproofing', synonyms: ['damp proofing'] },
+      { slug: 'welding', name: 'Welding', synonyms: ['welder', 'burglar bars'] },
+    ],
+  },
+  {
+    slug: 'cleaning',
+    name: 'Cleaning & Waste',
+    services: [
+      { slug: 'house-cleaning', name: 'Cleaning', synonyms: ['cleaner', 'maid', 'domestic worker', 'house cleaning'], popular: true },
+      { slug: 'junk-collection', name: 'Junk Collection', synonyms: ['junk removal'] },
+      { slug: 'laundry-dry-cleaning', name: 'Laundry & Dry Cleaning', synonyms: ['laundry', 'dry cleaner', 'ironing'] },
+      { slug: 'recycling-pickup', name: 'Recycling Pickup', synonyms: ['recycling'] },
+      { slug: 'rental-property-cleaning', name: 'Rental Property Cleaning', synonyms: ['airbnb cleaning', 'end of lease cleaning'] },
+      { slug: 'trash-removal', name: 'Trash Removal', synonyms: ['rubbish removal', 'garbage removal'] },
+    ],
+  },
+  {
+    slug: 'garden',
+    name: 'Garden & Outdoor',
+    services: [
+      { slug: 'gardening', name: 'Gardening', synonyms: ['gardener', 'lawn mowing'], popular: true },
+      { slug: 'landscaping', name: 'Landscaping', synonyms: ['landscaper'] },
+      { slug: 'tree-cutting', name: 'Tree Cutting', synonyms: ['tree feller', 'tree removal', 'arborist'] },
+    ],
+  },
+  {
+    slug: 'beauty',
+    name: 'Beauty & Wellness',
+    services: [
+      { slug: 'barbering', name: 'Barbering', synonyms: ['barber', 'haircut', 'fade'], popular: true },
+      { slug: 'braiding', name: 'Braiding', synonyms: ['braids', 'hair braiding'] },
+      { slug: 'fitness-training', name: 'Fitness Training', synonyms: ['personal trainer', 'gym coach'] },
+      { slug: 'hairdressing', name: 'Hairdressing', synonyms: ['hairdresser', 'hair salon', 'hair stylist'] },
+      { slug: 'makeup-artists', name: 'Makeup Artists', synonyms: ['makeup', 'mua'] },
+      { slug: 'massage-therapists', name: 'Massage Therapists', synonyms: ['massage', 'masseuse'] },
+      { slug: 'mobile-spa', name: 'Mobile Spa', synonyms: ['spa'] },
+      { slug: 'nail-technicians', name: 'Nail Technicians', synonyms: ['nails', 'manicure', 'pedicure'] },
+      { slug: 'tattoo-artists', name: 'Tattoo Artists', synonyms: ['tattoo'] },
+    ],
+  },
+  {
+    slug: 'care',
+    name: 'Care & Family',
+    services: [
+      { slug: 'au-pair-services', name: 'Au Pair Services', synonyms: ['au pair'] },
+      { slug: 'babysitting', name: 'Babysitting', synonyms: ['babysitter'] },
+      { slug: 'elderly-care', name: 'Elderly Care', synonyms: ['caregiver', 'carer'] },
+      { slug: 'nannies', name: 'Nannies', synonyms: ['nanny'] },
+      { slug: 'special-needs-care', name: 'Special Needs Care', synonyms: ['special needs'] },
+    ],
+  },
+  {
+    slug: 'pets',
+    name: 'Pets',
+    services: [
+      { slug: 'dog-walking', name: 'Dog Walking', synonyms: ['dog walker'] },
+      { slug: 'pet-grooming', name: 'Pet Grooming', synonyms: ['dog grooming', 'groomer'] },
+      { slug: 'pet-services', name: 'Pet Services', synonyms: ['pet care'] },
+      { slug: 'pet-sitting', name: 'Pet Sitting', synonyms: ['pet sitter', 'house sitting'] },
+      { slug: 'pet-training', name: 'Pet Training', synonyms: ['dog trainer', 'puppy training'] },
+    ],
+  },
+  {
+    slug: 'education',
+    name: 'Lessons & Coaching',
+    services: [
+      { slug: 'academic-coaching', name: 'Academic Coaching', synonyms: ['study coach'] },
+      { slug: 'career-coaching', name: 'Career Coaching', synonyms: ['cv writing', 'career coach'] },
+      { slug: 'coding-lessons', name: 'Coding Lessons', synonyms: ['programming lessons', 'coding tutor'] },
+      { slug: 'driving-lessons', name: 'Driving Lessons', synonyms: ['driving instructor', 'driving school'] },
+      { slug: 'homework-assistants', name: 'Homework Assistants', synonyms: ['homework help'] },
+      { slug: 'language-tutoring', name: 'Language Tutoring', synonyms: ['language teacher'] },
+      { slug: 'life-coaching', name: 'Life Coaching', synonyms: ['life coach'] },
+      { slug: 'music-lessons', name: 'Music Lessons', synonyms: ['music teacher', 'piano lessons', 'guitar lessons'] },
+      { slug: 'tutoring', name: 'Tutoring', synonyms: ['tutor', 'extra lessons'], popular: true },
+    ],
+  },
+  {
+    slug: 'events',
+    name: 'Events & Entertainment',
+    services: [
+      { slug: 'bartending', name: 'Bartending', synonyms: ['bartender', 'mixologist'] },
+      { slug: 'catering', name: 'Catering', synonyms: ['caterer', 'chef'] },
+      { slug: 'dj-services', name: 'DJ Services', synonyms: ['dj'] },
+      { slug: 'decor-rentals', name: 'Decor & Rentals', synonyms: ['decor', 'tent hire', 'party hire'] },
+      { slug: 'event-planning', name: 'Event Planning', synonyms: ['event planner', 'wedding planner'] },
+      { slug: 'mc-host-services', name: 'MC / Host Services', synonyms: ['mc', 'master of ceremonies'] },
+      { slug: 'mobile-bar', name: 'Mobile Bar', synonyms: ['bar hire'] },
+      { slug: 'photography', name: 'Photography', synonyms: ['photographer'] },
+      { slug: 'sound-lighting', name: 'Sound & Lighting', synonyms: ['pa hire', 'sound engineer'] },
+      { slug: 'videography', name: 'Videography', synonyms: ['videographer'] },
+    ],
+  },
+  {
+    slug: 'transport',
+    name: 'Transport & Vehicles',
+    services: [
+      { slug: 'auto-repair', name: 'Auto Repair', synonyms: ['mechanic', 'car service', 'panel beater'], popular: true },
+      { slug: 'car-wash', name: 'Car Wash', synonyms: ['car valet', 'car detailing'] },
+      { slug: 'courier-delivery', name: 'Courier / Delivery', synonyms: ['courier', 'delivery'] },
+      { slug: 'moving-services', name: 'Moving Services', synonyms: ['movers', 'removals', 'bakkie hire'] },
+      { slug: 'ride-hailing-partner-drivers', name: 'Ride-hailing Partner Drivers', synonyms: ['driver', 'chauffeur'] },
+      { slug: 'shuttle-services', name: 'Shuttle Services', synonyms: ['shuttle', 'airport transfer'] },
+      { slug: 'vehicle-towing', name: 'Vehicle Towing', synonyms: ['tow truck', 'towing'] },
+    ],
+  },
+  {
+    slug: 'professional',
+    name: 'Business & Tech',
+    services: [
+      { slug: 'bookkeeping', name: 'Bookkeeping', synonyms: ['bookkeeper', 'accountant'] },
+      { slug: 'business-consulting', name: 'Business Consulting', synonyms: ['consultant'] },
+      { slug: 'digital-marketing', name: 'Digital Marketing', synonyms: ['social media manager', 'seo'] },
+      { slug: 'graphic-design', name: 'Graphic Design', synonyms: ['graphic designer', 'logo design'] },
+      { slug: 'hr-recruitment', name: 'HR / Recruitment', synonyms: ['recruiter'] },
+      { slug: 'it-support', name: 'IT Support', synonyms: ['computer repair', 'tech support', 'laptop repair'], popular: true },
+      { slug: 'virtual-assistants', name: 'Virtual Assistants', synonyms: ['virtual assistant', 'va'] },
+      { slug: 'web-development', name: 'Web Development', synonyms: ['web developer', 'website'] },
+    ],
+  },
+  {
+    slug: 'legal-property',
+    name: 'Legal & Property',
+    services: [
+      { slug: 'legal-services', name: 'Legal Services', synonyms: ['lawyer', 'attorney'] },
+      { slug: 'notary-services', name: 'Notary Services', synonyms: ['notary'] },
+      { slug: 'paralegals', name: 'Paralegals', synonyms: ['paralegal'] },
+      { slug: 'property-photography', name: 'Property Photography', synonyms: ['real estate photography'] },
+      { slug: 'property-valuers', name: 'Property Valuers', synonyms: ['valuer', 'property valuation'] },
+      { slug: 'real-estate-agents', name: 'Real Estate Agents', synonyms: ['estate agent', 'realtor'] },
+      { slug: 'translation-transcription', name: 'Translation & Transcription', synonyms: ['translator', 'transcription'] },
+    ],
+  },
+  {
+    slug: 'crafts',
+    name: 'Crafts & Alterations',
+    services: [
+      { slug: 'leather-work', name: 'Leather Work', synonyms: ['leather repair'] },
+      { slug: 'mural-painting', name: 'Mural Painting', synonyms: ['muralist'] },
+      { slug: 'shoe-repair', name: 'Shoe Repair', synonyms: ['cobbler'] },
+      { slug: 'tailoring-seamstress', name: 'Tailoring / Seamstress', synonyms: ['tailor', 'seamstress', 'alterations'] },
+    ],
+  },
+];
+
+// Matches the check in the normalize_provider_service_types trigger
+export const MAX_SERVICES_PER_PROVIDER = 5;
+
+export const ALL_SERVICES: ServiceDefinition[] = SERVICE_CATEGORIES
+  .flatMap(category => category.services)
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+export const POPULAR_SERVICES: string[] = ALL_SERVICES
+  .filter(service => service.popular)
+  .map(service => service.name);
+
+export const getServiceCategory = (serviceName: string): ServiceCategory | undefined => {
+  return SERVICE_CATEGORIES.find(category => category.services.some(service => service.name === serviceName));
+};
@@ -6,6 +6,7 @@ import ChatAssistant from '../components/chat/ChatAssistant';
 import Login from '../components/auth/Login';
 import Register from '../components/auth/Register';
 import ForgotPassword from '../components/auth/ForgotPassword';
+import { POPULAR_SERVICES } from '../lib/serviceCategories';
 
 interface HomepageProps {
   showAuth: boolean;
@@ -41,11 +42,6 @@ export default function Homepage({ showAuth, onAuthClick, onAuthClose }: Homepag
     }
   ];
 
-  const serviceTypes = [
-    'Plumbing', 'Electrical', 'Barbering', 'Cleaning', 'Carpentry', 
-    'Gardening', 'Painting', 'Auto Repair', 'IT Support', 'Tutoring'
-  ];
-
   const handleServiceClick = (service: string) => {
     if (user) {
       // User is logged in, they'll be redirected to dashboard automatically
@@ -217,7 +213,7 @@ export default function Homepage({ showAuth, onAuthClick, onAuthClose }: Homepag
           <div className="max-w-5xl mx-auto">
             <h3 className="text-2xl font-semibold text-white mb-8">Popular Services</h3>
             <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
-              {serviceTypes.map((service, index) => (
+              {POPULAR_SERVICES.map((service, index) => (
                 <div
                   key={service}
                   onClick={() => handleServiceClick(service)}
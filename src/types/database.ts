@@ -1,3 +1,5 @@
+import type { AvailabilityException, ProviderStatus, RatingAspect, ReportReason, ReportTargetType, SearchFacets, SearchSort, ServiceProvider, WeekDay, WeeklyAvailability } from './index';
+
 export interface Database {
   public: {
     Tables: {
@@ -7,6 +9,8 @@ export interface Database {
           email: string;
           name: string;
           role: 'user' | 'provider';
+          show_online_status: boolean;
+          show_last_seen: boolean;
           created_at: string;
           updated_at: string;
         };
@@ -15,6 +19,8 @@ export interface Database {
           email: string;
           name: string;
           role: 'user' | 'provider';
+          show_online_status?: boolean;
+          show_last_seen?: boolean;
           created_at?: string;
           updated_at?: string;
         };
@@ -23,6 +29,8 @@ export interface Database {
           email?: string;
           name?: string;
           role?: 'user' | 'provider';
+          show_online_status?: boolean;
+          show_last_seen?: boolean;
           created_at?: string;
           updated_at?: string;
         };
@@ -33,6 +41,7 @@ export interface Database {
           business_name: string | null;
           business_type: 'individual' | 'business';
           service_type: string;
+          service_types: string[];
           description: string;
           phone: string | null;
           address: string;
@@ -45,6 +54,10 @@ export interface Database {
           rating: number;
           review_count: number;
           total_rating_points: number;
+          quality_rating: number | null;
+          punctuality_rating: number | null;
+          value_rating: number | null;
+          communication_rating: number | null;
           created_at: string;
           updated_at: string;
         };
@@ -53,6 +66,7 @@ export interface Database {
           business_name?: string | null;
           business_type?: 'individual' | 'business';
           service_type?: string;
+          service_types?: string[];
           description?: string;
           phone?: string | null;
           address?: string;
@@ -73,6 +87,7 @@ export interface Database {
           business_name?: string | null;
           business_type?: 'individual' | 'business';
           service_type?: string;
+          service_types?: string[];
           description?: string;
           phone?: string | null;
           address?: string;
@@ -97,6 +112,18 @@ export interface Database {
           content: string;
           read: boolean;
           created_at: string;
+          message_type: 'text' | 'image' | 'file' | null;
+          file_url: string | null;
+          file_name: string | null;
+          file_size: number | null;
+          deleted_for_sender: boolean;
+          deleted_for_receiver: boolean;
+          deleted_for_all: boolean;
+          delivered_at: string | null;
+          read_at: string | null;
+          edited_at: string | null;
+          reply_to_id: string | null;
+          hidden_at: string | null;
         };
         Insert: {
           id?: string;
@@ -105,6 +132,18 @@ export interface Database {
           content: string;
           read?: boolean;
           created_at?: string;
+          message_type?: 'text' | 'image' | 'file' | null;
+          file_url?: string | null;
+          file_name?: string | null;
+          file_size?: number | null;
+          deleted_for_sender?: boolean;
+          deleted_for_receiver?: boolean;
+          deleted_for_all?: boolean;
+          delivered_at?: string | null;
+          read_at?: string | null;
+          edited_at?: string | null;
+          reply_to_id?: string | null;
+          hidden_at?: string | null;
         };
         Update: {
           id?: string;
@@ -113,6 +152,18 @@ export interface Database {
           content?: string;
           read?: boolean;
           created_at?: string;
+          message_type?: 'text' | 'image' | 'file' | null;
+          file_url?: string | null;
+          file_name?: string | null;
+          file_size?: number | null;
+          deleted_for_sender?: boolean;
+          deleted_for_receiver?: boolean;
+          deleted_for_all?: boolean;
+          delivered_at?: string | null;
+          read_at?: string | null;
+          edited_at?: string | null;
+          reply_to_id?: string | null;
+          hidden_at?: string | null;
         };
       };
       ratings: {
@@ -122,6 +173,13 @@ export interface Database {
           provider_id: string;
           rating: number;
           review: string | null;
+          verification: 'booking' | 'conversation' | null;
+          quality_rating: number | null;
+          punctuality_rating: number | null;
+          value_rating: number | null;
+          communication_rating: number | null;
+          photos: string[];
+          hidden_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -131,6 +189,13 @@ export interface Database {
           provider_id: string;
           rating: number;
           review?: string | null;
+          verification?: 'booking' | 'conversation' | null;
+          quality_rating?: number | null;
+          punctuality_rating?: number | null;
+          value_rating?: number | null;
+          communication_rating?: number | null;
+          photos?: string[];
+          hidden_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -140,10 +205,368 @@ export interface Database {
           provider_id?: string;
           rating?: number;
           review?: string | null;
+          verification?: 'booking' | 'conversation' | null;
+          quality_rating?: number | null;
+          punctuality_rating?: number | null;
+          value_rating?: number | null;
+          communication_rating?: number | null;
+          photos?: string[];
+          hidden_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
       };
+      service_categories: {
+        Row: {
+          slug: string;
+          name: string;
+          parent_slug: string | null;
+          synonyms: string[];
+          is_popular: boolean;
+          sort_order: number;
+          created_at: string;
+        };
+        Insert: {
+          slug: string;
+          name: string;
+          parent_slug?: string | null;
+          synonyms?: string[];
+          is_popular?: boolean;
+          sort_order?: number;
+          created_at?: string;
+        };
+        Update: {
+          slug?: string;
+          name?: string;
+          parent_slug?: string | null;
+          synonyms?: string[];
+          is_popular?: boolean;
+          sort_order?: number;
+          created_at?: string;
+        };
+      };
+      bookings: {
+        Row: {
+          id: string;
+          user_id: string;
+          provider_id: string;
+          booking_date: string;
+          start_time: string;
+          end_time: string;
+          status: 'requested' | 'confirmed' | 'declined' | 'cancelled' | 'completed';
+          notes: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          provider_id: string;
+          booking_date: string;
+          start_time: string;
+          end_time: string;
+          status?: 'requested' | 'confirmed' | 'declined' | 'cancelled' | 'completed';
+          notes?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          provider_id?: string;
+          booking_date?: string;
+          start_time?: string;
+          end_time?: string;
+          status?: 'requested' | 'confirmed' | 'declined' | 'cancelled' | 'completed';
+          notes?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      chat_message_edits: {
+        Row: {
+          id: string;
+          message_id: string;
+          previous_content: string;
+          edited_by: string;
+          edited_at: string;
+        };
+        Insert: {
+          id?: string;
+          message_id: string;
+          previous_content: string;
+          edited_by: string;
+          edited_at?: string;
+        };
+        Update: {
+          id?: string;
+          message_id?: string;
+          previous_content?: string;
+          edited_by?: string;
+          edited_at?: string;
+        };
+      };
+      user_last_seen: {
+        Row: {
+          user_id: string;
+          last_seen_at: string;
+        };
+        Insert: {
+          user_id: string;
+          last_seen_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          last_seen_at?: string;
+        };
+      };
+      rating_replies: {
+        Row: {
+          rating_id: string;
+          provider_id: string;
+          content: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          rating_id: string;
+          provider_id: string;
+          content: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          rating_id?: string;
+          provider_id?: string;
+          content?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      notifications: {
+        Row: {
+          id: string;
+          user_id: string;
+          type: string;
+          title: string;
+          body: string | null;
+          data: Record<string, string>;
+          read_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          type: string;
+          title: string;
+          body?: string | null;
+          data?: Record<string, string>;
+          read_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          type?: string;
+          title?: string;
+          body?: string | null;
+          data?: Record<string, string>;
+          read_at?: string | null;
+          created_at?: string;
+        };
+      };
+      reports: {
+        Row: {
+          id: string;
+          reporter_id: string;
+          target_type: ReportTargetType;
+          target_id: string;
+          reason: ReportReason;
+          details: string | null;
+          status: 'pending' | 'upheld' | 'dismissed';
+          resolved_by: string | null;
+          resolved_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          reporter_id: string;
+          target_type: ReportTargetType;
+          target_id: string;
+          reason: ReportReason;
+          details?: string | null;
+          status?: 'pending' | 'upheld' | 'dismissed';
+          resolved_by?: string | null;
+          resolved_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          reporter_id?: string;
+          target_type?: ReportTargetType;
+          target_id?: string;
+          reason?: ReportReason;
+          details?: string | null;
+          status?: 'pending' | 'upheld' | 'dismissed';
+          resolved_by?: string | null;
+          resolved_at?: string | null;
+          created_at?: string;
+        };
+      };
+    };
+    Functions: {
+      search_providers: {
+        Args: {
+          search_lat?: number | null;
+          search_lng?: number | null;
+          search_radius_km?: number | null;
+          search_keyword?: string | null;
+          search_service_type?: string | null;
+          available_now?: boolean;
+          include_outside_area?: boolean;
+          min_rating?: number | null;
+          min_reviews?: number | null;
+          min_experience?: number | null;
+          filter_business_type?: 'individual' | 'business' | null;
+          has_portfolio?: boolean;
+          has_certifications?: boolean;
+          open_on_day?: WeekDay | null;
+          rated_aspect?: RatingAspect | null;
+          min_aspect_rating?: number | null;
+          sort_by?: SearchSort;
+          page_size?: number;
+          // Sort fields of the last row of the previous page
+          after_cursor?: {
+            within_service_area: boolean | null;
+            search_rank: number | null;
+            distance_km: number | null;
+            rating: number;
+            review_count: number;
+            // Only the one being sorted on is read
+            quality_rating: number | null;
+            punctuality_rating: number | null;
+            value_rating: number | null;
+            communication_rating: number | null;
+            created_at: string;
+            id: string;
+          } | null;
+        };
+        Returns: {
+          id: string;
+          email: string;
+          name: string;
+          profile_image: string | null;
+          business_name: string | null;
+          business_type: 'individual' | 'business';
+          service_type: string;
+          service_types: string[] | null;
+          description: string;
+          phone: string | null;
+          website: string | null;
+          social_media: ServiceProvider['socialMedia'] | null;
+          specialties: string[] | null;
+          years_experience: number | null;
+          certifications: string[] | null;
+          address: string;
+          latitude: number;
+          longitude: number;
+          work_radius: number;
+          work_portfolio: string[] | null;
+          is_published: boolean;
+          rating: number;
+          review_count: number;
+          total_rating_points: number;
+          quality_rating: number | null;
+          punctuality_rating: number | null;
+          value_rating: number | null;
+          communication_rating: number | null;
+          availability: WeeklyAvailability | null;
+          availability_exceptions: AvailabilityException[] | null;
+          current_status: ProviderStatus | null;
+          timezone: string | null;
+          busy_until: string | null;
+          last_active_at: string | null;
+          created_at: string;
+          distance_km: number | null;
+          within_service_area: boolean | null;
+          search_rank: number | null;
+          search_snippet: string | null;
+          // Only set on the first page
+          total_count: number | null;
+        }[];
+      };
+      search_provider_facets: {
+        Args: Omit<Database['public']['Functions']['search_providers']['Args'], 'sort_by' | 'page_size' | 'after_cursor'>;
+        Returns: SearchFacets;
+      };
+      mark_messages_delivered: {
+        Args: Record<string, never>;
+        Returns: void;
+      };
+      mark_messages_read: {
+        Args: {
+          message_ids: string[];
+        };
+        Returns: void;
+      };
+      update_conversation_state: {
+        Args: {
+          other_user: string;
+          new_starred?: boolean | null;
+          new_archived?: boolean | null;
+          new_muted?: boolean | null;
+          new_pinned?: boolean | null;
+        };
+        Returns: void;
+      };
+      chat_message_edit_window: {
+        Args: Record<string, never>;
+        Returns: number;
+      };
+      touch_last_seen: {
+        Args: Record<string, never>;
+        Returns: void;
+      };
+      get_last_seen: {
+        Args: {
+          user_ids: string[];
+        };
+        Returns: {
+          user_id: string;
+          last_seen_at: string | null;
+          online: boolean;
+        }[];
+      };
+      is_admin: {
+        Args: Record<string, never>;
+        Returns: boolean;
+      };
+      get_report_queue: {
+        Args: Record<string, never>;
+        Returns: {
+          target_type: ReportTargetType;
+          target_id: string;
+          report_count: number;
+          reasons: ReportReason[];
+          details: string[];
+          first_reported_at: string;
+          last_reported_at: string;
+          content: string | null;
+          rating: number | null;
+          author_id: string | null;
+          author_name: string | null;
+          context_name: string | null;
+          hidden_at: string | null;
+        }[];
+      };
+      resolve_reports: {
+        Args: {
+          report_target_type: ReportTargetType;
+          report_target_id: string;
+          uphold: boolean;
+        };
+        Returns: void;
+      };
     };
   };
-}
\ No newline at end of file
+}
@@ -5,12 +5,20 @@ export interface User {
   role: 'user' | 'provider';
   createdAt: Date;
   profileImage?: string;
+  showOnlineStatus?: boolean;
+  showLastSeen?: boolean;
+}
+
+export interface PrivacySettings {
+  showOnlineStatus: boolean;
+  showLastSeen: boolean;
 }
 
 export interface ServiceProvider extends User {
   businessName?: string;
   businessType: 'individual' | 'business';
-  serviceType: string;
+  serviceType: string; // Primary service, one of the names in SERVICE_CATEGORIES
+  serviceTypes?: string[]; // All services offered, primary first
   description: string;
   phone?: string;
   website?: string;
@@ -37,16 +45,59 @@ export interface ServiceProvider extends User {
   rating?: number;
   reviewCount?: number;
   totalRatingPoints?: number; // Sum of all ratings for average calculation
-  availability?: {
-    monday: { start: string; end: string; available: boolean };
-    tuesday: { start: string; end: string; available: boolean };
-    wednesday: { start: string; end: string; available: boolean };
-    thursday: { start: string; end: string; available: boolean };
-    friday: { start: string; end: string; available: boolean };
-    saturday: { start: string; end: string; available: boolean };
-    sunday: { start: string; end: string; available: boolean };
-  };
-  currentStatus?: 'available' | 'busy' | 'offline';
+  aspectRatings?: RatingAspects; // Average per aspect over the reviews that scored it
+  availability?: WeeklyAvailability;
+  availabilityExceptions?: AvailabilityException[];
+  currentStatus?: ProviderStatus; // Manual setting; 'busy' and 'offline' override the schedule
+  timezone?: string; // IANA timezone the schedule is written in, e.g. Europe/London
+  busyUntil?: string | null; // ISO timestamp, shown as busy until then; null clears it
+  lastActiveAt?: string; // ISO timestamp of the provider's last session
+  distance?: number; // km from the search location, set by search results
+  withinServiceArea?: boolean; // Whether the search location is inside workRadius
+  searchSnippet?: string; // Matching description text with <mark> around the matched words
+}
+
+export type ProviderStatus = 'available' | 'busy' | 'offline';
+
+export type WeekDay = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+export interface TimeRange {
+  start: string; // HH:MM
+  end: string; // HH:MM
+}
+
+export interface DayAvailability {
+  start: string; // HH:MM, start of the first range
+  end: string; // HH:MM, end of the last range
+  available: boolean;
+  ranges?: TimeRange[]; // Split shifts, e.g. 08:00-12:00 and 14:00-18:00
+}
+
+export type WeeklyAvailability = Record<WeekDay, DayAvailability>;
+
+// Dated override of the weekly schedule (holidays, leave, extra opening days)
+export interface AvailabilityException {
+  date: string; // YYYY-MM-DD
+  available: boolean;
+  ranges: TimeRange[];
+  note?: string;
+}
+
+export type BookingStatus = 'requested' | 'confirmed' | 'declined' | 'cancelled' | 'completed';
+
+export interface Booking {
+  id: string;
+  userId: string;
+  providerId: string;
+  bookingDate: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+  status: BookingStatus;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  userName: string;
+  providerName: string;
 }
 
 export interface Service {
@@ -62,10 +113,62 @@ export interface ChatMessage {
   content: string;
   timestamp: Date;
   read: boolean;
+  deliveredAt?: Date;
+  readAt?: Date;
+  editedAt?: Date;
+  replyToId?: string;
+  replyTo?: MessageReplyPreview;
   messageType?: 'text' | 'image' | 'file';
-  fileUrl?: string;
+  fileUrl?: string; // Path in the chat-attachments bucket
   fileName?: string;
   fileSize?: number;
+  hidden?: boolean; // Hidden after reports; the content is no longer returned
+}
+
+// The quoted message shown above a reply
+export interface MessageReplyPreview {
+  senderId?: string;
+  content?: string;
+  messageType?: 'text' | 'image' | 'file';
+  fileName?: string;
+  deleted: boolean; // Deleted for everyone, so only the placeholder is shown
+}
+
+// A previous version of an edited message
+export interface MessageEdit {
+  id: string;
+  messageId: string;
+  previousContent: string;
+  editedAt: Date;
+}
+
+// Per-user flags of a conversation, stored on conversation_participants
+export interface ConversationState {
+  starred: boolean;
+  archived: boolean;
+  muted: boolean;
+  pinned: boolean;
+}
+
+// One inbox row from get_conversation_summaries
+export interface ConversationSummary {
+  participant: User | ServiceProvider;
+  lastMessage: ChatMessage;
+  unreadCount: number;
+  isStarred: boolean;
+  isArchived: boolean;
+  isMuted: boolean;
+  isPinned: boolean;
+}
+
+// A message matching a search, with the matches marked in the snippet
+export interface MessageSearchResult {
+  messageId: string;
+  participantId: string;
+  participantName: string;
+  senderId: string;
+  snippet: string;
+  timestamp: Date;
 }
 
 export interface Rating {
@@ -76,6 +179,54 @@ export interface Rating {
   review?: string;
   timestamp: Date;
   userName: string;
+  verification?: 'booking' | 'conversation'; // Set for verified customers
+  aspects?: RatingAspects; // Optional 1-5 scores next to the overall rating
+  photos?: string[]; // Object paths in the review-photos bucket
+  reply?: RatingReply;
+  hidden?: boolean; // Hidden after reports; only returned to the reviewer
+}
+
+export type RatingAspect = 'quality' | 'punctuality' | 'value' | 'communication';
+
+// Only the aspects that were scored
+export type RatingAspects = Partial<Record<RatingAspect, number>>;
+
+// The reviewed provider's public answer to a review
+export interface RatingReply {
+  content: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ReportTargetType = 'rating' | 'message';
+
+export type ReportReason = 'spam' | 'harassment' | 'hate_speech' | 'inappropriate' | 'personal_info' | 'fake' | 'other';
+
+// One reported review or message with its pending reports, from get_report_queue
+export interface ReportQueueItem {
+  targetType: ReportTargetType;
+  targetId: string;
+  reportCount: number;
+  reasons: ReportReason[];
+  details: string[];
+  firstReportedAt: Date;
+  lastReportedAt: Date;
+  content?: string;
+  rating?: number; // Stars of a reported review
+  authorId?: string;
+  authorName?: string;
+  contextName?: string; // The reviewed provider, or the receiver of the message
+  hidden: boolean;
+}
+
+export interface UserNotification {
+  id: string;
+  type: string; // e.g. 'review_reply'
+  title: string;
+  body?: string;
+  data: Record<string, string>; // Ids of the related items
+  readAt?: Date;
+  createdAt: Date;
 }
 
 export interface AuthContextType {
@@ -87,19 +238,31 @@ export interface AuthContextType {
   resetPassword: (email: string) => Promise<boolean>;
   changePassword: (currentPassword: string, newPassword: string) => Promise<boolean>;
   updateUserProfile: (data: { name: string; email: string; profileImage: string }) => Promise<boolean>;
+  updatePrivacySettings: (settings: PrivacySettings) => Promise<boolean>;
   updateProfile: (data: Partial<ServiceProvider>) => Promise<boolean>;
   getPublishedProviders: () => ServiceProvider[];
   getTopRatedProviders: () => ServiceProvider[];
-  sendMessage: (receiverId: string, content: string) => Promise<void>;
-  getConversation: (userId1: string, userId2: string) => Promise<ChatMessage[]>;
+  sendMessage: (receiverId: string, content: string, replyToId?: string) => Promise<void>;
+  sendAttachment: (receiverId: string, file: File) => Promise<void>;
+  getConversation: (userId1: string, userId2: string, before?: ChatMessage, limit?: number) => Promise<ChatMessage[]>;
   markMessagesAsRead: (senderId: string, receiverId: string) => Promise<void>;
   deleteConversation: (otherUserId: string) => Promise<boolean>;
+  updateConversationState: (otherUserId: string, state: Partial<ConversationState>) => Promise<boolean>;
   deleteMessage: (messageId: string, deleteType: 'delete-for-me' | 'delete-for-all') => Promise<boolean>;
+  editMessage: (messageId: string, content: string) => Promise<void>;
+  getMessageEditHistory: (messageId: string) => Promise<MessageEdit[]>;
   getUserById: (id: string) => Promise<User | ServiceProvider | undefined>;
-  rateProvider: (providerId: string, rating: number, review?: string) => Promise<boolean>;
+  rateProvider: (providerId: string, rating: number, review?: string, aspects?: RatingAspects, photos?: (string | File)[]) => Promise<boolean>;
   getProviderRatings: (providerId: string) => Promise<Rating[]>;
   getUserRating: (userId: string, providerId: string) => Promise<Rating | undefined>;
+  canRateProvider: (providerId: string) => Promise<boolean>;
   deleteRating: (ratingId: string) => Promise<boolean>;
+  replyToRating: (ratingId: string, content: string) => Promise<boolean>;
+  deleteRatingReply: (ratingId: string) => Promise<boolean>;
+  createBooking: (providerId: string, bookingDate: string, startTime: string, endTime: string, notes?: string) => Promise<void>;
+  getBookings: () => Promise<Booking[]>;
+  updateBookingStatus: (bookingId: string, status: BookingStatus) => Promise<boolean>;
+  rescheduleBooking: (bookingId: string, bookingDate: string, startTime: string, endTime: string) => Promise<void>;
 }
 
 export interface RegisterData {
@@ -109,9 +272,51 @@ export interface RegisterData {
   role: 'user' | 'provider';
 }
 
+export interface ServiceDefinition {
+  slug: string;
+  name: string;
+  synonyms: string[]; // Lowercase search terms that should find this service, e.g. "sparky"
+  popular?: boolean; // Shown on the homepage and dashboard shortcuts
+}
+
+export interface ServiceCategory {
+  slug: string;
+  name: string;
+  services: ServiceDefinition[];
+}
+
+export type SearchSort = 'relevance' | 'distance' | 'rating' | 'newest' | RatingAspect;
+
 export interface SearchFilters {
   keyword: string;
   location: string;
   radius: number;
-  serviceType?: string;
+  serviceType?: string; // Service or category name
+  availableNow?: boolean;
+  includeOutsideArea?: boolean; // Also return providers whose work radius doesn't reach the customer
+  minRating?: number;
+  minReviews?: number;
+  minExperience?: number; // Years
+  businessType?: 'individual' | 'business';
+  hasPortfolio?: boolean;
+  hasCertifications?: boolean;
+  openOn?: WeekDay;
+  ratedAspect?: RatingAspect;
+  minAspectRating?: number; // Only applies together with ratedAspect
+  sortBy?: SearchSort;
+}
+
+// Counts from search_provider_facets; each option counts the providers that
+// would match if it were picked, keeping the other filters as they are
+export interface SearchFacets {
+  total: number;
+  rating: Record<string, number>; // Keyed by minimum rating, e.g. "4.5"
+  aspects: Record<RatingAspect, Record<string, number>>; // Keyed by aspect, then minimum rating
+  reviews: Record<string, number>; // Keyed by minimum review count
+  experience: Record<string, number>; // Keyed by minimum years
+  business_type: Record<'individual' | 'business', number>;
+  open_on: Record<WeekDay, number>;
+  has_portfolio: number;
+  has_certifications: number;
+  available_now: number;
 }
\ No newline at end of file
@@ -0,0 +1,235 @@
+/*
+  # Add bookings and appointment requests
+
+  1. New Tables
+    - `bookings` - Appointment requests from users to service providers
+      - `booking_date` (date) - Day of the appointment
+      - `start_time` / `end_time` (text) - Slot in HH:MM format, same as availability
+      - `status` (text) - requested, confirmed, declined, cancelled or completed
+      - `notes` (text) - Optional details from the customer
+
+  2. Validation
+    - `is_within_availability` checks a slot against the provider's weekly schedule,
+      reusing `validate_availability` so malformed schedules never accept bookings
+    - Trigger rejects slots outside working hours, in the past or overlapping
+      another active booking, and enforces who may change the status
+
+  3. Security
+    - Enable RLS on bookings
+    - Users and providers can only see and update their own bookings
+    - Only users can create booking requests
+*/
+
+-- Create bookings table
+CREATE TABLE IF NOT EXISTS bookings (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  provider_id uuid NOT NULL REFERENCES service_providers(id) ON DELETE CASCADE,
+  booking_date date NOT NULL,
+  start_time text NOT NULL,
+  end_time text NOT NULL,
+  status text NOT NULL DEFAULT 'requested' CHECK (status IN ('requested', 'confirmed', 'declined', 'cancelled', 'completed')),
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (user_id <> provider_id)
+);
+
+-- Enable RLS on bookings
+ALTER TABLE bookings ENABLE ROW LEVEL SECURITY;
+
+-- Bookings policies
+CREATE POLICY "Participants can read their bookings"
+  ON bookings FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id OR auth.uid() = provider_id);
+
+CREATE POLICY "Users can request bookings"
+  ON bookings FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND status = 'requested');
+
+CREATE POLICY "Participants can update their bookings"
+  ON bookings FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id OR auth.uid() = provider_id)
+  WITH CHECK (auth.uid() = user_id OR auth.uid() = provider_id);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_bookings_provider_date ON bookings(provider_id, booking_date);
+CREATE INDEX IF NOT EXISTS idx_bookings_user ON bookings(user_id, booking_date DESC);
+CREATE INDEX IF NOT EXISTS idx_bookings_status ON bookings(status);
+
+-- Convert HH:MM text to minutes since midnight
+CREATE OR REPLACE FUNCTION time_to_minutes(time_value text)
+RETURNS integer
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  RETURN (split_part(time_value, ':', 1)::integer * 60) + split_part(time_value, ':', 2)::integer;
+END;
+$$;
+
+-- Check that a slot falls inside the provider's working hours for that day
+CREATE OR REPLACE FUNCTION is_within_availability(
+  availability_data jsonb,
+  slot_date date,
+  slot_start text,
+  slot_end text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  day_data jsonb;
+BEGIN
+  -- An empty schedule is valid for profiles but cannot accept bookings
+  IF availability_data IS NULL OR availability_data = '{}'::jsonb THEN
+    RETURN false;
+  END IF;
+
+  IF NOT validate_availability(availability_data) THEN
+    RETURN false;
+  END IF;
+
+  -- Validate slot time format (HH:MM), same rule as the schedule itself
+  IF NOT (slot_start ~ '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$' AND
+          slot_end ~ '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$') THEN
+    RETURN false;
+  END IF;
+
+  IF time_to_minutes(slot_end) <= time_to_minutes(slot_start) THEN
+    RETURN false;
+  END IF;
+
+  day_data := availability_data -> to_char(slot_date, 'FMday');
+
+  IF NOT (day_data ->> 'available')::boolean THEN
+    RETURN false;
+  END IF;
+
+  RETURN time_to_minutes(slot_start) >= time_to_minutes(day_data ->> 'start')
+     AND time_to_minutes(slot_end) <= time_to_minutes(day_data ->> 'end');
+END;
+$$;
+
+-- Validate booking slots and status changes
+CREATE OR REPLACE FUNCTION validate_booking_trigger()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  provider_availability jsonb;
+  slot_changed boolean;
+BEGIN
+  slot_changed := TG_OP = 'INSERT'
+    OR NEW.booking_date IS DISTINCT FROM OLD.booking_date
+    OR NEW.start_time IS DISTINCT FROM OLD.start_time
+    OR NEW.end_time IS DISTINCT FROM OLD.end_time;
+
+  IF TG_OP = 'UPDATE' THEN
+    -- Closed bookings cannot be reopened or moved
+    IF OLD.status IN ('declined', 'cancelled', 'completed') THEN
+      RAISE EXCEPTION 'This booking is % and can no longer be changed.', OLD.status;
+    END IF;
+
+    IF NEW.user_id <> OLD.user_id OR NEW.provider_id <> OLD.provider_id THEN
+      RAISE EXCEPTION 'Booking participants cannot be changed.';
+    END IF;
+
+    -- Customers may only cancel; providers manage the rest of the lifecycle
+    IF NEW.status <> OLD.status THEN
+      IF auth.uid() = OLD.user_id AND NEW.status <> 'cancelled' THEN
+        RAISE EXCEPTION 'Customers can only cancel a booking.';
+      END IF;
+
+      IF auth.uid() = OLD.provider_id AND NEW.status = 'requested' THEN
+        RAISE EXCEPTION 'Invalid booking status change.';
+      END IF;
+
+      IF NEW.status = 'completed' AND OLD.status <> 'confirmed' THEN
+        RAISE EXCEPTION 'Only confirmed bookings can be marked as completed.';
+      END IF;
+    END IF;
+
+    -- A rescheduled booking needs to be confirmed again
+    IF slot_changed THEN
+      NEW.status := 'requested';
+    END IF;
+  END IF;
+
+  IF slot_changed THEN
+    IF NEW.booking_date < current_date THEN
+      RAISE EXCEPTION 'Bookings cannot be made for a date in the past.';
+    END IF;
+
+    SELECT availability INTO provider_availability
+    FROM service_providers
+    WHERE id = NEW.provider_id;
+
+    IF NOT is_within_availability(provider_availability, NEW.booking_date, NEW.start_time, NEW.end_time) THEN
+      RAISE EXCEPTION 'The requested time is outside the provider''s working hours.';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM bookings b
+      WHERE b.provider_id = NEW.provider_id
+        AND b.booking_date = NEW.booking_date
+        AND b.id <> NEW.id
+        AND b.status IN ('requested', 'confirmed')
+        AND time_to_minutes(b.start_time) < time_to_minutes(NEW.end_time)
+        AND time_to_minutes(b.end_time) > time_to_minutes(NEW.start_time)
+    ) THEN
+      RAISE EXCEPTION 'This time slot is already booked. Please choose another time.';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Create triggers for bookings
+DROP TRIGGER IF EXISTS validate_booking_trigger ON bookings;
+CREATE TRIGGER validate_booking_trigger
+  BEFORE INSERT OR UPDATE ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_booking_trigger();
+
+DROP TRIGGER IF EXISTS update_bookings_updated_at ON bookings;
+CREATE TRIGGER update_bookings_updated_at
+  BEFORE UPDATE ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Expose taken slots for a provider without revealing who booked them
+CREATE OR REPLACE FUNCTION get_provider_booked_slots(target_provider_id uuid, target_date date)
+RETURNS TABLE (
+  start_time text,
+  end_time text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT b.start_time, b.end_time
+  FROM bookings b
+  WHERE b.provider_id = target_provider_id
+    AND b.booking_date = target_date
+    AND b.status IN ('requested', 'confirmed')
+  ORDER BY time_to_minutes(b.start_time);
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION time_to_minutes(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_within_availability(jsonb, date, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_provider_booked_slots(uuid, date) TO authenticated;
+
+-- Add helpful comments
+COMMENT ON TABLE bookings IS 'Appointment requests between users and service providers';
+COMMENT ON COLUMN bookings.start_time IS 'Slot start in HH:MM, matching the availability schedule format';
+COMMENT ON COLUMN bookings.status IS 'Booking status: requested, confirmed, declined, cancelled or completed';
@@ -0,0 +1,416 @@
+/*
+  # Split shifts and dated availability exceptions
+
+  1. Schema
+    - Days in `availability` may carry a `ranges` array for split shifts
+      (e.g. 08:00-12:00 and 14:00-18:00); `start`/`end` stay as the outer bounds
+    - New `availability_exceptions` (jsonb) column holding dated overrides:
+      [{ "date": "2025-12-24", "available": false, "ranges": [], "note": "Closed" }]
+
+  2. Validation
+    - `validate_time_ranges` checks format, order and overlaps of a ranges array
+    - `validate_availability` now also validates per-day ranges and checks
+      that they lie within the day's `start`/`end`
+    - `validate_availability_exceptions` validates the overrides array
+    - `get_schedule_ranges` resolves the working ranges for a date, exceptions first
+
+  3. Bookings
+    - `is_within_availability` takes the exceptions into account so bookings on
+      holidays are rejected and bookings on extra opening days are accepted
+*/
+
+-- Add availability_exceptions column
+ALTER TABLE service_providers
+ADD COLUMN IF NOT EXISTS availability_exceptions jsonb DEFAULT '[]'::jsonb;
+
+UPDATE service_providers
+SET availability_exceptions = '[]'::jsonb
+WHERE availability_exceptions IS NULL;
+
+-- Validate an array of { start, end } ranges in HH:MM format
+CREATE OR REPLACE FUNCTION validate_time_ranges(ranges_data jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  range_data jsonb;
+  previous_end integer := -1;
+  start_time text;
+  end_time text;
+BEGIN
+  IF ranges_data IS NULL OR jsonb_typeof(ranges_data) <> 'array' THEN
+    RETURN false;
+  END IF;
+
+  FOR range_data IN SELECT jsonb_array_elements(ranges_data)
+  LOOP
+    IF NOT (range_data ? 'start' AND range_data ? 'end') THEN
+      RETURN false;
+    END IF;
+
+    start_time := range_data ->> 'start';
+    end_time := range_data ->> 'end';
+
+    IF NOT (start_time ~ '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$' AND
+            end_time ~ '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$') THEN
+      RETURN false;
+    END IF;
+
+    -- Ranges must be ordered and must not overlap
+    IF time_to_minutes(end_time) <= time_to_minutes(start_time)
+       OR time_to_minutes(start_time) < previous_end THEN
+      RETURN false;
+    END IF;
+
+    previous_end := time_to_minutes(end_time);
+  END LOOP;
+
+  RETURN true;
+END;
+$$;
+
+-- Availability validation with optional split shifts
+CREATE OR REPLACE FUNCTION validate_availability(availability_data jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  day_name text;
+  day_data jsonb;
+  required_days text[] := ARRAY['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+  start_time text;
+  end_time text;
+BEGIN
+  -- Allow null or empty object
+  IF availability_data IS NULL OR availability_data = '{}'::jsonb THEN
+    RETURN true;
+  END IF;
+
+  FOREACH day_name IN ARRAY required_days
+  LOOP
+    IF NOT (availability_data ? day_name) THEN
+      RETURN false;
+    END IF;
+
+    day_data := availability_data -> day_name;
+
+    IF NOT (day_data ? 'available' AND day_data ? 'start' AND day_data ? 'end') THEN
+      RETURN false;
+    END IF;
+
+    IF NOT (jsonb_typeof(day_data -> 'available') = 'boolean') THEN
+      RETURN false;
+    END IF;
+
+    IF NOT (jsonb_typeof(day_data -> 'start') = 'string' AND jsonb_typeof(day_data -> 'end') = 'string') THEN
+      RETURN false;
+    END IF;
+
+    start_time := day_data ->> 'start';
+    end_time := day_data ->> 'end';
+
+    IF NOT (start_time ~ '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$' AND
+            end_time ~ '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$') THEN
+      RETURN false;
+    END IF;
+
+    IF (day_data ->> 'available')::boolean = true THEN
+      IF time_to_minutes(end_time) <= time_to_minutes(start_time) THEN
+        RETURN false;
+      END IF;
+
+      IF day_data ? 'ranges' AND NOT validate_time_ranges(day_data -> 'ranges') THEN
+        RETURN false;
+      END IF;
+
+      -- start/end are the outer bounds of the day's ranges
+      IF day_data ? 'ranges' AND EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(day_data -> 'ranges') r
+        WHERE time_to_minutes(r ->> 'start') < time_to_minutes(start_time)
+           OR time_to_minutes(r ->> 'end') > time_to_minutes(end_time)
+      ) THEN
+        RETURN false;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN true;
+END;
+$$;
+
+-- Validate dated overrides of the weekly schedule
+CREATE OR REPLACE FUNCTION validate_availability_exceptions(exceptions_data jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  exception_data jsonb;
+  seen_dates text[] := ARRAY[]::text[];
+  exception_date text;
+BEGIN
+  IF exceptions_data IS NULL OR exceptions_data = '[]'::jsonb THEN
+    RETURN true;
+  END IF;
+
+  IF jsonb_typeof(exceptions_data) <> 'array' THEN
+    RETURN false;
+  END IF;
+
+  FOR exception_data IN SELECT jsonb_array_elements(exceptions_data)
+  LOOP
+    IF NOT (exception_data ? 'date' AND exception_data ? 'available') THEN
+      RETURN false;
+    END IF;
+
+    IF NOT (jsonb_typeof(exception_data -> 'available') = 'boolean') THEN
+      RETURN false;
+    END IF;
+
+    exception_date := exception_data ->> 'date';
+
+    IF NOT (exception_date ~ '^[0-9]{4}-[0-9]{2}-[0-9]{2}$') THEN
+      RETURN false;
+    END IF;
+
+    -- One override per date
+    IF exception_date = ANY(seen_dates) THEN
+      RETURN false;
+    END IF;
+    seen_dates := array_append(seen_dates, exception_date);
+
+    IF (exception_data ->> 'available')::boolean = true THEN
+      IF NOT (exception_data ? 'ranges')
+         OR jsonb_array_length(exception_data -> 'ranges') = 0
+         OR NOT validate_time_ranges(exception_data -> 'ranges') THEN
+        RETURN false;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN true;
+END;
+$$;
+
+-- Resolve the working ranges for a date; an empty array means closed
+CREATE OR REPLACE FUNCTION get_schedule_ranges(
+  availability_data jsonb,
+  exceptions_data jsonb,
+  target_date date
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  exception_data jsonb;
+  day_data jsonb;
+BEGIN
+  SELECT e INTO exception_data
+  FROM jsonb_array_elements(COALESCE(exceptions_data, '[]'::jsonb)) e
+  WHERE e ->> 'date' = to_char(target_date, 'YYYY-MM-DD')
+  LIMIT 1;
+
+  IF exception_data IS NOT NULL THEN
+    IF (exception_data ->> 'available')::boolean THEN
+      RETURN exception_data -> 'ranges';
+    END IF;
+    RETURN '[]'::jsonb;
+  END IF;
+
+  IF availability_data IS NULL OR availability_data = '{}'::jsonb THEN
+    RETURN '[]'::jsonb;
+  END IF;
+
+  day_data := availability_data -> to_char(target_date, 'FMday');
+
+  IF day_data IS NULL OR NOT (day_data ->> 'available')::boolean THEN
+    RETURN '[]'::jsonb;
+  END IF;
+
+  IF day_data ? 'ranges' AND jsonb_array_length(day_data -> 'ranges') > 0 THEN
+    RETURN day_data -> 'ranges';
+  END IF;
+
+  RETURN jsonb_build_array(jsonb_build_object('start', day_data ->> 'start', 'end', day_data ->> 'end'));
+END;
+$$;
+
+-- Replace the weekly-only slot check with one that respects exceptions
+DROP FUNCTION IF EXISTS is_within_availability(jsonb, date, text, text);
+
+CREATE OR REPLACE FUNCTION is_within_availability(
+  availability_data jsonb,
+  exceptions_data jsonb,
+  slot_date date,
+  slot_start text,
+  slot_end text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  -- An empty schedule is valid for profiles but cannot accept bookings
+  IF availability_data IS NULL OR availability_data = '{}'::jsonb THEN
+    RETURN false;
+  END IF;
+
+  IF NOT validate_availability(availability_data) OR NOT validate_availability_exceptions(exceptions_data) THEN
+    RETURN false;
+  END IF;
+
+  IF NOT (slot_start ~ '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$' AND
+          slot_end ~ '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$') THEN
+    RETURN false;
+  END IF;
+
+  IF time_to_minutes(slot_end) <= time_to_minutes(slot_start) THEN
+    RETURN false;
+  END IF;
+
+  -- The slot must fit entirely inside one working range
+  RETURN EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(get_schedule_ranges(availability_data, exceptions_data, slot_date)) r
+    WHERE time_to_minutes(slot_start) >= time_to_minutes(r ->> 'start')
+      AND time_to_minutes(slot_end) <= time_to_minutes(r ->> 'end')
+  );
+END;
+$$;
+
+-- Booking validation using the exception-aware slot check
+CREATE OR REPLACE FUNCTION validate_booking_trigger()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  provider_availability jsonb;
+  provider_exceptions jsonb;
+  slot_changed boolean;
+BEGIN
+  slot_changed := TG_OP = 'INSERT'
+    OR NEW.booking_date IS DISTINCT FROM OLD.booking_date
+    OR NEW.start_time IS DISTINCT FROM OLD.start_time
+    OR NEW.end_time IS DISTINCT FROM OLD.end_time;
+
+  IF TG_OP = 'UPDATE' THEN
+    -- Closed bookings cannot be reopened or moved
+    IF OLD.status IN ('declined', 'cancelled', 'completed') THEN
+      RAISE EXCEPTION 'This booking is % and can no longer be changed.', OLD.status;
+    END IF;
+
+    IF NEW.user_id <> OLD.user_id OR NEW.provider_id <> OLD.provider_id THEN
+      RAISE EXCEPTION 'Booking participants cannot be changed.';
+    END IF;
+
+    -- Customers may only cancel; providers manage the rest of the lifecycle
+    IF NEW.status <> OLD.status THEN
+      IF auth.uid() = OLD.user_id AND NEW.status <> 'cancelled' THEN
+        RAISE EXCEPTION 'Customers can only cancel a booking.';
+      END IF;
+
+      IF auth.uid() = OLD.provider_id AND NEW.status = 'requested' THEN
+        RAISE EXCEPTION 'Invalid booking status change.';
+      END IF;
+
+      IF NEW.status = 'completed' AND OLD.status <> 'confirmed' THEN
+        RAISE EXCEPTION 'Only confirmed bookings can be marked as completed.';
+      END IF;
+    END IF;
+
+    -- A rescheduled booking needs to be confirmed again
+    IF slot_changed THEN
+      NEW.status := 'requested';
+    END IF;
+  END IF;
+
+  IF slot_changed THEN
+    IF NEW.booking_date < current_date THEN
+      RAISE EXCEPTION 'Bookings cannot be made for a date in the past.';
+    END IF;
+
+    SELECT availability, availability_exceptions
+    INTO provider_availability, provider_exceptions
+    FROM service_providers
+    WHERE id = NEW.provider_id;
+
+    IF NOT is_within_availability(provider_availability, provider_exceptions, NEW.booking_date, NEW.start_time, NEW.end_time) THEN
+      RAISE EXCEPTION 'The requested time is outside the provider''s working hours.';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM bookings b
+      WHERE b.provider_id = NEW.provider_id
+        AND b.booking_date = NEW.booking_date
+        AND b.id <> NEW.id
+        AND b.status IN ('requested', 'confirmed')
+        AND time_to_minutes(b.start_time) < time_to_minutes(NEW.end_time)
+        AND time_to_minutes(b.end_time) > time_to_minutes(NEW.start_time)
+    ) THEN
+      RAISE EXCEPTION 'This time slot is already booked. Please choose another time.';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Provider field validation including availability exceptions
+CREATE OR REPLACE FUNCTION validate_provider_fields_trigger()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Validate availability
+  IF NEW.availability IS NOT NULL THEN
+    IF NOT validate_availability(NEW.availability) THEN
+      RAISE EXCEPTION 'Invalid availability schedule. Please ensure all days have proper time format (HH:MM), end times are after start times, and time ranges do not overlap and fall within the day''s start and end times.';
+    END IF;
+  END IF;
+
+  -- Validate availability exceptions
+  IF NEW.availability_exceptions IS NOT NULL THEN
+    IF NOT validate_availability_exceptions(NEW.availability_exceptions) THEN
+      RAISE EXCEPTION 'Invalid availability exceptions. Each date can only have one override and open days need valid, non-overlapping time ranges.';
+    END IF;
+  END IF;
+
+  -- Validate website URL
+  IF NEW.website IS NOT NULL AND NEW.website != '' THEN
+    IF NOT validate_website_url(NEW.website) THEN
+      RAISE EXCEPTION 'Invalid website URL. Please enter a valid URL (e.g., https://example.com or example.com).';
+    END IF;
+  END IF;
+
+  -- Validate social media
+  IF NEW.social_media IS NOT NULL THEN
+    IF NOT validate_social_media(NEW.social_media) THEN
+      RAISE EXCEPTION 'Invalid social media data. Please check your social media links and handles.';
+    END IF;
+  END IF;
+
+  -- Validate years of experience
+  IF NEW.years_experience IS NOT NULL THEN
+    IF NEW.years_experience < 0 OR NEW.years_experience > 100 THEN
+      RAISE EXCEPTION 'Years of experience must be between 0 and 100.';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION validate_time_ranges(jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION validate_availability_exceptions(jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_schedule_ranges(jsonb, jsonb, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_within_availability(jsonb, jsonb, date, text, text) TO authenticated;
+
+-- Add helpful comments
+COMMENT ON COLUMN service_providers.availability IS 'Weekly availability schedule in JSON format; days may include a ranges array for split shifts';
+COMMENT ON COLUMN service_providers.availability_exceptions IS 'Dated overrides of the weekly schedule (holidays, leave, extra opening days)';
@@ -0,0 +1,139 @@
+/*
+  # Automatic provider status
+
+  1. Schema
+    - `timezone` (text) - IANA timezone the provider's schedule is written in
+    - `busy_until` (timestamptz) - Provider shows as busy until this time
+    - `last_active_at` (timestamptz) - Refreshed whenever the provider signs in
+
+  2. Status
+    - `effective_status` computes the live status from the manual setting, the
+      busy timer, inactivity and the working hours in the provider's timezone.
+      It takes a service_providers row, so the API exposes it as a computed
+      column that search can filter on (`effective_status=eq.available`)
+    - Matches `getEffectiveStatus` in src/lib/availability.ts
+
+  3. Validation
+    - Provider trigger rejects unknown timezone names
+*/
+
+-- Add status columns
+ALTER TABLE service_providers
+ADD COLUMN IF NOT EXISTS timezone text,
+ADD COLUMN IF NOT EXISTS busy_until timestamptz,
+ADD COLUMN IF NOT EXISTS last_active_at timestamptz DEFAULT now();
+
+UPDATE service_providers
+SET last_active_at = COALESCE(updated_at, now())
+WHERE last_active_at IS NULL;
+
+-- Live status used by search and provider cards
+CREATE OR REPLACE FUNCTION effective_status(provider service_providers)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  local_now timestamp;
+  local_minutes integer;
+BEGIN
+  IF provider.current_status = 'offline' THEN
+    RETURN 'offline';
+  END IF;
+
+  -- Providers who have not signed in for a week are treated as offline
+  IF provider.last_active_at IS NOT NULL AND provider.last_active_at < now() - interval '7 days' THEN
+    RETURN 'offline';
+  END IF;
+
+  IF provider.busy_until IS NOT NULL AND provider.busy_until > now() THEN
+    RETURN 'busy';
+  END IF;
+
+  IF provider.current_status = 'busy' THEN
+    RETURN 'busy';
+  END IF;
+
+  IF provider.availability IS NULL OR provider.availability = '{}'::jsonb THEN
+    RETURN 'available';
+  END IF;
+
+  local_now := now() AT TIME ZONE COALESCE(provider.timezone, 'UTC');
+  local_minutes := extract(hour FROM local_now)::integer * 60 + extract(minute FROM local_now)::integer;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(get_schedule_ranges(provider.availability, provider.availability_exceptions, local_now::date)) r
+    WHERE local_minutes >= time_to_minutes(r ->> 'start')
+      AND local_minutes < time_to_minutes(r ->> 'end')
+  ) THEN
+    RETURN 'available';
+  END IF;
+
+  RETURN 'offline';
+END;
+$$;
+
+-- Provider field validation including timezone
+CREATE OR REPLACE FUNCTION validate_provider_fields_trigger()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Validate availability
+  IF NEW.availability IS NOT NULL THEN
+    IF NOT validate_availability(NEW.availability) THEN
+      RAISE EXCEPTION 'Invalid availability schedule. Please ensure all days have proper time format (HH:MM), end times are after start times and time ranges do not overlap.';
+    END IF;
+  END IF;
+
+  -- Validate availability exceptions
+  IF NEW.availability_exceptions IS NOT NULL THEN
+    IF NOT validate_availability_exceptions(NEW.availability_exceptions) THEN
+      RAISE EXCEPTION 'Invalid availability exceptions. Each date can only have one override and open days need valid, non-overlapping time ranges.';
+    END IF;
+  END IF;
+
+  -- Validate timezone
+  IF NEW.timezone IS NOT NULL THEN
+    IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+      RAISE EXCEPTION 'Unknown timezone "%". Please use a timezone name such as Europe/London.', NEW.timezone;
+    END IF;
+  END IF;
+
+  -- Validate website URL
+  IF NEW.website IS NOT NULL AND NEW.website != '' THEN
+    IF NOT validate_website_url(NEW.website) THEN
+      RAISE EXCEPTION 'Invalid website URL. Please enter a valid URL (e.g., https://example.com or example.com).';
+    END IF;
+  END IF;
+
+  -- Validate social media
+  IF NEW.social_media IS NOT NULL THEN
+    IF NOT validate_social_media(NEW.social_media) THEN
+      RAISE EXCEPTION 'Invalid social media data. Please check your social media links and handles.';
+    END IF;
+  END IF;
+
+  -- Validate years of experience
+  IF NEW.years_experience IS NOT NULL THEN
+    IF NEW.years_experience < 0 OR NEW.years_experience > 100 THEN
+      RAISE EXCEPTION 'Years of experience must be between 0 and 100.';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Create index for the inactivity check
+CREATE INDEX IF NOT EXISTS idx_service_providers_last_active ON service_providers(last_active_at);
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION effective_status(service_providers) TO authenticated;
+
+-- Add helpful comments
+COMMENT ON COLUMN service_providers.timezone IS 'IANA timezone of the availability schedule; NULL is treated as UTC';
+COMMENT ON COLUMN service_providers.busy_until IS 'Provider is shown as busy until this time';
+COMMENT ON COLUMN service_providers.last_active_at IS 'Last time the provider signed in; used for the inactivity timeout';
+COMMENT ON FUNCTION effective_status(service_providers) IS 'Live provider status from manual setting, busy timer, inactivity and working hours';
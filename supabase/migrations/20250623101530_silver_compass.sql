@@ -0,0 +1,184 @@
+/*
+  # Server-side geospatial provider search
+
+  1. Schema
+    - Enable PostGIS
+    - `location` (geography) on service_providers, kept in sync with
+      latitude/longitude by a trigger
+    - GiST index on `location`
+
+  2. Search
+    - `search_providers` replaces the browser-side Haversine filter. It applies
+      the keyword, service type, radius and "available now" filters in the
+      database and returns one page of distance-sorted providers together with
+      their profile fields, the distance in km and the total match count
+*/
+
+-- Enable PostGIS
+CREATE EXTENSION IF NOT EXISTS postgis;
+
+-- Add geography column
+ALTER TABLE service_providers
+ADD COLUMN IF NOT EXISTS location geography(Point, 4326);
+
+-- Keep location in sync with latitude/longitude
+CREATE OR REPLACE FUNCTION sync_provider_location()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- 0,0 is the default for providers who have not set an address yet
+  IF NEW.latitude IS NULL OR NEW.longitude IS NULL OR (NEW.latitude = 0 AND NEW.longitude = 0) THEN
+    NEW.location := NULL;
+  ELSE
+    NEW.location := ST_SetSRID(ST_MakePoint(NEW.longitude::double precision, NEW.latitude::double precision), 4326)::geography;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_provider_location_trigger ON service_providers;
+CREATE TRIGGER sync_provider_location_trigger
+  BEFORE INSERT OR UPDATE OF latitude, longitude ON service_providers
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_provider_location();
+
+-- Backfill existing providers
+UPDATE service_providers
+SET location = ST_SetSRID(ST_MakePoint(longitude::double precision, latitude::double precision), 4326)::geography
+WHERE latitude IS NOT NULL
+  AND longitude IS NOT NULL
+  AND NOT (latitude = 0 AND longitude = 0);
+
+-- Create indexes for search
+CREATE INDEX IF NOT EXISTS idx_service_providers_location ON service_providers USING GIST (location);
+CREATE INDEX IF NOT EXISTS idx_service_providers_published_rating ON service_providers(rating DESC, review_count DESC, created_at DESC) WHERE is_published = true;
+
+-- Search published providers around a point
+CREATE OR REPLACE FUNCTION search_providers(
+  search_lat double precision DEFAULT NULL,
+  search_lng double precision DEFAULT NULL,
+  search_radius_km double precision DEFAULT NULL,
+  search_keyword text DEFAULT NULL,
+  search_service_type text DEFAULT NULL,
+  available_now boolean DEFAULT false,
+  page_size integer DEFAULT 20,
+  page_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  email text,
+  name text,
+  profile_image text,
+  business_name text,
+  business_type text,
+  service_type text,
+  description text,
+  phone text,
+  website text,
+  social_media jsonb,
+  specialties text[],
+  years_experience integer,
+  certifications text[],
+  address text,
+  latitude numeric,
+  longitude numeric,
+  work_radius integer,
+  work_portfolio text[],
+  is_published boolean,
+  rating numeric,
+  review_count integer,
+  total_rating_points integer,
+  availability jsonb,
+  availability_exceptions jsonb,
+  current_status text,
+  timezone text,
+  busy_until timestamptz,
+  last_active_at timestamptz,
+  created_at timestamptz,
+  distance_km double precision,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+#variable_conflict use_column
+DECLARE
+  search_point geography;
+  keyword_pattern text;
+BEGIN
+  IF search_lat IS NOT NULL AND search_lng IS NOT NULL THEN
+    search_point := ST_SetSRID(ST_MakePoint(search_lng, search_lat), 4326)::geography;
+  END IF;
+
+  IF search_keyword IS NOT NULL AND trim(search_keyword) <> '' THEN
+    keyword_pattern := '%' || trim(search_keyword) || '%';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    sp.id,
+    p.email,
+    p.name,
+    p.profile_image,
+    sp.business_name,
+    sp.business_type,
+    sp.service_type,
+    sp.description,
+    sp.phone,
+    sp.website,
+    sp.social_media,
+    sp.specialties,
+    sp.years_experience,
+    sp.certifications,
+    sp.address,
+    sp.latitude,
+    sp.longitude,
+    sp.work_radius,
+    sp.work_portfolio,
+    sp.is_published,
+    sp.rating,
+    sp.review_count,
+    sp.total_rating_points,
+    sp.availability,
+    sp.availability_exceptions,
+    sp.current_status,
+    sp.timezone,
+    sp.busy_until,
+    sp.last_active_at,
+    sp.created_at,
+    CASE
+      WHEN search_point IS NOT NULL THEN ST_Distance(sp.location, search_point) / 1000
+    END AS distance_km,
+    count(*) OVER () AS total_count
+  FROM service_providers sp
+  JOIN profiles p ON p.id = sp.id
+  WHERE sp.is_published = true
+    AND sp.service_type <> ''
+    AND sp.description <> ''
+    AND sp.address <> ''
+    AND (keyword_pattern IS NULL
+      OR sp.service_type ILIKE keyword_pattern
+      OR sp.business_name ILIKE keyword_pattern
+      OR sp.description ILIKE keyword_pattern)
+    AND (search_service_type IS NULL OR trim(search_service_type) = '' OR sp.service_type = trim(search_service_type))
+    AND (search_point IS NULL OR search_radius_km IS NULL
+      OR ST_DWithin(sp.location, search_point, search_radius_km * 1000))
+    AND (NOT available_now OR effective_status(sp) = 'available')
+  ORDER BY
+    distance_km ASC NULLS LAST,
+    sp.rating DESC,
+    sp.review_count DESC,
+    sp.created_at DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100)
+  OFFSET GREATEST(page_offset, 0);
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION search_providers(double precision, double precision, double precision, text, text, boolean, integer, integer) TO authenticated;
+
+-- Add helpful comments
+COMMENT ON COLUMN service_providers.location IS 'Geography point derived from latitude/longitude for radius search';
+COMMENT ON FUNCTION search_providers(double precision, double precision, double precision, text, text, boolean, integer, integer) IS 'Paginated provider search sorted by distance, then rating';
@@ -0,0 +1,150 @@
+/*
+  # Two-sided radius matching in provider search
+
+  1. Search
+    - `search_providers` only returns providers whose work radius covers the
+      customer's location, in addition to the customer's own search radius
+    - New `include_outside_area` argument also returns providers within the
+      search radius whose work radius does not reach the customer; they are
+      flagged with `within_service_area = false` and sorted after the others
+*/
+
+-- Replace the previous signature
+DROP FUNCTION IF EXISTS search_providers(double precision, double precision, double precision, text, text, boolean, integer, integer);
+
+-- Search published providers around a point, matching both radii
+CREATE OR REPLACE FUNCTION search_providers(
+  search_lat double precision DEFAULT NULL,
+  search_lng double precision DEFAULT NULL,
+  search_radius_km double precision DEFAULT NULL,
+  search_keyword text DEFAULT NULL,
+  search_service_type text DEFAULT NULL,
+  available_now boolean DEFAULT false,
+  include_outside_area boolean DEFAULT false,
+  page_size integer DEFAULT 20,
+  page_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  email text,
+  name text,
+  profile_image text,
+  business_name text,
+  business_type text,
+  service_type text,
+  description text,
+  phone text,
+  website text,
+  social_media jsonb,
+  specialties text[],
+  years_experience integer,
+  certifications text[],
+  address text,
+  latitude numeric,
+  longitude numeric,
+  work_radius integer,
+  work_portfolio text[],
+  is_published boolean,
+  rating numeric,
+  review_count integer,
+  total_rating_points integer,
+  availability jsonb,
+  availability_exceptions jsonb,
+  current_status text,
+  timezone text,
+  busy_until timestamptz,
+  last_active_at timestamptz,
+  created_at timestamptz,
+  distance_km double precision,
+  within_service_area boolean,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+#variable_conflict use_column
+DECLARE
+  search_point geography;
+  keyword_pattern text;
+BEGIN
+  IF search_lat IS NOT NULL AND search_lng IS NOT NULL THEN
+    search_point := ST_SetSRID(ST_MakePoint(search_lng, search_lat), 4326)::geography;
+  END IF;
+
+  IF search_keyword IS NOT NULL AND trim(search_keyword) <> '' THEN
+    keyword_pattern := '%' || trim(search_keyword) || '%';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    sp.id,
+    p.email,
+    p.name,
+    p.profile_image,
+    sp.business_name,
+    sp.business_type,
+    sp.service_type,
+    sp.description,
+    sp.phone,
+    sp.website,
+    sp.social_media,
+    sp.specialties,
+    sp.years_experience,
+    sp.certifications,
+    sp.address,
+    sp.latitude,
+    sp.longitude,
+    sp.work_radius,
+    sp.work_portfolio,
+    sp.is_published,
+    sp.rating,
+    sp.review_count,
+    sp.total_rating_points,
+    sp.availability,
+    sp.availability_exceptions,
+    sp.current_status,
+    sp.timezone,
+    sp.busy_until,
+    sp.last_active_at,
+    sp.created_at,
+    CASE
+      WHEN search_point IS NOT NULL THEN ST_Distance(sp.location, search_point) / 1000
+    END AS distance_km,
+    CASE
+      WHEN search_point IS NOT NULL THEN ST_DWithin(sp.location, search_point, sp.work_radius * 1000)
+    END AS within_service_area,
+    count(*) OVER () AS total_count
+  FROM service_providers sp
+  JOIN profiles p ON p.id = sp.id
+  WHERE sp.is_published = true
+    AND sp.service_type <> ''
+    AND sp.description <> ''
+    AND sp.address <> ''
+    AND (keyword_pattern IS NULL
+      OR sp.service_type ILIKE keyword_pattern
+      OR sp.business_name ILIKE keyword_pattern
+      OR sp.description ILIKE keyword_pattern)
+    AND (search_service_type IS NULL OR trim(search_service_type) = '' OR sp.service_type = trim(search_service_type))
+    -- Provider must be within the customer's search radius...
+    AND (search_point IS NULL OR search_radius_km IS NULL
+      OR ST_DWithin(sp.location, search_point, search_radius_km * 1000))
+    -- ...and the customer within the provider's work radius, unless asked otherwise
+    AND (search_point IS NULL OR include_outside_area
+      OR ST_DWithin(sp.location, search_point, sp.work_radius * 1000))
+    AND (NOT available_now OR effective_status(sp) = 'available')
+  ORDER BY
+    within_service_area DESC NULLS LAST,
+    distance_km ASC NULLS LAST,
+    sp.rating DESC,
+    sp.review_count DESC,
+    sp.created_at DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100)
+  OFFSET GREATEST(page_offset, 0);
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION search_providers(double precision, double precision, double precision, text, text, boolean, boolean, integer, integer) TO authenticated;
+
+-- Add helpful comments
+COMMENT ON FUNCTION search_providers(double precision, double precision, double precision, text, text, boolean, boolean, integer, integer) IS 'Paginated provider search matching both the search radius and the provider work radius, sorted by distance';
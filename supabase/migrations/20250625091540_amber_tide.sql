@@ -0,0 +1,211 @@
+/*
+  # Keyset pagination for provider search
+
+  1. Search
+    - `search_providers` takes `after_cursor` (the sort fields of the last row
+      of the previous page) instead of an offset, so deep pages stay fast and
+      rows do not shift between pages while providers are added or re-rated
+    - Ordering is unchanged (service area, distance, rating, review count,
+      newest first) with the provider id as a final tie-breaker
+    - `total_count` is only computed for the first page
+*/
+
+-- Replace the offset-based signature
+DROP FUNCTION IF EXISTS search_providers(double precision, double precision, double precision, text, text, boolean, boolean, integer, integer);
+
+-- Search published providers around a point, one page after the cursor
+CREATE OR REPLACE FUNCTION search_providers(
+  search_lat double precision DEFAULT NULL,
+  search_lng double precision DEFAULT NULL,
+  search_radius_km double precision DEFAULT NULL,
+  search_keyword text DEFAULT NULL,
+  search_service_type text DEFAULT NULL,
+  available_now boolean DEFAULT false,
+  include_outside_area boolean DEFAULT false,
+  page_size integer DEFAULT 20,
+  after_cursor jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  email text,
+  name text,
+  profile_image text,
+  business_name text,
+  business_type text,
+  service_type text,
+  description text,
+  phone text,
+  website text,
+  social_media jsonb,
+  specialties text[],
+  years_experience integer,
+  certifications text[],
+  address text,
+  latitude numeric,
+  longitude numeric,
+  work_radius integer,
+  work_portfolio text[],
+  is_published boolean,
+  rating numeric,
+  review_count integer,
+  total_rating_points integer,
+  availability jsonb,
+  availability_exceptions jsonb,
+  current_status text,
+  timezone text,
+  busy_until timestamptz,
+  last_active_at timestamptz,
+  created_at timestamptz,
+  distance_km double precision,
+  within_service_area boolean,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+#variable_conflict use_column
+DECLARE
+  search_point geography;
+  keyword_pattern text;
+  cursor_area integer;
+  cursor_distance double precision;
+  cursor_rating numeric;
+  cursor_reviews integer;
+  cursor_created numeric;
+  cursor_id uuid;
+BEGIN
+  IF search_lat IS NOT NULL AND search_lng IS NOT NULL THEN
+    search_point := ST_SetSRID(ST_MakePoint(search_lng, search_lat), 4326)::geography;
+  END IF;
+
+  IF search_keyword IS NOT NULL AND trim(search_keyword) <> '' THEN
+    keyword_pattern := '%' || trim(search_keyword) || '%';
+  END IF;
+
+  -- Sort keys are negated where needed so that they all sort ascending and
+  -- the cursor can be compared with a single row comparison
+  IF after_cursor IS NOT NULL THEN
+    cursor_area := CASE (after_cursor ->> 'within_service_area')::boolean WHEN true THEN 0 WHEN false THEN 1 ELSE 2 END;
+    cursor_distance := COALESCE((after_cursor ->> 'distance_km')::double precision, 0);
+    cursor_rating := -COALESCE((after_cursor ->> 'rating')::numeric, 0);
+    cursor_reviews := -COALESCE((after_cursor ->> 'review_count')::integer, 0);
+    cursor_created := -extract(epoch FROM (after_cursor ->> 'created_at')::timestamptz);
+    cursor_id := (after_cursor ->> 'id')::uuid;
+  END IF;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      sp.id,
+      p.email,
+      p.name,
+      p.profile_image,
+      sp.business_name,
+      sp.business_type,
+      sp.service_type,
+      sp.description,
+      sp.phone,
+      sp.website,
+      sp.social_media,
+      sp.specialties,
+      sp.years_experience,
+      sp.certifications,
+      sp.address,
+      sp.latitude,
+      sp.longitude,
+      sp.work_radius,
+      sp.work_portfolio,
+      sp.is_published,
+      sp.rating,
+      sp.review_count,
+      sp.total_rating_points,
+      sp.availability,
+      sp.availability_exceptions,
+      sp.current_status,
+      sp.timezone,
+      sp.busy_until,
+      sp.last_active_at,
+      sp.created_at,
+      CASE
+        WHEN search_point IS NOT NULL THEN ST_Distance(sp.location, search_point) / 1000
+      END AS distance_km,
+      CASE
+        WHEN search_point IS NOT NULL THEN ST_DWithin(sp.location, search_point, sp.work_radius * 1000)
+      END AS within_service_area
+    FROM service_providers sp
+    JOIN profiles p ON p.id = sp.id
+    WHERE sp.is_published = true
+      AND sp.service_type <> ''
+      AND sp.description <> ''
+      AND sp.address <> ''
+      AND (keyword_pattern IS NULL
+        OR sp.service_type ILIKE keyword_pattern
+        OR sp.business_name ILIKE keyword_pattern
+        OR sp.description ILIKE keyword_pattern)
+      AND (search_service_type IS NULL OR trim(search_service_type) = '' OR sp.service_type = trim(search_service_type))
+      -- Provider must be within the customer's search radius...
+      AND (search_point IS NULL OR search_radius_km IS NULL
+        OR ST_DWithin(sp.location, search_point, search_radius_km * 1000))
+      -- ...and the customer within the provider's work radius, unless asked otherwise
+      AND (search_point IS NULL OR include_outside_area
+        OR ST_DWithin(sp.location, search_point, sp.work_radius * 1000))
+      AND (NOT available_now OR effective_status(sp) = 'available')
+  ),
+  keyed AS (
+    SELECT
+      m.*,
+      CASE m.within_service_area WHEN true THEN 0 WHEN false THEN 1 ELSE 2 END AS sort_area,
+      COALESCE(m.distance_km, 0) AS sort_distance,
+      -COALESCE(m.rating, 0) AS sort_rating,
+      -COALESCE(m.review_count, 0) AS sort_reviews,
+      -extract(epoch FROM m.created_at) AS sort_created
+    FROM matches m
+  )
+  SELECT
+    k.id,
+    k.email,
+    k.name,
+    k.profile_image,
+    k.business_name,
+    k.business_type,
+    k.service_type,
+    k.description,
+    k.phone,
+    k.website,
+    k.social_media,
+    k.specialties,
+    k.years_experience,
+    k.certifications,
+    k.address,
+    k.latitude,
+    k.longitude,
+    k.work_radius,
+    k.work_portfolio,
+    k.is_published,
+    k.rating,
+    k.review_count,
+    k.total_rating_points,
+    k.availability,
+    k.availability_exceptions,
+    k.current_status,
+    k.timezone,
+    k.busy_until,
+    k.last_active_at,
+    k.created_at,
+    k.distance_km,
+    k.within_service_area,
+    CASE WHEN after_cursor IS NULL THEN (SELECT count(*) FROM matches) END AS total_count
+  FROM keyed k
+  WHERE after_cursor IS NULL
+    OR (k.sort_area, k.sort_distance, k.sort_rating, k.sort_reviews, k.sort_created, k.id)
+      > (cursor_area, cursor_distance, cursor_rating, cursor_reviews, cursor_created, cursor_id)
+  ORDER BY k.sort_area, k.sort_distance, k.sort_rating, k.sort_reviews, k.sort_created, k.id
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION search_providers(double precision, double precision, double precision, text, text, boolean, boolean, integer, jsonb) TO authenticated;
+
+-- Add helpful comments
+COMMENT ON FUNCTION search_providers(double precision, double precision, double precision, text, text, boolean, boolean, integer, jsonb) IS 'Keyset-paginated provider search matching both the search radius and the provider work radius, sorted by distance, then rating';
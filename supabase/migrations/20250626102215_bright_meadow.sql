@@ -0,0 +1,324 @@
+/*
+  # Ranked full-text provider search
+
+  1. Schema
+    - Enable pg_trgm
+    - `search_vector` (tsvector) on service_providers, built from the business
+      name, service type, specialties, certifications and description and kept
+      up to date by a trigger
+    - GIN index on `search_vector` and trigram indexes on the service type and
+      business name
+
+  2. Search
+    - `build_search_query` turns free text into a prefix tsquery, so partial
+      words match and user input is never parsed as query syntax
+    - `search_providers` replaces the ILIKE keyword filter with the full-text
+      match, falling back to trigram word similarity for misspelt service or
+      business names
+    - New `search_rank` output column; keyword searches are ordered by
+      relevance before distance and the rank is part of the page cursor
+    - New `search_snippet` output column with the matching parts of the
+      description wrapped in <mark> tags
+*/
+
+-- Enable trigram matching
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Add search column
+ALTER TABLE service_providers
+ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+-- Weighted document used for full-text search
+CREATE OR REPLACE FUNCTION provider_search_vector(
+  business_name text,
+  service_type text,
+  specialties text[],
+  certifications text[],
+  description text
+)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('english', COALESCE(business_name, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(service_type, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(array_to_string(specialties, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(array_to_string(certifications, ' '), '')), 'C') ||
+    setweight(to_tsvector('english', COALESCE(description, '')), 'D');
+$$;
+
+-- Keep search_vector in sync with the profile fields
+CREATE OR REPLACE FUNCTION sync_provider_search_vector()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.search_vector := provider_search_vector(
+    NEW.business_name,
+    NEW.service_type,
+    NEW.specialties,
+    NEW.certifications,
+    NEW.description
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_provider_search_vector_trigger ON service_providers;
+CREATE TRIGGER sync_provider_search_vector_trigger
+  BEFORE INSERT OR UPDATE OF business_name, service_type, specialties, certifications, description ON service_providers
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_provider_search_vector();
+
+-- Backfill existing providers
+UPDATE service_providers
+SET search_vector = provider_search_vector(business_name, service_type, specialties, certifications, description);
+
+-- Create indexes for search
+CREATE INDEX IF NOT EXISTS idx_service_providers_search_vector ON service_providers USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_service_providers_service_type_trgm ON service_providers USING GIN (service_type gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_service_providers_business_name_trgm ON service_providers USING GIN (business_name gin_trgm_ops);
+
+-- Turn free text into a prefix query ("plumb rep" -> 'plumb':* & 'rep':*)
+CREATE OR REPLACE FUNCTION build_search_query(query_text text)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN string_agg(word, '') IS NULL THEN NULL
+    ELSE to_tsquery('english', string_agg(word || ':*', ' & '))
+  END
+  FROM regexp_split_to_table(lower(regexp_replace(COALESCE(query_text, ''), '[^[:alnum:]]+', ' ', 'g')), ' ') AS word
+  WHERE word <> '';
+$$;
+
+-- Replace the previous version with the same signature
+DROP FUNCTION IF EXISTS search_providers(double precision, double precision, double precision, text, text, boolean, boolean, integer, jsonb);
+
+-- Ranked search of published providers around a point, one page after the cursor
+CREATE OR REPLACE FUNCTION search_providers(
+  search_lat double precision DEFAULT NULL,
+  search_lng double precision DEFAULT NULL,
+  search_radius_km double precision DEFAULT NULL,
+  search_keyword text DEFAULT NULL,
+  search_service_type text DEFAULT NULL,
+  available_now boolean DEFAULT false,
+  include_outside_area boolean DEFAULT false,
+  page_size integer DEFAULT 20,
+  after_cursor jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  email text,
+  name text,
+  profile_image text,
+  business_name text,
+  business_type text,
+  service_type text,
+  description text,
+  phone text,
+  website text,
+  social_media jsonb,
+  specialties text[],
+  years_experience integer,
+  certifications text[],
+  address text,
+  latitude numeric,
+  longitude numeric,
+  work_radius integer,
+  work_portfolio text[],
+  is_published boolean,
+  rating numeric,
+  review_count integer,
+  total_rating_points integer,
+  availability jsonb,
+  availability_exceptions jsonb,
+  current_status text,
+  timezone text,
+  busy_until timestamptz,
+  last_active_at timestamptz,
+  created_at timestamptz,
+  distance_km double precision,
+  within_service_area boolean,
+  search_rank real,
+  search_snippet text,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SET pg_trgm.word_similarity_threshold = 0.4
+AS $$
+#variable_conflict use_column
+DECLARE
+  search_point geography;
+  keyword_text text;
+  keyword_query tsquery;
+  cursor_area integer;
+  cursor_rank real;
+  cursor_distance double precision;
+  cursor_rating numeric;
+  cursor_reviews integer;
+  cursor_created numeric;
+  cursor_id uuid;
+BEGIN
+  IF search_lat IS NOT NULL AND search_lng IS NOT NULL THEN
+    search_point := ST_SetSRID(ST_MakePoint(search_lng, search_lat), 4326)::geography;
+  END IF;
+
+  IF search_keyword IS NOT NULL AND trim(search_keyword) <> '' THEN
+    keyword_text := lower(trim(search_keyword));
+    keyword_query := build_search_query(search_keyword);
+  END IF;
+
+  -- Sort keys are negated where needed so that they all sort ascending and
+  -- the cursor can be compared with a single row comparison
+  IF after_cursor IS NOT NULL THEN
+    cursor_area := CASE (after_cursor ->> 'within_service_area')::boolean WHEN true THEN 0 WHEN false THEN 1 ELSE 2 END;
+    cursor_rank := -COALESCE((after_cursor ->> 'search_rank')::real, 0);
+    cursor_distance := COALESCE((after_cursor ->> 'distance_km')::double precision, 0);
+    cursor_rating := -COALESCE((after_cursor ->> 'rating')::numeric, 0);
+    cursor_reviews := -COALESCE((after_cursor ->> 'review_count')::integer, 0);
+    cursor_created := -extract(epoch FROM (after_cursor ->> 'created_at')::timestamptz);
+    cursor_id := (after_cursor ->> 'id')::uuid;
+  END IF;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      sp.id,
+      p.email,
+      p.name,
+      p.profile_image,
+      sp.business_name,
+      sp.business_type,
+      sp.service_type,
+      sp.description,
+      sp.phone,
+      sp.website,
+      sp.social_media,
+      sp.specialties,
+      sp.years_experience,
+      sp.certifications,
+      sp.address,
+      sp.latitude,
+      sp.longitude,
+      sp.work_radius,
+      sp.work_portfolio,
+      sp.is_published,
+      sp.rating,
+      sp.review_count,
+      sp.total_rating_points,
+      sp.availability,
+      sp.availability_exceptions,
+      sp.current_status,
+      sp.timezone,
+      sp.busy_until,
+      sp.last_active_at,
+      sp.created_at,
+      CASE
+        WHEN search_point IS NOT NULL THEN ST_Distance(sp.location, search_point) / 1000
+      END AS distance_km,
+      CASE
+        WHEN search_point IS NOT NULL THEN ST_DWithin(sp.location, search_point, sp.work_radius * 1000)
+      END AS within_service_area,
+      CASE
+        WHEN keyword_text IS NOT NULL THEN (
+          COALESCE(ts_rank_cd(sp.search_vector, keyword_query, 32), 0)
+          + GREATEST(word_similarity(keyword_text, sp.service_type), word_similarity(keyword_text, COALESCE(sp.business_name, ''))) / 2
+        )::real
+      END AS search_rank,
+      CASE
+        WHEN keyword_query IS NOT NULL AND sp.search_vector @@ keyword_query THEN ts_headline(
+          'english',
+          sp.description,
+          keyword_query,
+          'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+        )
+      END AS search_snippet
+    FROM service_providers sp
+    JOIN profiles p ON p.id = sp.id
+    WHERE sp.is_published = true
+      AND sp.service_type <> ''
+      AND sp.description <> ''
+      AND sp.address <> ''
+      -- Full-text match with prefixes, or a close spelling of the service or business name
+      AND (keyword_text IS NULL
+        OR sp.search_vector @@ keyword_query
+        OR keyword_text <% sp.service_type
+        OR keyword_text <% sp.business_name)
+      AND (search_service_type IS NULL OR trim(search_service_type) = '' OR sp.service_type = trim(search_service_type))
+      -- Provider must be within the customer's search radius...
+      AND (search_point IS NULL OR search_radius_km IS NULL
+        OR ST_DWithin(sp.location, search_point, search_radius_km * 1000))
+      -- ...and the customer within the provider's work radius, unless asked otherwise
+      AND (search_point IS NULL OR include_outside_area
+        OR ST_DWithin(sp.location, search_point, sp.work_radius * 1000))
+      AND (NOT available_now OR effective_status(sp) = 'available')
+  ),
+  keyed AS (
+    SELECT
+      m.*,
+      CASE m.within_service_area WHEN true THEN 0 WHEN false THEN 1 ELSE 2 END AS sort_area,
+      -COALESCE(m.search_rank, 0) AS sort_rank,
+      COALESCE(m.distance_km, 0) AS sort_distance,
+      -COALESCE(m.rating, 0) AS sort_rating,
+      -COALESCE(m.review_count, 0) AS sort_reviews,
+      -extract(epoch FROM m.created_at) AS sort_created
+    FROM matches m
+  )
+  SELECT
+    k.id,
+    k.email,
+    k.name,
+    k.profile_image,
+    k.business_name,
+    k.business_type,
+    k.service_type,
+    k.description,
+    k.phone,
+    k.website,
+    k.social_media,
+    k.specialties,
+    k.years_experience,
+    k.certifications,
+    k.address,
+    k.latitude,
+    k.longitude,
+    k.work_radius,
+    k.work_portfolio,
+    k.is_published,
+    k.rating,
+    k.review_count,
+    k.total_rating_points,
+    k.availability,
+    k.availability_exceptions,
+    k.current_status,
+    k.timezone,
+    k.busy_until,
+    k.last_active_at,
+    k.created_at,
+    k.distance_km,
+    k.within_service_area,
+    k.search_rank,
+    k.search_snippet,
+    CASE WHEN after_cursor IS NULL THEN (SELECT count(*) FROM matches) END AS total_count
+  FROM keyed k
+  WHERE after_cursor IS NULL
+    OR (k.sort_area, k.sort_rank, k.sort_distance, k.sort_rating, k.sort_reviews, k.sort_created, k.id)
+      > (cursor_area, cursor_rank, cursor_distance, cursor_rating, cursor_reviews, cursor_created, cursor_id)
+  ORDER BY k.sort_area, k.sort_rank, k.sort_distance, k.sort_rating, k.sort_reviews, k.sort_created, k.id
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION build_search_query(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_providers(double precision, double precision, double precision, text, text, boolean, boolean, integer, jsonb) TO authenticated;
+
+-- Add helpful comments
+COMMENT ON COLUMN service_providers.search_vector IS 'Weighted full-text document of the provider profile, maintained by trigger';
+COMMENT ON FUNCTION build_search_query(text) IS 'Prefix tsquery built from free text, ignoring query syntax characters';
+COMMENT ON FUNCTION search_providers(double precision, double precision, double precision, text, text, boolean, boolean, integer, jsonb) IS 'Keyset-paginated provider search ranked by full-text relevance, matching both the search radius and the provider work radius';
@@ -0,0 +1,546 @@
+/*
+  # Shared service taxonomy
+
+  1. New Tables
+    - `service_categories`
+      - `slug` (text, primary key)
+      - `name` (text, unique) - Display name, stored in service_providers.service_type
+      - `parent_slug` (text) - NULL for top-level categories
+      - `synonyms` (text[]) - Lowercase search terms, e.g. "sparky" for Electrical
+      - `is_popular` (boolean) - Shown on the homepage and dashboard shortcuts
+      - `sort_order` (integer)
+    - Seeded with the same categories and services as src/lib/serviceCategories.ts
+
+  2. Schema
+    - `service_types` (text[]) on service_providers: every service a provider
+      offers, with `service_type` kept as the primary one and always first
+    - GIN index on `service_types`
+    - The search document now includes all of the provider's services
+
+  3. Search
+    - `match_service_synonyms` maps free text to service names via synonyms
+    - `search_providers` filters on any of a provider's services, accepts a
+      category name as the service filter, matches synonyms in the keyword and
+      returns `service_types`
+
+  4. Security
+    - Enable RLS on `service_categories`; anyone can read it
+*/
+
+-- Create service_categories table
+CREATE TABLE IF NOT EXISTS service_categories (
+  slug text PRIMARY KEY,
+  name text UNIQUE NOT NULL,
+  parent_slug text REFERENCES service_categories(slug) ON DELETE CASCADE,
+  synonyms text[] NOT NULL DEFAULT '{}',
+  is_popular boolean NOT NULL DEFAULT false,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE service_categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read service categories"
+  ON service_categories FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_service_categories_parent ON service_categories(parent_slug);
+
+-- Seed categories
+INSERT INTO service_categories (slug, name, parent_slug, synonyms, is_popular, sort_order) VALUES
+  ('home-repairs', 'Home Repairs & Maintenance', NULL, '{}', false, 1),
+  ('cleaning', 'Cleaning & Waste', NULL, '{}', false, 2),
+  ('garden', 'Garden & Outdoor', NULL, '{}', false, 3),
+  ('beauty', 'Beauty & Wellness', NULL, '{}', false, 4),
+  ('care', 'Care & Family', NULL, '{}', false, 5),
+  ('pets', 'Pets', NULL, '{}', false, 6),
+  ('education', 'Lessons & Coaching', NULL, '{}', false, 7),
+  ('events', 'Events & Entertainment', NULL, '{}', false, 8),
+  ('transport', 'Transport & Vehicles', NULL, '{}', false, 9),
+  ('professional', 'Business & Tech', NULL, '{}', false, 10),
+  ('legal-property', 'Legal & Property', NULL, '{}', false, 11),
+  ('crafts', 'Crafts & Alterations', NULL, '{}', false, 12)
+ON CONFLICT (slug) DO UPDATE SET
+  name = EXCLUDED.name,
+  parent_slug = EXCLUDED.parent_slug,
+  synonyms = EXCLUDED.synonyms,
+  is_popular = EXCLUDED.is_popular,
+  sort_order = EXCLUDED.sort_order;
+
+-- Seed services
+INSERT INTO service_categories (slug, name, parent_slug, synonyms, is_popular, sort_order) VALUES
+  ('air-conditioning-hvac', 'Air Conditioning / HVAC', 'home-repairs', ARRAY['aircon', 'air con', 'hvac technician'], false, 1),
+  ('appliance-repair', 'Appliance Repair', 'home-repairs', ARRAY['fridge repair', 'washing machine repair'], false, 2),
+  ('blinds-curtains-installation', 'Blinds & Curtains Installation', 'home-repairs', ARRAY['blinds', 'curtains'], false, 3),
+  ('borehole-drilling', 'Borehole Drilling', 'home-repairs', ARRAY['borehole', 'well drilling'], false, 4),
+  ('carpentry', 'Carpentry', 'home-repairs', ARRAY['carpenter', 'joiner'], true, 5),
+  ('custom-woodwork', 'Custom Woodwork', 'home-repairs', ARRAY['woodworker', 'cabinet maker'], false, 6),
+  ('electrical', 'Electrical', 'home-repairs', ARRAY['electrician', 'sparky', 'wiring'], true, 7),
+  ('flooring-installation', 'Flooring Installation', 'home-repairs', ARRAY['floor fitter', 'laminate'], false, 8),
+  ('furniture-upholstery', 'Furniture Upholstery', 'home-repairs', ARRAY['upholsterer', 'reupholstery'], false, 9),
+  ('glass-repair', 'Glass Repair', 'home-repairs', ARRAY['glazier', 'window repair'], false, 10),
+  ('handyman-services', 'Handyman Services', 'home-repairs', ARRAY['handyman', 'odd jobs', 'fundi'], false, 11),
+  ('locksmiths', 'Locksmiths', 'home-repairs', ARRAY['locksmith', 'locked out'], false, 12),
+  ('painting', 'Painting', 'home-repairs', ARRAY['painter', 'decorator'], true, 13),
+  ('pest-control', 'Pest Control', 'home-repairs', ARRAY['exterminator', 'fumigation'], false, 14),
+  ('plumbing', 'Plumbing', 'home-repairs', ARRAY['plumber', 'leak', 'geyser', 'blocked drain'], true, 15),
+  ('pool-maintenance', 'Pool Maintenance', 'home-repairs', ARRAY['pool cleaner', 'pool service'], false, 16),
+  ('roofing', 'Roofing', 'home-repairs', ARRAY['roofer', 'roof repair'], false, 17),
+  ('security-systems-cctv', 'Security Systems / CCTV', 'home-repairs', ARRAY['cctv', 'alarm installer'], false, 18),
+  ('solar-panel-installation', 'Solar Panel Installation', 'home-repairs', ARRAY['solar', 'inverter'], false, 19),
+  ('tiling', 'Tiling', 'home-repairs', ARRAY['tiler'], false, 20),
+  ('waterproofing', 'Waterproofing', 'home-repairs', ARRAY['damp proofing'], false, 21),
+  ('welding', 'Welding', 'home-repairs', ARRAY['welder', 'burglar bars'], false, 22),
+  ('house-cleaning', 'Cleaning', 'cleaning', ARRAY['cleaner', 'maid', 'domestic worker', 'house cleaning'], true, 1),
+  ('junk-collection', 'Junk Collection', 'cleaning', ARRAY['junk removal'], false, 2),
+  ('laundry-dry-cleaning', 'Laundry & Dry Cleaning', 'cleaning', ARRAY['laundry', 'dry cleaner', 'ironing'], false, 3),
+  ('recycling-pickup', 'Recycling Pickup', 'cleaning', ARRAY['recycling'], false, 4),
+  ('rental-property-cleaning', 'Rental Property Cleaning', 'cleaning', ARRAY['airbnb cleaning', 'end of lease cleaning'], false, 5),
+  ('trash-removal', 'Trash Removal', 'cleaning', ARRAY['rubbish removal', 'garbage removal'], false, 6),
+  ('gardening', 'Gardening', 'garden', ARRAY['gardener', 'lawn mowing'], true, 1),
+  ('landscaping', 'Landscaping', 'garden', ARRAY['landscaper'], false, 2),
+  ('tree-cutting', 'Tree Cutting', 'garden', ARRAY['tree feller', 'tree removal', 'arborist'], false, 3),
+  ('barbering', 'Barbering', 'beauty', ARRAY['barber', 'haircut', 'fade'], true, 1),
+  ('braiding', 'Braiding', 'beauty', ARRAY['braids', 'hair braiding'], false, 2),
+  ('fitness-training', 'Fitness Training', 'beauty', ARRAY['personal trainer', 'gym coach'], false, 3),
+  ('hairdressing', 'Hairdressing', 'beauty', ARRAY['hairdresser', 'hair salon', 'hair stylist'], false, 4),
+  ('makeup-artists', 'Makeup Artists', 'beauty', ARRAY['makeup', 'mua'], false, 5),
+  ('massage-therapists', 'Massage Therapists', 'beauty', ARRAY['massage', 'masseuse'], false, 6),
+  ('mobile-spa', 'Mobile Spa', 'beauty', ARRAY['spa'], false, 7),
+  ('nail-technicians', 'Nail Technicians', 'beauty', ARRAY['nails', 'manicure', 'pedicure'], false, 8),
+  ('tattoo-artists', 'Tattoo Artists', 'beauty', ARRAY['tattoo'], false, 9),
+  ('au-pair-services', 'Au Pair Services', 'care', ARRAY['au pair'], false, 1),
+  ('babysitting', 'Babysitting', 'care', ARRAY['babysitter'], false, 2),
+  ('elderly-care', 'Elderly Care', 'care', ARRAY['caregiver', 'carer'], false, 3),
+  ('nannies', 'Nannies', 'care', ARRAY['nanny'], false, 4),
+  ('special-needs-care', 'Special Needs Care', 'care', ARRAY['special needs'], false, 5),
+  ('dog-walking', 'Dog Walking', 'pets', ARRAY['dog walker'], false, 1),
+  ('pet-grooming', 'Pet Grooming', 'pets', ARRAY['dog grooming', 'groomer'], false, 2),
+  ('pet-services', 'Pet Services', 'pets', ARRAY['pet care'], false, 3),
+  ('pet-sitting', 'Pet Sitting', 'pets', ARRAY['pet sitter', 'house sitting'], false, 4),
+  ('pet-training', 'Pet Training', 'pets', ARRAY['dog trainer', 'puppy training'], false, 5),
+  ('academic-coaching', 'Academic Coaching', 'education', ARRAY['study coach'], false, 1),
+  ('career-coaching', 'Career Coaching', 'education', ARRAY['cv writing', 'career coach'], false, 2),
+  ('coding-lessons', 'Coding Lessons', 'education', ARRAY['programming lessons', 'coding tutor'], false, 3),
+  ('driving-lessons', 'Driving Lessons', 'education', ARRAY['driving instructor', 'driving school'], false, 4),
+  ('homework-assistants', 'Homework Assistants', 'education', ARRAY['homework help'], false, 5),
+  ('language-tutoring', 'Language Tutoring', 'education', ARRAY['language teacher'], false, 6),
+  ('life-coaching', 'Life Coaching', 'education', ARRAY['life coach'], false, 7),
+  ('music-lessons', 'Music Lessons', 'education', ARRAY['music teacher', 'piano lessons', 'guitar lessons'], false, 8),
+  ('tutoring', 'Tutoring', 'education', ARRAY['tutor', 'extra lessons'], true, 9),
+  ('bartending', 'Bartending', 'events', ARRAY['bartender', 'mixologist'], false, 1),
+  ('catering', 'Catering', 'events', ARRAY['caterer', 'chef'], false, 2),
+  ('dj-services', 'DJ Services', 'events', ARRAY['dj'], false, 3),
+  ('decor-rentals', 'Decor & Rentals', 'events', ARRAY['decor', 'tent hire', 'party hire'], false, 4),
+  ('event-planning', 'Event Planning', 'events', ARRAY['event planner', 'wedding planner'], false, 5),
+  ('mc-host-services', 'MC / Host Services', 'events', ARRAY['mc', 'master of ceremonies'], false, 6),
+  ('mobile-bar', 'Mobile Bar', 'events', ARRAY['bar hire'], false, 7),
+  ('photography', 'Photography', 'events', ARRAY['photographer'], false, 8),
+  ('sound-lighting', 'Sound & Lighting', 'events', ARRAY['pa hire', 'sound engineer'], false, 9),
+  ('videography', 'Videography', 'events', ARRAY['videographer'], false, 10),
+  ('auto-repair', 'Auto Repair', 'transport', ARRAY['mechanic', 'car service', 'panel beater'], true, 1),
+  ('car-wash', 'Car Wash', 'transport', ARRAY['car valet', 'car detailing'], false, 2),
+  ('courier-delivery', 'Courier / Delivery', 'transport', ARRAY['courier', 'delivery'], false, 3),
+  ('moving-services', 'Moving Services', 'transport', ARRAY['movers', 'removals', 'bakkie hire'], false, 4),
+  ('ride-hailing-partner-drivers', 'Ride-hailing Partner Drivers', 'transport', ARRAY['driver', 'chauffeur'], false, 5),
+  ('shuttle-services', 'Shuttle Services', 'transport', ARRAY['shuttle', 'airport transfer'], false, 6),
+  ('vehicle-towing', 'Vehicle Towing', 'transport', ARRAY['tow truck', 'towing'], false, 7),
+  ('bookkeeping', 'Bookkeeping', 'professional', ARRAY['bookkeeper', 'accountant'], false, 1),
+  ('business-consulting', 'Business Consulting', 'professional', ARRAY['consultant'], false, 2),
+  ('digital-marketing', 'Digital Marketing', 'professional', ARRAY['social media manager', 'seo'], false, 3),
+  ('graphic-design', 'Graphic Design', 'professional', ARRAY['graphic designer', 'logo design'], false, 4),
+  ('hr-recruitment', 'HR / Recruitment', 'professional', ARRAY['recruiter'], false, 5),
+  ('it-support', 'IT Support', 'professional', ARRAY['computer repair', 'tech support', 'laptop repair'], true, 6),
+  ('virtual-assistants', 'Virtual Assistants', 'professional', ARRAY['virtual assistant', 'va'], false, 7),
+  ('web-development', 'Web Development', 'professional', ARRAY['web developer', 'website'], false, 8),
+  ('legal-services', 'Legal Services', 'legal-property', ARRAY['lawyer', 'attorney'], false, 1),
+  ('notary-services', 'Notary Services', 'legal-property', ARRAY['notary'], false, 2),
+  ('paralegals', 'Paralegals', 'legal-property', ARRAY['paralegal'], false, 3),
+  ('property-photography', 'Property Photography', 'legal-property', ARRAY['real estate photography'], false, 4),
+  ('property-valuers', 'Property Valuers', 'legal-property', ARRAY['valuer', 'property valuation'], false, 5),
+  ('real-estate-agents', 'Real Estate Agents', 'legal-property', ARRAY['estate agent', 'realtor'], false, 6),
+  ('translation-transcription', 'Translation & Transcription', 'legal-property', ARRAY['translator', 'transcription'], false, 7),
+  ('leather-work', 'Leather Work', 'crafts', ARRAY['leather repair'], false, 1),
+  ('mural-painting', 'Mural Painting', 'crafts', ARRAY['muralist'], false, 2),
+  ('shoe-repair', 'Shoe Repair', 'crafts', ARRAY['cobbler'], false, 3),
+  ('tailoring-seamstress', 'Tailoring / Seamstress', 'crafts', ARRAY['tailor', 'seamstress', 'alterations'], false, 4)
+ON CONFLICT (slug) DO UPDATE SET
+  name = EXCLUDED.name,
+  parent_slug = EXCLUDED.parent_slug,
+  synonyms = EXCLUDED.synonyms,
+  is_popular = EXCLUDED.is_popular,
+  sort_order = EXCLUDED.sort_order;
+
+-- Add multiple services to providers
+ALTER TABLE service_providers
+ADD COLUMN IF NOT EXISTS service_types text[] DEFAULT '{}';
+
+-- Keep the primary service first in service_types and check every entry
+CREATE OR REPLACE FUNCTION normalize_provider_service_types()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.service_types := COALESCE(NEW.service_types, '{}');
+
+  IF NEW.service_type IS NOT NULL AND NEW.service_type <> '' THEN
+    NEW.service_types := array_prepend(NEW.service_type, array_remove(NEW.service_types, NEW.service_type));
+  END IF;
+
+  IF cardinality(NEW.service_types) > 5 THEN
+    RAISE EXCEPTION 'You can list at most 5 services.';
+  END IF;
+
+  IF (SELECT count(DISTINCT s) FROM unnest(NEW.service_types) AS s) <> cardinality(NEW.service_types) THEN
+    RAISE EXCEPTION 'Each service can only be listed once.';
+  END IF;
+
+  -- Only check services that changed so older profiles can still be edited
+  IF TG_OP = 'INSERT' OR NEW.service_types IS DISTINCT FROM OLD.service_types THEN
+    IF EXISTS (
+      SELECT 1
+      FROM unnest(NEW.service_types) AS s
+      WHERE NOT EXISTS (
+        SELECT 1 FROM service_categories sc WHERE sc.name = s AND sc.parent_slug IS NOT NULL
+      )
+    ) THEN
+      RAISE EXCEPTION 'Unknown service. Please choose services from the list.';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to run before the search vector trigger, which reads service_types
+DROP TRIGGER IF EXISTS normalize_provider_service_types_trigger ON service_providers;
+CREATE TRIGGER normalize_provider_service_types_trigger
+  BEFORE INSERT OR UPDATE OF service_type, service_types ON service_providers
+  FOR EACH ROW
+  EXECUTE FUNCTION normalize_provider_service_types();
+
+-- Search document now covers every service
+DROP FUNCTION IF EXISTS provider_search_vector(text, text, text[], text[], text);
+
+CREATE OR REPLACE FUNCTION provider_search_vector(
+  business_name text,
+  service_types text[],
+  specialties text[],
+  certifications text[],
+  description text
+)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('english', COALESCE(business_name, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(array_to_string(service_types, ' '), '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(array_to_string(specialties, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(array_to_string(certifications, ' '), '')), 'C') ||
+    setweight(to_tsvector('english', COALESCE(description, '')), 'D');
+$$;
+
+CREATE OR REPLACE FUNCTION sync_provider_search_vector()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.search_vector := provider_search_vector(
+    NEW.business_name,
+    NEW.service_types,
+    NEW.specialties,
+    NEW.certifications,
+    NEW.description
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_provider_search_vector_trigger ON service_providers;
+CREATE TRIGGER sync_provider_search_vector_trigger
+  BEFORE INSERT OR UPDATE OF business_name, service_type, service_types, specialties, certifications, description ON service_providers
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_provider_search_vector();
+
+-- Backfill existing providers
+UPDATE service_providers
+SET service_types = CASE WHEN service_type <> '' THEN ARRAY[service_type] ELSE '{}' END
+WHERE service_types IS NULL OR service_types = '{}';
+
+UPDATE service_providers
+SET search_vector = provider_search_vector(business_name, service_types, specialties, certifications, description);
+
+CREATE INDEX IF NOT EXISTS idx_service_providers_service_types ON service_providers USING GIN (service_types);
+
+-- Service names whose name or synonyms appear as whole words in the text
+CREATE OR REPLACE FUNCTION match_service_synonyms(query_text text)
+RETURNS text[]
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(array_agg(sc.name), '{}')
+  FROM service_categories sc
+  CROSS JOIN (
+    SELECT ' ' || trim(regexp_replace(lower(COALESCE(query_text, '')), '[^[:alnum:]]+', ' ', 'g')) || ' ' AS padded
+  ) q
+  WHERE sc.parent_slug IS NOT NULL
+    AND EXISTS (
+      SELECT 1
+      FROM unnest(sc.synonyms || lower(sc.name)) AS term
+      WHERE q.padded LIKE '% ' || term || ' %'
+    );
+$$;
+
+-- Replace the previous version with the same signature
+DROP FUNCTION IF EXISTS search_providers(double precision, double precision, double precision, text, text, boolean, boolean, integer, jsonb);
+
+-- Ranked search of published providers around a point, one page after the cursor
+CREATE OR REPLACE FUNCTION search_providers(
+  search_lat double precision DEFAULT NULL,
+  search_lng double precision DEFAULT NULL,
+  search_radius_km double precision DEFAULT NULL,
+  search_keyword text DEFAULT NULL,
+  search_service_type text DEFAULT NULL,
+  available_now boolean DEFAULT false,
+  include_outside_area boolean DEFAULT false,
+  page_size integer DEFAULT 20,
+  after_cursor jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  email text,
+  name text,
+  profile_image text,
+  business_name text,
+  business_type text,
+  service_type text,
+  service_types text[],
+  description text,
+  phone text,
+  website text,
+  social_media jsonb,
+  specialties text[],
+  years_experience integer,
+  certifications text[],
+  address text,
+  latitude numeric,
+  longitude numeric,
+  work_radius integer,
+  work_portfolio text[],
+  is_published boolean,
+  rating numeric,
+  review_count integer,
+  total_rating_points integer,
+  availability jsonb,
+  availability_exceptions jsonb,
+  current_status text,
+  timezone text,
+  busy_until timestamptz,
+  last_active_at timestamptz,
+  created_at timestamptz,
+  distance_km double precision,
+  within_service_area boolean,
+  search_rank real,
+  search_snippet text,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SET pg_trgm.word_similarity_threshold = 0.4
+AS $$
+#variable_conflict use_column
+DECLARE
+  search_point geography;
+  keyword_text text;
+  keyword_query tsquery;
+  keyword_services text[];
+  service_filter text[];
+  cursor_area integer;
+  cursor_rank real;
+  cursor_distance double precision;
+  cursor_rating numeric;
+  cursor_reviews integer;
+  cursor_created numeric;
+  cursor_id uuid;
+BEGIN
+  IF search_lat IS NOT NULL AND search_lng IS NOT NULL THEN
+    search_point := ST_SetSRID(ST_MakePoint(search_lng, search_lat), 4326)::geography;
+  END IF;
+
+  IF search_keyword IS NOT NULL AND trim(search_keyword) <> '' THEN
+    keyword_text := lower(trim(search_keyword));
+    keyword_query := build_search_query(search_keyword);
+    keyword_services := match_service_synonyms(search_keyword);
+  END IF;
+
+  -- A category name filters on all of its services
+  IF search_service_type IS NOT NULL AND trim(search_service_type) <> '' THEN
+    SELECT array_agg(sc.name) INTO service_filter
+    FROM service_categories sc
+    WHERE sc.parent_slug IS NOT NULL
+      AND (sc.name = trim(search_service_type)
+        OR sc.parent_slug IN (
+          SELECT c.slug FROM service_categories c WHERE c.parent_slug IS NULL AND c.name = trim(search_service_type)
+        ));
+
+    service_filter := COALESCE(service_filter, ARRAY[trim(search_service_type)]);
+  END IF;
+
+  -- Sort keys are negated where needed so that they all sort ascending and
+  -- the cursor can be compared with a single row comparison
+  IF after_cursor IS NOT NULL THEN
+    cursor_area := CASE (after_cursor ->> 'within_service_area')::boolean WHEN true THEN 0 WHEN false THEN 1 ELSE 2 END;
+    cursor_rank := -COALESCE((after_cursor ->> 'search_rank')::real, 0);
+    cursor_distance := COALESCE((after_cursor ->> 'distance_km')::double precision, 0);
+    cursor_rating := -COALESCE((after_cursor ->> 'rating')::numeric, 0);
+    cursor_reviews := -COALESCE((after_cursor ->> 'review_count')::integer, 0);
+    cursor_created := -extract(epoch FROM (after_cursor ->> 'created_at')::timestamptz);
+    cursor_id := (after_cursor ->> 'id')::uuid;
+  END IF;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      sp.id,
+      p.email,
+      p.name,
+      p.profile_image,
+      sp.business_name,
+      sp.business_type,
+      sp.service_type,
+      sp.service_types,
+      sp.description,
+      sp.phone,
+      sp.website,
+      sp.social_media,
+      sp.specialties,
+      sp.years_experience,
+      sp.certifications,
+      sp.address,
+      sp.latitude,
+      sp.longitude,
+      sp.work_radius,
+      sp.work_portfolio,
+      sp.is_published,
+      sp.rating,
+      sp.review_count,
+      sp.total_rating_points,
+      sp.availability,
+      sp.availability_exceptions,
+      sp.current_status,
+      sp.timezone,
+      sp.busy_until,
+      sp.last_active_at,
+      sp.created_at,
+      CASE
+        WHEN search_point IS NOT NULL THEN ST_Distance(sp.location, search_point) / 1000
+      END AS distance_km,
+      CASE
+        WHEN search_point IS NOT NULL THEN ST_DWithin(sp.location, search_point, sp.work_radius * 1000)
+      END AS within_service_area,
+      CASE
+        WHEN keyword_text IS NOT NULL THEN (
+          COALESCE(ts_rank_cd(sp.search_vector, keyword_query, 32), 0)
+          + GREATEST(word_similarity(keyword_text, sp.service_type), word_similarity(keyword_text, COALESCE(sp.business_name, ''))) / 2
+          + CASE WHEN sp.service_types && keyword_services THEN 0.5 ELSE 0 END
+        )::real
+      END AS search_rank,
+      CASE
+        WHEN keyword_query IS NOT NULL AND sp.search_vector @@ keyword_query THEN ts_headline(
+          'english',
+          sp.description,
+          keyword_query,
+          'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+        )
+      END AS search_snippet
+    FROM service_providers sp
+    JOIN profiles p ON p.id = sp.id
+    WHERE sp.is_published = true
+      AND sp.service_type <> ''
+      AND sp.description <> ''
+      AND sp.address <> ''
+      -- Full-text match with prefixes, a service synonym, or a close spelling
+      -- of the service or business name
+      AND (keyword_text IS NULL
+        OR sp.search_vector @@ keyword_query
+        OR sp.service_types && keyword_services
+        OR keyword_text <% sp.service_type
+        OR keyword_text <% sp.business_name)
+      AND (service_filter IS NULL OR sp.service_types && service_filter)
+      -- Provider must be within the customer's search radius...
+      AND (search_point IS NULL OR search_radius_km IS NULL
+        OR ST_DWithin(sp.location, search_point, search_radius_km * 1000))
+      -- ...and the customer within the provider's work radius, unless asked otherwise
+      AND (search_point IS NULL OR include_outside_area
+        OR ST_DWithin(sp.location, search_point, sp.work_radius * 1000))
+      AND (NOT available_now OR effective_status(sp) = 'available')
+  ),
+  keyed AS (
+    SELECT
+      m.*,
+      CASE m.within_service_area WHEN true THEN 0 WHEN false THEN 1 ELSE 2 END AS sort_area,
+      -COALESCE(m.search_rank, 0) AS sort_rank,
+      COALESCE(m.distance_km, 0) AS sort_distance,
+      -COALESCE(m.rating, 0) AS sort_rating,
+      -COALESCE(m.review_count, 0) AS sort_reviews,
+      -extract(epoch FROM m.created_at) AS sort_created
+    FROM matches m
+  )
+  SELECT
+    k.id,
+    k.email,
+    k.name,
+    k.profile_image,
+    k.business_name,
+    k.business_type,
+    k.service_type,
+    k.service_types,
+    k.description,
+    k.phone,
+    k.website,
+    k.social_media,
+    k.specialties,
+    k.years_experience,
+    k.certifications,
+    k.address,
+    k.latitude,
+    k.longitude,
+    k.work_radius,
+    k.work_portfolio,
+    k.is_published,
+    k.rating,
+    k.review_count,
+    k.total_rating_points,
+    k.availability,
+    k.availability_exceptions,
+    k.current_status,
+    k.timezone,
+    k.busy_until,
+    k.last_active_at,
+    k.created_at,
+    k.distance_km,
+    k.within_service_area,
+    k.search_rank,
+    k.search_snippet,
+    CASE WHEN after_cursor IS NULL THEN (SELECT count(*) FROM matches) END AS total_count
+  FROM keyed k
+  WHERE after_cursor IS NULL
+    OR (k.sort_area, k.sort_rank, k.sort_distance, k.sort_rating, k.sort_reviews, k.sort_created, k.id)
+      > (cursor_area, cursor_rank, cursor_distance, cursor_rating, cursor_reviews, cursor_created, cursor_id)
+  ORDER BY k.sort_area, k.sort_rank, k.sort_distance, k.sort_rating, k.sort_reviews, k.sort_created, k.id
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION match_service_synonyms(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_providers(double precision, double precision, double precision, text, text, boolean, boolean, integer, jsonb) TO authenticated;
+
+-- Add helpful comments
+COMMENT ON TABLE service_categories IS 'Service categories, services and their search synonyms';
+COMMENT ON COLUMN service_providers.service_types IS 'All services the provider offers; service_type is the primary one and always first';
+COMMENT ON FUNCTION match_service_synonyms(text) IS 'Service names whose name or synonyms appear in the text';
+COMMENT ON FUNCTION search_providers(double precision, double precision, double precision, text, text, boolean, boolean, integer, jsonb) IS 'Keyset-paginated provider search ranked by full-text relevance and service synonyms, matching both the search radius and the provider work radius';
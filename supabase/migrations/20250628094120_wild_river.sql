@@ -0,0 +1,438 @@
+/*
+  # Advanced search filters, sorting and facet counts
+
+  1. Search
+    - `search_provider_candidates` applies the base search (keyword, service,
+      radius and service area) and returns, for every candidate, whether it
+      passes each advanced filter: minimum rating, minimum review count,
+      years of experience, business type, portfolio, certifications,
+      available now and open on a weekday
+    - `search_providers` returns the candidates that pass every filter and
+      takes a `sort_by` argument (relevance, distance, rating or newest)
+    - `search_sort_keys` builds the ordering for each sort so the keyset
+      cursor works the same way for all of them
+    - Match snippets are only built for the rows of the returned page
+
+  2. Facets
+    - `search_provider_facets` counts, for each filter option, how many
+      providers would match if that option were picked while keeping the
+      other filters as they are
+*/
+
+-- Base search with a pass/fail flag per advanced filter
+CREATE OR REPLACE FUNCTION search_provider_candidates(
+  search_lat double precision DEFAULT NULL,
+  search_lng double precision DEFAULT NULL,
+  search_radius_km double precision DEFAULT NULL,
+  search_keyword text DEFAULT NULL,
+  search_service_type text DEFAULT NULL,
+  available_now boolean DEFAULT false,
+  include_outside_area boolean DEFAULT false,
+  min_rating numeric DEFAULT NULL,
+  min_reviews integer DEFAULT NULL,
+  min_experience integer DEFAULT NULL,
+  filter_business_type text DEFAULT NULL,
+  has_portfolio boolean DEFAULT false,
+  has_certifications boolean DEFAULT false,
+  open_on_day text DEFAULT NULL
+)
+RETURNS TABLE (
+  provider_id uuid,
+  distance_km double precision,
+  within_service_area boolean,
+  search_rank real,
+  is_available_now boolean,
+  open_days text[],
+  pass_rating boolean,
+  pass_reviews boolean,
+  pass_experience boolean,
+  pass_business_type boolean,
+  pass_portfolio boolean,
+  pass_certifications boolean,
+  pass_available boolean,
+  pass_open_day boolean
+)
+LANGUAGE plpgsql
+STABLE
+SET pg_trgm.word_similarity_threshold = 0.4
+AS $$
+#variable_conflict use_column
+DECLARE
+  search_point geography;
+  keyword_text text;
+  keyword_query tsquery;
+  keyword_services text[];
+  service_filter text[];
+BEGIN
+  IF search_lat IS NOT NULL AND search_lng IS NOT NULL THEN
+    search_point := ST_SetSRID(ST_MakePoint(search_lng, search_lat), 4326)::geography;
+  END IF;
+
+  IF search_keyword IS NOT NULL AND trim(search_keyword) <> '' THEN
+    keyword_text := lower(trim(search_keyword));
+    keyword_query := build_search_query(search_keyword);
+    keyword_services := match_service_synonyms(search_keyword);
+  END IF;
+
+  -- A category name filters on all of its services
+  IF search_service_type IS NOT NULL AND trim(search_service_type) <> '' THEN
+    SELECT array_agg(sc.name) INTO service_filter
+    FROM service_categories sc
+    WHERE sc.parent_slug IS NOT NULL
+      AND (sc.name = trim(search_service_type)
+        OR sc.parent_slug IN (
+          SELECT c.slug FROM service_categories c WHERE c.parent_slug IS NULL AND c.name = trim(search_service_type)
+        ));
+
+    service_filter := COALESCE(service_filter, ARRAY[trim(search_service_type)]);
+  END IF;
+
+  RETURN QUERY
+  WITH base AS (
+    SELECT
+      sp.id,
+      sp.rating,
+      sp.review_count,
+      sp.years_experience,
+      sp.business_type,
+      sp.work_portfolio,
+      sp.certifications,
+      CASE
+        WHEN search_point IS NOT NULL THEN ST_Distance(sp.location, search_point) / 1000
+      END AS distance_km,
+      CASE
+        WHEN search_point IS NOT NULL THEN ST_DWithin(sp.location, search_point, sp.work_radius * 1000)
+      END AS within_service_area,
+      CASE
+        WHEN keyword_text IS NOT NULL THEN (
+          COALESCE(ts_rank_cd(sp.search_vector, keyword_query, 32), 0)
+          + GREATEST(word_similarity(keyword_text, sp.service_type), word_similarity(keyword_text, COALESCE(sp.business_name, ''))) / 2
+          + CASE WHEN sp.service_types && keyword_services THEN 0.5 ELSE 0 END
+        )::real
+      END AS search_rank,
+      effective_status(sp) = 'available' AS is_available_now,
+      ARRAY(
+        SELECT d.key
+        FROM jsonb_each(COALESCE(sp.availability, '{}'::jsonb)) d
+        WHERE d.value ->> 'available' = 'true'
+      ) AS open_days
+    FROM service_providers sp
+    WHERE sp.is_published = true
+      AND sp.service_type <> ''
+      AND sp.description <> ''
+      AND sp.address <> ''
+      -- Full-text match with prefixes, a service synonym, or a close spelling
+      -- of the service or business name
+      AND (keyword_text IS NULL
+        OR sp.search_vector @@ keyword_query
+        OR sp.service_types && keyword_services
+        OR keyword_text <% sp.service_type
+        OR keyword_text <% sp.business_name)
+      AND (service_filter IS NULL OR sp.service_types && service_filter)
+      -- Provider must be within the customer's search radius...
+      AND (search_point IS NULL OR search_radius_km IS NULL
+        OR ST_DWithin(sp.location, search_point, search_radius_km * 1000))
+      -- ...and the customer within the provider's work radius, unless asked otherwise
+      AND (search_point IS NULL OR include_outside_area
+        OR ST_DWithin(sp.location, search_point, sp.work_radius * 1000))
+  )
+  SELECT
+    b.id,
+    b.distance_km,
+    b.within_service_area,
+    b.search_rank,
+    b.is_available_now,
+    b.open_days,
+    min_rating IS NULL OR COALESCE(b.rating, 0) >= min_rating,
+    min_reviews IS NULL OR COALESCE(b.review_count, 0) >= min_reviews,
+    min_experience IS NULL OR COALESCE(b.years_experience, 0) >= min_experience,
+    filter_business_type IS NULL OR filter_business_type = '' OR b.business_type = filter_business_type,
+    NOT has_portfolio OR COALESCE(cardinality(b.work_portfolio), 0) > 0,
+    NOT has_certifications OR COALESCE(cardinality(b.certifications), 0) > 0,
+    NOT available_now OR b.is_available_now,
+    open_on_day IS NULL OR open_on_day = '' OR open_on_day = ANY(b.open_days)
+  FROM base b;
+END;
+$$;
+
+-- Ascending sort keys for each sort option; the provider id breaks ties.
+-- Providers outside their service area always come last.
+CREATE OR REPLACE FUNCTION search_sort_keys(
+  sort_by text,
+  within_service_area boolean,
+  search_rank real,
+  distance_km double precision,
+  rating numeric,
+  review_count integer,
+  created_at timestamptz
+)
+RETURNS numeric[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    ARRAY[CASE within_service_area WHEN true THEN 0 WHEN false THEN 1 ELSE 2 END::numeric]
+    || CASE sort_by
+      WHEN 'distance' THEN ARRAY[COALESCE(distance_km, 0)::numeric, -COALESCE(rating, 0), -COALESCE(review_count, 0)::numeric]
+      WHEN 'rating' THEN ARRAY[-COALESCE(rating, 0), -COALESCE(review_count, 0)::numeric, COALESCE(distance_km, 0)::numeric]
+      WHEN 'newest' THEN ARRAY[]::numeric[]
+      ELSE ARRAY[-COALESCE(search_rank, 0)::numeric, COALESCE(distance_km, 0)::numeric, -COALESCE(rating, 0), -COALESCE(review_count, 0)::numeric]
+    END
+    || ARRAY[-extract(epoch FROM created_at)];
+$$;
+
+-- Replace the previous signature
+DROP FUNCTION IF EXISTS search_providers(double precision, double precision, double precision, text, text, boolean, boolean, integer, jsonb);
+
+-- Filtered, sorted search of published providers, one page after the cursor
+CREATE OR REPLACE FUNCTION search_providers(
+  search_lat double precision DEFAULT NULL,
+  search_lng double precision DEFAULT NULL,
+  search_radius_km double precision DEFAULT NULL,
+  search_keyword text DEFAULT NULL,
+  search_service_type text DEFAULT NULL,
+  available_now boolean DEFAULT false,
+  include_outside_area boolean DEFAULT false,
+  min_rating numeric DEFAULT NULL,
+  min_reviews integer DEFAULT NULL,
+  min_experience integer DEFAULT NULL,
+  filter_business_type text DEFAULT NULL,
+  has_portfolio boolean DEFAULT false,
+  has_certifications boolean DEFAULT false,
+  open_on_day text DEFAULT NULL,
+  sort_by text DEFAULT 'relevance',
+  page_size integer DEFAULT 20,
+  after_cursor jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  email text,
+  name text,
+  profile_image text,
+  business_name text,
+  business_type text,
+  service_type text,
+  service_types text[],
+  description text,
+  phone text,
+  website text,
+  social_media jsonb,
+  specialties text[],
+  years_experience integer,
+  certifications text[],
+  address text,
+  latitude numeric,
+  longitude numeric,
+  work_radius integer,
+  work_portfolio text[],
+  is_published boolean,
+  rating numeric,
+  review_count integer,
+  total_rating_points integer,
+  availability jsonb,
+  availability_exceptions jsonb,
+  current_status text,
+  timezone text,
+  busy_until timestamptz,
+  last_active_at timestamptz,
+  created_at timestamptz,
+  distance_km double precision,
+  within_service_area boolean,
+  search_rank real,
+  search_snippet text,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+#variable_conflict use_column
+DECLARE
+  keyword_query tsquery;
+  cursor_keys numeric[];
+  cursor_id uuid;
+BEGIN
+  IF search_keyword IS NOT NULL AND trim(search_keyword) <> '' THEN
+    keyword_query := build_search_query(search_keyword);
+  END IF;
+
+  IF after_cursor IS NOT NULL THEN
+    cursor_keys := search_sort_keys(
+      sort_by,
+      (after_cursor ->> 'within_service_area')::boolean,
+      (after_cursor ->> 'search_rank')::real,
+      (after_cursor ->> 'distance_km')::double precision,
+      (after_cursor ->> 'rating')::numeric,
+      (after_cursor ->> 'review_count')::integer,
+      (after_cursor ->> 'created_at')::timestamptz
+    );
+    cursor_id := (after_cursor ->> 'id')::uuid;
+  END IF;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      c.provider_id,
+      c.distance_km,
+      c.within_service_area,
+      c.search_rank,
+      search_sort_keys(sort_by, c.within_service_area, c.search_rank, c.distance_km, sp.rating, sp.review_count, sp.created_at) AS sort_keys
+    FROM search_provider_candidates(
+      search_lat, search_lng, search_radius_km, search_keyword, search_service_type, available_now,
+      include_outside_area, min_rating, min_reviews, min_experience, filter_business_type, has_portfolio,
+      has_certifications, open_on_day
+    ) c
+    JOIN service_providers sp ON sp.id = c.provider_id
+    WHERE c.pass_rating
+      AND c.pass_reviews
+      AND c.pass_experience
+      AND c.pass_business_type
+      AND c.pass_portfolio
+      AND c.pass_certifications
+      AND c.pass_available
+      AND c.pass_open_day
+  )
+  SELECT
+    sp.id,
+    p.email,
+    p.name,
+    p.profile_image,
+    sp.business_name,
+    sp.business_type,
+    sp.service_type,
+    sp.service_types,
+    sp.description,
+    sp.phone,
+    sp.website,
+    sp.social_media,
+    sp.specialties,
+    sp.years_experience,
+    sp.certifications,
+    sp.address,
+    sp.latitude,
+    sp.longitude,
+    sp.work_radius,
+    sp.work_portfolio,
+    sp.is_published,
+    sp.rating,
+    sp.review_count,
+    sp.total_rating_points,
+    sp.availability,
+    sp.availability_exceptions,
+    sp.current_status,
+    sp.timezone,
+    sp.busy_until,
+    sp.last_active_at,
+    sp.created_at,
+    m.distance_km,
+    m.within_service_area,
+    m.search_rank,
+    CASE
+      WHEN keyword_query IS NOT NULL AND sp.search_vector @@ keyword_query THEN ts_headline(
+        'english',
+        sp.description,
+        keyword_query,
+        'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+      )
+    END AS search_snippet,
+    CASE WHEN after_cursor IS NULL THEN (SELECT count(*) FROM matches) END AS total_count
+  FROM matches m
+  JOIN service_providers sp ON sp.id = m.provider_id
+  JOIN profiles p ON p.id = sp.id
+  WHERE after_cursor IS NULL
+    OR (m.sort_keys, m.provider_id) > (cursor_keys, cursor_id)
+  ORDER BY m.sort_keys, m.provider_id
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+END;
+$$;
+
+-- Facet counts for the advanced filter panel. Keep the option values in sync
+-- with the filter options in LocationSearchBar.
+CREATE OR REPLACE FUNCTION search_provider_facets(
+  search_lat double precision DEFAULT NULL,
+  search_lng double precision DEFAULT NULL,
+  search_radius_km double precision DEFAULT NULL,
+  search_keyword text DEFAULT NULL,
+  search_service_type text DEFAULT NULL,
+  available_now boolean DEFAULT false,
+  include_outside_area boolean DEFAULT false,
+  min_rating numeric DEFAULT NULL,
+  min_reviews integer DEFAULT NULL,
+  min_experience integer DEFAULT NULL,
+  filter_business_type text DEFAULT NULL,
+  has_portfolio boolean DEFAULT false,
+  has_certifications boolean DEFAULT false,
+  open_on_day text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  WITH candidates AS (
+    SELECT
+      c.*,
+      COALESCE(sp.rating, 0) AS provider_rating,
+      COALESCE(sp.review_count, 0) AS provider_reviews,
+      COALESCE(sp.years_experience, 0) AS provider_experience,
+      sp.business_type AS provider_business_type,
+      COALESCE(cardinality(sp.work_portfolio), 0) > 0 AS provider_has_portfolio,
+      COALESCE(cardinality(sp.certifications), 0) > 0 AS provider_has_certifications,
+      -- Number of filters passed; a facet option counts rows that pass every
+      -- other filter (passes - own flag = 7)
+      c.pass_rating::int + c.pass_reviews::int + c.pass_experience::int + c.pass_business_type::int
+        + c.pass_portfolio::int + c.pass_certifications::int + c.pass_available::int + c.pass_open_day::int AS passes
+    FROM search_provider_candidates(
+      search_lat, search_lng, search_radius_km, search_keyword, search_service_type, available_now,
+      include_outside_area, min_rating, min_reviews, min_experience, filter_business_type, has_portfolio,
+      has_certifications, open_on_day
+    ) c
+    JOIN service_providers sp ON sp.id = c.provider_id
+  )
+  SELECT jsonb_build_object(
+    'total', count(*) FILTER (WHERE passes = 8),
+    'rating', jsonb_build_object(
+      '3', count(*) FILTER (WHERE passes - pass_rating::int = 7 AND provider_rating >= 3),
+      '4', count(*) FILTER (WHERE passes - pass_rating::int = 7 AND provider_rating >= 4),
+      '4.5', count(*) FILTER (WHERE passes - pass_rating::int = 7 AND provider_rating >= 4.5)
+    ),
+    'reviews', jsonb_build_object(
+      '1', count(*) FILTER (WHERE passes - pass_reviews::int = 7 AND provider_reviews >= 1),
+      '5', count(*) FILTER (WHERE passes - pass_reviews::int = 7 AND provider_reviews >= 5),
+      '10', count(*) FILTER (WHERE passes - pass_reviews::int = 7 AND provider_reviews >= 10)
+    ),
+    'experience', jsonb_build_object(
+      '1', count(*) FILTER (WHERE passes - pass_experience::int = 7 AND provider_experience >= 1),
+      '3', count(*) FILTER (WHERE passes - pass_experience::int = 7 AND provider_experience >= 3),
+      '5', count(*) FILTER (WHERE passes - pass_experience::int = 7 AND provider_experience >= 5),
+      '10', count(*) FILTER (WHERE passes - pass_experience::int = 7 AND provider_experience >= 10)
+    ),
+    'business_type', jsonb_build_object(
+      'individual', count(*) FILTER (WHERE passes - pass_business_type::int = 7 AND provider_business_type = 'individual'),
+      'business', count(*) FILTER (WHERE passes - pass_business_type::int = 7 AND provider_business_type = 'business')
+    ),
+    'open_on', jsonb_build_object(
+      'monday', count(*) FILTER (WHERE passes - pass_open_day::int = 7 AND 'monday' = ANY(open_days)),
+      'tuesday', count(*) FILTER (WHERE passes - pass_open_day::int = 7 AND 'tuesday' = ANY(open_days)),
+      'wednesday', count(*) FILTER (WHERE passes - pass_open_day::int = 7 AND 'wednesday' = ANY(open_days)),
+      'thursday', count(*) FILTER (WHERE passes - pass_open_day::int = 7 AND 'thursday' = ANY(open_days)),
+      'friday', count(*) FILTER (WHERE passes - pass_open_day::int = 7 AND 'friday' = ANY(open_days)),
+      'saturday', count(*) FILTER (WHERE passes - pass_open_day::int = 7 AND 'saturday' = ANY(open_days)),
+      'sunday', count(*) FILTER (WHERE passes - pass_open_day::int = 7 AND 'sunday' = ANY(open_days))
+    ),
+    'has_portfolio', count(*) FILTER (WHERE passes - pass_portfolio::int = 7 AND provider_has_portfolio),
+    'has_certifications', count(*) FILTER (WHERE passes - pass_certifications::int = 7 AND provider_has_certifications),
+    'available_now', count(*) FILTER (WHERE passes - pass_available::int = 7 AND is_available_now)
+  )
+  FROM candidates;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION search_provider_candidates(double precision, double precision, double precision, text, text, boolean, boolean, numeric, integer, integer, text, boolean, boolean, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_sort_keys(text, boolean, real, double precision, numeric, integer, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_providers(double precision, double precision, double precision, text, text, boolean, boolean, numeric, integer, integer, text, boolean, boolean, text, text, integer, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_provider_facets(double precision, double precision, double precision, text, text, boolean, boolean, numeric, integer, integer, text, boolean, boolean, text) TO authenticated;
+
+-- Add helpful comments
+COMMENT ON FUNCTION search_provider_candidates(double precision, double precision, double precision, text, text, boolean, boolean, numeric, integer, integer, text, boolean, boolean, text) IS 'Providers matching the base search, with a pass flag for each advanced filter';
+COMMENT ON FUNCTION search_sort_keys(text, boolean, real, double precision, numeric, integer, timestamptz) IS 'Ascending sort keys for relevance, distance, rating or newest ordering';
+COMMENT ON FUNCTION search_providers(double precision, double precision, double precision, text, text, boolean, boolean, numeric, integer, integer, text, boolean, boolean, text, text, integer, jsonb) IS 'Keyset-paginated provider search with advanced filters and selectable sort order';
+COMMENT ON FUNCTION search_provider_facets(double precision, double precision, double precision, text, text, boolean, boolean, numeric, integer, integer, text, boolean, boolean, text) IS 'Match counts for each advanced search filter option';
@@ -0,0 +1,31 @@
+/*
+  # Realtime chat messages
+
+  1. Realtime
+    - Add `chat_messages` to the `supabase_realtime` publication so clients
+      receive INSERT and UPDATE events instead of polling. Deletions arrive
+      as the UPDATE that flags the message as deleted
+    - REPLICA IDENTITY FULL so UPDATE events carry the whole row, including
+      the read and deletion flags the client filters on
+
+  2. Performance
+    - Partial index for the unread message badge count
+*/
+
+-- Publish message changes to Realtime
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'chat_messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE chat_messages;
+  END IF;
+END $$;
+
+ALTER TABLE chat_messages REPLICA IDENTITY FULL;
+
+-- Create index for unread counts
+CREATE INDEX IF NOT EXISTS idx_chat_messages_unread ON chat_messages(receiver_id) WHERE read = false;
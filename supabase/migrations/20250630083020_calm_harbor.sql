@@ -0,0 +1,134 @@
+/*
+  # Chat attachments in Supabase Storage
+
+  1. Storage
+    - Private `chat-attachments` bucket. The bucket enforces the 10 MB size
+      limit and the allowed MIME types on upload
+    - Objects live under `<smaller user id>/<larger user id>/`, so each
+      conversation has its own folder
+
+  2. Security
+    - Only the two participants of a conversation can read its attachments
+      (files are served through signed URLs)
+    - Users can only upload into the folder of a conversation they are part of
+    - Uploaders can delete their own attachments
+
+  3. Messages
+    - `validate_chat_attachment` checks that image/file messages point at an
+      uploaded object in the sender's conversation folder and takes the file
+      size from the stored object instead of trusting the client
+*/
+
+-- Create the private bucket
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'chat-attachments',
+  'chat-attachments',
+  false,
+  10485760,
+  ARRAY[
+    'image/jpeg',
+    'image/png',
+    'image/gif',
+    'image/webp',
+    'application/pdf',
+    'text/plain',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  ]
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- Folder of the conversation between two users, matching src/lib/attachments.ts
+CREATE OR REPLACE FUNCTION chat_attachment_folder(user1_id uuid, user2_id uuid)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT LEAST(user1_id, user2_id)::text || '/' || GREATEST(user1_id, user2_id)::text || '/';
+$$;
+
+-- Storage policies
+DROP POLICY IF EXISTS "Participants can read chat attachments" ON storage.objects;
+DROP POLICY IF EXISTS "Participants can upload chat attachments" ON storage.objects;
+DROP POLICY IF EXISTS "Uploaders can delete chat attachments" ON storage.objects;
+
+CREATE POLICY "Participants can read chat attachments"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'chat-attachments'
+    AND auth.uid()::text IN ((storage.foldername(name))[1], (storage.foldername(name))[2])
+  );
+
+CREATE POLICY "Participants can upload chat attachments"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'chat-attachments'
+    AND auth.uid()::text IN ((storage.foldername(name))[1], (storage.foldername(name))[2])
+    AND (storage.foldername(name))[1] < (storage.foldername(name))[2]
+  );
+
+CREATE POLICY "Uploaders can delete chat attachments"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'chat-attachments' AND owner = auth.uid());
+
+-- Validate attachment messages
+CREATE OR REPLACE FUNCTION validate_chat_attachment()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  stored_size bigint;
+BEGIN
+  IF COALESCE(NEW.message_type, 'text') = 'text' THEN
+    NEW.file_url := NULL;
+    NEW.file_name := NULL;
+    NEW.file_size := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.file_url IS NULL OR NEW.file_name IS NULL OR trim(NEW.file_name) = '' THEN
+    RAISE EXCEPTION 'Attachment messages need a file.';
+  END IF;
+
+  IF NEW.file_url NOT LIKE chat_attachment_folder(NEW.sender_id, NEW.receiver_id) || '%' THEN
+    RAISE EXCEPTION 'Attachment does not belong to this conversation.';
+  END IF;
+
+  SELECT (o.metadata ->> 'size')::bigint
+  INTO stored_size
+  FROM storage.objects o
+  WHERE o.bucket_id = 'chat-attachments'
+    AND o.name = NEW.file_url;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attachment has not been uploaded.';
+  END IF;
+
+  IF stored_size > 10485760 THEN
+    RAISE EXCEPTION 'Attachments must be smaller than 10MB.';
+  END IF;
+
+  NEW.file_size := stored_size;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_chat_attachment_trigger ON chat_messages;
+CREATE TRIGGER validate_chat_attachment_trigger
+  BEFORE INSERT OR UPDATE OF message_type, file_url, file_name, file_size ON chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_chat_attachment();
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION chat_attachment_folder(uuid, uuid) TO authenticated;
+
+-- Add helpful comments
+COMMENT ON COLUMN chat_messages.file_url IS 'Object path in the chat-attachments bucket; served through signed URLs';
+COMMENT ON FUNCTION chat_attachment_folder(uuid, uuid) IS 'Storage folder holding the attachments of a conversation';
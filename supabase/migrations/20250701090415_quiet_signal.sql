@@ -0,0 +1,117 @@
+/*
+  # Presence privacy and last seen
+
+  1. Schema
+    - `show_online_status` (boolean) on profiles - Whether others see the user
+      as online while the app is open
+    - `show_last_seen` (boolean) on profiles - Whether others see when the user
+      was last active
+    - `user_last_seen` - Last activity per user, refreshed by the app while it
+      is open. Only the user can read their own row directly
+
+  2. Functions
+    - `touch_last_seen` records activity for the signed in user
+    - `get_last_seen` returns the last seen time of the users the caller has
+      exchanged messages with (NULL for anyone who hides it), and whether
+      they count as online: active in the last 2 minutes and sharing their
+      online status. Users who hide both are left out
+
+  3. Realtime
+    - Typing and online state are shared on private `conversation:<id>:<id>`
+      presence channels (the two user ids, sorted). Only those two users
+      can join a conversation's channel
+*/
+
+-- Add privacy settings
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS show_online_status boolean NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS show_last_seen boolean NOT NULL DEFAULT true;
+
+-- Create last seen table
+CREATE TABLE IF NOT EXISTS user_last_seen (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  last_seen_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE user_last_seen ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own last seen" ON user_last_seen;
+CREATE POLICY "Users can read their own last seen"
+  ON user_last_seen FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Record activity for the current user
+CREATE OR REPLACE FUNCTION touch_last_seen()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO user_last_seen (user_id, last_seen_at)
+  SELECT auth.uid(), now()
+  WHERE auth.uid() IS NOT NULL
+  ON CONFLICT (user_id) DO UPDATE SET last_seen_at = EXCLUDED.last_seen_at;
+$$;
+
+-- Last seen and online status of conversation partners who share them. The
+-- app records activity every minute while it is open
+CREATE OR REPLACE FUNCTION get_last_seen(user_ids uuid[])
+RETURNS TABLE (
+  user_id uuid,
+  last_seen_at timestamptz,
+  online boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    ls.user_id,
+    CASE WHEN p.show_last_seen THEN ls.last_seen_at END,
+    p.show_online_status AND ls.last_seen_at > now() - interval '2 minutes'
+  FROM user_last_seen ls
+  JOIN profiles p ON p.id = ls.user_id
+  WHERE ls.user_id = ANY(user_ids)
+    AND (p.show_last_seen OR p.show_online_status)
+    -- Participant rows can exist without a conversation, so look for real messages
+    AND EXISTS (
+      SELECT 1
+      FROM chat_messages m
+      WHERE (m.sender_id = auth.uid() AND m.receiver_id = ls.user_id)
+         OR (m.sender_id = ls.user_id AND m.receiver_id = auth.uid())
+    );
+$$;
+
+-- Only the two users of a conversation can join its presence channel
+DROP POLICY IF EXISTS "Conversation members can read presence" ON realtime.messages;
+DROP POLICY IF EXISTS "Conversation members can share presence" ON realtime.messages;
+
+CREATE POLICY "Conversation members can read presence"
+  ON realtime.messages FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'presence'
+    AND split_part(realtime.topic(), ':', 1) = 'conversation'
+    AND auth.uid()::text IN (split_part(realtime.topic(), ':', 2), split_part(realtime.topic(), ':', 3))
+  );
+
+CREATE POLICY "Conversation members can share presence"
+  ON realtime.messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'presence'
+    AND split_part(realtime.topic(), ':', 1) = 'conversation'
+    AND auth.uid()::text IN (split_part(realtime.topic(), ':', 2), split_part(realtime.topic(), ':', 3))
+  );
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION touch_last_seen() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_last_seen(uuid[]) TO authenticated;
+
+-- Add helpful comments
+COMMENT ON COLUMN profiles.show_online_status IS 'Whether conversation partners see the user as online';
+COMMENT ON COLUMN profiles.show_last_seen IS 'Whether conversation partners see when the user was last active';
+COMMENT ON TABLE user_last_seen IS 'Last time each user had the app open; read by others through get_last_seen';
+COMMENT ON FUNCTION get_last_seen(uuid[]) IS 'Last seen times and online status of the caller''s conversation partners, respecting show_last_seen and show_online_status';
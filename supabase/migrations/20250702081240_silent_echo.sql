@@ -0,0 +1,206 @@
+/*
+  # Delivered and read receipts
+
+  1. Schema
+    - `delivered_at` (timestamptz) on chat_messages - When the receiver's app
+      first received the message
+    - `read_at` (timestamptz) on chat_messages - When the message was shown to
+      the receiver. `read` is kept for existing queries and follows `read_at`
+
+  2. Functions
+    - `mark_messages_delivered` stamps every undelivered message of the
+      signed in user
+    - `mark_messages_read` stamps specific messages, so only the messages the
+      receiver has actually seen are marked
+    - `get_user_messages` and `get_conversation_messages` also return the
+      receipt timestamps
+
+  3. Triggers
+    - Receipts never move backwards, and setting `read` directly still
+      records a read time
+*/
+
+-- Add receipt timestamps
+ALTER TABLE chat_messages
+ADD COLUMN IF NOT EXISTS delivered_at timestamptz,
+ADD COLUMN IF NOT EXISTS read_at timestamptz;
+
+-- Messages read before receipts existed count as delivered and read when sent
+UPDATE chat_messages
+SET delivered_at = created_at, read_at = created_at
+WHERE read = true AND read_at IS NULL;
+
+-- Create index for pending deliveries
+CREATE INDEX IF NOT EXISTS idx_chat_messages_undelivered ON chat_messages(receiver_id) WHERE delivered_at IS NULL;
+
+-- Keep the read flag and the receipt timestamps consistent
+CREATE OR REPLACE FUNCTION sync_chat_message_receipts()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.delivered_at IS NOT NULL THEN
+    NEW.delivered_at := OLD.delivered_at;
+  END IF;
+
+  IF OLD.read_at IS NOT NULL THEN
+    NEW.read_at := OLD.read_at;
+  END IF;
+
+  IF NEW.read AND NEW.read_at IS NULL THEN
+    NEW.read_at := now();
+  END IF;
+
+  IF NEW.read_at IS NOT NULL THEN
+    NEW.read := true;
+    NEW.delivered_at := COALESCE(NEW.delivered_at, NEW.read_at);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_chat_message_receipts_trigger ON chat_messages;
+CREATE TRIGGER sync_chat_message_receipts_trigger
+  BEFORE UPDATE OF read, delivered_at, read_at ON chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_chat_message_receipts();
+
+-- Mark everything the current user has received as delivered
+CREATE OR REPLACE FUNCTION mark_messages_delivered()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE chat_messages
+  SET delivered_at = now()
+  WHERE receiver_id = auth.uid()
+    AND delivered_at IS NULL
+    AND deleted_for_all = false;
+$$;
+
+-- Mark the given messages as read by the current user
+CREATE OR REPLACE FUNCTION mark_messages_read(message_ids uuid[])
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE chat_messages
+  SET read_at = now()
+  WHERE id = ANY(message_ids)
+    AND receiver_id = auth.uid()
+    AND read_at IS NULL
+    AND deleted_for_all = false;
+$$;
+
+-- Recreate the message functions with the receipt columns
+DROP FUNCTION IF EXISTS get_user_messages(uuid);
+DROP FUNCTION IF EXISTS get_conversation_messages(uuid, uuid);
+
+CREATE OR REPLACE FUNCTION get_user_messages(user_id uuid)
+RETURNS TABLE (
+  id uuid,
+  sender_id uuid,
+  receiver_id uuid,
+  content text,
+  read boolean,
+  created_at timestamptz,
+  message_type text,
+  file_url text,
+  file_name text,
+  file_size integer,
+  delivered_at timestamptz,
+  read_at timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.sender_id,
+    m.receiver_id,
+    m.content,
+    m.read,
+    m.created_at,
+    m.message_type,
+    m.file_url,
+    m.file_name,
+    m.file_size,
+    m.delivered_at,
+    m.read_at
+  FROM chat_messages m
+  WHERE
+    (m.sender_id = user_id OR m.receiver_id = user_id)
+    AND m.deleted_for_all = false
+    AND (
+      (m.sender_id = user_id AND m.deleted_for_sender = false) OR
+      (m.receiver_id = user_id AND m.deleted_for_receiver = false)
+    )
+  ORDER BY m.created_at ASC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_conversation_messages(user1_id uuid, user2_id uuid)
+RETURNS TABLE (
+  id uuid,
+  sender_id uuid,
+  receiver_id uuid,
+  content text,
+  read boolean,
+  created_at timestamptz,
+  message_type text,
+  file_url text,
+  file_name text,
+  file_size integer,
+  delivered_at timestamptz,
+  read_at timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.sender_id,
+    m.receiver_id,
+    m.content,
+    m.read,
+    m.created_at,
+    m.message_type,
+    m.file_url,
+    m.file_name,
+    m.file_size,
+    m.delivered_at,
+    m.read_at
+  FROM chat_messages m
+  WHERE
+    (
+      (m.sender_id = user1_id AND m.receiver_id = user2_id) OR
+      (m.sender_id = user2_id AND m.receiver_id = user1_id)
+    )
+    AND m.deleted_for_all = false
+    AND (
+      (m.sender_id = user1_id AND m.deleted_for_sender = false) OR
+      (m.receiver_id = user1_id AND m.deleted_for_receiver = false) OR
+      (m.sender_id = user2_id AND m.deleted_for_sender = false) OR
+      (m.receiver_id = user2_id AND m.deleted_for_receiver = false)
+    )
+  ORDER BY m.created_at ASC;
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION mark_messages_delivered() TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_messages_read(uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_user_messages(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_conversation_messages(uuid, uuid) TO authenticated;
+
+-- Add helpful comments
+COMMENT ON COLUMN chat_messages.delivered_at IS 'When the receiver''s app first received the message';
+COMMENT ON COLUMN chat_messages.read_at IS 'When the message was first shown to the receiver';
+COMMENT ON FUNCTION mark_messages_read(uuid[]) IS 'Marks messages the current user has seen as read';
@@ -0,0 +1,175 @@
+/*
+  # Starred, archived, muted and pinned conversations
+
+  1. Schema
+    - `starred`, `archived`, `muted`, `pinned` (boolean) on
+      conversation_participants. Each user has their own row per
+      conversation, so the flags are personal
+    - Backfill participant rows for conversations that started before the
+      participants trigger existed
+
+  2. Functions
+    - `update_conversation_state` sets any of the flags for the signed in
+      user, creating the participant row if needed. Only works for users the
+      caller has exchanged messages with
+    - `get_user_messages` returns the flags with every message and takes a
+      `conversation_filter`:
+        - 'any' (default) - every conversation
+        - 'all' - conversations that are not archived
+        - 'starred' - starred conversations
+        - 'archived' - archived conversations
+      Only the signed in user's own messages can be read
+*/
+
+-- Add conversation flags
+ALTER TABLE conversation_participants
+ADD COLUMN IF NOT EXISTS starred boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS archived boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS muted boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS pinned boolean NOT NULL DEFAULT false;
+
+-- Make sure every existing conversation has participant rows
+INSERT INTO conversation_participants (conversation_id, user_id, other_user_id)
+SELECT DISTINCT generate_conversation_id(m.sender_id, m.receiver_id), m.sender_id, m.receiver_id
+FROM chat_messages m
+ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+INSERT INTO conversation_participants (conversation_id, user_id, other_user_id)
+SELECT DISTINCT generate_conversation_id(m.sender_id, m.receiver_id), m.receiver_id, m.sender_id
+FROM chat_messages m
+ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+-- Create index for looking up a user's side of a conversation
+CREATE INDEX IF NOT EXISTS idx_conversation_participants_user_other ON conversation_participants(user_id, other_user_id);
+
+-- Set conversation flags for the current user; NULL leaves a flag unchanged
+CREATE OR REPLACE FUNCTION update_conversation_state(
+  other_user uuid,
+  new_starred boolean DEFAULT NULL,
+  new_archived boolean DEFAULT NULL,
+  new_muted boolean DEFAULT NULL,
+  new_pinned boolean DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Only real conversations get a participant row
+  IF NOT EXISTS (
+    SELECT 1
+    FROM chat_messages m
+    WHERE (m.sender_id = auth.uid() AND m.receiver_id = other_user)
+       OR (m.sender_id = other_user AND m.receiver_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Conversation not found';
+  END IF;
+
+  INSERT INTO conversation_participants (conversation_id, user_id, other_user_id, starred, archived, muted, pinned)
+  VALUES (
+    generate_conversation_id(auth.uid(), other_user),
+    auth.uid(),
+    other_user,
+    COALESCE(new_starred, false),
+    COALESCE(new_archived, false),
+    COALESCE(new_muted, false),
+    COALESCE(new_pinned, false)
+  )
+  ON CONFLICT (conversation_id, user_id) DO UPDATE SET
+    starred = COALESCE(new_starred, conversation_participants.starred),
+    archived = COALESCE(new_archived, conversation_participants.archived),
+    muted = COALESCE(new_muted, conversation_participants.muted),
+    pinned = COALESCE(new_pinned, conversation_participants.pinned),
+    updated_at = now();
+END;
+$$;
+
+-- Recreate get_user_messages with the conversation flags and filter
+DROP FUNCTION IF EXISTS get_user_messages(uuid);
+
+CREATE OR REPLACE FUNCTION get_user_messages(user_id uuid, conversation_filter text DEFAULT 'any')
+RETURNS TABLE (
+  id uuid,
+  sender_id uuid,
+  receiver_id uuid,
+  content text,
+  read boolean,
+  created_at timestamptz,
+  message_type text,
+  file_url text,
+  file_name text,
+  file_size integer,
+  delivered_at timestamptz,
+  read_at timestamptz,
+  is_starred boolean,
+  is_archived boolean,
+  is_muted boolean,
+  is_pinned boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Users can only read their own messages
+  IF get_user_messages.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.sender_id,
+    m.receiver_id,
+    m.content,
+    m.read,
+    m.created_at,
+    m.message_type,
+    m.file_url,
+    m.file_name,
+    m.file_size,
+    m.delivered_at,
+    m.read_at,
+    COALESCE(cp.starred, false),
+    COALESCE(cp.archived, false),
+    COALESCE(cp.muted, false),
+    COALESCE(cp.pinned, false)
+  FROM chat_messages m
+  LEFT JOIN conversation_participants cp
+    ON cp.user_id = get_user_messages.user_id
+    AND cp.conversation_id = generate_conversation_id(m.sender_id, m.receiver_id)
+  WHERE
+    (m.sender_id = get_user_messages.user_id OR m.receiver_id = get_user_messages.user_id)
+    AND m.deleted_for_all = false
+    AND (
+      (m.sender_id = get_user_messages.user_id AND m.deleted_for_sender = false) OR
+      (m.receiver_id = get_user_messages.user_id AND m.deleted_for_receiver = false)
+    )
+    AND CASE conversation_filter
+      WHEN 'all' THEN NOT COALESCE(cp.archived, false)
+      WHEN 'starred' THEN COALESCE(cp.starred, false)
+      WHEN 'archived' THEN COALESCE(cp.archived, false)
+      ELSE true
+    END
+  ORDER BY m.created_at ASC;
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION update_conversation_state(uuid, boolean, boolean, boolean, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_user_messages(uuid, text) TO authenticated;
+
+-- Add helpful comments
+COMMENT ON COLUMN conversation_participants.starred IS 'Conversation is starred by this user';
+COMMENT ON COLUMN conversation_participants.archived IS 'Conversation is hidden from this user''s main list';
+COMMENT ON COLUMN conversation_participants.muted IS 'New messages in this conversation do not count towards this user''s unread badge';
+COMMENT ON COLUMN conversation_participants.pinned IS 'Conversation is kept at the top of this user''s list';
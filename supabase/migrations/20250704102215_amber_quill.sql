@@ -0,0 +1,252 @@
+/*
+  # Message editing with history
+
+  1. Schema
+    - `edited_at` (timestamptz) on chat_messages - Set when the content was
+      last changed
+    - `chat_message_edits` - Previous versions of edited messages
+
+  2. Rules
+    - Only the sender can change a message's content, only for text
+      messages that are not deleted, and only within the edit window
+    - The edit window defaults to 15 minutes and can be changed with the
+      `app.message_edit_window` setting, e.g.
+      `ALTER DATABASE postgres SET app.message_edit_window = '1 hour';`
+    - Every edit stores the previous content; `edited_at` can't be set
+      directly
+
+  3. Security
+    - Both participants can read the edit history of their messages
+    - History rows are only written by the edit trigger
+
+  4. Functions
+    - `chat_message_edit_window` returns the window in seconds for the client
+    - `get_user_messages` and `get_conversation_messages` also return
+      `edited_at`
+*/
+
+-- Add edit marker
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS edited_at timestamptz;
+
+-- Create edit history table
+CREATE TABLE IF NOT EXISTS chat_message_edits (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  message_id uuid NOT NULL REFERENCES chat_messages(id) ON DELETE CASCADE,
+  previous_content text NOT NULL,
+  edited_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  edited_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_message_edits_message ON chat_message_edits(message_id, edited_at);
+
+ALTER TABLE chat_message_edits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participants can read message edits" ON chat_message_edits;
+CREATE POLICY "Participants can read message edits"
+  ON chat_message_edits FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM chat_messages m
+      WHERE m.id = chat_message_edits.message_id
+        AND (m.sender_id = auth.uid() OR m.receiver_id = auth.uid())
+        AND m.deleted_for_all = false
+    )
+  );
+
+-- Edit window, configurable through the app.message_edit_window setting
+CREATE OR REPLACE FUNCTION chat_message_edit_window()
+RETURNS integer
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXTRACT(EPOCH FROM COALESCE(NULLIF(current_setting('app.message_edit_window', true), ''), '15 minutes')::interval)::integer;
+$$;
+
+-- Enforce the edit rules and record history
+CREATE OR REPLACE FUNCTION handle_chat_message_edit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.content IS NOT DISTINCT FROM OLD.content THEN
+    NEW.edited_at := OLD.edited_at;
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM OLD.sender_id THEN
+    RAISE EXCEPTION 'Only the sender can edit a message.';
+  END IF;
+
+  IF COALESCE(OLD.message_type, 'text') <> 'text' THEN
+    RAISE EXCEPTION 'Only text messages can be edited.';
+  END IF;
+
+  IF OLD.deleted_for_all THEN
+    RAISE EXCEPTION 'Deleted messages cannot be edited.';
+  END IF;
+
+  IF OLD.created_at < now() - make_interval(secs => chat_message_edit_window()) THEN
+    RAISE EXCEPTION 'This message can no longer be edited.';
+  END IF;
+
+  IF trim(NEW.content) = '' THEN
+    RAISE EXCEPTION 'Messages cannot be empty.';
+  END IF;
+
+  INSERT INTO chat_message_edits (message_id, previous_content, edited_by)
+  VALUES (OLD.id, OLD.content, auth.uid());
+
+  NEW.edited_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS handle_chat_message_edit_trigger ON chat_messages;
+CREATE TRIGGER handle_chat_message_edit_trigger
+  BEFORE UPDATE OF content, edited_at ON chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_chat_message_edit();
+
+-- Recreate the message functions with edited_at
+DROP FUNCTION IF EXISTS get_user_messages(uuid, text);
+DROP FUNCTION IF EXISTS get_conversation_messages(uuid, uuid);
+
+CREATE OR REPLACE FUNCTION get_user_messages(user_id uuid, conversation_filter text DEFAULT 'any')
+RETURNS TABLE (
+  id uuid,
+  sender_id uuid,
+  receiver_id uuid,
+  content text,
+  read boolean,
+  created_at timestamptz,
+  message_type text,
+  file_url text,
+  file_name text,
+  file_size integer,
+  delivered_at timestamptz,
+  read_at timestamptz,
+  edited_at timestamptz,
+  is_starred boolean,
+  is_archived boolean,
+  is_muted boolean,
+  is_pinned boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Users can only read their own messages
+  IF get_user_messages.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.sender_id,
+    m.receiver_id,
+    m.content,
+    m.read,
+    m.created_at,
+    m.message_type,
+    m.file_url,
+    m.file_name,
+    m.file_size,
+    m.delivered_at,
+    m.read_at,
+    m.edited_at,
+    COALESCE(cp.starred, false),
+    COALESCE(cp.archived, false),
+    COALESCE(cp.muted, false),
+    COALESCE(cp.pinned, false)
+  FROM chat_messages m
+  LEFT JOIN conversation_participants cp
+    ON cp.user_id = get_user_messages.user_id
+    AND cp.conversation_id = generate_conversation_id(m.sender_id, m.receiver_id)
+  WHERE
+    (m.sender_id = get_user_messages.user_id OR m.receiver_id = get_user_messages.user_id)
+    AND m.deleted_for_all = false
+    AND (
+      (m.sender_id = get_user_messages.user_id AND m.deleted_for_sender = false) OR
+      (m.receiver_id = get_user_messages.user_id AND m.deleted_for_receiver = false)
+    )
+    AND CASE conversation_filter
+      WHEN 'all' THEN NOT COALESCE(cp.archived, false)
+      WHEN 'starred' THEN COALESCE(cp.starred, false)
+      WHEN 'archived' THEN COALESCE(cp.archived, false)
+      ELSE true
+    END
+  ORDER BY m.created_at ASC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_conversation_messages(user1_id uuid, user2_id uuid)
+RETURNS TABLE (
+  id uuid,
+  sender_id uuid,
+  receiver_id uuid,
+  content text,
+  read boolean,
+  created_at timestamptz,
+  message_type text,
+  file_url text,
+  file_name text,
+  file_size integer,
+  delivered_at timestamptz,
+  read_at timestamptz,
+  edited_at timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.sender_id,
+    m.receiver_id,
+    m.content,
+    m.read,
+    m.created_at,
+    m.message_type,
+    m.file_url,
+    m.file_name,
+    m.file_size,
+    m.delivered_at,
+    m.read_at,
+    m.edited_at
+  FROM chat_messages m
+  WHERE
+    (
+      (m.sender_id = user1_id AND m.receiver_id = user2_id) OR
+      (m.sender_id = user2_id AND m.receiver_id = user1_id)
+    )
+    AND m.deleted_for_all = false
+    AND (
+      (m.sender_id = user1_id AND m.deleted_for_sender = false) OR
+      (m.receiver_id = user1_id AND m.deleted_for_receiver = false) OR
+      (m.sender_id = user2_id AND m.deleted_for_sender = false) OR
+      (m.receiver_id = user2_id AND m.deleted_for_receiver = false)
+    )
+  ORDER BY m.created_at ASC;
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT SELECT ON chat_message_edits TO authenticated;
+GRANT EXECUTE ON FUNCTION chat_message_edit_window() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_user_messages(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_conversation_messages(uuid, uuid) TO authenticated;
+
+-- Add helpful comments
+COMMENT ON COLUMN chat_messages.edited_at IS 'When the sender last edited the message';
+COMMENT ON TABLE chat_message_edits IS 'Previous versions of edited chat messages, readable by both participants';
+COMMENT ON FUNCTION chat_message_edit_window() IS 'How long after sending a message can be edited, in seconds (app.message_edit_window, default 15 minutes)';
@@ -0,0 +1,230 @@
+/*
+  # Replies to messages
+
+  1. Schema
+    - `reply_to_id` (uuid) on chat_messages - The message being replied to.
+      There is no foreign key on purpose: when the original is removed the
+      reply keeps the id, so it can still show that it quoted a deleted
+      message
+
+  2. Rules
+    - A reply must quote a message from the same conversation
+    - `reply_to_id` can't be changed after sending
+
+  3. Functions
+    - `get_user_messages` and `get_conversation_messages` also return a
+      preview of the quoted message. `reply_to_deleted` is true when the
+      original was deleted for everyone or no longer exists, and the preview
+      fields are then NULL
+*/
+
+-- Add reply reference
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS reply_to_id uuid;
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_reply_to ON chat_messages(reply_to_id) WHERE reply_to_id IS NOT NULL;
+
+-- Validate replies
+CREATE OR REPLACE FUNCTION validate_chat_message_reply()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.reply_to_id := OLD.reply_to_id;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.reply_to_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM chat_messages m
+    WHERE m.id = NEW.reply_to_id
+      AND m.deleted_for_all = false
+      AND (
+        (m.sender_id = NEW.sender_id AND m.receiver_id = NEW.receiver_id) OR
+        (m.sender_id = NEW.receiver_id AND m.receiver_id = NEW.sender_id)
+      )
+  ) THEN
+    RAISE EXCEPTION 'Replies must quote a message from the same conversation.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_chat_message_reply_trigger ON chat_messages;
+CREATE TRIGGER validate_chat_message_reply_trigger
+  BEFORE INSERT OR UPDATE OF reply_to_id ON chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_chat_message_reply();
+
+-- Recreate the message functions with the quoted message preview
+DROP FUNCTION IF EXISTS get_user_messages(uuid, text);
+DROP FUNCTION IF EXISTS get_conversation_messages(uuid, uuid);
+
+CREATE OR REPLACE FUNCTION get_user_messages(user_id uuid, conversation_filter text DEFAULT 'any')
+RETURNS TABLE (
+  id uuid,
+  sender_id uuid,
+  receiver_id uuid,
+  content text,
+  read boolean,
+  created_at timestamptz,
+  message_type text,
+  file_url text,
+  file_name text,
+  file_size integer,
+  delivered_at timestamptz,
+  read_at timestamptz,
+  edited_at timestamptz,
+  reply_to_id uuid,
+  reply_to_sender_id uuid,
+  reply_to_content text,
+  reply_to_message_type text,
+  reply_to_file_name text,
+  reply_to_deleted boolean,
+  is_starred boolean,
+  is_archived boolean,
+  is_muted boolean,
+  is_pinned boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Users can only read their own messages
+  IF get_user_messages.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.sender_id,
+    m.receiver_id,
+    m.content,
+    m.read,
+    m.created_at,
+    m.message_type,
+    m.file_url,
+    m.file_name,
+    m.file_size,
+    m.delivered_at,
+    m.read_at,
+    m.edited_at,
+    m.reply_to_id,
+    r.sender_id,
+    r.content,
+    r.message_type,
+    r.file_name,
+    m.reply_to_id IS NOT NULL AND r.id IS NULL,
+    COALESCE(cp.starred, false),
+    COALESCE(cp.archived, false),
+    COALESCE(cp.muted, false),
+    COALESCE(cp.pinned, false)
+  FROM chat_messages m
+  LEFT JOIN chat_messages r
+    ON r.id = m.reply_to_id
+    AND r.deleted_for_all = false
+  LEFT JOIN conversation_participants cp
+    ON cp.user_id = get_user_messages.user_id
+    AND cp.conversation_id = generate_conversation_id(m.sender_id, m.receiver_id)
+  WHERE
+    (m.sender_id = get_user_messages.user_id OR m.receiver_id = get_user_messages.user_id)
+    AND m.deleted_for_all = false
+    AND (
+      (m.sender_id = get_user_messages.user_id AND m.deleted_for_sender = false) OR
+      (m.receiver_id = get_user_messages.user_id AND m.deleted_for_receiver = false)
+    )
+    AND CASE conversation_filter
+      WHEN 'all' THEN NOT COALESCE(cp.archived, false)
+      WHEN 'starred' THEN COALESCE(cp.starred, false)
+      WHEN 'archived' THEN COALESCE(cp.archived, false)
+      ELSE true
+    END
+  ORDER BY m.created_at ASC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_conversation_messages(user1_id uuid, user2_id uuid)
+RETURNS TABLE (
+  id uuid,
+  sender_id uuid,
+  receiver_id uuid,
+  content text,
+  read boolean,
+  created_at timestamptz,
+  message_type text,
+  file_url text,
+  file_name text,
+  file_size integer,
+  delivered_at timestamptz,
+  read_at timestamptz,
+  edited_at timestamptz,
+  reply_to_id uuid,
+  reply_to_sender_id uuid,
+  reply_to_content text,
+  reply_to_message_type text,
+  reply_to_file_name text,
+  reply_to_deleted boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.sender_id,
+    m.receiver_id,
+    m.content,
+    m.read,
+    m.created_at,
+    m.message_type,
+    m.file_url,
+    m.file_name,
+    m.file_size,
+    m.delivered_at,
+    m.read_at,
+    m.edited_at,
+    m.reply_to_id,
+    r.sender_id,
+    r.content,
+    r.message_type,
+    r.file_name,
+    m.reply_to_id IS NOT NULL AND r.id IS NULL
+  FROM chat_messages m
+  LEFT JOIN chat_messages r
+    ON r.id = m.reply_to_id
+    AND r.deleted_for_all = false
+  WHERE
+    (
+      (m.sender_id = user1_id AND m.receiver_id = user2_id) OR
+      (m.sender_id = user2_id AND m.receiver_id = user1_id)
+    )
+    AND m.deleted_for_all = false
+    AND (
+      (m.sender_id = user1_id AND m.deleted_for_sender = false) OR
+      (m.receiver_id = user1_id AND m.deleted_for_receiver = false) OR
+      (m.sender_id = user2_id AND m.deleted_for_sender = false) OR
+      (m.receiver_id = user2_id AND m.deleted_for_receiver = false)
+    )
+  ORDER BY m.created_at ASC;
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION get_user_messages(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_conversation_messages(uuid, uuid) TO authenticated;
+
+-- Add helpful comments
+COMMENT ON COLUMN chat_messages.reply_to_id IS 'Message this one replies to; kept when the original is deleted';
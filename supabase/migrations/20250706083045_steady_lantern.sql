@@ -0,0 +1,215 @@
+/*
+  # Conversation summaries
+
+  1. Functions
+    - `get_conversation_summaries` returns one row per conversation of the
+      signed in user, newest first with pinned conversations on top:
+        - the other participant's profile (and provider details)
+        - the latest visible message
+        - the number of unread received messages
+        - the user's starred, archived, muted and pinned flags
+      It takes a `conversation_filter` ('any', 'all', 'unread', 'starred',
+      'archived', same meaning as for `get_user_messages`; 'all' and 'unread'
+      leave out archived conversations) and `page_size` / `page_offset`
+    - `get_conversation_messages` now only returns messages that are visible
+      to `user1_id`, so messages deleted for that user stay hidden when a
+      single conversation is opened
+
+  2. Indexes
+    - Received messages by receiver and read state, for the unread counts
+*/
+
+-- Create index for unread counts
+CREATE INDEX IF NOT EXISTS idx_chat_messages_receiver_unread ON chat_messages(receiver_id, sender_id) WHERE read = false;
+
+-- One row per conversation for the inbox
+CREATE OR REPLACE FUNCTION get_conversation_summaries(
+  conversation_filter text DEFAULT 'all',
+  page_size integer DEFAULT 50,
+  page_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  other_user_id uuid,
+  other_user_email text,
+  other_user_name text,
+  other_user_role text,
+  other_user_created_at timestamptz,
+  other_user_profile_image text,
+  other_user_service_type text,
+  other_user_phone text,
+  other_user_address text,
+  id uuid,
+  sender_id uuid,
+  receiver_id uuid,
+  content text,
+  read boolean,
+  created_at timestamptz,
+  message_type text,
+  file_url text,
+  file_name text,
+  file_size integer,
+  delivered_at timestamptz,
+  read_at timestamptz,
+  edited_at timestamptz,
+  reply_to_id uuid,
+  unread_count integer,
+  is_starred boolean,
+  is_archived boolean,
+  is_muted boolean,
+  is_pinned boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id uuid := auth.uid();
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN QUERY
+  WITH visible AS (
+    SELECT
+      m.*,
+      CASE WHEN m.sender_id = current_user_id THEN m.receiver_id ELSE m.sender_id END AS other_id
+    FROM chat_messages m
+    WHERE
+      m.deleted_for_all = false
+      AND (
+        (m.sender_id = current_user_id AND m.deleted_for_sender = false) OR
+        (m.receiver_id = current_user_id AND m.deleted_for_receiver = false)
+      )
+  ),
+  latest AS (
+    SELECT DISTINCT ON (v.other_id) v.*
+    FROM visible v
+    ORDER BY v.other_id, v.created_at DESC
+  ),
+  unread AS (
+    SELECT v.other_id, count(*)::integer AS total
+    FROM visible v
+    WHERE v.receiver_id = current_user_id AND v.read = false
+    GROUP BY v.other_id
+  )
+  SELECT
+    p.id,
+    p.email,
+    p.name,
+    p.role,
+    p.created_at,
+    p.profile_image,
+    sp.service_type,
+    sp.phone,
+    sp.address,
+    l.id,
+    l.sender_id,
+    l.receiver_id,
+    l.content,
+    l.read,
+    l.created_at,
+    l.message_type,
+    l.file_url,
+    l.file_name,
+    l.file_size,
+    l.delivered_at,
+    l.read_at,
+    l.edited_at,
+    l.reply_to_id,
+    COALESCE(u.total, 0),
+    COALESCE(cp.starred, false),
+    COALESCE(cp.archived, false),
+    COALESCE(cp.muted, false),
+    COALESCE(cp.pinned, false)
+  FROM latest l
+  JOIN profiles p ON p.id = l.other_id
+  LEFT JOIN service_providers sp ON sp.id = l.other_id
+  LEFT JOIN unread u ON u.other_id = l.other_id
+  LEFT JOIN conversation_participants cp
+    ON cp.user_id = current_user_id
+    AND cp.conversation_id = generate_conversation_id(current_user_id, l.other_id)
+  WHERE
+    CASE conversation_filter
+      WHEN 'all' THEN NOT COALESCE(cp.archived, false)
+      WHEN 'unread' THEN NOT COALESCE(cp.archived, false) AND COALESCE(u.total, 0) > 0
+      WHEN 'starred' THEN COALESCE(cp.starred, false)
+      WHEN 'archived' THEN COALESCE(cp.archived, false)
+      ELSE true
+    END
+  ORDER BY COALESCE(cp.pinned, false) DESC, l.created_at DESC
+  LIMIT page_size
+  OFFSET page_offset;
+END;
+$$;
+
+-- Only return messages user1 can still see
+DROP FUNCTION IF EXISTS get_conversation_messages(uuid, uuid);
+
+CREATE OR REPLACE FUNCTION get_conversation_messages(user1_id uuid, user2_id uuid)
+RETURNS TABLE (
+  id uuid,
+  sender_id uuid,
+  receiver_id uuid,
+  content text,
+  read boolean,
+  created_at timestamptz,
+  message_type text,
+  file_url text,
+  file_name text,
+  file_size integer,
+  delivered_at timestamptz,
+  read_at timestamptz,
+  edited_at timestamptz,
+  reply_to_id uuid,
+  reply_to_sender_id uuid,
+  reply_to_content text,
+  reply_to_message_type text,
+  reply_to_file_name text,
+  reply_to_deleted boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.sender_id,
+    m.receiver_id,
+    m.content,
+    m.read,
+    m.created_at,
+    m.message_type,
+    m.file_url,
+    m.file_name,
+    m.file_size,
+    m.delivered_at,
+    m.read_at,
+    m.edited_at,
+    m.reply_to_id,
+    r.sender_id,
+    r.content,
+    r.message_type,
+    r.file_name,
+    m.reply_to_id IS NOT NULL AND r.id IS NULL
+  FROM chat_messages m
+  LEFT JOIN chat_messages r
+    ON r.id = m.reply_to_id
+    AND r.deleted_for_all = false
+  WHERE
+    (
+      (m.sender_id = user1_id AND m.receiver_id = user2_id AND m.deleted_for_sender = false) OR
+      (m.sender_id = user2_id AND m.receiver_id = user1_id AND m.deleted_for_receiver = false)
+    )
+    AND m.deleted_for_all = false
+  ORDER BY m.created_at ASC;
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION get_conversation_summaries(text, integer, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_conversation_messages(uuid, uuid) TO authenticated;
+
+-- Add helpful comments
+COMMENT ON FUNCTION get_conversation_summaries(text, integer, integer) IS 'Inbox for the signed in user: one row per conversation with participant, latest message, unread count and flags';
@@ -0,0 +1,120 @@
+/*
+  # Paginated conversation history
+
+  1. Functions
+    - `get_conversation_messages` takes an optional cursor and page size and
+      returns the newest `page_size` messages older than the cursor, still in
+      ascending order. The cursor is the `created_at` and `id` of the oldest
+      message already loaded; `id` breaks ties between messages sent in the
+      same instant, and the stored `created_at` of that message is used
+      when it still exists. Without a cursor the latest page is returned
+    - Only the signed in user's own conversations can be read (`user1_id`
+      must be the caller), and a page holds at most 100 messages
+*/
+
+-- Recreate get_conversation_messages with keyset pagination
+DROP FUNCTION IF EXISTS get_conversation_messages(uuid, uuid);
+
+CREATE OR REPLACE FUNCTION get_conversation_messages(
+  user1_id uuid,
+  user2_id uuid,
+  before_created_at timestamptz DEFAULT NULL,
+  before_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 50
+)
+RETURNS TABLE (
+  id uuid,
+  sender_id uuid,
+  receiver_id uuid,
+  content text,
+  read boolean,
+  created_at timestamptz,
+  message_type text,
+  file_url text,
+  file_name text,
+  file_size integer,
+  delivered_at timestamptz,
+  read_at timestamptz,
+  edited_at timestamptz,
+  reply_to_id uuid,
+  reply_to_sender_id uuid,
+  reply_to_content text,
+  reply_to_message_type text,
+  reply_to_file_name text,
+  reply_to_deleted boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cursor_created_at timestamptz := before_created_at;
+  page_limit integer := LEAST(GREATEST(page_size, 1), 100);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Users can only page through their own conversations
+  IF user1_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  -- The client only has millisecond timestamps; use the stored one when the cursor message still exists
+  IF before_id IS NOT NULL THEN
+    SELECT c.created_at INTO cursor_created_at
+    FROM chat_messages c
+    WHERE c.id = before_id;
+
+    cursor_created_at := COALESCE(cursor_created_at, before_created_at);
+  END IF;
+
+  RETURN QUERY
+  SELECT page.*
+  FROM (
+    SELECT
+      m.id,
+      m.sender_id,
+      m.receiver_id,
+      m.content,
+      m.read,
+      m.created_at,
+      m.message_type,
+      m.file_url,
+      m.file_name,
+      m.file_size,
+      m.delivered_at,
+      m.read_at,
+      m.edited_at,
+      m.reply_to_id,
+      r.sender_id AS reply_to_sender_id,
+      r.content AS reply_to_content,
+      r.message_type AS reply_to_message_type,
+      r.file_name AS reply_to_file_name,
+      m.reply_to_id IS NOT NULL AND r.id IS NULL AS reply_to_deleted
+    FROM chat_messages m
+    LEFT JOIN chat_messages r
+      ON r.id = m.reply_to_id
+      AND r.deleted_for_all = false
+    WHERE
+      (
+        (m.sender_id = user1_id AND m.receiver_id = user2_id AND m.deleted_for_sender = false) OR
+        (m.sender_id = user2_id AND m.receiver_id = user1_id AND m.deleted_for_receiver = false)
+      )
+      AND m.deleted_for_all = false
+      AND (
+        cursor_created_at IS NULL OR
+        (m.created_at, m.id) < (cursor_created_at, COALESCE(before_id, 'ffffffff-ffff-ffff-ffff-ffffffffffff'::uuid))
+      )
+    ORDER BY m.created_at DESC, m.id DESC
+    LIMIT page_limit
+  ) page
+  ORDER BY page.created_at ASC, page.id ASC;
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION get_conversation_messages(uuid, uuid, timestamptz, uuid, integer) TO authenticated;
+
+-- Add helpful comments
+COMMENT ON FUNCTION get_conversation_messages(uuid, uuid, timestamptz, uuid, integer) IS 'A page of the conversation between two users as seen by user1, older than the (created_at, id) cursor';
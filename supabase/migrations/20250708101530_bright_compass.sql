@@ -0,0 +1,80 @@
+/*
+  # Message search
+
+  1. Indexes
+    - Full-text index on chat_messages content (english configuration)
+
+  2. Functions
+    - `search_messages` finds text messages of the signed in user that match
+      `search_query` (web search syntax: words, "quoted phrases", -excluded),
+      newest first. Messages deleted for everyone or deleted by the user are
+      left out. `other_user` limits the search to one conversation.
+      `snippet` is the matching part of the message with every match wrapped
+      in chr(2) ... chr(3), so the client can highlight it without parsing
+      HTML
+*/
+
+-- Create full-text index
+CREATE INDEX IF NOT EXISTS idx_chat_messages_content_search ON chat_messages USING gin (to_tsvector('english', content));
+
+-- Search the signed in user's messages
+CREATE OR REPLACE FUNCTION search_messages(
+  search_query text,
+  other_user uuid DEFAULT NULL,
+  page_size integer DEFAULT 30
+)
+RETURNS TABLE (
+  message_id uuid,
+  other_user_id uuid,
+  other_user_name text,
+  sender_id uuid,
+  snippet text,
+  created_at timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id uuid := auth.uid();
+  search_tsquery tsquery := websearch_to_tsquery('english', search_query);
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.id,
+    p.id,
+    p.name,
+    m.sender_id,
+    ts_headline(
+      'english',
+      m.content,
+      search_tsquery,
+      'StartSel="' || chr(2) || '", StopSel="' || chr(3) || '", MaxWords=20, MinWords=8, MaxFragments=1'
+    ),
+    m.created_at
+  FROM chat_messages m
+  JOIN profiles p
+    ON p.id = CASE WHEN m.sender_id = current_user_id THEN m.receiver_id ELSE m.sender_id END
+  WHERE
+    to_tsvector('english', m.content) @@ search_tsquery
+    AND COALESCE(m.message_type, 'text') = 'text'
+    AND m.deleted_for_all = false
+    AND (
+      (m.sender_id = current_user_id AND m.deleted_for_sender = false) OR
+      (m.receiver_id = current_user_id AND m.deleted_for_receiver = false)
+    )
+    AND (other_user IS NULL OR p.id = other_user)
+  ORDER BY m.created_at DESC
+  LIMIT page_size;
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION search_messages(text, uuid, integer) TO authenticated;
+
+-- Add helpful comments
+COMMENT ON FUNCTION search_messages(text, uuid, integer) IS 'Full-text search over the signed in user''s visible text messages, optionally within one conversation';
@@ -0,0 +1,122 @@
+/*
+  # Verified-customer reviews
+
+  1. Schema
+    - `verification` (text) on ratings - How the reviewer is known to be a
+      real customer: 'booking' (a completed booking) or 'conversation' (they
+      messaged the provider and the provider replied). Set by a trigger on
+      every insert and update; existing reviews are backfilled and stay NULL
+      when there is no evidence
+
+  2. Functions
+    - `customer_verification` returns 'booking', 'conversation' or NULL for a
+      customer and provider. Not callable by clients, so it can't be used to
+      probe other people's bookings
+    - `can_rate_provider` tells the signed in user whether they may review a
+      provider: they must have the 'user' role and be a verified customer
+
+  3. Security
+    - Ratings can only be created or updated by verified customers
+*/
+
+-- Add verification column
+ALTER TABLE ratings ADD COLUMN IF NOT EXISTS verification text CHECK (verification IN ('booking', 'conversation'));
+
+-- How a customer is known to have dealt with a provider
+CREATE OR REPLACE FUNCTION customer_verification(customer uuid, provider uuid)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM bookings b
+    WHERE b.user_id = customer
+      AND b.provider_id = provider
+      AND b.status = 'completed'
+  ) THEN
+    RETURN 'booking';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM chat_messages m
+    WHERE m.sender_id = customer
+      AND m.receiver_id = provider
+      AND m.deleted_for_all = false
+  ) AND EXISTS (
+    SELECT 1 FROM chat_messages m
+    WHERE m.sender_id = provider
+      AND m.receiver_id = customer
+      AND m.deleted_for_all = false
+  ) THEN
+    RETURN 'conversation';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION customer_verification(uuid, uuid) FROM PUBLIC;
+
+-- Whether the signed in user may review a provider
+CREATE OR REPLACE FUNCTION can_rate_provider(provider uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = 'user'
+  ) AND customer_verification(auth.uid(), provider) IS NOT NULL;
+END;
+$$;
+
+-- Record the evidence with every review
+CREATE OR REPLACE FUNCTION set_rating_verification()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.verification := customer_verification(NEW.user_id, NEW.provider_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_rating_verification_trigger ON ratings;
+CREATE TRIGGER set_rating_verification_trigger
+  BEFORE INSERT OR UPDATE ON ratings
+  FOR EACH ROW
+  EXECUTE FUNCTION set_rating_verification();
+
+-- Backfill existing reviews
+UPDATE ratings SET verification = customer_verification(user_id, provider_id);
+
+-- Only verified customers can create or change reviews
+DROP POLICY IF EXISTS "Users can create ratings" ON ratings;
+DROP POLICY IF EXISTS "Users can update their own ratings" ON ratings;
+
+CREATE POLICY "Verified customers can create ratings"
+  ON ratings FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND can_rate_provider(provider_id));
+
+CREATE POLICY "Verified customers can update their own ratings"
+  ON ratings FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id AND can_rate_provider(provider_id));
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION can_rate_provider(uuid) TO authenticated;
+
+-- Add helpful comments
+COMMENT ON COLUMN ratings.verification IS 'How the reviewer is a verified customer: booking or conversation; NULL for older unverified reviews';
+COMMENT ON FUNCTION can_rate_provider(uuid) IS 'Whether the signed in user has a completed booking or a replied conversation with the provider';
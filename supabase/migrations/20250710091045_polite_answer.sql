@@ -0,0 +1,182 @@
+/*
+  # Provider replies to reviews and notifications
+
+  1. New Tables
+    - `rating_replies` - The reviewed provider's public reply to a review,
+      one per review
+      - `content` (text) - The reply
+      - `created_at` / `updated_at` - When it was posted and last edited
+    - `notifications` - Notifications for a user
+      - `type` (text) - What happened, e.g. 'review_reply'
+      - `title` / `body` (text) - What to show
+      - `data` (jsonb) - Ids the client needs to open the related item
+      - `read_at` (timestamptz) - When the user saw it
+
+  2. Security
+    - Anyone signed in can read replies, like reviews
+    - Only the reviewed provider can post, edit or delete a reply
+    - Users can only read, mark as read and delete their own notifications;
+      notifications are only created by triggers
+
+  3. Triggers
+    - A new reply notifies the reviewer
+
+  4. Realtime
+    - `notifications` is published so the bell updates live
+*/
+
+-- Create rating replies table
+CREATE TABLE IF NOT EXISTS rating_replies (
+  rating_id uuid PRIMARY KEY REFERENCES ratings(id) ON DELETE CASCADE,
+  provider_id uuid NOT NULL REFERENCES service_providers(id) ON DELETE CASCADE,
+  content text NOT NULL CHECK (length(trim(content)) > 0 AND length(content) <= 1000),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE rating_replies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read rating replies" ON rating_replies;
+DROP POLICY IF EXISTS "Reviewed providers can reply" ON rating_replies;
+DROP POLICY IF EXISTS "Reviewed providers can edit their replies" ON rating_replies;
+DROP POLICY IF EXISTS "Reviewed providers can delete their replies" ON rating_replies;
+
+CREATE POLICY "Anyone can read rating replies"
+  ON rating_replies FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Reviewed providers can reply"
+  ON rating_replies FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = provider_id
+    AND EXISTS (
+      SELECT 1 FROM ratings r
+      WHERE r.id = rating_replies.rating_id
+        AND r.provider_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Reviewed providers can edit their replies"
+  ON rating_replies FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = provider_id)
+  WITH CHECK (
+    auth.uid() = provider_id
+    AND EXISTS (
+      SELECT 1 FROM ratings r
+      WHERE r.id = rating_replies.rating_id
+        AND r.provider_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Reviewed providers can delete their replies"
+  ON rating_replies FOR DELETE
+  TO authenticated
+  USING (auth.uid() = provider_id);
+
+DROP TRIGGER IF EXISTS update_rating_replies_updated_at ON rating_replies;
+CREATE TRIGGER update_rating_replies_updated_at
+  BEFORE UPDATE ON rating_replies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Create notifications table
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type text NOT NULL,
+  title text NOT NULL,
+  body text,
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own notifications" ON notifications;
+DROP POLICY IF EXISTS "Users can update own notifications" ON notifications;
+DROP POLICY IF EXISTS "Users can delete own notifications" ON notifications;
+
+CREATE POLICY "Users can read own notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notifications"
+  ON notifications FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notifications"
+  ON notifications FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Notify the reviewer about a new reply
+CREATE OR REPLACE FUNCTION notify_rating_reply()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  reviewer_id uuid;
+  provider_name text;
+BEGIN
+  SELECT r.user_id INTO reviewer_id
+  FROM ratings r
+  WHERE r.id = NEW.rating_id;
+
+  SELECT COALESCE(sp.business_name, p.name) INTO provider_name
+  FROM profiles p
+  LEFT JOIN service_providers sp ON sp.id = p.id
+  WHERE p.id = NEW.provider_id;
+
+  IF reviewer_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, type, title, body, data)
+    VALUES (
+      reviewer_id,
+      'review_reply',
+      COALESCE(provider_name, 'A provider') || ' replied to your review',
+      left(NEW.content, 200),
+      jsonb_build_object('rating_id', NEW.rating_id, 'provider_id', NEW.provider_id)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_rating_reply_trigger ON rating_replies;
+CREATE TRIGGER notify_rating_reply_trigger
+  AFTER INSERT ON rating_replies
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_rating_reply();
+
+-- Publish notifications to Realtime
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+  END IF;
+END $$;
+
+-- Grant necessary permissions
+GRANT SELECT, INSERT, UPDATE, DELETE ON rating_replies TO authenticated;
+GRANT SELECT, UPDATE, DELETE ON notifications TO authenticated;
+
+-- Add helpful comments
+COMMENT ON TABLE rating_replies IS 'Public reply from the reviewed provider, one per review';
+COMMENT ON TABLE notifications IS 'In-app notifications; created by triggers, read and dismissed by the user';
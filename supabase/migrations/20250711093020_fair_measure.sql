@@ -0,0 +1,594 @@
+/*
+  # Rating aspects: quality, punctuality, value and communication
+
+  1. Schema
+    - `quality_rating`, `punctuality_rating`, `value_rating` and
+      `communication_rating` (smallint, 1-5) on ratings - Optional scores
+      next to the overall rating; older reviews leave them NULL
+    - The same columns on service_providers (numeric) - The provider's
+      average for each aspect over the reviews that scored it, NULL when
+      no review did
+
+  2. Triggers
+    - `update_provider_rating` also maintains the aspect averages; all
+      providers are recalculated
+
+  3. Search
+    - `provider_aspect_rating` picks a provider's average for an aspect
+    - `search_provider_candidates`, `search_providers` and
+      `search_provider_facets` take `rated_aspect` and `min_aspect_rating`
+      to keep providers scoring at least that much on one aspect
+    - `sort_by` also accepts quality, punctuality, value and communication
+    - `search_providers` returns the aspect averages, and cursors carry the
+      one being sorted on as `<aspect>_rating`
+    - Facets count the minimum aspect rating options for every aspect
+*/
+
+-- Add aspect scores to ratings
+ALTER TABLE ratings ADD COLUMN IF NOT EXISTS quality_rating smallint CHECK (quality_rating BETWEEN 1 AND 5);
+ALTER TABLE ratings ADD COLUMN IF NOT EXISTS punctuality_rating smallint CHECK (punctuality_rating BETWEEN 1 AND 5);
+ALTER TABLE ratings ADD COLUMN IF NOT EXISTS value_rating smallint CHECK (value_rating BETWEEN 1 AND 5);
+ALTER TABLE ratings ADD COLUMN IF NOT EXISTS communication_rating smallint CHECK (communication_rating BETWEEN 1 AND 5);
+
+-- Add aspect averages to providers
+ALTER TABLE service_providers ADD COLUMN IF NOT EXISTS quality_rating numeric(2,1);
+ALTER TABLE service_providers ADD COLUMN IF NOT EXISTS punctuality_rating numeric(2,1);
+ALTER TABLE service_providers ADD COLUMN IF NOT EXISTS value_rating numeric(2,1);
+ALTER TABLE service_providers ADD COLUMN IF NOT EXISTS communication_rating numeric(2,1);
+
+-- Keep the overall and aspect averages up to date
+CREATE OR REPLACE FUNCTION update_provider_rating()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_provider_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    target_provider_id := OLD.provider_id;
+  ELSE
+    target_provider_id := NEW.provider_id;
+  END IF;
+
+  -- AVG skips reviews that didn't score an aspect
+  UPDATE service_providers sp
+  SET
+    rating = stats.avg_rating,
+    review_count = stats.total_reviews,
+    total_rating_points = stats.total_points,
+    quality_rating = stats.avg_quality,
+    punctuality_rating = stats.avg_punctuality,
+    value_rating = stats.avg_value,
+    communication_rating = stats.avg_communication,
+    updated_at = now()
+  FROM (
+    SELECT
+      COALESCE(ROUND(AVG(r.rating::numeric), 1), 0) AS avg_rating,
+      COUNT(*)::integer AS total_reviews,
+      COALESCE(SUM(r.rating)::integer, 0) AS total_points,
+      ROUND(AVG(r.quality_rating::numeric), 1) AS avg_quality,
+      ROUND(AVG(r.punctuality_rating::numeric), 1) AS avg_punctuality,
+      ROUND(AVG(r.value_rating::numeric), 1) AS avg_value,
+      ROUND(AVG(r.communication_rating::numeric), 1) AS avg_communication
+    FROM ratings r
+    WHERE r.provider_id = target_provider_id
+  ) stats
+  WHERE sp.id = target_provider_id;
+
+  RETURN COALESCE(NEW, OLD);
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Log any errors but don't fail the transaction
+    RAISE WARNING 'Error updating provider rating for %: %', target_provider_id, SQLERRM;
+    RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Recalculate every provider
+UPDATE service_providers sp
+SET
+  quality_rating = stats.avg_quality,
+  punctuality_rating = stats.avg_punctuality,
+  value_rating = stats.avg_value,
+  communication_rating = stats.avg_communication
+FROM (
+  SELECT
+    r.provider_id,
+    ROUND(AVG(r.quality_rating::numeric), 1) AS avg_quality,
+    ROUND(AVG(r.punctuality_rating::numeric), 1) AS avg_punctuality,
+    ROUND(AVG(r.value_rating::numeric), 1) AS avg_value,
+    ROUND(AVG(r.communication_rating::numeric), 1) AS avg_communication
+  FROM ratings r
+  GROUP BY r.provider_id
+) stats
+WHERE sp.id = stats.provider_id;
+
+-- A provider's average for one aspect; NULL for anything else
+CREATE OR REPLACE FUNCTION provider_aspect_rating(provider service_providers, aspect text)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE aspect
+    WHEN 'quality' THEN provider.quality_rating
+    WHEN 'punctuality' THEN provider.punctuality_rating
+    WHEN 'value' THEN provider.value_rating
+    WHEN 'communication' THEN provider.communication_rating
+  END;
+$$;
+
+-- Replace the previous signatures; the return types change too
+DROP FUNCTION IF EXISTS search_provider_facets(double precision, double precision, double precision, text, text, boolean, boolean, numeric, integer, integer, text, boolean, boolean, text);
+DROP FUNCTION IF EXISTS search_providers(double precision, double precision, double precision, text, text, boolean, boolean, numeric, integer, integer, text, boolean, boolean, text, text, integer, jsonb);
+DROP FUNCTION IF EXISTS search_provider_candidates(double precision, double precision, double precision, text, text, boolean, boolean, numeric, integer, integer, text, boolean, boolean, text);
+DROP FUNCTION IF EXISTS search_sort_keys(text, boolean, real, double precision, numeric, integer, timestamptz);
+
+-- Base search with a pass/fail flag per advanced filter
+CREATE OR REPLACE FUNCTION search_provider_candidates(
+  search_lat double precision DEFAULT NULL,
+  search_lng double precision DEFAULT NULL,
+  search_radius_km double precision DEFAULT NULL,
+  search_keyword text DEFAULT NULL,
+  search_service_type text DEFAULT NULL,
+  available_now boolean DEFAULT false,
+  include_outside_area boolean DEFAULT false,
+  min_rating numeric DEFAULT NULL,
+  min_reviews integer DEFAULT NULL,
+  min_experience integer DEFAULT NULL,
+  filter_business_type text DEFAULT NULL,
+  has_portfolio boolean DEFAULT false,
+  has_certifications boolean DEFAULT false,
+  open_on_day text DEFAULT NULL,
+  rated_aspect text DEFAULT NULL,
+  min_aspect_rating numeric DEFAULT NULL
+)
+RETURNS TABLE (
+  provider_id uuid,
+  distance_km double precision,
+  within_service_area boolean,
+  search_rank real,
+  is_available_now boolean,
+  open_days text[],
+  pass_rating boolean,
+  pass_reviews boolean,
+  pass_experience boolean,
+  pass_business_type boolean,
+  pass_portfolio boolean,
+  pass_certifications boolean,
+  pass_available boolean,
+  pass_open_day boolean,
+  pass_aspect boolean
+)
+LANGUAGE plpgsql
+STABLE
+SET pg_trgm.word_similarity_threshold = 0.4
+AS $$
+#variable_conflict use_column
+DECLARE
+  search_point geography;
+  keyword_text text;
+  keyword_query tsquery;
+  keyword_services text[];
+  service_filter text[];
+BEGIN
+  IF search_lat IS NOT NULL AND search_lng IS NOT NULL THEN
+    search_point := ST_SetSRID(ST_MakePoint(search_lng, search_lat), 4326)::geography;
+  END IF;
+
+  IF search_keyword IS NOT NULL AND trim(search_keyword) <> '' THEN
+    keyword_text := lower(trim(search_keyword));
+    keyword_query := build_search_query(search_keyword);
+    keyword_services := match_service_synonyms(search_keyword);
+  END IF;
+
+  -- A category name filters on all of its services
+  IF search_service_type IS NOT NULL AND trim(search_service_type) <> '' THEN
+    SELECT array_agg(sc.name) INTO service_filter
+    FROM service_categories sc
+    WHERE sc.parent_slug IS NOT NULL
+      AND (sc.name = trim(search_service_type)
+        OR sc.parent_slug IN (
+          SELECT c.slug FROM service_categories c WHERE c.parent_slug IS NULL AND c.name = trim(search_service_type)
+        ));
+
+    service_filter := COALESCE(service_filter, ARRAY[trim(search_service_type)]);
+  END IF;
+
+  RETURN QUERY
+  WITH base AS (
+    SELECT
+      sp.id,
+      sp.rating,
+      sp.review_count,
+      sp.years_experience,
+      sp.business_type,
+      sp.work_portfolio,
+      sp.certifications,
+      provider_aspect_rating(sp, rated_aspect) AS aspect_rating,
+      CASE
+        WHEN search_point IS NOT NULL THEN ST_Distance(sp.location, search_point) / 1000
+      END AS distance_km,
+      CASE
+        WHEN search_point IS NOT NULL THEN ST_DWithin(sp.location, search_point, sp.work_radius * 1000)
+      END AS within_service_area,
+      CASE
+        WHEN keyword_text IS NOT NULL THEN (
+          COALESCE(ts_rank_cd(sp.search_vector, keyword_query, 32), 0)
+          + GREATEST(word_similarity(keyword_text, sp.service_type), word_similarity(keyword_text, COALESCE(sp.business_name, ''))) / 2
+          + CASE WHEN sp.service_types && keyword_services THEN 0.5 ELSE 0 END
+        )::real
+      END AS search_rank,
+      effective_status(sp) = 'available' AS is_available_now,
+      ARRAY(
+        SELECT d.key
+        FROM jsonb_each(COALESCE(sp.availability, '{}'::jsonb)) d
+        WHERE d.value ->> 'available' = 'true'
+      ) AS open_days
+    FROM service_providers sp
+    WHERE sp.is_published = true
+      AND sp.service_type <> ''
+      AND sp.description <> ''
+      AND sp.address <> ''
+      -- Full-text match with prefixes, a service synonym, or a close spelling
+      -- of the service or business name
+      AND (keyword_text IS NULL
+        OR sp.search_vector @@ keyword_query
+        OR sp.service_types && keyword_services
+        OR keyword_text <% sp.service_type
+        OR keyword_text <% sp.business_name)
+      AND (service_filter IS NULL OR sp.service_types && service_filter)
+      -- Provider must be within the customer's search radius...
+      AND (search_point IS NULL OR search_radius_km IS NULL
+        OR ST_DWithin(sp.location, search_point, search_radius_km * 1000))
+      -- ...and the customer within the provider's work radius, unless asked otherwise
+      AND (search_point IS NULL OR include_outside_area
+        OR ST_DWithin(sp.location, search_point, sp.work_radius * 1000))
+  )
+  SELECT
+    b.id,
+    b.distance_km,
+    b.within_service_area,
+    b.search_rank,
+    b.is_available_now,
+    b.open_days,
+    min_rating IS NULL OR COALESCE(b.rating, 0) >= min_rating,
+    min_reviews IS NULL OR COALESCE(b.review_count, 0) >= min_reviews,
+    min_experience IS NULL OR COALESCE(b.years_experience, 0) >= min_experience,
+    filter_business_type IS NULL OR filter_business_type = '' OR b.business_type = filter_business_type,
+    NOT has_portfolio OR COALESCE(cardinality(b.work_portfolio), 0) > 0,
+    NOT has_certifications OR COALESCE(cardinality(b.certifications), 0) > 0,
+    NOT available_now OR b.is_available_now,
+    open_on_day IS NULL OR open_on_day = '' OR open_on_day = ANY(b.open_days),
+    rated_aspect IS NULL OR min_aspect_rating IS NULL OR COALESCE(b.aspect_rating, 0) >= min_aspect_rating
+  FROM base b;
+END;
+$$;
+
+-- Ascending sort keys for each sort option; the provider id breaks ties.
+-- Providers outside their service area always come last. Sorting by an aspect
+-- uses aspect_rating, the provider's average for that aspect.
+CREATE OR REPLACE FUNCTION search_sort_keys(
+  sort_by text,
+  within_service_area boolean,
+  search_rank real,
+  distance_km double precision,
+  rating numeric,
+  review_count integer,
+  aspect_rating numeric,
+  created_at timestamptz
+)
+RETURNS numeric[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    ARRAY[CASE within_service_area WHEN true THEN 0 WHEN false THEN 1 ELSE 2 END::numeric]
+    || CASE
+      WHEN sort_by = 'distance' THEN ARRAY[COALESCE(distance_km, 0)::numeric, -COALESCE(rating, 0), -COALESCE(review_count, 0)::numeric]
+      WHEN sort_by = 'rating' THEN ARRAY[-COALESCE(rating, 0), -COALESCE(review_count, 0)::numeric, COALESCE(distance_km, 0)::numeric]
+      WHEN sort_by IN ('quality', 'punctuality', 'value', 'communication') THEN ARRAY[-COALESCE(aspect_rating, 0), -COALESCE(rating, 0), -COALESCE(review_count, 0)::numeric, COALESCE(distance_km, 0)::numeric]
+      WHEN sort_by = 'newest' THEN ARRAY[]::numeric[]
+      ELSE ARRAY[-COALESCE(search_rank, 0)::numeric, COALESCE(distance_km, 0)::numeric, -COALESCE(rating, 0), -COALESCE(review_count, 0)::numeric]
+    END
+    || ARRAY[-extract(epoch FROM created_at)];
+$$;
+
+-- Filtered, sorted search of published providers, one page after the cursor
+CREATE OR REPLACE FUNCTION search_providers(
+  search_lat double precision DEFAULT NULL,
+  search_lng double precision DEFAULT NULL,
+  search_radius_km double precision DEFAULT NULL,
+  search_keyword text DEFAULT NULL,
+  search_service_type text DEFAULT NULL,
+  available_now boolean DEFAULT false,
+  include_outside_area boolean DEFAULT false,
+  min_rating numeric DEFAULT NULL,
+  min_reviews integer DEFAULT NULL,
+  min_experience integer DEFAULT NULL,
+  filter_business_type text DEFAULT NULL,
+  has_portfolio boolean DEFAULT false,
+  has_certifications boolean DEFAULT false,
+  open_on_day text DEFAULT NULL,
+  rated_aspect text DEFAULT NULL,
+  min_aspect_rating numeric DEFAULT NULL,
+  sort_by text DEFAULT 'relevance',
+  page_size integer DEFAULT 20,
+  after_cursor jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  email text,
+  name text,
+  profile_image text,
+  business_name text,
+  business_type text,
+  service_type text,
+  service_types text[],
+  description text,
+  phone text,
+  website text,
+  social_media jsonb,
+  specialties text[],
+  years_experience integer,
+  certifications text[],
+  address text,
+  latitude numeric,
+  longitude numeric,
+  work_radius integer,
+  work_portfolio text[],
+  is_published boolean,
+  rating numeric,
+  review_count integer,
+  total_rating_points integer,
+  quality_rating numeric,
+  punctuality_rating numeric,
+  value_rating numeric,
+  communication_rating numeric,
+  availability jsonb,
+  availability_exceptions jsonb,
+  current_status text,
+  timezone text,
+  busy_until timestamptz,
+  last_active_at timestamptz,
+  created_at timestamptz,
+  distance_km double precision,
+  within_service_area boolean,
+  search_rank real,
+  search_snippet text,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+#variable_conflict use_column
+DECLARE
+  keyword_query tsquery;
+  cursor_keys numeric[];
+  cursor_id uuid;
+BEGIN
+  IF search_keyword IS NOT NULL AND trim(search_keyword) <> '' THEN
+    keyword_query := build_search_query(search_keyword);
+  END IF;
+
+  IF after_cursor IS NOT NULL THEN
+    cursor_keys := search_sort_keys(
+      sort_by,
+      (after_cursor ->> 'within_service_area')::boolean,
+      (after_cursor ->> 'search_rank')::real,
+      (after_cursor ->> 'distance_km')::double precision,
+      (after_cursor ->> 'rating')::numeric,
+      (after_cursor ->> 'review_count')::integer,
+      CASE
+        WHEN sort_by IN ('quality', 'punctuality', 'value', 'communication') THEN (after_cursor ->> (sort_by || '_rating'))::numeric
+      END,
+      (after_cursor ->> 'created_at')::timestamptz
+    );
+    cursor_id := (after_cursor ->> 'id')::uuid;
+  END IF;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      c.provider_id,
+      c.distance_km,
+      c.within_service_area,
+      c.search_rank,
+      search_sort_keys(sort_by, c.within_service_area, c.search_rank, c.distance_km, sp.rating, sp.review_count, provider_aspect_rating(sp, sort_by), sp.created_at) AS sort_keys
+    FROM search_provider_candidates(
+      search_lat, search_lng, search_radius_km, search_keyword, search_service_type, available_now,
+      include_outside_area, min_rating, min_reviews, min_experience, filter_business_type, has_portfolio,
+      has_certifications, open_on_day, rated_aspect, min_aspect_rating
+    ) c
+    JOIN service_providers sp ON sp.id = c.provider_id
+    WHERE c.pass_rating
+      AND c.pass_reviews
+      AND c.pass_experience
+      AND c.pass_business_type
+      AND c.pass_portfolio
+      AND c.pass_certifications
+      AND c.pass_available
+      AND c.pass_open_day
+      AND c.pass_aspect
+  )
+  SELECT
+    sp.id,
+    p.email,
+    p.name,
+    p.profile_image,
+    sp.business_name,
+    sp.business_type,
+    sp.service_type,
+    sp.service_types,
+    sp.description,
+    sp.phone,
+    sp.website,
+    sp.social_media,
+    sp.specialties,
+    sp.years_experience,
+    sp.certifications,
+    sp.address,
+    sp.latitude,
+    sp.longitude,
+    sp.work_radius,
+    sp.work_portfolio,
+    sp.is_published,
+    sp.rating,
+    sp.review_count,
+    sp.total_rating_points,
+    sp.quality_rating,
+    sp.punctuality_rating,
+    sp.value_rating,
+    sp.communication_rating,
+    sp.availability,
+    sp.availability_exceptions,
+    sp.current_status,
+    sp.timezone,
+    sp.busy_until,
+    sp.last_active_at,
+    sp.created_at,
+    m.distance_km,
+    m.within_service_area,
+    m.search_rank,
+    CASE
+      WHEN keyword_query IS NOT NULL AND sp.search_vector @@ keyword_query THEN ts_headline(
+        'english',
+        sp.description,
+        keyword_query,
+        'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+      )
+    END AS search_snippet,
+    CASE WHEN after_cursor IS NULL THEN (SELECT count(*) FROM matches) END AS total_count
+  FROM matches m
+  JOIN service_providers sp ON sp.id = m.provider_id
+  JOIN profiles p ON p.id = sp.id
+  WHERE after_cursor IS NULL
+    OR (m.sort_keys, m.provider_id) > (cursor_keys, cursor_id)
+  ORDER BY m.sort_keys, m.provider_id
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+END;
+$$;
+
+-- Facet counts for the advanced filter panel. Keep the option values in sync
+-- with the filter options in LocationSearchBar.
+CREATE OR REPLACE FUNCTION search_provider_facets(
+  search_lat double precision DEFAULT NULL,
+  search_lng double precision DEFAULT NULL,
+  search_radius_km double precision DEFAULT NULL,
+  search_keyword text DEFAULT NULL,
+  search_service_type text DEFAULT NULL,
+  available_now boolean DEFAULT false,
+  include_outside_area boolean DEFAULT false,
+  min_rating numeric DEFAULT NULL,
+  min_reviews integer DEFAULT NULL,
+  min_experience integer DEFAULT NULL,
+  filter_business_type text DEFAULT NULL,
+  has_portfolio boolean DEFAULT false,
+  has_certifications boolean DEFAULT false,
+  open_on_day text DEFAULT NULL,
+  rated_aspect text DEFAULT NULL,
+  min_aspect_rating numeric DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  WITH candidates AS (
+    SELECT
+      c.*,
+      COALESCE(sp.rating, 0) AS provider_rating,
+      COALESCE(sp.review_count, 0) AS provider_reviews,
+      COALESCE(sp.years_experience, 0) AS provider_experience,
+      sp.business_type AS provider_business_type,
+      COALESCE(cardinality(sp.work_portfolio), 0) > 0 AS provider_has_portfolio,
+      COALESCE(cardinality(sp.certifications), 0) > 0 AS provider_has_certifications,
+      COALESCE(sp.quality_rating, 0) AS provider_quality,
+      COALESCE(sp.punctuality_rating, 0) AS provider_punctuality,
+      COALESCE(sp.value_rating, 0) AS provider_value,
+      COALESCE(sp.communication_rating, 0) AS provider_communication,
+      -- Number of filters passed; a facet option counts rows that pass every
+      -- other filter (passes - own flag = 8)
+      c.pass_rating::int + c.pass_reviews::int + c.pass_experience::int + c.pass_business_type::int
+        + c.pass_portfolio::int + c.pass_certifications::int + c.pass_available::int + c.pass_open_day::int
+        + c.pass_aspect::int AS passes
+    FROM search_provider_candidates(
+      search_lat, search_lng, search_radius_km, search_keyword, search_service_type, available_now,
+      include_outside_area, min_rating, min_reviews, min_experience, filter_business_type, has_portfolio,
+      has_certifications, open_on_day, rated_aspect, min_aspect_rating
+    ) c
+    JOIN service_providers sp ON sp.id = c.provider_id
+  )
+  SELECT jsonb_build_object(
+    'total', count(*) FILTER (WHERE passes = 9),
+    'rating', jsonb_build_object(
+      '3', count(*) FILTER (WHERE passes - pass_rating::int = 8 AND provider_rating >= 3),
+      '4', count(*) FILTER (WHERE passes - pass_rating::int = 8 AND provider_rating >= 4),
+      '4.5', count(*) FILTER (WHERE passes - pass_rating::int = 8 AND provider_rating >= 4.5)
+    ),
+    'reviews', jsonb_build_object(
+      '1', count(*) FILTER (WHERE passes - pass_reviews::int = 8 AND provider_reviews >= 1),
+      '5', count(*) FILTER (WHERE passes - pass_reviews::int = 8 AND provider_reviews >= 5),
+      '10', count(*) FILTER (WHERE passes - pass_reviews::int = 8 AND provider_reviews >= 10)
+    ),
+    'experience', jsonb_build_object(
+      '1', count(*) FILTER (WHERE passes - pass_experience::int = 8 AND provider_experience >= 1),
+      '3', count(*) FILTER (WHERE passes - pass_experience::int = 8 AND provider_experience >= 3),
+      '5', count(*) FILTER (WHERE passes - pass_experience::int = 8 AND provider_experience >= 5),
+      '10', count(*) FILTER (WHERE passes - pass_experience::int = 8 AND provider_experience >= 10)
+    ),
+    'aspects', jsonb_build_object(
+      'quality', jsonb_build_object(
+        '3', count(*) FILTER (WHERE passes - pass_aspect::int = 8 AND provider_quality >= 3),
+        '4', count(*) FILTER (WHERE passes - pass_aspect::int = 8 AND provider_quality >= 4),
+        '4.5', count(*) FILTER (WHERE passes - pass_aspect::int = 8 AND provider_quality >= 4.5)
+      ),
+      'punctuality', jsonb_build_object(
+        '3', count(*) FILTER (WHERE passes - pass_aspect::int = 8 AND provider_punctuality >= 3),
+        '4', count(*) FILTER (WHERE passes - pass_aspect::int = 8 AND provider_punctuality >= 4),
+        '4.5', count(*) FILTER (WHERE passes - pass_aspect::int = 8 AND provider_punctuality >= 4.5)
+      ),
+      'value', jsonb_build_object(
+        '3', count(*) FILTER (WHERE passes - pass_aspect::int = 8 AND provider_value >= 3),
+        '4', count(*) FILTER (WHERE passes - pass_aspect::int = 8 AND provider_value >= 4),
+        '4.5', count(*) FILTER (WHERE passes - pass_aspect::int = 8 AND provider_value >= 4.5)
+      ),
+      'communication', jsonb_build_object(
+        '3', count(*) FILTER (WHERE passes - pass_aspect::int = 8 AND provider_communication >= 3),
+        '4', count(*) FILTER (WHERE passes - pass_aspect::int = 8 AND provider_communication >= 4),
+        '4.5', count(*) FILTER (WHERE passes - pass_aspect::int = 8 AND provider_communication >= 4.5)
+      )
+    ),
+    'business_type', jsonb_build_object(
+      'individual', count(*) FILTER (WHERE passes - pass_business_type::int = 8 AND provider_business_type = 'individual'),
+      'business', count(*) FILTER (WHERE passes - pass_business_type::int = 8 AND provider_business_type = 'business')
+    ),
+    'open_on', jsonb_build_object(
+      'monday', count(*) FILTER (WHERE passes - pass_open_day::int = 8 AND 'monday' = ANY(open_days)),
+      'tuesday', count(*) FILTER (WHERE passes - pass_open_day::int = 8 AND 'tuesday' = ANY(open_days)),
+      'wednesday', count(*) FILTER (WHERE passes - pass_open_day::int = 8 AND 'wednesday' = ANY(open_days)),
+      'thursday', count(*) FILTER (WHERE passes - pass_open_day::int = 8 AND 'thursday' = ANY(open_days)),
+      'friday', count(*) FILTER (WHERE passes - pass_open_day::int = 8 AND 'friday' = ANY(open_days)),
+      'saturday', count(*) FILTER (WHERE passes - pass_open_day::int = 8 AND 'saturday' = ANY(open_days)),
+      'sunday', count(*) FILTER (WHERE passes - pass_open_day::int = 8 AND 'sunday' = ANY(open_days))
+    ),
+    'has_portfolio', count(*) FILTER (WHERE passes - pass_portfolio::int = 8 AND provider_has_portfolio),
+    'has_certifications', count(*) FILTER (WHERE passes - pass_certifications::int = 8 AND provider_has_certifications),
+    'available_now', count(*) FILTER (WHERE passes - pass_available::int = 8 AND is_available_now)
+  )
+  FROM candidates;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION provider_aspect_rating(service_providers, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_provider_candidates(double precision, double precision, double precision, text, text, boolean, boolean, numeric, integer, integer, text, boolean, boolean, text, text, numeric) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_sort_keys(text, boolean, real, double precision, numeric, integer, numeric, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_providers(double precision, double precision, double precision, text, text, boolean, boolean, numeric, integer, integer, text, boolean, boolean, text, text, numeric, text, integer, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_provider_facets(double precision, double precision, double precision, text, text, boolean, boolean, numeric, integer, integer, text, boolean, boolean, text, text, numeric) TO authenticated;
+
+-- Add helpful comments
+COMMENT ON COLUMN ratings.quality_rating IS 'Optional 1-5 score for the quality of the work';
+COMMENT ON COLUMN ratings.punctuality_rating IS 'Optional 1-5 score for turning up and finishing on time';
+COMMENT ON COLUMN ratings.value_rating IS 'Optional 1-5 score for value for money';
+COMMENT ON COLUMN ratings.communication_rating IS 'Optional 1-5 score for communication';
+COMMENT ON FUNCTION provider_aspect_rating(service_providers, text) IS 'The provider''s average for a rating aspect: quality, punctuality, value or communication';
+COMMENT ON FUNCTION search_provider_candidates(double precision, double precision, double precision, text, text, boolean, boolean, numeric, integer, integer, text, boolean, boolean, text, text, numeric) IS 'Providers matching the base search, with a pass flag for each advanced filter';
+COMMENT ON FUNCTION search_sort_keys(text, boolean, real, double precision, numeric, integer, numeric, timestamptz) IS 'Ascending sort keys for relevance, distance, rating, rating aspect or newest ordering';
+COMMENT ON FUNCTION search_providers(double precision, double precision, double precision, text, text, boolean, boolean, numeric, integer, integer, text, boolean, boolean, text, text, numeric, text, integer, jsonb) IS 'Keyset-paginated provider search with advanced filters and selectable sort order';
+COMMENT ON FUNCTION search_provider_facets(double precision, double precision, double precision, text, text, boolean, boolean, numeric, integer, integer, text, boolean, boolean, text, text, numeric) IS 'Match counts for each advanced search filter option';
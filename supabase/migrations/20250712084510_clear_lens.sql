@@ -0,0 +1,95 @@
+/*
+  # Photos on reviews
+
+  1. Storage
+    - Public `review-photos` bucket, so photos show to everyone who can read
+      the review. The bucket enforces a 5 MB size limit and image MIME types
+    - Objects live under `<reviewer id>/<provider id>/`
+
+  2. Schema
+    - `photos` (text[]) on ratings - Object paths in the bucket, at most 4
+
+  3. Security
+    - Reviewers can only upload into their own folder and delete their own
+      photos
+    - `validate_rating_photos` checks that every photo of a review was
+      uploaded into the reviewer's folder for that provider
+*/
+
+-- Create the public bucket
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'review-photos',
+  'review-photos',
+  true,
+  5242880,
+  ARRAY['image/jpeg', 'image/png', 'image/gif', 'image/webp']
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- Storage policies
+DROP POLICY IF EXISTS "Anyone can read review photos" ON storage.objects;
+DROP POLICY IF EXISTS "Reviewers can upload review photos" ON storage.objects;
+DROP POLICY IF EXISTS "Reviewers can delete review photos" ON storage.objects;
+
+CREATE POLICY "Anyone can read review photos"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'review-photos');
+
+CREATE POLICY "Reviewers can upload review photos"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'review-photos'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Reviewers can delete review photos"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'review-photos' AND owner = auth.uid());
+
+-- Add photos column
+ALTER TABLE ratings ADD COLUMN IF NOT EXISTS photos text[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE ratings DROP CONSTRAINT IF EXISTS ratings_photos_limit;
+ALTER TABLE ratings ADD CONSTRAINT ratings_photos_limit CHECK (cardinality(photos) <= 4);
+
+-- Validate review photos
+CREATE OR REPLACE FUNCTION validate_rating_photos()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  photo text;
+BEGIN
+  FOREACH photo IN ARRAY COALESCE(NEW.photos, '{}') LOOP
+    IF photo NOT LIKE NEW.user_id::text || '/' || NEW.provider_id::text || '/%' THEN
+      RAISE EXCEPTION 'Photo does not belong to this review.';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM storage.objects o
+      WHERE o.bucket_id = 'review-photos'
+        AND o.name = photo
+    ) THEN
+      RAISE EXCEPTION 'Photo has not been uploaded.';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_rating_photos_trigger ON ratings;
+CREATE TRIGGER validate_rating_photos_trigger
+  BEFORE INSERT OR UPDATE OF photos ON ratings
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_rating_photos();
+
+-- Add helpful comments
+COMMENT ON COLUMN ratings.photos IS 'Object paths in the review-photos bucket, at most 4';
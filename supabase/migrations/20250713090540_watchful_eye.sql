@@ -0,0 +1,752 @@
+/*
+  # Reporting and moderation
+
+  1. New Tables
+    - `admins` - Users who can work the moderation queue. Managed from the
+      dashboard; clients can't read or change it
+    - `reports` - A user's report of a review or a message
+      - `target_type` (text) - 'rating' or 'message'
+      - `target_id` (uuid) - The reported review or message
+      - `reason` (text) - spam, harassment, hate_speech, inappropriate,
+        personal_info, fake or other
+      - `details` (text) - Optional note from the reporter
+      - `status` (text) - pending, upheld or dismissed
+      - `resolved_by` / `resolved_at` - The admin who decided and when
+
+  2. Schema
+    - `hidden_at` (timestamptz) on ratings and chat_messages - Set when the
+      content is hidden by reports or by an admin
+
+  3. Security
+    - Users can report reviews other than their own and other than reviews
+      of themselves, and messages they received, once per item; they can
+      only read their own reports
+    - Hidden reviews are only visible to their author and to admins, and
+      don't count towards the provider's rating. Their replies are hidden
+      with them
+    - The `review-photos` bucket is now private: photos are read through
+      signed URLs, and only while their review is visible (their uploader
+      and admins can always read them)
+    - Hidden messages come back from the message functions without their
+      content or attachment and are left out of search
+    - Only the moderation functions can set or clear `hidden_at`
+    - Review text can't contain profanity or contact details (email
+      addresses, phone numbers, links). Dates and amounts such as
+      `2024-01-15` or `12 500 000` aren't taken for phone numbers
+
+  4. Functions
+    - `is_admin` tells the signed in user whether they are an admin
+    - `get_report_queue` lists reported items with pending reports, for admins
+    - `resolve_reports` upholds (hides) or dismisses (restores) an item and
+      closes its pending reports, for admins
+
+  5. Triggers
+    - Reviews are hidden automatically once they have 3 pending reports.
+      Only the receiver can report a message, so a message is hidden as
+      soon as it is reported
+*/
+
+-- Create admins table
+CREATE TABLE IF NOT EXISTS admins (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE admins ENABLE ROW LEVEL SECURITY;
+
+-- Whether the signed in user is an admin
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM admins a WHERE a.user_id = auth.uid());
+$$;
+
+-- Add hidden columns
+ALTER TABLE ratings ADD COLUMN IF NOT EXISTS hidden_at timestamptz;
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS hidden_at timestamptz;
+
+-- Create reports table
+CREATE TABLE IF NOT EXISTS reports (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  reporter_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  target_type text NOT NULL CHECK (target_type IN ('rating', 'message')),
+  target_id uuid NOT NULL,
+  reason text NOT NULL CHECK (reason IN ('spam', 'harassment', 'hate_speech', 'inappropriate', 'personal_info', 'fake', 'other')),
+  details text CHECK (details IS NULL OR length(details) <= 500),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'upheld', 'dismissed')),
+  resolved_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  resolved_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (reporter_id, target_type, target_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reports_pending ON reports(target_type, target_id) WHERE status = 'pending';
+
+ALTER TABLE reports ENABLE ROW LEVEL SECURITY;
+
+-- Whether the signed in user may report an item: not their own review or a
+-- review of themselves, and only messages they received
+CREATE OR REPLACE FUNCTION can_report(report_target_type text, report_target_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE report_target_type
+    WHEN 'rating' THEN EXISTS (
+      SELECT 1 FROM ratings r
+      WHERE r.id = report_target_id
+        AND r.user_id <> auth.uid()
+        AND r.provider_id <> auth.uid()
+    )
+    WHEN 'message' THEN EXISTS (
+      SELECT 1 FROM chat_messages m
+      WHERE m.id = report_target_id
+        AND m.receiver_id = auth.uid()
+        AND m.deleted_for_all = false
+    )
+    ELSE false
+  END;
+$$;
+
+DROP POLICY IF EXISTS "Users can read own reports" ON reports;
+DROP POLICY IF EXISTS "Users can report content" ON reports;
+
+CREATE POLICY "Users can read own reports"
+  ON reports FOR SELECT
+  TO authenticated
+  USING (auth.uid() = reporter_id OR is_admin());
+
+CREATE POLICY "Users can report content"
+  ON reports FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = reporter_id
+    AND status = 'pending'
+    AND resolved_by IS NULL
+    AND can_report(target_type, target_id)
+  );
+
+-- Hidden reviews are only visible to their author and admins
+DROP POLICY IF EXISTS "Anyone can read ratings" ON ratings;
+DROP POLICY IF EXISTS "Anyone can read visible ratings" ON ratings;
+
+CREATE POLICY "Anyone can read visible ratings"
+  ON ratings FOR SELECT
+  TO authenticated
+  USING (hidden_at IS NULL OR auth.uid() = user_id OR is_admin());
+
+-- Replies to hidden reviews are hidden with them
+DROP POLICY IF EXISTS "Anyone can read rating replies" ON rating_replies;
+DROP POLICY IF EXISTS "Anyone can read replies to visible ratings" ON rating_replies;
+
+CREATE POLICY "Anyone can read replies to visible ratings"
+  ON rating_replies FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = provider_id
+    OR is_admin()
+    OR EXISTS (
+      SELECT 1 FROM ratings r
+      WHERE r.id = rating_replies.rating_id
+        AND (r.hidden_at IS NULL OR r.user_id = auth.uid())
+    )
+  );
+
+-- So are their photos, which means the bucket can't be public any more
+UPDATE storage.buckets SET public = false WHERE id = 'review-photos';
+
+DROP POLICY IF EXISTS "Anyone can read review photos" ON storage.objects;
+DROP POLICY IF EXISTS "Anyone can read photos of visible reviews" ON storage.objects;
+
+CREATE POLICY "Anyone can read photos of visible reviews"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'review-photos'
+    AND (
+      owner = auth.uid()
+      OR is_admin()
+      OR EXISTS (
+        SELECT 1 FROM ratings r
+        WHERE r.user_id::text = (storage.foldername(objects.name))[1]
+          AND r.provider_id::text = (storage.foldername(objects.name))[2]
+          AND objects.name = ANY (r.photos)
+          AND r.hidden_at IS NULL
+      )
+    )
+  );
+
+-- Hide or restore a reported item
+CREATE OR REPLACE FUNCTION set_reported_content_hidden(report_target_type text, report_target_id uuid, hidden boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Lets the change past keep_hidden_at for the rest of the transaction
+  PERFORM set_config('app.moderating', 'on', true);
+
+  IF report_target_type = 'rating' THEN
+    UPDATE ratings
+    SET hidden_at = CASE WHEN hidden THEN COALESCE(hidden_at, now()) END
+    WHERE id = report_target_id;
+  ELSIF report_target_type = 'message' THEN
+    UPDATE chat_messages
+    SET hidden_at = CASE WHEN hidden THEN COALESCE(hidden_at, now()) END
+    WHERE id = report_target_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_reported_content_hidden(text, uuid, boolean) FROM PUBLIC;
+
+-- Authors keep their update rights, so stop them from clearing hidden_at themselves
+CREATE OR REPLACE FUNCTION keep_hidden_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.hidden_at IS DISTINCT FROM OLD.hidden_at
+    AND current_setting('app.moderating', true) IS DISTINCT FROM 'on' THEN
+    NEW.hidden_at := OLD.hidden_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS keep_rating_hidden_at_trigger ON ratings;
+CREATE TRIGGER keep_rating_hidden_at_trigger
+  BEFORE UPDATE ON ratings
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_hidden_at();
+
+DROP TRIGGER IF EXISTS keep_message_hidden_at_trigger ON chat_messages;
+CREATE TRIGGER keep_message_hidden_at_trigger
+  BEFORE UPDATE ON chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_hidden_at();
+
+-- Hide content automatically once enough people have reported it. Messages
+-- can only be reported by their receiver, so one report hides them
+CREATE OR REPLACE FUNCTION hide_reported_content()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  pending_reports integer;
+BEGIN
+  SELECT count(*) INTO pending_reports
+  FROM reports r
+  WHERE r.target_type = NEW.target_type
+    AND r.target_id = NEW.target_id
+    AND r.status = 'pending';
+
+  IF pending_reports >= CASE NEW.target_type WHEN 'message' THEN 1 ELSE 3 END THEN
+    PERFORM set_reported_content_hidden(NEW.target_type, NEW.target_id, true);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS hide_reported_content_trigger ON reports;
+CREATE TRIGGER hide_reported_content_trigger
+  AFTER INSERT ON reports
+  FOR EACH ROW
+  EXECUTE FUNCTION hide_reported_content();
+
+-- Reported items with pending reports, most reported first
+CREATE OR REPLACE FUNCTION get_report_queue()
+RETURNS TABLE (
+  target_type text,
+  target_id uuid,
+  report_count integer,
+  reasons text[],
+  details text[],
+  first_reported_at timestamptz,
+  last_reported_at timestamptz,
+  content text,
+  rating integer,
+  author_id uuid,
+  author_name text,
+  context_name text,
+  hidden_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view the report queue';
+  END IF;
+
+  RETURN QUERY
+  WITH pending AS (
+    SELECT
+      r.target_type,
+      r.target_id,
+      count(*)::integer AS report_count,
+      array_agg(DISTINCT r.reason) AS reasons,
+      array_remove(array_agg(r.details ORDER BY r.created_at), NULL) AS details,
+      min(r.created_at) AS first_reported_at,
+      max(r.created_at) AS last_reported_at
+    FROM reports r
+    WHERE r.status = 'pending'
+    GROUP BY r.target_type, r.target_id
+  )
+  SELECT
+    p.target_type,
+    p.target_id,
+    p.report_count,
+    p.reasons,
+    p.details,
+    p.first_reported_at,
+    p.last_reported_at,
+    COALESCE(ra.review, m.content),
+    ra.rating,
+    author.id,
+    author.name,
+    -- The reviewed provider, or the receiver of the message
+    COALESCE(sp.business_name, context.name),
+    COALESCE(ra.hidden_at, m.hidden_at)
+  FROM pending p
+  LEFT JOIN ratings ra ON p.target_type = 'rating' AND ra.id = p.target_id
+  LEFT JOIN chat_messages m ON p.target_type = 'message' AND m.id = p.target_id
+  LEFT JOIN profiles author ON author.id = COALESCE(ra.user_id, m.sender_id)
+  LEFT JOIN profiles context ON context.id = COALESCE(ra.provider_id, m.receiver_id)
+  LEFT JOIN service_providers sp ON p.target_type = 'rating' AND sp.id = ra.provider_id
+  -- Reviews and messages deleted since they were reported drop out
+  WHERE ra.id IS NOT NULL OR m.id IS NOT NULL
+  ORDER BY p.report_count DESC, p.last_reported_at DESC;
+END;
+$$;
+
+-- Uphold (hide) or dismiss (restore) a reported item and close its pending reports
+CREATE OR REPLACE FUNCTION resolve_reports(report_target_type text, report_target_id uuid, uphold boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can resolve reports';
+  END IF;
+
+  UPDATE reports
+  SET
+    status = CASE WHEN uphold THEN 'upheld' ELSE 'dismissed' END,
+    resolved_by = auth.uid(),
+    resolved_at = now()
+  WHERE target_type = report_target_type
+    AND target_id = report_target_id
+    AND status = 'pending';
+
+  PERFORM set_reported_content_hidden(report_target_type, report_target_id, uphold);
+END;
+$$;
+
+-- Reject review text with profanity or contact details. Keep the patterns in
+-- sync with src/lib/moderation.ts
+CREATE OR REPLACE FUNCTION review_text_violation(review_text text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN review_text IS NULL THEN NULL
+    WHEN review_text ~* '\m(fuck\w*|shit\w*|bitch\w*|cunt\w*|asshole\w*|bastard\w*|dickhead\w*|wanker\w*|slut\w*|whore\w*)\M' THEN 'profanity'
+    WHEN review_text ~* '[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}' THEN 'contact_info'
+    WHEN review_text ~* '(https?://|www\.)' THEN 'contact_info'
+    -- Every run of 8 or more digits, except dates and amounts with grouped digits
+    WHEN EXISTS (
+      SELECT 1
+      FROM regexp_matches(review_text, '\+?\d[\d\s().-]{6,}\d', 'g') AS phone(candidate)
+      WHERE length(regexp_replace(phone.candidate[1], '\D', '', 'g')) >= 8
+        AND phone.candidate[1] !~ '^(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}[.-]\d{1,2}[.-]\d{4})$'
+        AND phone.candidate[1] !~ '^\d{1,3}([\s.]\d{3})+(\.\d{2})?$'
+    ) THEN 'contact_info'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION validate_review_text()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  CASE review_text_violation(NEW.review)
+    WHEN 'profanity' THEN
+      RAISE EXCEPTION 'Reviews can''t contain offensive language.';
+    WHEN 'contact_info' THEN
+      RAISE EXCEPTION 'Reviews can''t contain email addresses, phone numbers or links.';
+    ELSE
+      RETURN NEW;
+  END CASE;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_review_text_trigger ON ratings;
+CREATE TRIGGER validate_review_text_trigger
+  BEFORE INSERT OR UPDATE OF review ON ratings
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_review_text();
+
+-- Hidden reviews don't count towards the provider's rating
+CREATE OR REPLACE FUNCTION update_provider_rating()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_provider_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    target_provider_id := OLD.provider_id;
+  ELSE
+    target_provider_id := NEW.provider_id;
+  END IF;
+
+  -- AVG skips reviews that didn't score an aspect; hidden reviews don't count
+  UPDATE service_providers sp
+  SET
+    rating = stats.avg_rating,
+    review_count = stats.total_reviews,
+    total_rating_points = stats.total_points,
+    quality_rating = stats.avg_quality,
+    punctuality_rating = stats.avg_punctuality,
+    value_rating = stats.avg_value,
+    communication_rating = stats.avg_communication,
+    updated_at = now()
+  FROM (
+    SELECT
+      COALESCE(ROUND(AVG(r.rating::numeric), 1), 0) AS avg_rating,
+      COUNT(*)::integer AS total_reviews,
+      COALESCE(SUM(r.rating)::integer, 0) AS total_points,
+      ROUND(AVG(r.quality_rating::numeric), 1) AS avg_quality,
+      ROUND(AVG(r.punctuality_rating::numeric), 1) AS avg_punctuality,
+      ROUND(AVG(r.value_rating::numeric), 1) AS avg_value,
+      ROUND(AVG(r.communication_rating::numeric), 1) AS avg_communication
+    FROM ratings r
+    WHERE r.provider_id = target_provider_id
+      AND r.hidden_at IS NULL
+  ) stats
+  WHERE sp.id = target_provider_id;
+
+  RETURN COALESCE(NEW, OLD);
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Log any errors but don't fail the transaction
+    RAISE WARNING 'Error updating provider rating for %: %', target_provider_id, SQLERRM;
+    RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Recreate the message functions; hidden messages lose their content
+DROP FUNCTION IF EXISTS get_conversation_summaries(text, integer, integer);
+
+CREATE OR REPLACE FUNCTION get_conversation_summaries(
+  conversation_filter text DEFAULT 'all',
+  page_size integer DEFAULT 50,
+  page_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  other_user_id uuid,
+  other_user_email text,
+  other_user_name text,
+  other_user_role text,
+  other_user_created_at timestamptz,
+  other_user_profile_image text,
+  other_user_service_type text,
+  other_user_phone text,
+  other_user_address text,
+  id uuid,
+  sender_id uuid,
+  receiver_id uuid,
+  content text,
+  read boolean,
+  created_at timestamptz,
+  message_type text,
+  file_url text,
+  file_name text,
+  file_size integer,
+  delivered_at timestamptz,
+  read_at timestamptz,
+  edited_at timestamptz,
+  reply_to_id uuid,
+  hidden_at timestamptz,
+  unread_count integer,
+  is_starred boolean,
+  is_archived boolean,
+  is_muted boolean,
+  is_pinned boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id uuid := auth.uid();
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN QUERY
+  WITH visible AS (
+    SELECT
+      m.*,
+      CASE WHEN m.sender_id = current_user_id THEN m.receiver_id ELSE m.sender_id END AS other_id
+    FROM chat_messages m
+    WHERE
+      m.deleted_for_all = false
+      AND (
+        (m.sender_id = current_user_id AND m.deleted_for_sender = false) OR
+        (m.receiver_id = current_user_id AND m.deleted_for_receiver = false)
+      )
+  ),
+  latest AS (
+    SELECT DISTINCT ON (v.other_id) v.*
+    FROM visible v
+    ORDER BY v.other_id, v.created_at DESC
+  ),
+  unread AS (
+    SELECT v.other_id, count(*)::integer AS total
+    FROM visible v
+    WHERE v.receiver_id = current_user_id AND v.read = false
+    GROUP BY v.other_id
+  )
+  SELECT
+    p.id,
+    p.email,
+    p.name,
+    p.role,
+    p.created_at,
+    p.profile_image,
+    sp.service_type,
+    sp.phone,
+    sp.address,
+    l.id,
+    l.sender_id,
+    l.receiver_id,
+    CASE WHEN l.hidden_at IS NULL THEN l.content ELSE '' END,
+    l.read,
+    l.created_at,
+    l.message_type,
+    CASE WHEN l.hidden_at IS NULL THEN l.file_url END,
+    CASE WHEN l.hidden_at IS NULL THEN l.file_name END,
+    l.file_size,
+    l.delivered_at,
+    l.read_at,
+    l.edited_at,
+    l.reply_to_id,
+    l.hidden_at,
+    COALESCE(u.total, 0),
+    COALESCE(cp.starred, false),
+    COALESCE(cp.archived, false),
+    COALESCE(cp.muted, false),
+    COALESCE(cp.pinned, false)
+  FROM latest l
+  JOIN profiles p ON p.id = l.other_id
+  LEFT JOIN service_providers sp ON sp.id = l.other_id
+  LEFT JOIN unread u ON u.other_id = l.other_id
+  LEFT JOIN conversation_participants cp
+    ON cp.user_id = current_user_id
+    AND cp.conversation_id = generate_conversation_id(current_user_id, l.other_id)
+  WHERE
+    CASE conversation_filter
+      WHEN 'all' THEN NOT COALESCE(cp.archived, false)
+      WHEN 'unread' THEN NOT COALESCE(cp.archived, false) AND COALESCE(u.total, 0) > 0
+      WHEN 'starred' THEN COALESCE(cp.starred, false)
+      WHEN 'archived' THEN COALESCE(cp.archived, false)
+      ELSE true
+    END
+  ORDER BY COALESCE(cp.pinned, false) DESC, l.created_at DESC
+  LIMIT page_size
+  OFFSET page_offset;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS get_conversation_messages(uuid, uuid, timestamptz, uuid, integer);
+
+CREATE OR REPLACE FUNCTION get_conversation_messages(
+  user1_id uuid,
+  user2_id uuid,
+  before_created_at timestamptz DEFAULT NULL,
+  before_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 50
+)
+RETURNS TABLE (
+  id uuid,
+  sender_id uuid,
+  receiver_id uuid,
+  content text,
+  read boolean,
+  created_at timestamptz,
+  message_type text,
+  file_url text,
+  file_name text,
+  file_size integer,
+  delivered_at timestamptz,
+  read_at timestamptz,
+  edited_at timestamptz,
+  reply_to_id uuid,
+  hidden_at timestamptz,
+  reply_to_sender_id uuid,
+  reply_to_content text,
+  reply_to_message_type text,
+  reply_to_file_name text,
+  reply_to_deleted boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cursor_created_at timestamptz := before_created_at;
+  page_limit integer := LEAST(GREATEST(page_size, 1), 100);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Users can only page through their own conversations
+  IF user1_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  -- The client only has millisecond timestamps; use the stored one when the cursor message still exists
+  IF before_id IS NOT NULL THEN
+    SELECT c.created_at INTO cursor_created_at
+    FROM chat_messages c
+    WHERE c.id = before_id;
+
+    cursor_created_at := COALESCE(cursor_created_at, before_created_at);
+  END IF;
+
+  RETURN QUERY
+  SELECT page.*
+  FROM (
+    SELECT
+      m.id,
+      m.sender_id,
+      m.receiver_id,
+      CASE WHEN m.hidden_at IS NULL THEN m.content ELSE '' END,
+      m.read,
+      m.created_at,
+      m.message_type,
+      CASE WHEN m.hidden_at IS NULL THEN m.file_url END,
+      CASE WHEN m.hidden_at IS NULL THEN m.file_name END,
+      m.file_size,
+      m.delivered_at,
+      m.read_at,
+      m.edited_at,
+      m.reply_to_id,
+      m.hidden_at,
+      r.sender_id AS reply_to_sender_id,
+      CASE WHEN r.hidden_at IS NULL THEN r.content ELSE '' END AS reply_to_content,
+      r.message_type AS reply_to_message_type,
+      CASE WHEN r.hidden_at IS NULL THEN r.file_name END AS reply_to_file_name,
+      m.reply_to_id IS NOT NULL AND r.id IS NULL AS reply_to_deleted
+    FROM chat_messages m
+    LEFT JOIN chat_messages r
+      ON r.id = m.reply_to_id
+      AND r.deleted_for_all = false
+    WHERE
+      (
+        (m.sender_id = user1_id AND m.receiver_id = user2_id AND m.deleted_for_sender = false) OR
+        (m.sender_id = user2_id AND m.receiver_id = user1_id AND m.deleted_for_receiver = false)
+      )
+      AND m.deleted_for_all = false
+      AND (
+        cursor_created_at IS NULL OR
+        (m.created_at, m.id) < (cursor_created_at, COALESCE(before_id, 'ffffffff-ffff-ffff-ffff-ffffffffffff'::uuid))
+      )
+    ORDER BY m.created_at DESC, m.id DESC
+    LIMIT page_limit
+  ) page
+  ORDER BY page.created_at ASC, page.id ASC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION search_messages(
+  search_query text,
+  other_user uuid DEFAULT NULL,
+  page_size integer DEFAULT 30
+)
+RETURNS TABLE (
+  message_id uuid,
+  other_user_id uuid,
+  other_user_name text,
+  sender_id uuid,
+  snippet text,
+  created_at timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id uuid := auth.uid();
+  search_tsquery tsquery := websearch_to_tsquery('english', search_query);
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.id,
+    p.id,
+    p.name,
+    m.sender_id,
+    ts_headline(
+      'english',
+      m.content,
+      search_tsquery,
+      'StartSel="' || chr(2) || '", StopSel="' || chr(3) || '", MaxWords=20, MinWords=8, MaxFragments=1'
+    ),
+    m.created_at
+  FROM chat_messages m
+  JOIN profiles p
+    ON p.id = CASE WHEN m.sender_id = current_user_id THEN m.receiver_id ELSE m.sender_id END
+  WHERE
+    to_tsvector('english', m.content) @@ search_tsquery
+    AND COALESCE(m.message_type, 'text') = 'text'
+    AND m.deleted_for_all = false
+    AND m.hidden_at IS NULL
+    AND (
+      (m.sender_id = current_user_id AND m.deleted_for_sender = false) OR
+      (m.receiver_id = current_user_id AND m.deleted_for_receiver = false)
+    )
+    AND (other_user IS NULL OR p.id = other_user)
+  ORDER BY m.created_at DESC
+  LIMIT page_size;
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT SELECT, INSERT ON reports TO authenticated;
+GRANT EXECUTE ON FUNCTION is_admin() TO authenticated;
+GRANT EXECUTE ON FUNCTION can_report(text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_report_queue() TO authenticated;
+GRANT EXECUTE ON FUNCTION resolve_reports(text, uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_conversation_summaries(text, integer, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_conversation_messages(uuid, uuid, timestamptz, uuid, integer) TO authenticated;
+
+-- Add helpful comments
+COMMENT ON TABLE admins IS 'Users who can work the moderation queue; managed from the dashboard';
+COMMENT ON TABLE reports IS 'User reports of reviews and messages; 3 pending reports hide a review and 1 hides a message until an admin decides';
+COMMENT ON COLUMN ratings.hidden_at IS 'When the review was hidden by reports or an admin; hidden reviews are only shown to their author';
+COMMENT ON COLUMN chat_messages.hidden_at IS 'When the message was hidden by reports or an admin; its content is no longer returned';
+COMMENT ON FUNCTION get_report_queue() IS 'Reported reviews and messages with pending reports, for admins';
+COMMENT ON FUNCTION resolve_reports(text, uuid, boolean) IS 'Uphold (hide) or dismiss (restore) a reported item and close its pending reports, for admins';
+COMMENT ON FUNCTION review_text_violation(text) IS 'profanity or contact_info when review text breaks the rules, otherwise NULL';